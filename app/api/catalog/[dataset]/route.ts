@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CURRENT_SEMESTER } from "@/lib/constants";
+import {
+  hasCatalogTerm,
+  loadCatalogDataset,
+  loadCourses,
+  loadLessons,
+} from "@/lib/catalog";
+import { CatalogValidationError } from "@/lib/catalog-schema";
+import { CatalogDataset, isCatalogDataset } from "@/lib/catalog-terms";
+import {
+  findCatalogCourseByNormalizedCode,
+  findLessonById,
+  findLessonsForCourse,
+  searchCatalogCourses,
+} from "@/lib/catalog-index";
+import { Lesson } from "@/lib/lessons";
+import { createLogger, startRequest } from "@/lib/logger";
+
+const log = createLogger("catalog");
+
+const DEFAULT_SEARCH_RESULTS = 20;
+const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Answers course queries from the index:
+ *   ?code=BLG 101E  a single course
+ *   ?q=veri&limit=20  search by code or name
+ */
+async function queryCourses(term: string, searchParams: URLSearchParams) {
+  const courses = await loadCourses(term);
+
+  const code = searchParams.get("code");
+  if (code) {
+    const course = findCatalogCourseByNormalizedCode(courses, code);
+    return course
+      ? NextResponse.json(course)
+      : NextResponse.json(
+          { error: `Course ${code} not found` },
+          { status: 404 }
+        );
+  }
+
+  const query = searchParams.get("q") || "";
+  const limit = Math.max(
+    Math.min(
+      parseInt(searchParams.get("limit") || "") || DEFAULT_SEARCH_RESULTS,
+      MAX_SEARCH_RESULTS
+    ),
+    1
+  );
+  return NextResponse.json(searchCatalogCourses(courses, query, limit));
+}
+
+/**
+ * Answers lesson queries from the index:
+ *   ?course=BLG 101E&course=MAT 281E  sections of the given courses
+ *   ?id=10001&id=10002  sections by lesson id (CRN)
+ */
+async function queryLessons(term: string, searchParams: URLSearchParams) {
+  const { lessons } = await loadLessons(term);
+
+  const lessonsById = searchParams
+    .getAll("id")
+    .map((id) => findLessonById(lessons, id))
+    .filter((lesson): lesson is Lesson => lesson !== undefined);
+  const lessonsByCourse = searchParams
+    .getAll("course")
+    .flatMap((code) => findLessonsForCourse(lessons, code));
+
+  return NextResponse.json([...new Set([...lessonsById, ...lessonsByCourse])]);
+}
+
+const hasQuery = (dataset: CatalogDataset, searchParams: URLSearchParams) =>
+  (dataset === "courses" &&
+    (searchParams.has("code") || searchParams.has("q"))) ||
+  (dataset === "lessons" &&
+    (searchParams.has("id") || searchParams.has("course")));
+
+/**
+ * Returns a catalog dataset (courses, lessons, course-equivalences or term)
+ * for the term in ?term=, defaulting to the current semester. Courses and lessons
+ * can be queried instead of downloaded in full.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ dataset: string }> }
+) {
+  startRequest("GetCatalog");
+  const { dataset } = await params;
+  if (!isCatalogDataset(dataset)) {
+    return NextResponse.json(
+      { error: `Unknown catalog dataset "${dataset}"` },
+      { status: 404 }
+    );
+  }
+
+  const { searchParams } = request.nextUrl;
+  const term = searchParams.get("term") || CURRENT_SEMESTER;
+
+  try {
+    if (!(await hasCatalogTerm(term))) {
+      return NextResponse.json(
+        { error: `No catalog data for term "${term}"` },
+        { status: 404 }
+      );
+    }
+    if (hasQuery(dataset, searchParams)) {
+      return dataset === "courses"
+        ? await queryCourses(term, searchParams)
+        : await queryLessons(term, searchParams);
+    }
+    return NextResponse.json(await loadCatalogDataset(dataset, term));
+  } catch (error) {
+    log.error("Error loading catalog", { dataset, term, error });
+    const message =
+      error instanceof CatalogValidationError
+        ? error.message
+        : `Failed to load ${dataset}`;
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { GetPlan, GetTranscript } from "@/lib/actions";
+import {
+  loadCourseEquivalences,
+  loadCourses,
+  loadLessons,
+} from "@/lib/catalog";
+import { findLessonById } from "@/lib/catalog-index";
+import { CURRENT_SEMESTER } from "@/lib/constants";
+import { isSameTerm } from "@/lib/academic";
+import { auditGraduation } from "@/lib/audit";
+import { Lesson } from "@/lib/lessons";
+import { renderPlanReport } from "@/lib/plan-report";
+import { createLogger, startRequest } from "@/lib/logger";
+
+const log = createLogger("export");
+
+/**
+ * Returns the signed-in user's saved plan as a PDF for advisors: GPA summary,
+ * semesters with grades, remaining requirements and the timetable of the
+ * current term. ?semester= sets the semester the summary is calculated up to.
+ */
+export async function GET(request: NextRequest) {
+  startRequest("ExportPlan");
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const [transcriptResult, planResult, courses, equivalences, lessonsFile] =
+      await Promise.all([
+        GetTranscript(),
+        GetPlan(),
+        loadCourses(),
+        loadCourseEquivalences(),
+        loadLessons(),
+      ]);
+
+    if (!transcriptResult.success) {
+      return NextResponse.json(
+        { error: transcriptResult.error, code: transcriptResult.errorCode },
+        { status: 502 }
+      );
+    }
+    if (!transcriptResult.exists) {
+      return NextResponse.json(
+        { error: "No transcript found" },
+        { status: 404 }
+      );
+    }
+    const transcript = transcriptResult.courses;
+
+    // Sections picked for courses of the current term
+    const lessons = transcript
+      .filter(
+        (course) =>
+          course.lesson_id && isSameTerm(course.semester, CURRENT_SEMESTER)
+      )
+      .map((course) => findLessonById(lessonsFile.lessons, course.lesson_id!))
+      .filter((lesson): lesson is Lesson => lesson !== undefined);
+
+    const referenceSemester =
+      request.nextUrl.searchParams.get("semester") || null;
+    const user = await currentUser();
+
+    const pdf = renderPlanReport({
+      transcript,
+      equivalences,
+      referenceSemester,
+      audit: planResult.plan
+        ? auditGraduation(planResult.plan, transcript, {
+            courses,
+            equivalences,
+            referenceSemester,
+          })
+        : null,
+      timetable: { semester: CURRENT_SEMESTER, lessons },
+      studentName: user
+        ? [user.firstName, user.lastName].filter(Boolean).join(" ")
+        : null,
+    });
+
+    return new NextResponse(Buffer.from(pdf, "latin1"), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": 'attachment; filename="foritu-plan.pdf"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    log.error("Error exporting plan", { error });
+    return NextResponse.json(
+      { error: "Failed to export plan" },
+      { status: 500 }
+    );
+  }
+}
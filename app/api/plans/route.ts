@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { loadPlansCatalogue } from "@/lib/catalog";
+import { CatalogValidationError } from "@/lib/catalog-schema";
+import { createLogger, startRequest } from "@/lib/logger";
+
+const log = createLogger("catalog");
+
+/**
+ * Returns the curriculum plans catalogue used by the plan selection modal.
+ */
+export async function GET() {
+  startRequest("GetPlans");
+  try {
+    return NextResponse.json(await loadPlansCatalogue());
+  } catch (error) {
+    log.error("Error loading plans", { error });
+    const message =
+      error instanceof CatalogValidationError
+        ? error.message
+        : "Failed to load plans";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
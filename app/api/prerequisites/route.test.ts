@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { POST } from "@/app/api/prerequisites/route";
+
+const session = vi.hoisted(() => ({ userId: "user_1" as string | null }));
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: async () => ({ userId: session.userId }),
+  currentUser: async () => null,
+}));
+
+beforeEach(() => {
+  session.userId = "user_1";
+});
+
+const post = (body: unknown) =>
+  POST(
+    new NextRequest("http://localhost/api/prerequisites", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+
+describe("POST /api/prerequisites", () => {
+  it("requires a signed-in user", async () => {
+    session.userId = null;
+    const response = await post({ courseCode: "BLG 102E", transcript: [] });
+    expect(response.status).toBe(401);
+  });
+
+  it.each([null, "BLG 102E", []])("rejects a %j body", async (body) => {
+    const response = await post(body);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Expected a JSON object" });
+  });
+
+  it("rejects a null transcript entry", async () => {
+    const response = await post({ courseCode: "BLG 102E", transcript: [null] });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "transcript[0]: expected an object",
+    });
+  });
+
+  it("names the missing field of an entry", async () => {
+    const response = await post({
+      courseCode: "BLG 102E",
+      transcript: [
+        { code: "BLG 101E", semester: "2023-2024 Güz Dönemi", grade: "AA" },
+        { code: "MAT 103", semester: "2023-2024 Güz Dönemi" },
+      ],
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "transcript[1].grade: expected a string",
+    });
+  });
+
+  it("rejects a reference semester that is not a string", async () => {
+    const response = await post({
+      courseCode: "BLG 102E",
+      transcript: [],
+      referenceSemester: 3,
+    });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AttemptLike } from "@/lib/academic";
+import { AuthError, requireUserId } from "@/lib/auth";
+import { loadCourseEquivalences, loadCourses } from "@/lib/catalog";
+import { evaluatePrerequisites } from "@/lib/prerequisites";
+
+interface PrerequisiteRequest {
+  courseCode: string;
+  transcript: AttemptLike[];
+  referenceSemester?: string | null;
+}
+
+/**
+ * Evaluates the prerequisites of a course against a transcript and returns
+ * the per-group explanation. Like the server actions, it is only available
+ * to signed-in users.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireUserId();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+    throw error;
+  }
+
+  let body: PrerequisiteRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: "Expected a JSON object" },
+      { status: 400 }
+    );
+  }
+  if (typeof body.courseCode !== "string" || !Array.isArray(body.transcript)) {
+    return NextResponse.json(
+      { error: "courseCode and transcript are required" },
+      { status: 400 }
+    );
+  }
+  if (
+    body.referenceSemester !== undefined &&
+    body.referenceSemester !== null &&
+    typeof body.referenceSemester !== "string"
+  ) {
+    return NextResponse.json(
+      { error: "referenceSemester: expected a string" },
+      { status: 400 }
+    );
+  }
+  const transcriptError = validateTranscript(body.transcript);
+  if (transcriptError) {
+    return NextResponse.json({ error: transcriptError }, { status: 400 });
+  }
+
+  const [courses, equivalences] = await Promise.all([
+    loadCourses(),
+    loadCourseEquivalences(),
+  ]);
+
+  const evaluation = evaluatePrerequisites(
+    body.transcript,
+    body.courseCode,
+    body.referenceSemester,
+    { courses, equivalences }
+  );
+
+  return NextResponse.json(evaluation);
+}
+
+// Helper function to describe the first transcript entry the evaluator
+// cannot use, or return null when every entry is an attempt
+function validateTranscript(transcript: unknown[]): string | null {
+  for (let index = 0; index < transcript.length; index++) {
+    const attempt = transcript[index];
+    if (typeof attempt !== "object" || attempt === null) {
+      return `transcript[${index}]: expected an object`;
+    }
+    for (const field of ["code", "semester", "grade"] as const) {
+      if (typeof (attempt as Record<string, unknown>)[field] !== "string") {
+        return `transcript[${index}].${field}: expected a string`;
+      }
+    }
+  }
+  return null;
+}
@@ -1,22 +1,58 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { useUser } from "@clerk/nextjs";
 import SemesterPanel from "@/components/SemesterPanel";
 import CoursePopup from "@/components/CoursePopup";
 import PlanSelectionModal from "@/components/PlanSelectionModal";
 import LessonCalendar from "@/components/LessonCalendar";
+import ScheduleGenerator, {
+  LessonAssignment,
+} from "@/components/ScheduleGenerator";
 import ProgressStats from "@/components/ProgressStats";
 import CourseLegend from "@/components/CourseLegend";
 import SemesterGrid from "@/components/SemesterGrid";
+import GraduationAudit from "@/components/GraduationAudit";
+import GpaSimulator from "@/components/GpaSimulator";
 import JsonPreview from "@/components/JsonPreview";
 import TabNavigation, { TabType } from "@/components/TabNavigation";
+import TranscriptReviewModal from "@/components/TranscriptReviewModal";
+import ChangeHistory from "@/components/ChangeHistory";
+import { GetTranscript, GetPlan, TranscriptCourse } from "@/lib/actions";
+import { getErrorMessage } from "@/lib/errors";
+import { hasDroppedRecords } from "@/lib/user-data-schema";
 import {
-  parseTranscriptFromBase64,
-  GetTranscript,
-  StoreTranscript,
-  GetPlan,
-} from "@/lib/actions";
+  getNextPlannedSemester,
+  getTranscriptSemesters,
+  getTranscriptUpToSemester,
+} from "@/lib/academic";
+import { inferProgramCode } from "@/lib/lessons";
+import { getStudentProfile } from "@/lib/profile";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import { fetchCatalogDataset } from "@/lib/catalog-client";
+import { findCatalogCourse } from "@/lib/catalog-index";
+import {
+  TranscriptDiff,
+  createTranscriptMergeCommand,
+  diffTranscripts,
+} from "@/lib/transcript-merge";
+import {
+  EditCommand,
+  EditHistory,
+  createBatchCommand,
+  createEditHistory,
+  createRevertCommand,
+  isCommandReverted,
+  recordCommand,
+  redoHistory,
+  undoHistory,
+} from "@/lib/edit-history";
+import {
+  createAddAttemptCommand,
+  createDeleteAttemptCommand,
+  createRemoveAttemptsCommand,
+  createUpdateAttemptCommand,
+} from "@/lib/transcript-commands";
 
 interface Course {
   type: "course";
@@ -96,9 +132,8 @@ export default function Home() {
   const [isSelectedElective, setIsSelectedElective] = useState(false);
   const [hasWarningIcon, setHasWarningIcon] = useState(false);
   const [coursesData, setCoursesData] = useState<CourseInfo[]>([]);
-  const [courseMappings, setCourseMappings] = useState<
-    Record<string, string[]>
-  >({});
+  const [courseEquivalences, setCourseEquivalences] =
+    useState<CourseEquivalenceGroups>([]);
   const [transcript, setTranscript] = useState<TranscriptItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isPlanLoading, setIsPlanLoading] = useState(false);
@@ -117,6 +152,16 @@ export default function Home() {
   const [isSaving, setIsSaving] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>("semesters");
   const [selectedLessons, setSelectedLessons] = useState<SelectedLesson[]>([]);
+  const [transcriptReview, setTranscriptReview] =
+    useState<TranscriptDiff | null>(null);
+  // Shown when the saved plan or transcript could not be loaded
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Saved records that could not be read and were left out
+  const [droppedRecords, setDroppedRecords] = useState<string[]>([]);
+  // Edits since the last save, for undo/redo and the change list
+  const [editHistory, setEditHistory] = useState<EditHistory<TranscriptItem[]>>(
+    createEditHistory()
+  );
 
   // Ensure activeTab is valid for current environment
   useEffect(() => {
@@ -135,14 +180,15 @@ export default function Home() {
     const loadCoursesData = async () => {
       try {
         // Load courses data
-        const coursesResponse = await fetch("/courses.json");
-        const coursesData = await coursesResponse.json();
+        const coursesData = await fetchCatalogDataset<CourseInfo[]>("courses");
         setCoursesData(coursesData);
 
-        // Load course mappings
-        const mappingsResponse = await fetch("/course-mappings.json");
-        const mappingsData = await mappingsResponse.json();
-        setCourseMappings(mappingsData);
+        // Load course equivalences
+        const equivalencesData =
+          await fetchCatalogDataset<CourseEquivalenceGroups>(
+            "course-equivalences"
+          );
+        setCourseEquivalences(equivalencesData);
       } catch (error) {
         console.error("Error loading courses data:", error);
       }
@@ -155,7 +201,14 @@ export default function Home() {
       if (user?.id) {
         try {
           console.log("Client: Loading user plan first...");
-          const result = await GetPlan(user.id);
+          const result = await GetPlan();
+
+          if (hasDroppedRecords(result.report)) {
+            setDroppedRecords((records) => [
+              ...records,
+              ...result.report!.dropped,
+            ]);
+          }
 
           if (result.success && result.plan) {
             // Convert PlanCourse[][] back to SemesterItem[][]
@@ -180,6 +233,12 @@ export default function Home() {
             setSelectedPlan(convertedPlan);
             setPlanLoaded(true);
             console.log("Client: Plan loaded successfully");
+          } else if (!result.success) {
+            // Leave planLoaded unset so the plan picker does not open over a
+            // plan that may exist
+            console.error("Client: Failed to load plan:", result.error);
+            setSelectedPlan([]);
+            setLoadError(getErrorMessage(result));
           } else {
             setSelectedPlan([]); // Use empty array if no plan found
             setPlanLoaded(true);
@@ -203,12 +262,23 @@ export default function Home() {
       if (user?.id) {
         try {
           console.log("Client: Loading user transcript after plan...");
-          const result = await GetTranscript(user.id);
+          const result = await GetTranscript();
+          if (hasDroppedRecords(result.report)) {
+            setDroppedRecords((records) => [
+              ...records,
+              ...result.report!.dropped,
+            ]);
+          }
 
           if (result.success && result.courses.length > 0) {
             setTranscript(result.courses);
             // Initialize last saved transcript to current state
             setLastSavedTranscript(result.courses);
+          } else if (!result.success) {
+            console.error("Client: Failed to load transcript:", result.error);
+            setTranscript([]);
+            setLastSavedTranscript([]);
+            setLoadError(getErrorMessage(result));
           } else {
             setTranscript([]); // Use empty array instead of static data
             setLastSavedTranscript([]);
@@ -229,6 +299,8 @@ export default function Home() {
     const initializeData = async () => {
       // Set loading state at the very beginning
       setIsLoading(true);
+      setLoadError(null);
+      setDroppedRecords([]);
 
       await loadCoursesData();
 
@@ -282,9 +354,7 @@ export default function Home() {
     const actualCourseCode = codeToUse;
 
     // Get course info from courses.json using the actual course code with space
-    const courseInfo = coursesData.find(
-      (course) => course.code === actualCourseCode
-    );
+    const courseInfo = findCatalogCourse(coursesData, actualCourseCode);
 
     if (!courseInfo) {
       console.error("Course not found in courses.json:", actualCourseCode);
@@ -311,23 +381,23 @@ export default function Home() {
     };
 
     console.log("Adding new course to transcript:", newCourse);
-    setTranscript((prev) => {
-      const updated = [...prev, newCourse];
-      console.log("Updated transcript:", updated);
-      return updated;
-    });
+    runCommand(
+      createAddAttemptCommand(
+        `Added ${actualCourseCode} to ${selectedSemester}`,
+        newCourse
+      )
+    );
   };
 
   const deleteAttempt = (courseCode: string, semester: string) => {
-    setTranscript((prev) => {
-      const updated = prev.filter(
-        (attempt) =>
-          !(attempt.code === courseCode && attempt.semester === semester)
-      );
-      console.log("Deleted attempt:", { courseCode, semester });
-      console.log("Updated transcript:", updated);
-      return updated;
-    });
+    console.log("Deleted attempt:", { courseCode, semester });
+    runCommand(
+      createDeleteAttemptCommand<TranscriptItem>(
+        `Removed ${courseCode} from ${semester}`,
+        semester,
+        courseCode
+      )
+    );
   };
 
   const updateGrade = (
@@ -335,16 +405,14 @@ export default function Home() {
     semester: string,
     newGrade: string
   ) => {
-    setTranscript((prev) => {
-      const updated = prev.map((attempt) =>
-        attempt.code === courseCode && attempt.semester === semester
-          ? { ...attempt, grade: newGrade }
-          : attempt
-      );
-      console.log("Updated grade:", { courseCode, semester, newGrade });
-      console.log("Updated transcript:", updated);
-      return updated;
-    });
+    runCommand(
+      createUpdateAttemptCommand<TranscriptItem>(
+        `Set ${courseCode} grade to ${newGrade} in ${semester}`,
+        semester,
+        courseCode,
+        { grade: newGrade }
+      )
+    );
   };
 
   const updateSelectedLessons = (
@@ -352,25 +420,98 @@ export default function Home() {
     semester: string,
     lessonId: string | undefined
   ) => {
-    setTranscript((prev) => {
-      const updated = prev.map((attempt) =>
-        attempt.code === courseCode && attempt.semester === semester
-          ? {
-              ...attempt,
-              lesson_id: lessonId,
-            }
-          : attempt
-      );
-      console.log("Updated lesson_id:", {
-        courseCode,
-        semester,
-        lesson_id: lessonId,
-      });
-      console.log("Updated transcript:", updated);
-      return updated;
+    console.log("Updated lesson_id:", {
+      courseCode,
+      semester,
+      lesson_id: lessonId,
     });
+    runCommand(
+      createUpdateAttemptCommand<TranscriptItem>(
+        lessonId
+          ? `Selected section ${lessonId} for ${courseCode}`
+          : `Cleared the section of ${courseCode}`,
+        semester,
+        courseCode,
+        { lesson_id: lessonId }
+      )
+    );
+  };
+
+  // Helper function to apply a generated schedule in a single update
+  const applyLessonSchedule = (assignments: LessonAssignment[]) => {
+    runCommand(
+      createBatchCommand(
+        `Applied generated schedule (${assignments.length} sections)`,
+        assignments.map((assignment) =>
+          createUpdateAttemptCommand<TranscriptItem>(
+            `Selected section ${assignment.lessonId} for ${assignment.code}`,
+            assignment.semester,
+            assignment.code,
+            { lesson_id: assignment.lessonId }
+          )
+        )
+      )
+    );
+  };
+
+  // Helper function to apply an edit and record it for undo
+  const runCommand = (command: EditCommand<TranscriptItem[]>) => {
+    setTranscript((prev) => command.apply(prev));
+    setEditHistory((prev) => recordCommand(prev, command));
   };
 
+  // Stable between edits, so the shortcut listener is only re-added when the
+  // history changes
+  const handleUndo = useCallback(() => {
+    const result = undoHistory(editHistory);
+    if (!result) return;
+    setTranscript((prev) => result.command.revert(prev));
+    setEditHistory(result.history);
+  }, [editHistory]);
+
+  const handleRedo = useCallback(() => {
+    const result = redoHistory(editHistory);
+    if (!result) return;
+    setTranscript((prev) => result.command.apply(prev));
+    setEditHistory(result.history);
+  }, [editHistory]);
+
+  // Revert a single earlier edit, keeping the edits made after it. An edit
+  // that was already reverted is left alone, so it is not reverted twice.
+  const handleRevertCommand = (id: string) => {
+    const command = editHistory.past.find((c) => c.id === id);
+    if (!command || isCommandReverted(editHistory, command.id)) return;
+    runCommand(createRevertCommand(command));
+  };
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Leave undo inside text fields to the browser
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
   // Helper function to handle lesson selection
   const handleLessonSelect = (lesson: SelectedLesson) => {
     setSelectedLessons((prev) => [...prev, lesson]);
@@ -396,127 +537,23 @@ export default function Home() {
     setSelectedSemester(semesterName);
   };
 
-  // Handle transcript upload
-  const handleTranscriptUpload = async (file: File) => {
-    try {
-      // Convert file to base64
-      const base64 = await convertFileToBase64(file);
-
-      // Call server action to parse transcript
-      const result = await parseTranscriptFromBase64(base64);
-
-      if (result.error) {
-        alert(`Error parsing transcript: ${result.error}`);
-        return;
-      }
-
-      if (result.courses.length > 0) {
-        // Convert server response courses to local format and add to transcript
-        const newCourses: TranscriptItem[] = result.courses.map((course) => ({
-          semester: course.semester,
-          code: course.code,
-          name: course.name,
-          credits: course.credits,
-          grade: course.grade,
-        }));
-
-        const updatedTranscript = [...transcript, ...newCourses];
-        setTranscript(updatedTranscript);
-
-        // Store the updated transcript via API
-        if (user?.id) {
-          try {
-            const storeResult = await StoreTranscript(user.id, result.courses);
-            if (storeResult.success) {
-              console.log(
-                "Client: Transcript stored successfully:",
-                storeResult.message
-              );
-            } else {
-              console.error(
-                "Client: Failed to store transcript:",
-                storeResult.error
-              );
-              alert(
-                "Warning: Transcript parsed but failed to save to server. Please try again."
-              );
-            }
-          } catch (error) {
-            console.error("Client: Error storing transcript:", error);
-            alert(
-              "Warning: Transcript parsed but failed to save to server. Please try again."
-            );
-          }
-        }
-
-        // Successfully parsed courses - no alert needed
-      } else {
-        alert(
-          "No courses found in the transcript. Please check if the file contains valid transcript data."
-        );
-      }
-    } catch (error) {
-      console.error("Client: Upload error:", error);
-      alert("Failed to upload and parse transcript. Please try again.");
-      throw error;
-    }
+  // Handle a re-imported transcript: compare it with the current one and let
+  // the student review the differences instead of appending duplicates
+  const handleTranscriptUpload = async (courses: TranscriptCourse[]) => {
+    setTranscriptReview(diffTranscripts(transcript, courses));
   };
 
-  // Convert file to base64 with UTF-8 encoding
-  const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const base64String = reader.result as string;
-        // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
-        const base64Data = base64String.split(",")[1];
-
-        // For UTF-8 encoding, we can also try reading as text first if it's a text file
-        if (file.type === "text/plain" || file.name.endsWith(".txt")) {
-          const textReader = new FileReader();
-          textReader.readAsText(file, "UTF-8");
-          textReader.onload = () => {
-            const textContent = textReader.result as string;
-            const utf8Base64 = btoa(unescape(encodeURIComponent(textContent)));
-            resolve(utf8Base64);
-          };
-          textReader.onerror = (error) => reject(error);
-        } else {
-          // For binary files like PDF, the base64 is already properly encoded
-          resolve(base64Data);
-        }
-      };
-      reader.onerror = (error) => reject(error);
-    });
+  // Apply the accepted changes; they are saved with the other unsaved changes
+  const applyTranscriptReview = (acceptedIds: Set<string>) => {
+    if (!transcriptReview) return;
+    runCommand(createTranscriptMergeCommand(transcriptReview, acceptedIds));
+    setTranscriptReview(null);
   };
 
   // Add new semester to transcript
   const addNewSemester = () => {
-    // Get all existing semesters and sort them chronologically
-    const existingSemesters = [
-      ...new Set(transcript.map((item) => item.semester)),
-    ];
-    const sortedSemesters = existingSemesters.sort((a, b) => {
-      const getYear = (semester: string) => {
-        const yearMatch = semester.match(/(\d{4})/);
-        return yearMatch ? parseInt(yearMatch[1]) : 0;
-      };
-
-      const getSemesterOrder = (semester: string) => {
-        if (semester.includes("Güz")) return 1;
-        if (semester.includes("Bahar")) return 2;
-        if (semester.includes("Yaz")) return 3;
-        return 0;
-      };
-
-      const yearA = getYear(a);
-      const yearB = getYear(b);
-
-      if (yearA !== yearB) return yearA - yearB;
-
-      return getSemesterOrder(a) - getSemesterOrder(b);
-    });
+    // Get all existing semesters sorted chronologically
+    const sortedSemesters = getTranscriptSemesters(transcript);
 
     if (sortedSemesters.length === 0) {
       // If no semesters exist, start with 2024-2025 Güz Dönemi
@@ -529,36 +566,17 @@ export default function Home() {
         credits: "0",
         grade: "--",
       };
-      const updatedTranscript = [...transcript, placeholderCourse];
-      setTranscript(updatedTranscript);
+      runCommand(
+        createAddAttemptCommand(`Added ${newSemester}`, placeholderCourse)
+      );
       return;
     }
 
     // Get the latest semester
     const latestSemester = sortedSemesters[sortedSemesters.length - 1];
 
-    // Extract year and semester type from the latest semester
-    const yearMatch = latestSemester.match(/(\d{4})-(\d{4})/);
-    if (!yearMatch) return;
-
-    const startYear = parseInt(yearMatch[1]);
-    const endYear = parseInt(yearMatch[2]);
-
-    let newStartYear = startYear;
-    let newEndYear = endYear;
-    let newSemesterType = "";
-
-    if (latestSemester.includes("Güz")) {
-      newSemesterType = "Bahar";
-    } else if (latestSemester.includes("Bahar")) {
-      newSemesterType = "Yaz";
-    } else if (latestSemester.includes("Yaz")) {
-      newSemesterType = "Güz";
-      newStartYear = startYear + 1;
-      newEndYear = endYear + 1;
-    }
-
-    const newSemester = `${newStartYear}-${newEndYear} ${newSemesterType} Planı`;
+    const newSemester = getNextPlannedSemester(latestSemester);
+    if (!newSemester) return;
 
     // Add a placeholder course to make the semester appear in the list
     const placeholderCourse: TranscriptItem = {
@@ -570,96 +588,54 @@ export default function Home() {
     };
 
     // Update transcript state with the new semester
-    const updatedTranscript = [...transcript, placeholderCourse];
-    setTranscript(updatedTranscript);
+    runCommand(
+      createAddAttemptCommand(`Added ${newSemester}`, placeholderCourse)
+    );
   };
 
   // Delete latest added semester
   const deleteLatestSemester = () => {
-    // Get all existing semesters and sort them chronologically
-    const existingSemesters = [
-      ...new Set(transcript.map((item) => item.semester)),
-    ];
-    const sortedSemesters = existingSemesters.sort((a, b) => {
-      const getYear = (semester: string) => {
-        const yearMatch = semester.match(/(\d{4})/);
-        return yearMatch ? parseInt(yearMatch[1]) : 0;
-      };
-
-      const getSemesterOrder = (semester: string) => {
-        if (semester.includes("Güz")) return 1;
-        if (semester.includes("Bahar")) return 2;
-        if (semester.includes("Yaz")) return 3;
-        return 0;
-      };
-
-      const yearA = getYear(a);
-      const yearB = getYear(b);
-
-      if (yearA !== yearB) return yearA - yearB;
-
-      return getSemesterOrder(a) - getSemesterOrder(b);
-    });
+    // Get all existing semesters sorted chronologically
+    const sortedSemesters = getTranscriptSemesters(transcript);
 
     if (sortedSemesters.length === 0) return;
 
     // Get the latest semester
     const latestSemester = sortedSemesters[sortedSemesters.length - 1];
 
-    // Remove all courses from the latest semester
-    const updatedTranscript = transcript.filter(
-      (item) => item.semester !== latestSemester
-    );
-
     // If the deleted semester was selected, select the previous semester
     if (selectedSemester === latestSemester) {
       const previousSemester = sortedSemesters[sortedSemesters.length - 2];
       setSelectedSemester(previousSemester || null);
     }
 
-    setTranscript(updatedTranscript);
+    // Remove all courses from the latest semester
+    runCommand(
+      createRemoveAttemptsCommand(
+        `Deleted ${latestSemester}`,
+        (item) => item.semester === latestSemester
+      )
+    );
   };
 
   // Delete specific semester
   const deleteSemester = (semesterName: string) => {
-    // Remove all courses from the specified semester
-    const updatedTranscript = transcript.filter(
-      (item) => item.semester !== semesterName
-    );
-
     // If the deleted semester was selected, select the previous semester
     if (selectedSemester === semesterName) {
-      const existingSemesters = [
-        ...new Set(transcript.map((item) => item.semester)),
-      ];
-      const sortedSemesters = existingSemesters.sort((a, b) => {
-        const getYear = (semester: string) => {
-          const yearMatch = semester.match(/(\d{4})/);
-          return yearMatch ? parseInt(yearMatch[1]) : 0;
-        };
-
-        const getSemesterOrder = (semester: string) => {
-          if (semester.includes("Güz")) return 1;
-          if (semester.includes("Bahar")) return 2;
-          if (semester.includes("Yaz")) return 3;
-          return 0;
-        };
-
-        const yearA = getYear(a);
-        const yearB = getYear(b);
-
-        if (yearA !== yearB) return yearA - yearB;
-
-        return getSemesterOrder(a) - getSemesterOrder(b);
-      });
-
+      const sortedSemesters = getTranscriptSemesters(transcript);
       const currentIndex = sortedSemesters.indexOf(semesterName);
       const previousSemester =
         currentIndex > 0 ? sortedSemesters[currentIndex - 1] : null;
       setSelectedSemester(previousSemester);
     }
 
-    setTranscript(updatedTranscript);
+    // Remove all courses from the specified semester
+    runCommand(
+      createRemoveAttemptsCommand(
+        `Deleted ${semesterName}`,
+        (item) => item.semester === semesterName
+      )
+    );
   };
 
   // Handle transcript reset
@@ -668,14 +644,15 @@ export default function Home() {
       setIsResetting(true);
       try {
         const { DeleteTranscript } = await import("@/lib/actions");
-        const result = await DeleteTranscript(user.id);
+        const result = await DeleteTranscript();
         if (result.success) {
+          if (result.warning) alert(result.warning);
           console.log("Client: Transcript reset successfully:", result.message);
           // Reload the page to refresh the transcript data
           window.location.reload();
         } else {
           console.error("Client: Failed to reset transcript:", result.error);
-          alert("Failed to reset transcript. Please try again.");
+          alert(`Failed to reset transcript: ${getErrorMessage(result)}`);
         }
       } catch (error) {
         console.error("Client: Error resetting transcript:", error);
@@ -693,8 +670,9 @@ export default function Home() {
       setIsResettingPlan(true);
       try {
         const { DeletePlan } = await import("@/lib/actions");
-        const result = await DeletePlan(user.id);
+        const result = await DeletePlan();
         if (result.success) {
+          if (result.warning) alert(result.warning);
           console.log(
             "Client: Academic plan reset successfully:",
             result.message
@@ -703,7 +681,7 @@ export default function Home() {
           window.location.reload();
         } else {
           console.error("Client: Failed to reset academic plan:", result.error);
-          alert("Failed to reset academic plan. Please try again.");
+          alert(`Failed to reset academic plan: ${getErrorMessage(result)}`);
         }
       } catch (error) {
         console.error("Client: Error resetting academic plan:", error);
@@ -753,31 +731,28 @@ export default function Home() {
     setIsSaving(true);
     try {
       console.log("Saving transcript changes...");
-      console.log(
-        "Transcript data being sent:",
-        transcript.map((t) => ({
-          semester: t.semester,
-          code: t.code,
-          name: t.name,
-          credits: t.credits,
-          grade: t.grade,
-          lesson_id: t.lesson_id,
-        }))
-      );
 
       // Call the UpdateTranscript action
       const { UpdateTranscript } = await import("@/lib/actions");
-      const result = await UpdateTranscript(user.id, transcript);
+      const result = await UpdateTranscript(transcript);
 
       if (result.success) {
+        if (result.warning) alert(result.warning);
         // Update the last saved transcript to current state
         setLastSavedTranscript([...transcript]);
+        setEditHistory(createEditHistory());
         console.log("Transcript changes saved successfully:", result.message);
 
         // Calendar will automatically refresh when props change
       } else {
         console.error("Failed to save transcript changes:", result.error);
-        alert(`Failed to save changes: ${result.error}`);
+        // List the courses that did not pass validation
+        const invalidCourses = hasDroppedRecords(result.report)
+          ? `\n\n${result.report!.dropped.join("\n")}`
+          : "";
+        alert(
+          `Failed to save changes: ${getErrorMessage(result)}${invalidCourses}`
+        );
       }
     } catch (error) {
       console.error("Error saving transcript changes:", error);
@@ -796,51 +771,30 @@ export default function Home() {
     ) {
       console.log("Canceling changes, reverting to last saved state...");
       setTranscript([...lastSavedTranscript]);
+      setEditHistory(createEditHistory());
       console.log("Changes canceled, transcript reverted");
     }
   };
 
   // Get transcript data up to the selected semester
-  const getTranscriptUpToSelected = () => {
-    if (!selectedSemester) return [];
-
-    // Get all unique semesters from transcript and sort them
-    const semesters = [...new Set(transcript.map((item) => item.semester))];
-    const sortedSemesters = semesters.sort((a, b) => {
-      const getYear = (semester: string) => {
-        const yearMatch = semester.match(/(\d{4})/);
-        return yearMatch ? parseInt(yearMatch[1]) : 0;
-      };
-
-      const getSemesterOrder = (semester: string) => {
-        if (semester.includes("Fall")) return 1;
-        if (semester.includes("Spring")) return 2;
-        if (semester.includes("Summer")) return 3;
-        return 0;
-      };
-
-      const yearA = getYear(a);
-      const yearB = getYear(b);
-
-      if (yearA !== yearB) return yearA - yearB;
-
-      return getSemesterOrder(a) - getSemesterOrder(b);
-    });
-
-    // Find the index of the selected semester
-    const selectedIndex = sortedSemesters.indexOf(selectedSemester);
-    if (selectedIndex === -1) return [];
-
-    // Get semesters up to and including the selected semester
-    const semestersUpToSelected = sortedSemesters.slice(0, selectedIndex + 1);
-
-    // Return all transcript items from semesters up to the selected semester
-    return transcript.filter((item) =>
-      semestersUpToSelected.includes(item.semester)
-    );
-  };
+  const filteredTranscript = getTranscriptUpToSemester(
+    transcript,
+    selectedSemester
+  );
 
-  const filteredTranscript = getTranscriptUpToSelected();
+  // Program code from the profile, or guessed from the plan for older profiles
+  const programCode = useMemo(
+    () =>
+      getStudentProfile(user?.unsafeMetadata).programCode ||
+      inferProgramCode(
+        selectedPlan.flatMap((semester) =>
+          semester.flatMap((item) =>
+            item.type === "course" ? [item.code] : []
+          )
+        )
+      ),
+    [user?.unsafeMetadata, selectedPlan]
+  );
 
   const handleCourseClick = (
     courseCode: string,
@@ -865,29 +819,9 @@ export default function Home() {
     }
   };
 
+  // Plans are validated when the catalogue is loaded
   const handlePlanSelect = (plan: SemesterItem[][]) => {
-    // Ensure plan is a valid array of arrays
-    if (!Array.isArray(plan)) {
-      console.error("Plan is not an array:", plan);
-      console.error("Plan type:", typeof plan);
-      return;
-    }
-
-    // Validate each semester is an array
-    const validPlan = plan.filter((semester) => {
-      const isValid = Array.isArray(semester);
-      if (!isValid) {
-        console.warn("Invalid semester found:", semester);
-        console.warn("Semester type:", typeof semester);
-      }
-      return isValid;
-    });
-
-    if (validPlan.length !== plan.length) {
-      console.warn("Some semesters were not arrays and were filtered out");
-    }
-
-    setSelectedPlan(validPlan);
+    setSelectedPlan(plan);
     setShowPlanModal(false);
   };
 
@@ -1011,6 +945,7 @@ export default function Home() {
               hasUnsavedChanges={hasUnsavedChanges()}
               onSaveChanges={handleSaveChanges}
               isSaving={isSaving}
+              courseEquivalences={courseEquivalences}
               onMarkChangesAsUnsaved={() => {}} // No longer needed since we check differences automatically
             />
           </div>
@@ -1022,10 +957,79 @@ export default function Home() {
             !isLoading ? "flex-1" : "w-full"
           }`}
         >
+          {loadError && (
+            <div className="m-4 p-4 bg-red-50 border border-red-200 rounded-md flex items-center justify-between">
+              <p className="text-sm text-red-800">{loadError}</p>
+              <button
+                onClick={() => window.location.reload()}
+                className="ml-4 text-sm font-medium text-red-700 hover:text-red-900 flex-shrink-0"
+              >
+                Try again
+              </button>
+            </div>
+          )}
+          {droppedRecords.length > 0 && (
+            <div className="m-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+              <div className="flex items-start justify-between">
+                <p className="text-sm text-yellow-800">
+                  Some saved records could not be read and were left out. Saving
+                  your changes will remove them for good.
+                </p>
+                <button
+                  onClick={() => setDroppedRecords([])}
+                  className="ml-4 text-sm font-medium text-yellow-700 hover:text-yellow-900 flex-shrink-0"
+                >
+                  Dismiss
+                </button>
+              </div>
+              <ul className="mt-2 text-xs font-mono text-yellow-700 space-y-0.5">
+                {droppedRecords.map((record, index) => (
+                  <li key={index}>{record}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           {selectedPlan.length > 0 && selectedSemester ? (
             <>
               {/* Tabs */}
-              <TabNavigation activeTab={activeTab} onTabChange={setActiveTab} />
+              <TabNavigation
+                activeTab={activeTab}
+                onTabChange={setActiveTab}
+                actions={
+                  <a
+                    href={`/api/export/plan?semester=${encodeURIComponent(
+                      selectedSemester
+                    )}`}
+                    onClick={(e) => {
+                      // The PDF is generated from the saved transcript and plan
+                      if (
+                        hasUnsavedChanges() &&
+                        !window.confirm(
+                          "The PDF is generated from your saved data, so unsaved changes will not be included. Download anyway?"
+                        )
+                      ) {
+                        e.preventDefault();
+                      }
+                    }}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    <svg
+                      className="w-4 h-4 mr-2"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                      />
+                    </svg>
+                    Download PDF
+                  </a>
+                }
+              />
 
               {/* Tab Content */}
               <div className="px-4 lg:px-6 max-w-7xl mx-auto mb-8 pt-6">
@@ -1036,27 +1040,48 @@ export default function Home() {
                       selectedSemester={selectedSemester}
                       selectedPlan={selectedPlan}
                       coursesData={coursesData}
+                      courseEquivalences={courseEquivalences}
                     />
                     <SemesterGrid
                       selectedPlan={selectedPlan}
                       transcript={transcript}
                       selectedSemester={selectedSemester}
                       coursesData={coursesData}
-                      courseMappings={courseMappings}
+                      courseEquivalences={courseEquivalences}
                       onCourseClick={handleCourseClick}
                     />
                     <CourseLegend />
                   </>
                 ) : activeTab === "calendar" ? (
-                  <LessonCalendar
-                    lessons={[]}
-                    selectedLessons={selectedLessons}
-                    onLessonSelect={handleLessonSelect}
-                    onLessonDeselect={handleLessonDeselect}
-                    onLessonClick={handleLessonClick}
-                    courseCode=""
-                    userCourses={transcript}
+                  <>
+                    <ScheduleGenerator
+                      transcript={transcript}
+                      programCode={programCode}
+                      onApplySchedule={applyLessonSchedule}
+                    />
+                    <LessonCalendar
+                      lessons={[]}
+                      selectedLessons={selectedLessons}
+                      onLessonSelect={handleLessonSelect}
+                      onLessonDeselect={handleLessonDeselect}
+                      onLessonClick={handleLessonClick}
+                      courseCode=""
+                      userCourses={transcript}
+                      selectedPlan={selectedPlan}
+                    />
+                  </>
+                ) : activeTab === "audit" ? (
+                  <GraduationAudit
                     selectedPlan={selectedPlan}
+                    transcript={transcript}
+                    selectedSemester={selectedSemester}
+                    coursesData={coursesData}
+                    courseEquivalences={courseEquivalences}
+                  />
+                ) : activeTab === "gpa" ? (
+                  <GpaSimulator
+                    transcript={transcript}
+                    courseEquivalences={courseEquivalences}
                   />
                 ) : activeTab === "json" &&
                   process.env.NODE_ENV === "development" ? (
@@ -1083,6 +1108,14 @@ export default function Home() {
         onUpdateGrade={updateGrade}
         onUpdateSelectedLessons={updateSelectedLessons}
         selectedSemester={selectedSemester}
+        programCode={programCode}
+      />
+
+      {/* Transcript Review Modal */}
+      <TranscriptReviewModal
+        diff={transcriptReview}
+        onClose={() => setTranscriptReview(null)}
+        onApply={applyTranscriptReview}
       />
 
       {/* Plan Selection Modal */}
@@ -1090,7 +1123,6 @@ export default function Home() {
         isOpen={showPlanModal}
         onClose={() => setShowPlanModal(false)}
         onPlanSelect={handlePlanSelect}
-        userId={user?.id || ""}
       />
 
       {/* Reset Transcript Confirmation Modal */}
@@ -1101,8 +1133,8 @@ export default function Home() {
               Confirm Transcript Reset
             </h3>
             <p className="text-sm text-gray-700 mb-4">
-              Are you sure you want to reset your transcript? This action cannot
-              be undone.
+              Are you sure you want to reset your transcript? You can restore it
+              later from Revision History.
             </p>
             <div className="flex justify-end space-x-2">
               <button
@@ -1132,8 +1164,8 @@ export default function Home() {
               Confirm Academic Plan Reset
             </h3>
             <p className="text-sm text-gray-700 mb-4">
-              Are you sure you want to reset your academic plan? This action
-              cannot be undone.
+              Are you sure you want to reset your academic plan? You can restore
+              it later from Revision History.
             </p>
             <div className="flex justify-end space-x-2">
               <button
@@ -1167,6 +1199,12 @@ export default function Home() {
               </div>
 
               <div className="flex items-center space-x-3">
+                <ChangeHistory
+                  history={editHistory}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  onRevert={handleRevertCommand}
+                />
                 <div className="w-px h-6 bg-gray-600"></div>
                 <button
                   onClick={handleCancelChanges}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { EditHistory, isCommandReverted } from "@/lib/edit-history";
+
+interface ChangeHistoryProps<T> {
+  history: EditHistory<T>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (id: string) => void;
+}
+
+// Shortcut hint for the current platform
+const getShortcutPrefix = () =>
+  typeof navigator !== "undefined" && /Mac/i.test(navigator.platform)
+    ? "⌘"
+    : "Ctrl+";
+
+export default function ChangeHistory<T>({
+  history,
+  onUndo,
+  onRedo,
+  onRevert,
+}: ChangeHistoryProps<T>) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [shortcutPrefix, setShortcutPrefix] = useState("Ctrl+");
+
+  useEffect(() => {
+    setShortcutPrefix(getShortcutPrefix());
+  }, []);
+
+  // Newest first
+  const entries = [...history.past].reverse();
+
+  return (
+    <div className="relative flex items-center space-x-1">
+      <button
+        onClick={onUndo}
+        disabled={history.past.length === 0}
+        title={`Undo (${shortcutPrefix}Z)`}
+        className="p-2 text-gray-200 rounded-md hover:bg-gray-700 disabled:text-gray-500 disabled:hover:bg-transparent transition-colors"
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 10h10a5 5 0 010 10H9m-6-10l4-4m-4 4l4 4"
+          />
+        </svg>
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={history.future.length === 0}
+        title={`Redo (${shortcutPrefix}Shift+Z)`}
+        className="p-2 text-gray-200 rounded-md hover:bg-gray-700 disabled:text-gray-500 disabled:hover:bg-transparent transition-colors"
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M21 10H11a5 5 0 000 10h4m6-10l-4-4m4 4l-4 4"
+          />
+        </svg>
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={entries.length === 0}
+        className="px-3 py-2 text-sm text-gray-200 rounded-md hover:bg-gray-700 disabled:text-gray-500 disabled:hover:bg-transparent transition-colors"
+      >
+        Changes ({entries.length})
+      </button>
+
+      {isOpen && entries.length > 0 && (
+        <div className="absolute bottom-full left-0 mb-3 w-96 max-w-[90vw] max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg">
+          <ul className="divide-y divide-gray-100">
+            {entries.map((command) => {
+              const isReverted = isCommandReverted(history, command.id);
+              return (
+                <li
+                  key={command.id}
+                  className="flex items-center justify-between px-3 py-2"
+                >
+                  <span
+                    className={`text-sm ${
+                      isReverted
+                        ? "text-gray-400 line-through"
+                        : "text-gray-800"
+                    }`}
+                  >
+                    {command.label}
+                  </span>
+                  {!command.revertsId && !isReverted && (
+                    <button
+                      onClick={() => onRevert(command.id)}
+                      className="ml-3 text-xs text-blue-600 hover:text-blue-800 font-medium flex-shrink-0"
+                    >
+                      Revert
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,38 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import PrerequisitesSection from "@/components/PrerequisitesSection";
+import RestrictedSectionsToggle from "@/components/RestrictedSectionsToggle";
+import SectionRestrictionBadges from "@/components/SectionRestrictionBadges";
+import { PrerequisiteGroup } from "@/lib/prerequisites";
+import { evaluateEligibility } from "@/lib/eligibility";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import {
+  fetchCatalogCourse,
+  fetchCatalogDataset,
+  fetchLessonsByIds,
+  fetchLessonsForCourses,
+} from "@/lib/catalog-client";
+import {
+  findCatalogCourse,
+  findLessonById,
+  findLessonsForCourse,
+} from "@/lib/catalog-index";
+import {
+  Lesson,
+  getSectionRestrictions,
+  isSectionAvailable,
+  lessonsConflict,
+} from "@/lib/lessons";
+import {
+  PLANNED_GRADE,
+  getLatestAttempt,
+  isFailingGrade,
+  isPassingGrade,
+  isPlannedSemester,
+  sortAttempts,
+  stripPlannedMarker,
+} from "@/lib/academic";
 
 interface TranscriptItem {
   semester: string;
@@ -11,47 +43,12 @@ interface TranscriptItem {
   lesson_id?: string;
 }
 
-interface PrerequisiteCourse {
-  code: string;
-  min: string;
-}
-
-interface PrerequisiteGroup {
-  group: number;
-  courses: PrerequisiteCourse[];
-}
-
 interface CourseInfo {
   code: string;
   name: string;
   credits?: string;
   prerequisites?: PrerequisiteGroup[];
-}
-
-interface LessonSession {
-  location: string;
-  day: string;
-  time: string;
-  room: string;
-}
-
-interface Lesson {
-  lesson_id: string;
-  course_code: string;
-  delivery_mode: string;
-  instructor: string;
-  capacity: string;
-  enrolled: string;
-  sessions: LessonSession[];
-}
-
-interface LessonsData {
-  metadata: {
-    source_file: string;
-    total_lessons: number;
-    conversion_notes: string;
-  };
-  lessons: Lesson[];
+  special_conditions?: string[];
 }
 
 interface CoursePopupProps {
@@ -76,6 +73,8 @@ interface CoursePopupProps {
     lessonId: string | undefined
   ) => void;
   selectedSemester?: string | null;
+  // Used to hide sections the student cannot register for
+  programCode?: string | null;
 }
 
 export default function CoursePopup({
@@ -92,16 +91,16 @@ export default function CoursePopup({
   onUpdateGrade,
   onUpdateSelectedLessons,
   selectedSemester,
+  programCode,
 }: CoursePopupProps) {
   const [selectedElectiveCourse, setSelectedElectiveCourse] =
     useState<string>("");
   const [selectedElectiveCourseCode, setSelectedElectiveCourseCode] =
     useState<string>("");
   const [coursesData, setCoursesData] = useState<CourseInfo[]>([]);
-  const [courseMappings, setCourseMappings] = useState<
-    Record<string, string[]>
-  >({});
-  const [lessonsData, setLessonsData] = useState<LessonsData | null>(null);
+  const [courseEquivalences, setCourseEquivalences] =
+    useState<CourseEquivalenceGroups>([]);
+  const [lessonsData, setLessonsData] = useState<Lesson[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [editingGrades, setEditingGrades] = useState<Record<string, string>>(
     {}
@@ -110,6 +109,7 @@ export default function CoursePopup({
   const [electiveFilter, setElectiveFilter] = useState<"all" | "opened">(
     "opened"
   );
+  const [showRestrictedSections, setShowRestrictedSections] = useState(false);
   const [electiveViewMode, setElectiveViewMode] = useState<
     "selection" | "details"
   >("selection");
@@ -156,7 +156,7 @@ export default function CoursePopup({
     const semesters = [...new Set(transcript.map((item) => item.semester))];
 
     // Check if the selected semester is a planned semester (contains "Planı")
-    if (selectedSemester.includes("Planı")) {
+    if (isPlannedSemester(selectedSemester)) {
       return true;
     }
 
@@ -166,12 +166,11 @@ export default function CoursePopup({
       const semesterCourses = transcript.filter(
         (item) => item.semester === semester
       );
-      const isPlannedSemester =
+      const isPlaceholderSemester =
         semesterCourses.length === 1 &&
         semesterCourses[0].code === "PLACEHOLDER";
-      const isPlannedSemesterByName = semester.includes("Planı");
 
-      if (!isPlannedSemester && !isPlannedSemesterByName) {
+      if (!isPlaceholderSemester && !isPlannedSemester(semester)) {
         // This is the current semester
         return semester === selectedSemester;
       }
@@ -184,9 +183,23 @@ export default function CoursePopup({
   const getActiveLessons = (courseCode: string): Lesson[] => {
     if (!lessonsData) return [];
 
-    return lessonsData.lessons.filter(
-      (lesson) => lesson.course_code === courseCode
-    );
+    const courseLessons = findLessonsForCourse(lessonsData, courseCode);
+
+    // Hide full sections and sections closed to the student's program
+    return showRestrictedSections
+      ? courseLessons
+      : courseLessons.filter((lesson) =>
+          isSectionAvailable(lesson, programCode)
+        );
+  };
+
+  // Function to count the sections of a course that are full or restricted
+  const getRestrictedLessonCount = (courseCode: string): number => {
+    if (!lessonsData) return 0;
+
+    return findLessonsForCourse(lessonsData, courseCode).filter(
+      (lesson) => !isSectionAvailable(lesson, programCode)
+    ).length;
   };
 
   // Function to handle lesson selection
@@ -214,24 +227,9 @@ export default function CoursePopup({
       console.log("Found elective courses with -- grade:", courseHistory);
     }
 
-    const latestDashAttempt = courseHistory
-      .filter((item) => item.grade === "--")
-      .sort((a, b) => {
-        // Sort by semester to get the most recent "--" attempt
-        const getSemesterOrder = (semester: string) => {
-          const yearMatch = semester.match(/(\d{4})/);
-          if (!yearMatch) return 0;
-          const year = parseInt(yearMatch[1]);
-
-          let semesterOrder = 1; // Güz
-          if (semester.includes("Bahar")) semesterOrder = 2;
-          else if (semester.includes("Yaz")) semesterOrder = 3;
-
-          return year * 10 + semesterOrder;
-        };
-
-        return getSemesterOrder(b.semester) - getSemesterOrder(a.semester);
-      })[0]; // Get the most recent "--" attempt
+    const latestDashAttempt = getLatestAttempt(
+      courseHistory.filter((item) => item.grade === PLANNED_GRADE)
+    ); // Get the most recent "--" attempt
 
     if (latestDashAttempt && onUpdateSelectedLessons) {
       // Call the parent function to update the transcript state with just the lesson_id
@@ -272,24 +270,9 @@ export default function CoursePopup({
       );
       console.log("Found elective courses with -- grade:", courseHistory);
     }
-    const latestDashAttempt = courseHistory
-      .filter((item) => item.grade === "--")
-      .sort((a, b) => {
-        // Sort by semester to get the most recent "--" attempt
-        const getSemesterOrder = (semester: string) => {
-          const yearMatch = semester.match(/(\d{4})/);
-          if (!yearMatch) return 0;
-          const year = parseInt(yearMatch[1]);
-
-          let semesterOrder = 1; // Güz
-          if (semester.includes("Bahar")) semesterOrder = 2;
-          else if (semester.includes("Yaz")) semesterOrder = 3;
-
-          return year * 10 + semesterOrder;
-        };
-
-        return getSemesterOrder(b.semester) - getSemesterOrder(a.semester);
-      })[0]; // Get the most recent "--" attempt
+    const latestDashAttempt = getLatestAttempt(
+      courseHistory.filter((item) => item.grade === PLANNED_GRADE)
+    ); // Get the most recent "--" attempt
 
     if (latestDashAttempt && onUpdateSelectedLessons) {
       // Call the parent function to update the transcript state with null to remove lesson_id
@@ -365,34 +348,11 @@ export default function CoursePopup({
   const getGradeStatus = (grade: string) => {
     if (!grade || grade === "") return "In Progress";
 
-    // Handle asterisk grades by removing the asterisk for status determination
-    let gradeForComparison = grade;
-    if (grade.endsWith("*")) {
-      gradeForComparison = grade.replace("*", "");
-    }
+    const gradeForComparison = stripPlannedMarker(grade);
 
-    if (
-      gradeForComparison === "AA" ||
-      gradeForComparison === "BA" ||
-      gradeForComparison === "BB" ||
-      gradeForComparison === "CB" ||
-      gradeForComparison === "CB+" ||
-      gradeForComparison === "CC" ||
-      gradeForComparison === "BL"
-    )
-      return "Passed";
-    if (
-      gradeForComparison === "DC" ||
-      gradeForComparison === "DC+" ||
-      gradeForComparison === "DD"
-    )
-      return "Conditional Pass";
-    if (
-      gradeForComparison === "FD" ||
-      gradeForComparison === "FF" ||
-      gradeForComparison === "VF"
-    )
-      return "Failed";
+    if (isFailingGrade(gradeForComparison)) return "Failed";
+    if (gradeForComparison.startsWith("D")) return "Conditional Pass";
+    if (isPassingGrade(gradeForComparison)) return "Passed";
     return "Unknown";
   };
 
@@ -413,24 +373,6 @@ export default function CoursePopup({
     }
   };
 
-  // Helper function to check if all prerequisites are satisfied
-  const areAllPrerequisitesSatisfied = (
-    prerequisites: PrerequisiteGroup[]
-  ): boolean => {
-    return prerequisites.every((group) => isPrerequisiteGroupSatisfied(group));
-  };
-
-  // Get expanded state for prerequisites section
-  const getPrereqExpanded = (prerequisites: PrerequisiteGroup[]): boolean => {
-    if (prereqExpanded !== null) return prereqExpanded;
-    return !areAllPrerequisitesSatisfied(prerequisites);
-  };
-
-  const togglePrerequisites = (prerequisites: PrerequisiteGroup[]) => {
-    const current = getPrereqExpanded(prerequisites);
-    setPrereqExpanded(!current);
-  };
-
   // Close popup when clicking outside
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -450,25 +392,75 @@ export default function CoursePopup({
     };
   }, [isOpen, onClose]);
 
-  // Load courses data and course mappings from JSON files
+  // Function to get the course options of an elective from the plan
+  const getElectiveOptions = (): string[] => {
+    for (const semester of plan) {
+      for (const item of semester) {
+        if (item.type === "elective" && item.name === courseCode) {
+          return item.options || [];
+        }
+      }
+    }
+    return [];
+  };
+
+  // Courses shown in the popup: the course itself, or the options of an elective
+  const popupCourseCodes = [
+    ...new Set(
+      [
+        ...(isElective ? getElectiveOptions() : [planCourseCode]),
+        matchedCourseCode,
+      ].filter((code): code is string => !!code)
+    ),
+  ];
+  const popupCourseCodesKey = popupCourseCodes.join(",");
+  const selectedLessonIdsKey = [
+    ...new Set(
+      transcript
+        .map((item) => item.lesson_id)
+        .filter((id): id is string => !!id)
+    ),
+  ]
+    .sort()
+    .join(",");
+
+  // Load the catalog entries and sections of the popup's courses only
   useEffect(() => {
+    const fetchCourses = async (codes: string[]) =>
+      (await Promise.all(codes.map((code) => fetchCatalogCourse(code)))).filter(
+        (course): course is CourseInfo => course !== null
+      );
+
     const loadData = async () => {
       setLoading(true);
       try {
-        // Load courses data
-        const coursesResponse = await fetch("/courses.json");
-        const coursesData = await coursesResponse.json();
-        setCoursesData(coursesData);
-
-        // Load course mappings
-        const mappingsResponse = await fetch("/course-mappings.json");
-        const mappingsData = await mappingsResponse.json();
-        setCourseMappings(mappingsData);
-
-        // Load lessons data
-        const lessonsResponse = await fetch("/lessons.json");
-        const lessonsData = await lessonsResponse.json();
-        setLessonsData(lessonsData);
+        const courses = await fetchCourses(popupCourseCodes);
+        // Prerequisite courses are only needed for their names
+        const prerequisiteCodes = courses.flatMap((course) =>
+          (course.prerequisites || []).flatMap((group) =>
+            group.courses.map((prereq) => prereq.code)
+          )
+        );
+        const prerequisiteCourses = await fetchCourses([
+          ...new Set(prerequisiteCodes),
+        ]);
+        setCoursesData([...courses, ...prerequisiteCourses]);
+
+        // Load course equivalences
+        const equivalencesData =
+          await fetchCatalogDataset<CourseEquivalenceGroups>(
+            "course-equivalences"
+          );
+        setCourseEquivalences(equivalencesData);
+
+        // Sections of these courses, and the selected sections for conflicts
+        const [courseLessons, selectedLessons] = await Promise.all([
+          fetchLessonsForCourses(popupCourseCodes),
+          fetchLessonsByIds(
+            selectedLessonIdsKey ? selectedLessonIdsKey.split(",") : []
+          ),
+        ]);
+        setLessonsData([...new Set([...courseLessons, ...selectedLessons])]);
       } catch (error) {
         console.error("Error loading data:", error);
       } finally {
@@ -479,348 +471,29 @@ export default function CoursePopup({
     if (isOpen) {
       loadData();
     }
-  }, [isOpen]);
+  }, [isOpen, popupCourseCodesKey, selectedLessonIdsKey]);
 
   // Function to get course name from courses.json
   const getCourseNameFromData = (code: string): string | undefined => {
-    const course = coursesData.find((c) => c.code === code);
-    return course?.name;
-  };
-
-  // Function to get prerequisites for a course
-  const getPrerequisites = (code: string): PrerequisiteGroup[] | undefined => {
-    const course = coursesData.find((c) => c.code === code);
-    return course?.prerequisites;
-  };
-
-  // Helper function to find equivalent courses using exact match and course mappings JSON
-  const findEquivalentCourse = (
-    targetCourseCode: string,
-    allPrerequisiteCodes: string[] = []
-  ) => {
-    // First, check for exact match (with and without spaces)
-    const exactMatch = transcript.find((t) => t.code === targetCourseCode);
-    if (exactMatch) {
-      return exactMatch;
-    }
-
-    // Also check for exact match with spaces removed
-    const targetCodeNoSpaces = targetCourseCode.replace(/\s+/g, "");
-    const exactMatchNoSpaces = transcript.find(
-      (t) => t.code.replace(/\s+/g, "") === targetCodeNoSpaces
-    );
-    if (exactMatchNoSpaces) {
-      return exactMatchNoSpaces;
-    }
-
-    // Then, check if the target course has explicit mappings in course-mappings.json
-    const alternatives = courseMappings[targetCourseCode] || [];
-
-    // Look for any of the alternative courses in the transcript
-    for (const alternativeCode of alternatives) {
-      const match = transcript.find((t) => t.code === alternativeCode);
-      if (match) {
-        // Check if this alternative is in the prerequisite list
-        if (allPrerequisiteCodes.includes(alternativeCode)) {
-          continue;
-        }
-        return match;
-      }
-    }
-
-    return null;
-  };
-
-  // Function to check if a prerequisite is satisfied
-  const isPrerequisiteSatisfied = (
-    prereqCode: string,
-    minGrade: string,
-    courseCodeForPrereqs?: string
-  ): boolean => {
-    // Get all prerequisite codes from the current prerequisite group to avoid matching with them
-    const allPrerequisiteCodes = courseCodeForPrereqs
-      ? getPrerequisites(courseCodeForPrereqs)?.flatMap((group) =>
-          group.courses.map((course) => course.code)
-        ) || []
-      : [];
-
-    // Use findEquivalentCourse which handles both exact match and course mappings
-    const equivalentMatch = findEquivalentCourse(
-      prereqCode,
-      allPrerequisiteCodes
-    );
-    let courseHistory: TranscriptItem[] = [];
-
-    if (equivalentMatch) {
-      courseHistory = transcript.filter((t) => t.code === equivalentMatch.code);
-    }
-
-    if (courseHistory.length === 0) return false;
-
-    const latestAttempt = courseHistory[courseHistory.length - 1];
-    const latestGrade = latestAttempt.grade;
-
-    // If the latest grade is not "--", use it directly
-    if (latestGrade !== "--") {
-      // Grade comparison logic - based on transcript grades
-      const gradeOrder = [
-        "FF",
-        "FD",
-        "VF",
-        "DD",
-        "DD+",
-        "DC",
-        "DC+",
-        "CC",
-        "CC+",
-        "CB",
-        "CB+",
-        "BB",
-        "BB+",
-        "BA",
-        "BA+",
-        "AA",
-        "BL",
-      ];
-      const latestGradeIndex = gradeOrder.indexOf(latestGrade);
-      const minGradeIndex = gradeOrder.indexOf(minGrade);
-
-      return latestGradeIndex >= minGradeIndex;
-    }
-
-    // Handle planned grades (-- or with asterisk)
-    const isPlannedGrade =
-      latestGrade === "--" ||
-      (typeof latestGrade === "string" &&
-        (latestGrade as string).endsWith("*"));
-
-    if (isPlannedGrade) {
-      // Check if user has selected a grade for this planned course
-      const selectedGrade =
-        editingGrades[`${latestAttempt.code}-${latestAttempt.semester}`];
-
-      if (selectedGrade && selectedGrade !== "--") {
-        // Use the selected grade for prerequisite calculation
-        const gradeOrder = [
-          "FF",
-          "FD",
-          "VF",
-          "DD",
-          "DD+",
-          "DC",
-          "DC+",
-          "CC",
-          "CC+",
-          "CB",
-          "CB+",
-          "BB",
-          "BB+",
-          "BA",
-          "BA+",
-          "AA",
-          "BL",
-        ];
-        const selectedGradeIndex = gradeOrder.indexOf(selectedGrade);
-        const minGradeIndex = gradeOrder.indexOf(minGrade);
-
-        return selectedGradeIndex >= minGradeIndex;
-      }
-
-      // If no grade is selected but grade has asterisk, use the grade without asterisk
-      if (
-        latestGrade !== "--" &&
-        typeof latestGrade === "string" &&
-        (latestGrade as string).endsWith("*")
-      ) {
-        const gradeWithoutAsterisk = (latestGrade as string).replace("*", "");
-        const gradeOrder = [
-          "FF",
-          "FD",
-          "VF",
-          "DD",
-          "DD+",
-          "DC",
-          "DC+",
-          "CC",
-          "CC+",
-          "CB",
-          "CB+",
-          "BB",
-          "BB+",
-          "BA",
-          "BA+",
-          "AA",
-          "BL",
-        ];
-        const gradeIndex = gradeOrder.indexOf(gradeWithoutAsterisk);
-        const minGradeIndex = gradeOrder.indexOf(minGrade);
-
-        return gradeIndex >= minGradeIndex;
-      }
-
-      // If no grade is selected, check if we're viewing a semester after the planned semester
-      if (selectedSemester && latestAttempt.semester !== selectedSemester) {
-        // For planned courses, we need to check if the selected semester comes after the planned semester
-        const plannedSemester = latestAttempt.semester;
-
-        // If the planned semester is from the plan (e.g., "Semester 1"), we need to compare differently
-        if (plannedSemester.startsWith("Semester ")) {
-          // Extract semester number from plan
-          const planSemesterNum = parseInt(
-            plannedSemester.replace("Semester ", "")
-          );
-
-          // Extract semester number from selected semester
-          const selectedSemesterNum = parseInt(
-            selectedSemester.replace(/[^0-9]/g, "")
-          );
-
-          // If selected semester is after the planned semester, consider it as passed
-          if (selectedSemesterNum > planSemesterNum) {
-            // Grade comparison logic for planned courses (assumed pass)
-            const gradeOrder = [
-              "FF",
-              "FD",
-              "VF",
-              "DD",
-              "DD+",
-              "DC",
-              "DC+",
-              "CC",
-              "CC+",
-              "CB",
-              "CB+",
-              "BB",
-              "BB+",
-              "BA",
-              "BA+",
-              "AA",
-              "BL",
-            ];
-            const minGradeIndex = gradeOrder.indexOf(minGrade);
-
-            // Planned courses are considered as passing with "CC" grade
-            const assumedGradeIndex = gradeOrder.indexOf("CC");
-
-            return assumedGradeIndex >= minGradeIndex;
-          }
-        } else {
-          // For regular transcript semesters, use the existing logic
-          const getSemesterOrder = (semester: string) => {
-            const yearMatch = semester.match(/(\d{4})/);
-            if (!yearMatch) return 0;
-            const year = parseInt(yearMatch[1]);
-
-            let semesterOrder = 1; // Güz
-            if (semester.includes("Bahar")) semesterOrder = 2;
-            else if (semester.includes("Yaz")) semesterOrder = 3;
-
-            return year * 10 + semesterOrder;
-          };
-
-          const plannedOrder = getSemesterOrder(plannedSemester);
-          const selectedOrder = getSemesterOrder(selectedSemester);
-
-          // If selected semester is after the planned semester, consider it as passed
-          if (selectedOrder > plannedOrder) {
-            // Grade comparison logic for "?" grade (assumed pass)
-            const gradeOrder = [
-              "FF",
-              "FD",
-              "VF",
-              "DD",
-              "DD+",
-              "DC",
-              "DC+",
-              "CC",
-              "CC+",
-              "CB",
-              "CB+",
-              "BB",
-              "BB+",
-              "BA",
-              "BA+",
-              "AA",
-              "BL",
-            ];
-            const minGradeIndex = gradeOrder.indexOf(minGrade);
-
-            // "?" grade is considered as a passing grade, so it should satisfy most prerequisites
-            // We'll treat it as equivalent to "CC" (minimum passing grade)
-            const assumedGradeIndex = gradeOrder.indexOf("CC");
-
-            return assumedGradeIndex >= minGradeIndex;
-          }
-        }
-      }
-    }
-
-    return false; // Currently taken or not yet taken
+    return findCatalogCourse(coursesData, code)?.name;
   };
 
-  // Function to check if a prerequisite group is satisfied (at least one course in group)
-  const isPrerequisiteGroupSatisfied = (group: PrerequisiteGroup): boolean => {
-    return group.courses.some((prereq) =>
-      isPrerequisiteSatisfied(prereq.code, prereq.min, planCourseCode)
-    );
+  // Function to evaluate the eligibility of a course for the selected semester
+  const evaluateCourseEligibility = (code: string) => {
+    return evaluateEligibility(transcript, code, selectedSemester, {
+      courses: coursesData,
+      equivalences: courseEquivalences,
+      gradeOverrides: editingGrades,
+    });
   };
 
-  // Function to get the status text for a prerequisite
-  const getPrerequisiteStatus = (prereqCode: string): string => {
-    // Use findEquivalentCourse which handles both exact match and course mappings
-    const equivalentMatch = findEquivalentCourse(prereqCode);
-    let courseHistory: TranscriptItem[] = [];
-    let matchedCourseCode = prereqCode;
-
-    if (equivalentMatch) {
-      courseHistory = transcript.filter((t) => t.code === equivalentMatch.code);
-      matchedCourseCode = equivalentMatch.code;
-    }
-
-    if (courseHistory.length === 0) return "Not taken";
-
-    const latestAttempt = courseHistory[courseHistory.length - 1];
-    const latestGrade = latestAttempt.grade;
-
-    if (
-      latestGrade === "--" ||
-      (typeof latestGrade === "string" && latestGrade.endsWith("*"))
-    ) {
-      // Check if user has selected a grade for this planned course
-      const selectedGrade =
-        editingGrades[`${latestAttempt.code}-${latestAttempt.semester}`];
-      if (selectedGrade && selectedGrade !== "--") {
-        return selectedGrade;
-      }
-      // If grade has asterisk, return the grade with asterisk
-      if (typeof latestGrade === "string" && latestGrade.endsWith("*")) {
-        return latestGrade;
-      }
-      return "Planned to pass";
-    }
-
-    // Check if it's a passing grade
-    const passingGrades = [
-      "AA",
-      "BA",
-      "BA+",
-      "BB",
-      "BB+",
-      "CB",
-      "CB+",
-      "CC",
-      "CC+",
-      "DD",
-      "DD+",
-      "DC",
-      "DC+",
-      "BL",
-    ];
-    if (passingGrades.includes(latestGrade)) {
-      return latestGrade;
-    } else {
-      return "Failed";
-    }
+  // Helper function to get the props of the prerequisites section for a course
+  const getEligibilityProps = (code: string) => {
+    const eligibility = evaluateCourseEligibility(code);
+    return {
+      evaluation: eligibility.prerequisites,
+      specialConditions: eligibility.specialConditions,
+    };
   };
 
   // Function to check if a time slot conflicts with other selected lessons
@@ -828,66 +501,15 @@ export default function CoursePopup({
     if (!lessonsData) return false;
 
     // Get the current lesson details
-    const currentLesson = lessonsData.lessons.find(
-      (lesson) => lesson.lesson_id === lessonId
-    );
+    const currentLesson = findLessonById(lessonsData, lessonId);
     if (!currentLesson || !currentLesson.sessions) return false;
 
-    // Get all selected lesson IDs from transcript
-    const selectedLessonIds = transcript
-      .filter((item) => item.lesson_id && item.lesson_id !== lessonId)
-      .map((item) => item.lesson_id!);
-
-    // Check each selected lesson for time conflicts
-    for (const selectedLessonId of selectedLessonIds) {
-      const selectedLesson = lessonsData.lessons.find(
-        (lesson) => lesson.lesson_id === selectedLessonId
-      );
-      if (!selectedLesson || !selectedLesson.sessions) continue;
-
-      // Check for conflicts between current lesson sessions and selected lesson sessions
-      for (const currentSession of currentLesson.sessions) {
-        for (const selectedSession of selectedLesson.sessions) {
-          // Check if sessions are on the same day
-          if (currentSession.day === selectedSession.day) {
-            // Check if time slots overlap
-            if (doTimeSlotsOverlap(currentSession.time, selectedSession.time)) {
-              return true; // Conflict found
-            }
-          }
-        }
-      }
-    }
-
-    return false; // No conflicts found
-  };
-
-  // Function to check if two time slots overlap
-  const doTimeSlotsOverlap = (time1: string, time2: string): boolean => {
-    // Parse time slots (format: "08:30/10:29")
-    const parseTimeSlot = (timeSlot: string) => {
-      const [startTime, endTime] = timeSlot.split("/");
-      const parseTime = (time: string) => {
-        const [hours, minutes] = time.split(":").map(Number);
-        return hours * 60 + minutes; // Convert to minutes for easier comparison
-      };
-      return {
-        start: parseTime(startTime),
-        end: parseTime(endTime),
-      };
-    };
-
-    const slot1 = parseTimeSlot(time1);
-    const slot2 = parseTimeSlot(time2);
-
-    // Check for overlap: slot1 starts before slot2 ends AND slot1 ends after slot2 starts
-    const hasOverlap = slot1.start < slot2.end && slot1.end > slot2.start;
-
-    if (hasOverlap) {
-      console.log(`Time overlap detected: ${time1} overlaps with ${time2}`);
-    }
-
-    return hasOverlap;
+    // Check the lessons selected in the transcript for time conflicts
+    return transcript.some((item) => {
+      if (!item.lesson_id || item.lesson_id === lessonId) return false;
+      const selectedLesson = findLessonById(lessonsData, item.lesson_id);
+      return !!selectedLesson && lessonsConflict(currentLesson, selectedLesson);
+    });
   };
 
   if (!isOpen) return null;
@@ -895,16 +517,7 @@ export default function CoursePopup({
   // For elective courses, we need to show a course selector first
   if (isElective) {
     // Find the elective course in the plan to get its options
-    let electiveOptions: string[] = [];
-    for (const semester of plan) {
-      for (const item of semester) {
-        if (item.type === "elective" && item.name === courseCode) {
-          electiveOptions = item.options || [];
-          break;
-        }
-      }
-      if (electiveOptions.length > 0) break;
-    }
+    const electiveOptions = getElectiveOptions();
 
     // Get all elective assignments to see which courses are already assigned
     const assignedCourses = new Set<string>();
@@ -930,26 +543,11 @@ export default function CoursePopup({
     // If you've taken courses for this elective, show the first one directly
     if (availableCourses.length > 0) {
       const takenCourse = availableCourses[0]; // Show the first taken course
-      const courseHistory = transcript
-        .filter((item) => item.name === takenCourse.name)
-        .sort((a, b) => {
-          // Sort by semester to show most recent first
-          const getSemesterOrder = (semester: string) => {
-            const yearMatch = semester.match(/(\d{4})-(\d{4})/);
-            if (!yearMatch) return 0;
-            const startYear = parseInt(yearMatch[1]);
-            const endYear = parseInt(yearMatch[2]);
-
-            // Determine semester order: Güz (Fall) = 1, Bahar (Spring) = 2, Yaz (Summer) = 3
-            let semesterOrder = 1;
-            if (semester.includes("Bahar")) semesterOrder = 2;
-            else if (semester.includes("Yaz")) semesterOrder = 3;
-
-            return startYear * 10 + semesterOrder;
-          };
-
-          return getSemesterOrder(b.semester) - getSemesterOrder(a.semester);
-        });
+      // Sort by semester to show most recent first
+      const courseHistory = sortAttempts(
+        transcript.filter((item) => item.name === takenCourse.name),
+        "desc"
+      );
 
       return (
         <div
@@ -1062,6 +660,9 @@ export default function CoursePopup({
               {isCurrentSemester() &&
                 (() => {
                   const activeLessons = getActiveLessons(takenCourse.code);
+                  const restrictedCount = getRestrictedLessonCount(
+                    takenCourse.code
+                  );
 
                   if (activeLessons.length === 0) {
                     return (
@@ -1073,15 +674,29 @@ export default function CoursePopup({
                           No active lessons found for this course in the current
                           semester.
                         </p>
+                        <div className="mt-2">
+                          <RestrictedSectionsToggle
+                            restrictedCount={restrictedCount}
+                            showRestricted={showRestrictedSections}
+                            onShowRestrictedChange={setShowRestrictedSections}
+                          />
+                        </div>
                       </div>
                     );
                   }
 
                   return (
                     <div className="border-t border-gray-200 pt-6">
-                      <h3 className="text-lg font-semibold text-gray-800 mb-4">
-                        Active Lessons
-                      </h3>
+                      <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-lg font-semibold text-gray-800">
+                          Active Lessons
+                        </h3>
+                        <RestrictedSectionsToggle
+                          restrictedCount={restrictedCount}
+                          showRestricted={showRestrictedSections}
+                          onShowRestrictedChange={setShowRestrictedSections}
+                        />
+                      </div>
                       <div className="space-y-4">
                         {activeLessons.map((lesson, index) => (
                           <div
@@ -1093,6 +708,13 @@ export default function CoursePopup({
                                 <h4 className="text-sm font-semibold text-blue-800">
                                   Lesson {lesson.lesson_id}
                                 </h4>
+                                <SectionRestrictionBadges
+                                  restrictions={getSectionRestrictions(
+                                    lesson,
+                                    programCode
+                                  )}
+                                  programCode={programCode}
+                                />
                                 <p className="text-xs text-blue-600 mt-1">
                                   {lesson.delivery_mode}
                                 </p>
@@ -1165,152 +787,12 @@ export default function CoursePopup({
                 })()}
 
               {/* Prerequisites */}
-              {(() => {
-                const prerequisites = getPrerequisites(takenCourse.code);
-                if (!prerequisites || prerequisites.length === 0) {
-                  return (
-                    <div className="border-t border-gray-200 pt-6">
-                      <h3 className="text-lg font-semibold text-gray-800 mb-4">
-                        Prerequisites
-                      </h3>
-                      <p className="text-gray-500 text-sm">
-                        No prerequisites required for this course.
-                      </p>
-                    </div>
-                  );
-                }
-
-                const allSatisfied =
-                  areAllPrerequisitesSatisfied(prerequisites);
-                const isExpanded = getPrereqExpanded(prerequisites);
-
-                return (
-                  <div className="border-t border-gray-200 pt-6">
-                    <button
-                      onClick={() => togglePrerequisites(prerequisites)}
-                      className="flex items-center justify-between w-full text-left hover:bg-gray-50 rounded-lg p-2 -m-2 transition-colors group"
-                    >
-                      <div className="flex items-center">
-                        <h3 className="text-lg font-semibold text-gray-800">
-                          Prerequisites
-                        </h3>
-                        {allSatisfied && (
-                          <span className="text-green-600 text-sm ml-2">
-                            (All Satisfied)
-                          </span>
-                        )}
-                      </div>
-                      <svg
-                        className={`w-5 h-5 text-gray-500 transition-transform duration-200 ${
-                          isExpanded ? "rotate-90" : ""
-                        }`}
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M9 5l7 7-7 7"
-                        />
-                      </svg>
-                    </button>
-                    {isExpanded && (
-                      <div className="mt-4 space-y-4">
-                        {prerequisites.map((group, groupIndex) => {
-                          const isGroupSatisfied =
-                            isPrerequisiteGroupSatisfied(group);
-                          return (
-                            <div
-                              key={groupIndex}
-                              className="bg-gray-50 rounded-lg p-4"
-                            >
-                              <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
-                                <div
-                                  className={`w-3 h-3 rounded-full mr-2 ${
-                                    isGroupSatisfied
-                                      ? "bg-green-500"
-                                      : "bg-red-500"
-                                  }`}
-                                ></div>
-                                Group {group.group}{" "}
-                                {isGroupSatisfied && (
-                                  <span className="text-green-600 text-xs ml-2">
-                                    (Satisfied)
-                                  </span>
-                                )}
-                              </h4>
-                              <div className="space-y-2">
-                                {group.courses.map((prereq, prereqIndex) => {
-                                  const isSatisfied = isPrerequisiteSatisfied(
-                                    prereq.code,
-                                    prereq.min
-                                  );
-                                  const courseName =
-                                    getCourseNameFromData(prereq.code) ||
-                                    prereq.code;
-                                  const courseHistory = transcript.filter(
-                                    (t) => t.code === prereq.code
-                                  );
-                                  const latestGrade =
-                                    courseHistory.length > 0
-                                      ? courseHistory[courseHistory.length - 1]
-                                          .grade
-                                      : "";
-
-                                  return (
-                                    <div
-                                      key={prereqIndex}
-                                      className="flex items-center justify-between"
-                                    >
-                                      <div className="flex items-center space-x-2">
-                                        <div
-                                          className={`w-3 h-3 rounded-full ${
-                                            isSatisfied
-                                              ? "bg-green-500"
-                                              : "bg-red-500"
-                                          }`}
-                                        ></div>
-                                        <span className="text-sm font-medium text-gray-800">
-                                          {courseName}
-                                        </span>
-                                      </div>
-                                      <div className="text-right">
-                                        <span
-                                          className={`text-sm font-semibold ${
-                                            getPrerequisiteStatus(
-                                              prereq.code
-                                            ) === "Not taken"
-                                              ? "text-gray-400"
-                                              : getPrerequisiteStatus(
-                                                  prereq.code
-                                                ) === "Planned to pass"
-                                              ? "text-blue-600"
-                                              : getPrerequisiteStatus(
-                                                  prereq.code
-                                                ) === "Failed"
-                                              ? "text-red-600"
-                                              : isSatisfied
-                                              ? "text-green-600"
-                                              : "text-red-600"
-                                          }`}
-                                        >
-                                          {getPrerequisiteStatus(prereq.code)}
-                                        </span>
-                                      </div>
-                                    </div>
-                                  );
-                                })}
-                              </div>
-                            </div>
-                          );
-                        })}
-                      </div>
-                    )}
-                  </div>
-                );
-              })()}
+              <PrerequisitesSection
+                {...getEligibilityProps(takenCourse.code)}
+                getCourseName={getCourseNameFromData}
+                expanded={prereqExpanded}
+                onExpandedChange={setPrereqExpanded}
+              />
             </div>
 
             {/* Footer */}
@@ -1337,27 +819,12 @@ export default function CoursePopup({
     );
 
     // Filter transcript for the selected elective course
+    // Sort by semester to show most recent first
     const courseHistory = selectedElectiveCourse
-      ? transcript
-          .filter((item) => item.name === selectedElectiveCourse)
-          .sort((a, b) => {
-            // Sort by semester to show most recent first
-            const getSemesterOrder = (semester: string) => {
-              const yearMatch = semester.match(/(\d{4})-(\d{4})/);
-              if (!yearMatch) return 0;
-              const startYear = parseInt(yearMatch[1]);
-              const endYear = parseInt(yearMatch[2]);
-
-              // Determine semester order: Güz (Fall) = 1, Bahar (Spring) = 2, Yaz (Summer) = 3
-              let semesterOrder = 1;
-              if (semester.includes("Bahar")) semesterOrder = 2;
-              else if (semester.includes("Yaz")) semesterOrder = 3;
-
-              return startYear * 10 + semesterOrder;
-            };
-
-            return getSemesterOrder(b.semester) - getSemesterOrder(a.semester);
-          })
+      ? sortAttempts(
+          transcript.filter((item) => item.name === selectedElectiveCourse),
+          "desc"
+        )
       : [];
 
     // Get the most recent attempt
@@ -1822,6 +1289,8 @@ export default function CoursePopup({
                 {isCurrentSemester() &&
                   (() => {
                     const activeLessons = getActiveLessons(displayCourseCode);
+                    const restrictedCount =
+                      getRestrictedLessonCount(displayCourseCode);
 
                     if (activeLessons.length === 0) {
                       return (
@@ -1833,6 +1302,13 @@ export default function CoursePopup({
                             No active lessons found for this course in the
                             current semester.
                           </p>
+                          <div className="mt-2">
+                            <RestrictedSectionsToggle
+                              restrictedCount={restrictedCount}
+                              showRestricted={showRestrictedSections}
+                              onShowRestrictedChange={setShowRestrictedSections}
+                            />
+                          </div>
                         </div>
                       );
                     }
@@ -1843,6 +1319,11 @@ export default function CoursePopup({
                           <h3 className="text-lg font-semibold text-gray-800">
                             Active Lessons
                           </h3>
+                          <RestrictedSectionsToggle
+                            restrictedCount={restrictedCount}
+                            showRestricted={showRestrictedSections}
+                            onShowRestrictedChange={setShowRestrictedSections}
+                          />
                         </div>
                         <div className="overflow-x-auto">
                           <table className="w-full border-collapse border border-gray-300">
@@ -1904,32 +1385,13 @@ export default function CoursePopup({
                                             item.code.includes("Elective") // Look for elective courses
                                         );
                                       }
-                                      const latestDashAttempt = courseHistory
-                                        .filter((item) => item.grade === "--")
-                                        .sort((a, b) => {
-                                          // Sort by semester to get the most recent "--" attempt
-                                          const getSemesterOrder = (
-                                            semester: string
-                                          ) => {
-                                            const yearMatch =
-                                              semester.match(/(\d{4})/);
-                                            if (!yearMatch) return 0;
-                                            const year = parseInt(yearMatch[1]);
-
-                                            let semesterOrder = 1; // Güz
-                                            if (semester.includes("Bahar"))
-                                              semesterOrder = 2;
-                                            else if (semester.includes("Yaz"))
-                                              semesterOrder = 3;
-
-                                            return year * 10 + semesterOrder;
-                                          };
-
-                                          return (
-                                            getSemesterOrder(b.semester) -
-                                            getSemesterOrder(a.semester)
-                                          );
-                                        })[0]; // Get the most recent "--" attempt
+                                      const latestDashAttempt =
+                                        getLatestAttempt(
+                                          courseHistory.filter(
+                                            (item) =>
+                                              item.grade === PLANNED_GRADE
+                                          )
+                                        ); // Get the most recent "--" attempt
 
                                       const isSelected =
                                         latestDashAttempt?.lesson_id ===
@@ -1941,9 +1403,18 @@ export default function CoursePopup({
                                           className="bg-white hover:bg-gray-50"
                                         >
                                           <td className="border border-gray-300 px-3 py-2 text-xs font-medium text-blue-600">
-                                            {sessionIndex === 0
-                                              ? lesson.lesson_id
-                                              : ""}
+                                            {sessionIndex === 0 && (
+                                              <>
+                                                {lesson.lesson_id}
+                                                <SectionRestrictionBadges
+                                                  restrictions={getSectionRestrictions(
+                                                    lesson,
+                                                    programCode
+                                                  )}
+                                                  programCode={programCode}
+                                                />
+                                              </>
+                                            )}
                                           </td>
                                           <td className="border border-gray-300 px-3 py-2 text-xs text-gray-700">
                                             {lesson.instructor &&
@@ -2020,153 +1491,12 @@ export default function CoursePopup({
                   })()}
 
                 {/* Prerequisites */}
-                {(() => {
-                  const prerequisites = getPrerequisites(displayCourseCode);
-                  if (!prerequisites || prerequisites.length === 0) {
-                    return (
-                      <div className="border-t border-gray-200 pt-6">
-                        <h3 className="text-lg font-semibold text-gray-800 mb-4">
-                          Prerequisites
-                        </h3>
-                        <p className="text-gray-500 text-sm">
-                          No prerequisites required for this course.
-                        </p>
-                      </div>
-                    );
-                  }
-
-                  const allSatisfied =
-                    areAllPrerequisitesSatisfied(prerequisites);
-                  const isExpanded = getPrereqExpanded(prerequisites);
-
-                  return (
-                    <div className="border-t border-gray-200 pt-6">
-                      <button
-                        onClick={() => togglePrerequisites(prerequisites)}
-                        className="flex items-center justify-between w-full text-left hover:bg-gray-50 rounded-lg p-2 -m-2 transition-colors group"
-                      >
-                        <div className="flex items-center">
-                          <h3 className="text-lg font-semibold text-gray-800">
-                            Prerequisites
-                          </h3>
-                          {allSatisfied && (
-                            <span className="text-green-600 text-sm ml-2">
-                              (All Satisfied)
-                            </span>
-                          )}
-                        </div>
-                        <svg
-                          className={`w-5 h-5 text-gray-500 transition-transform duration-200 ${
-                            isExpanded ? "rotate-90" : ""
-                          }`}
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M9 5l7 7-7 7"
-                          />
-                        </svg>
-                      </button>
-                      {isExpanded && (
-                        <div className="mt-4 space-y-4">
-                          {prerequisites.map((group, groupIndex) => {
-                            const isGroupSatisfied =
-                              isPrerequisiteGroupSatisfied(group);
-                            return (
-                              <div
-                                key={groupIndex}
-                                className="bg-gray-50 rounded-lg p-4"
-                              >
-                                <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
-                                  <div
-                                    className={`w-3 h-3 rounded-full mr-2 ${
-                                      isGroupSatisfied
-                                        ? "bg-green-500"
-                                        : "bg-red-500"
-                                    }`}
-                                  ></div>
-                                  Group {group.group}{" "}
-                                  {isGroupSatisfied && (
-                                    <span className="text-green-600 text-xs ml-2">
-                                      (Satisfied)
-                                    </span>
-                                  )}
-                                </h4>
-                                <div className="space-y-2">
-                                  {group.courses.map((prereq, prereqIndex) => {
-                                    const isSatisfied = isPrerequisiteSatisfied(
-                                      prereq.code,
-                                      prereq.min
-                                    );
-                                    const courseName =
-                                      getCourseNameFromData(prereq.code) ||
-                                      prereq.code;
-                                    const courseHistory = transcript.filter(
-                                      (t) => t.code === prereq.code
-                                    );
-                                    const latestGrade =
-                                      courseHistory.length > 0
-                                        ? courseHistory[
-                                            courseHistory.length - 1
-                                          ].grade
-                                        : "";
-
-                                    return (
-                                      <div
-                                        key={prereqIndex}
-                                        className="flex items-center justify-between"
-                                      >
-                                        <div className="flex items-center space-x-2">
-                                          <div
-                                            className={`w-3 h-3 rounded-full ${
-                                              isSatisfied
-                                                ? "bg-green-500"
-                                                : "bg-red-500"
-                                            }`}
-                                          ></div>
-                                          <span className="text-sm font-medium text-gray-800">
-                                            {courseName}
-                                          </span>
-                                        </div>
-                                        <div className="text-right">
-                                          <span
-                                            className={`text-sm font-semibold ${
-                                              getPrerequisiteStatus(
-                                                prereq.code
-                                              ) === "Not taken"
-                                                ? "text-gray-400"
-                                                : getPrerequisiteStatus(
-                                                    prereq.code
-                                                  ) === "Planned to pass"
-                                                ? "text-blue-600"
-                                                : getPrerequisiteStatus(
-                                                    prereq.code
-                                                  ) === "Failed"
-                                                ? "text-red-600"
-                                                : isSatisfied
-                                                ? "text-green-600"
-                                                : "text-red-600"
-                                            }`}
-                                          >
-                                            {getPrerequisiteStatus(prereq.code)}
-                                          </span>
-                                        </div>
-                                      </div>
-                                    );
-                                  })}
-                                </div>
-                              </div>
-                            );
-                          })}
-                        </div>
-                      )}
-                    </div>
-                  );
-                })()}
+                <PrerequisitesSection
+                  {...getEligibilityProps(displayCourseCode)}
+                  getCourseName={getCourseNameFromData}
+                  expanded={prereqExpanded}
+                  onExpandedChange={setPrereqExpanded}
+                />
               </div>
             )}
           </div>
@@ -2187,8 +1517,9 @@ export default function CoursePopup({
 
   // Unified course logic for both regular and elective courses
   // Filter transcript for this specific course
-  const courseHistory = transcript
-    .filter((item) => {
+  // Sort by semester to show most recent first
+  const courseHistory = sortAttempts(
+    transcript.filter((item) => {
       if (item.code !== displayCourseCode) return false;
 
       // If we have a specific course name provided, match it exactly
@@ -2198,26 +1529,9 @@ export default function CoursePopup({
 
       // Otherwise, show all courses with the same code
       return true;
-    })
-    .sort((a, b) => {
-      // Sort by semester to show most recent first
-      // Extract year and semester from semester string (e.g., "2023-2024 Güz Dönemi")
-      const getSemesterOrder = (semester: string) => {
-        const yearMatch = semester.match(/(\d{4})-(\d{4})/);
-        if (!yearMatch) return 0;
-        const startYear = parseInt(yearMatch[1]);
-        const endYear = parseInt(yearMatch[2]);
-
-        // Determine semester order: Güz (Fall) = 1, Bahar (Spring) = 2, Yaz (Summer) = 3
-        let semesterOrder = 1;
-        if (semester.includes("Bahar")) semesterOrder = 2;
-        else if (semester.includes("Yaz")) semesterOrder = 3;
-
-        return startYear * 10 + semesterOrder;
-      };
-
-      return getSemesterOrder(b.semester) - getSemesterOrder(a.semester);
-    });
+    }),
+    "desc"
+  );
 
   // Get the most recent attempt
   const latestAttempt = courseHistory[0]; // Now first item is most recent
@@ -2436,6 +1750,8 @@ export default function CoursePopup({
           {isCurrentSemester() &&
             (() => {
               const activeLessons = getActiveLessons(displayCourseCode);
+              const restrictedCount =
+                getRestrictedLessonCount(displayCourseCode);
 
               if (activeLessons.length === 0) {
                 return (
@@ -2447,6 +1763,13 @@ export default function CoursePopup({
                       No active lessons found for this course in the current
                       semester.
                     </p>
+                    <div className="mt-2">
+                      <RestrictedSectionsToggle
+                        restrictedCount={restrictedCount}
+                        showRestricted={showRestrictedSections}
+                        onShowRestrictedChange={setShowRestrictedSections}
+                      />
+                    </div>
                   </div>
                 );
               }
@@ -2457,6 +1780,11 @@ export default function CoursePopup({
                     <h3 className="text-lg font-semibold text-gray-800">
                       Active Lessons
                     </h3>
+                    <RestrictedSectionsToggle
+                      restrictedCount={restrictedCount}
+                      showRestricted={showRestrictedSections}
+                      onShowRestrictedChange={setShowRestrictedSections}
+                    />
                   </div>
                   <div className="overflow-x-auto">
                     <table className="w-full border-collapse border border-gray-300">
@@ -2515,31 +1843,11 @@ export default function CoursePopup({
                                     item.code.includes("Elective") // Look for elective courses
                                 );
                               }
-                              const latestDashAttempt = courseHistory
-                                .filter((item) => item.grade === "--")
-                                .sort((a, b) => {
-                                  // Sort by semester to get the most recent "--" attempt
-                                  const getSemesterOrder = (
-                                    semester: string
-                                  ) => {
-                                    const yearMatch = semester.match(/(\d{4})/);
-                                    if (!yearMatch) return 0;
-                                    const year = parseInt(yearMatch[1]);
-
-                                    let semesterOrder = 1; // Güz
-                                    if (semester.includes("Bahar"))
-                                      semesterOrder = 2;
-                                    else if (semester.includes("Yaz"))
-                                      semesterOrder = 3;
-
-                                    return year * 10 + semesterOrder;
-                                  };
-
-                                  return (
-                                    getSemesterOrder(b.semester) -
-                                    getSemesterOrder(a.semester)
-                                  );
-                                })[0]; // Get the most recent "--" attempt
+                              const latestDashAttempt = getLatestAttempt(
+                                courseHistory.filter(
+                                  (item) => item.grade === PLANNED_GRADE
+                                )
+                              ); // Get the most recent "--" attempt
 
                               const isSelected =
                                 latestDashAttempt?.lesson_id ===
@@ -2551,7 +1859,18 @@ export default function CoursePopup({
                                   className="bg-white hover:bg-gray-50"
                                 >
                                   <td className="border border-gray-300 px-3 py-2 text-xs font-medium text-blue-600">
-                                    {sessionIndex === 0 ? lesson.lesson_id : ""}
+                                    {sessionIndex === 0 && (
+                                      <>
+                                        {lesson.lesson_id}
+                                        <SectionRestrictionBadges
+                                          restrictions={getSectionRestrictions(
+                                            lesson,
+                                            programCode
+                                          )}
+                                          programCode={programCode}
+                                        />
+                                      </>
+                                    )}
                                   </td>
                                   <td className="border border-gray-300 px-3 py-2 text-xs text-gray-700">
                                     {lesson.instructor &&
@@ -2619,148 +1938,12 @@ export default function CoursePopup({
             })()}
 
           {/* Prerequisites */}
-          {(() => {
-            const prerequisites = getPrerequisites(displayCourseCode);
-            if (!prerequisites || prerequisites.length === 0) {
-              return (
-                <div className="border-t border-gray-200 pt-6">
-                  <h3 className="text-lg font-semibold text-gray-800 mb-4">
-                    Prerequisites
-                  </h3>
-                  <p className="text-gray-500 text-sm">
-                    No prerequisites required for this course.
-                  </p>
-                </div>
-              );
-            }
-
-            const allSatisfied = areAllPrerequisitesSatisfied(prerequisites);
-            const isExpanded = getPrereqExpanded(prerequisites);
-
-            return (
-              <div className="border-t border-gray-200 pt-6">
-                <button
-                  onClick={() => togglePrerequisites(prerequisites)}
-                  className="flex items-center justify-between w-full text-left hover:bg-gray-50 rounded-lg p-2 -m-2 transition-colors group"
-                >
-                  <div className="flex items-center">
-                    <h3 className="text-lg font-semibold text-gray-800">
-                      Prerequisites
-                    </h3>
-                    {allSatisfied && (
-                      <span className="text-green-600 text-sm ml-2">
-                        (All Satisfied)
-                      </span>
-                    )}
-                  </div>
-                  <svg
-                    className={`w-5 h-5 text-gray-500 transition-transform duration-200 ${
-                      isExpanded ? "rotate-90" : ""
-                    }`}
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M9 5l7 7-7 7"
-                    />
-                  </svg>
-                </button>
-                {isExpanded && (
-                  <div className="mt-4 space-y-4">
-                    {prerequisites.map((group, groupIndex) => {
-                      const isGroupSatisfied =
-                        isPrerequisiteGroupSatisfied(group);
-                      return (
-                        <div
-                          key={groupIndex}
-                          className="bg-gray-50 rounded-lg p-4"
-                        >
-                          <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
-                            <div
-                              className={`w-3 h-3 rounded-full mr-2 ${
-                                isGroupSatisfied ? "bg-green-500" : "bg-red-500"
-                              }`}
-                            ></div>
-                            Group {group.group}{" "}
-                            {isGroupSatisfied && (
-                              <span className="text-green-600 text-xs ml-2">
-                                (Satisfied)
-                              </span>
-                            )}
-                          </h4>
-                          <div className="space-y-2">
-                            {group.courses.map((prereq, prereqIndex) => {
-                              const isSatisfied = isPrerequisiteSatisfied(
-                                prereq.code,
-                                prereq.min
-                              );
-                              const courseName =
-                                getCourseNameFromData(prereq.code) ||
-                                prereq.code;
-                              const courseHistory = transcript.filter(
-                                (t) => t.code === prereq.code
-                              );
-                              const latestGrade =
-                                courseHistory.length > 0
-                                  ? courseHistory[courseHistory.length - 1]
-                                      .grade
-                                  : "";
-
-                              return (
-                                <div
-                                  key={prereqIndex}
-                                  className="flex items-center justify-between"
-                                >
-                                  <div className="flex items-center space-x-2">
-                                    <div
-                                      className={`w-3 h-3 rounded-full ${
-                                        isSatisfied
-                                          ? "bg-green-500"
-                                          : "bg-red-500"
-                                      }`}
-                                    ></div>
-                                    <span className="text-sm font-medium text-gray-800">
-                                      {courseName}
-                                    </span>
-                                  </div>
-                                  <div className="text-right">
-                                    <span
-                                      className={`text-sm font-semibold ${
-                                        getPrerequisiteStatus(prereq.code) ===
-                                        "Not taken"
-                                          ? "text-gray-400"
-                                          : getPrerequisiteStatus(
-                                              prereq.code
-                                            ) === "Planned to pass"
-                                          ? "text-blue-600"
-                                          : getPrerequisiteStatus(
-                                              prereq.code
-                                            ) === "Failed"
-                                          ? "text-red-600"
-                                          : isSatisfied
-                                          ? "text-green-600"
-                                          : "text-red-600"
-                                      }`}
-                                    >
-                                      {getPrerequisiteStatus(prereq.code)}
-                                    </span>
-                                  </div>
-                                </div>
-                              );
-                            })}
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                )}
-              </div>
-            );
-          })()}
+          <PrerequisitesSection
+            {...getEligibilityProps(displayCourseCode)}
+            getCourseName={getCourseNameFromData}
+            expanded={prereqExpanded}
+            onExpandedChange={setPrereqExpanded}
+          />
         </div>
 
         {/* Footer */}
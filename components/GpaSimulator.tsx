@@ -0,0 +1,548 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useUser } from "@clerk/nextjs";
+import { PROBATION_GPA, isPlannedSemester } from "@/lib/academic";
+import {
+  GpaScenario,
+  GradedAttempt,
+  SCENARIO_GRADES,
+  calculateGpa,
+  evaluateRetakeOptions,
+  getAttemptKey,
+  getPlannedAttempts,
+  getRetakeCandidates,
+  getRetakeSemester,
+  simulateScenario,
+  solveTargetGpa,
+} from "@/lib/gpa";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import { getStudentProfile, mergeStudentProfile } from "@/lib/profile";
+
+interface GpaSimulatorProps {
+  transcript: GradedAttempt[];
+  courseEquivalences: CourseEquivalenceGroups;
+}
+
+// Number of retake options listed under the target solver
+const VISIBLE_RETAKE_OPTIONS = 5;
+
+const DEFAULT_TARGET = 3.0;
+
+const formatGpa = (gpa: number) => gpa.toFixed(2);
+
+// Helper function to create a scenario with a unique id
+const createScenario = (
+  name: string,
+  grades: Record<string, string> = {}
+): GpaScenario => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  grades,
+  retakes: [],
+});
+
+export default function GpaSimulator({
+  transcript,
+  courseEquivalences,
+}: GpaSimulatorProps) {
+  const { user } = useUser();
+  const [scenarios, setScenarios] = useState<GpaScenario[]>([]);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [target, setTarget] = useState(DEFAULT_TARGET);
+
+  // Load saved scenarios from the profile
+  useEffect(() => {
+    if (!user) return;
+    const saved = getStudentProfile(user.unsafeMetadata).gpaScenarios;
+    setScenarios(
+      saved && saved.length > 0 ? saved : [createScenario("Plan A")]
+    );
+  }, [user]);
+
+  const plannedAttempts = useMemo(
+    () => getPlannedAttempts(transcript),
+    [transcript]
+  );
+  const retakeCandidates = useMemo(
+    () => getRetakeCandidates(transcript),
+    [transcript]
+  );
+  const retakeSemester = useMemo(
+    () => getRetakeSemester(transcript),
+    [transcript]
+  );
+  const currentGpa = useMemo(
+    () => calculateGpa(transcript, courseEquivalences),
+    [transcript, courseEquivalences]
+  );
+
+  const results = useMemo(
+    () =>
+      scenarios.map((scenario) =>
+        simulateScenario(transcript, scenario, courseEquivalences)
+      ),
+    [transcript, scenarios, courseEquivalences]
+  );
+
+  // Planned semesters shown with a term GPA, including retake semesters
+  const plannedSemesters = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          results.flatMap((result) =>
+            result.terms
+              .map((term) => term.semester)
+              .filter((semester) => isPlannedSemester(semester))
+          )
+        )
+      ),
+    [results]
+  );
+
+  const solution = useMemo(
+    () => solveTargetGpa(transcript, target, [], courseEquivalences),
+    [transcript, target, courseEquivalences]
+  );
+  const retakeOptions = useMemo(
+    () =>
+      retakeSemester && !solution.alreadyMet
+        ? evaluateRetakeOptions(
+            transcript,
+            target,
+            retakeSemester,
+            courseEquivalences
+          ).slice(0, VISIBLE_RETAKE_OPTIONS)
+        : [],
+    [
+      transcript,
+      target,
+      retakeSemester,
+      solution.alreadyMet,
+      courseEquivalences,
+    ]
+  );
+
+  const updateScenario = (
+    id: string,
+    update: (scenario: GpaScenario) => GpaScenario
+  ) => {
+    setScenarios((previous) =>
+      previous.map((scenario) =>
+        scenario.id === id ? update(scenario) : scenario
+      )
+    );
+    setHasUnsavedChanges(true);
+  };
+
+  const addScenario = (grades: Record<string, string> = {}, name?: string) => {
+    setScenarios((previous) => [
+      ...previous,
+      createScenario(
+        name || `Plan ${String.fromCharCode(65 + previous.length)}`,
+        grades
+      ),
+    ]);
+    setHasUnsavedChanges(true);
+  };
+
+  const removeScenario = (id: string) => {
+    setScenarios((previous) => previous.filter((s) => s.id !== id));
+    setHasUnsavedChanges(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await user.update({
+        unsafeMetadata: mergeStudentProfile(user.unsafeMetadata, {
+          gpaScenarios: scenarios,
+        }),
+      });
+      setHasUnsavedChanges(false);
+    } catch (error) {
+      console.error("Error saving GPA scenarios:", error);
+      alert("Failed to save scenarios. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getGpaClassName = (gpa: number) =>
+    gpa < PROBATION_GPA ? "text-red-600" : "text-gray-900";
+
+  return (
+    <div className="w-full max-w-7xl mx-auto mb-6 space-y-6">
+      {/* Scenarios */}
+      <div className="p-4 lg:p-6 bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">
+              What-if Scenarios
+            </h3>
+            <p className="text-sm text-gray-500">
+              Current GPA {formatGpa(currentGpa.gpa)} over {currentGpa.credits}{" "}
+              credits. Compare grades for your {plannedAttempts.length} planned
+              courses.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => addScenario()}
+              className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Add Scenario
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!hasUnsavedChanges || isSaving}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : "Save Scenarios"}
+            </button>
+          </div>
+        </div>
+
+        {plannedAttempts.length === 0 && retakeCandidates.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Add planned courses to a semester to simulate their grades.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2 pr-4 font-medium text-gray-500">
+                    Course
+                  </th>
+                  {scenarios.map((scenario) => (
+                    <th key={scenario.id} className="py-2 pr-4 min-w-[9rem]">
+                      <div className="flex items-center gap-1">
+                        <input
+                          value={scenario.name}
+                          onChange={(e) =>
+                            updateScenario(scenario.id, (s) => ({
+                              ...s,
+                              name: e.target.value,
+                            }))
+                          }
+                          className="w-full border border-gray-300 rounded px-2 py-1 font-medium text-gray-800"
+                        />
+                        {scenarios.length > 1 && (
+                          <button
+                            onClick={() => removeScenario(scenario.id)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Remove scenario"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {plannedAttempts.map((attempt) => {
+                  const key = getAttemptKey(attempt);
+                  return (
+                    <tr key={key} className="border-b">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium text-gray-800">
+                          {attempt.code}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {attempt.semester} · {attempt.credits} cr
+                        </div>
+                      </td>
+                      {scenarios.map((scenario) => (
+                        <td key={scenario.id} className="py-2 pr-4">
+                          <select
+                            value={scenario.grades[key] || ""}
+                            onChange={(e) =>
+                              updateScenario(scenario.id, (s) => {
+                                const grades = { ...s.grades };
+                                if (e.target.value) {
+                                  grades[key] = e.target.value;
+                                } else {
+                                  delete grades[key];
+                                }
+                                return { ...s, grades };
+                              })
+                            }
+                            className="border border-gray-300 rounded px-2 py-1"
+                          >
+                            <option value="">{attempt.grade}</option>
+                            {SCENARIO_GRADES.map((grade) => (
+                              <option key={grade} value={grade}>
+                                {grade}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+
+                {/* Retakes */}
+                {retakeSemester && retakeCandidates.length > 0 && (
+                  <tr className="border-b align-top">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium text-gray-800">Retakes</div>
+                      <div className="text-xs text-gray-500">
+                        In {retakeSemester}
+                      </div>
+                    </td>
+                    {scenarios.map((scenario) => (
+                      <td key={scenario.id} className="py-2 pr-4 space-y-1">
+                        {scenario.retakes.map((retake, index) => (
+                          <div
+                            key={retake.code}
+                            className="flex items-center gap-1"
+                          >
+                            <span className="text-xs text-gray-700 w-20">
+                              {retake.code}
+                            </span>
+                            <select
+                              value={retake.grade}
+                              onChange={(e) =>
+                                updateScenario(scenario.id, (s) => ({
+                                  ...s,
+                                  retakes: s.retakes.map((r, i) =>
+                                    i === index
+                                      ? { ...r, grade: e.target.value }
+                                      : r
+                                  ),
+                                }))
+                              }
+                              className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+                            >
+                              {SCENARIO_GRADES.map((grade) => (
+                                <option key={grade} value={grade}>
+                                  {grade}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() =>
+                                updateScenario(scenario.id, (s) => ({
+                                  ...s,
+                                  retakes: s.retakes.filter(
+                                    (_, i) => i !== index
+                                  ),
+                                }))
+                              }
+                              className="text-gray-400 hover:text-red-600"
+                              title="Remove retake"
+                            >
+                              ×
+                            </button>
+                          </div>
+                        ))}
+                        <select
+                          value=""
+                          onChange={(e) => {
+                            if (!e.target.value) return;
+                            updateScenario(scenario.id, (s) => ({
+                              ...s,
+                              retakes: [
+                                ...s.retakes,
+                                {
+                                  code: e.target.value,
+                                  semester: retakeSemester,
+                                  grade: "AA",
+                                },
+                              ],
+                            }));
+                          }}
+                          className="border border-gray-300 rounded px-1 py-0.5 text-xs text-gray-500"
+                        >
+                          <option value="">+ Retake a course</option>
+                          {retakeCandidates
+                            .filter(
+                              (candidate) =>
+                                !scenario.retakes.some(
+                                  (r) => r.code === candidate.code
+                                )
+                            )
+                            .map((candidate) => (
+                              <option
+                                key={candidate.code}
+                                value={candidate.code}
+                              >
+                                {candidate.code} ({candidate.grade})
+                              </option>
+                            ))}
+                        </select>
+                      </td>
+                    ))}
+                  </tr>
+                )}
+
+                {/* Term and cumulative GPA */}
+                {plannedSemesters.map((semester) => (
+                  <tr key={semester} className="border-b bg-gray-50">
+                    <td className="py-2 pr-4 text-gray-600">{semester} GPA</td>
+                    {results.map((result, index) => {
+                      const term = result.terms.find(
+                        (t) => t.semester === semester
+                      );
+                      return (
+                        <td
+                          key={scenarios[index].id}
+                          className="py-2 pr-4 text-gray-800"
+                        >
+                          {term && term.credits > 0 ? formatGpa(term.gpa) : "-"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="bg-gray-50">
+                  <td className="py-2 pr-4 font-semibold text-gray-800">
+                    Cumulative GPA
+                  </td>
+                  {results.map((result, index) => (
+                    <td
+                      key={scenarios[index].id}
+                      className={`py-2 pr-4 text-lg font-bold ${getGpaClassName(
+                        result.cumulative.gpa
+                      )}`}
+                    >
+                      {formatGpa(result.cumulative.gpa)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Target GPA */}
+      <div className="p-4 lg:p-6 bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Target GPA</h3>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <input
+              type="number"
+              min={0}
+              max={4}
+              step={0.01}
+              value={target}
+              onChange={(e) => setTarget(parseFloat(e.target.value) || 0)}
+              className="w-24 border border-gray-300 rounded px-2 py-1"
+            />
+            <button
+              onClick={() => setTarget(3.0)}
+              className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+            >
+              3.00
+            </button>
+            <button
+              onClick={() => setTarget(PROBATION_GPA)}
+              className="px-3 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+            >
+              Avoid probation ({formatGpa(PROBATION_GPA)})
+            </button>
+          </div>
+        </div>
+
+        {solution.requiredAverage === null ? (
+          <p className="text-sm text-gray-600">
+            {solution.alreadyMet
+              ? `Your GPA is already at or above ${formatGpa(target)}.`
+              : "There are no planned courses to raise your GPA with. Consider retaking a course."}
+          </p>
+        ) : solution.alreadyMet ? (
+          <p className="text-sm text-green-700">
+            Passing your planned courses with any grade keeps you at or above{" "}
+            {formatGpa(target)}.
+          </p>
+        ) : !solution.feasible ? (
+          <p className="text-sm text-red-600">
+            {formatGpa(target)} is out of reach with your planned courses: it
+            would need an average of {formatGpa(solution.requiredAverage)}. The
+            highest you can reach is {formatGpa(solution.resultingGpa)}.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700">
+              You need an average of{" "}
+              <span className="font-semibold">
+                {formatGpa(solution.requiredAverage)}
+              </span>{" "}
+              in your planned courses, e.g. {solution.uniformGrade} in each. The
+              most even grades that get you there:
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {plannedAttempts.map((attempt) => (
+                <span
+                  key={getAttemptKey(attempt)}
+                  className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-700"
+                >
+                  {attempt.code}:{" "}
+                  <span className="font-semibold">
+                    {solution.grades[getAttemptKey(attempt)]}
+                  </span>
+                </span>
+              ))}
+            </div>
+            <button
+              onClick={() =>
+                addScenario(solution.grades, `Target ${formatGpa(target)}`)
+              }
+              className="px-3 py-1 bg-green-600 text-white text-xs font-medium rounded hover:bg-green-700 transition-colors"
+            >
+              Add as Scenario
+            </button>
+          </div>
+        )}
+
+        {retakeOptions.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">
+              Effect of retaking a course
+            </h4>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-1 pr-4 font-medium">Course</th>
+                  <th className="py-1 pr-4 font-medium">Current grade</th>
+                  <th className="py-1 pr-4 font-medium">Average needed</th>
+                  <th className="py-1 font-medium">GPA gain with AA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {retakeOptions.map((option) => (
+                  <tr key={option.code} className="border-b last:border-0">
+                    <td className="py-1 pr-4 text-gray-800">
+                      {option.code}{" "}
+                      <span className="text-xs text-gray-500">
+                        ({option.credits} cr)
+                      </span>
+                    </td>
+                    <td className="py-1 pr-4 text-gray-700">
+                      {option.currentGrade}
+                    </td>
+                    <td className="py-1 pr-4 text-gray-700">
+                      {option.requiredAverage === null
+                        ? "-"
+                        : formatGpa(option.requiredAverage)}
+                    </td>
+                    <td className="py-1 text-green-700">
+                      +{option.maxGain.toFixed(3)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  AuditAttempt,
+  AuditPlanItem,
+  RequirementResult,
+  RequirementStatus,
+  auditGraduation,
+} from "@/lib/audit";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import { CatalogCourse } from "@/lib/prerequisites";
+
+interface GraduationAuditProps {
+  selectedPlan: AuditPlanItem[][];
+  transcript: AuditAttempt[];
+  selectedSemester: string | null;
+  coursesData: CatalogCourse[];
+  courseEquivalences: CourseEquivalenceGroups;
+}
+
+// Number of elective options shown before "show all"
+const VISIBLE_OPTIONS = 12;
+
+const STATUS_STYLES: Record<
+  RequirementStatus,
+  { label: string; className: string }
+> = {
+  completed: {
+    label: "Completed",
+    className: "bg-green-100 text-green-800",
+  },
+  "in-progress": {
+    label: "In progress",
+    className: "bg-yellow-100 text-yellow-800",
+  },
+  missing: { label: "Missing", className: "bg-red-100 text-red-800" },
+};
+
+// Helper function to round credits to one decimal place
+const formatCredits = (credits: number) => Math.round(credits * 10) / 10;
+
+export default function GraduationAudit({
+  selectedPlan,
+  transcript,
+  selectedSemester,
+  coursesData,
+  courseEquivalences,
+}: GraduationAuditProps) {
+  const [expandedSlots, setExpandedSlots] = useState<Set<string>>(new Set());
+
+  const audit = useMemo(
+    () =>
+      auditGraduation(selectedPlan, transcript, {
+        courses: coursesData,
+        equivalences: courseEquivalences,
+        referenceSemester: selectedSemester,
+      }),
+    [
+      selectedPlan,
+      transcript,
+      coursesData,
+      courseEquivalences,
+      selectedSemester,
+    ]
+  );
+
+  const toggleOptions = (key: string) => {
+    setExpandedSlots((previous) => {
+      const next = new Set(previous);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const renderRequirement = (requirement: RequirementResult) => {
+    const key = `${requirement.semesterIndex}-${requirement.label}`;
+    const status = STATUS_STYLES[requirement.status];
+    const isExpanded = expandedSlots.has(key);
+    const options = isExpanded
+      ? requirement.availableOptions
+      : requirement.availableOptions.slice(0, VISIBLE_OPTIONS);
+
+    return (
+      <li key={key} className="py-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-gray-900 truncate">
+                {requirement.label}
+              </span>
+              <span className="text-xs text-gray-500">
+                Semester {requirement.semesterIndex + 1}
+              </span>
+            </div>
+            {requirement.matchedCode &&
+              requirement.matchedCode !== requirement.label && (
+                <div className="text-sm text-gray-600">
+                  Filled by {requirement.matchedCode}
+                  {requirement.matchedSemester &&
+                    ` (${requirement.matchedSemester})`}
+                </div>
+              )}
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {requirement.grade && (
+              <span className="text-sm font-mono text-gray-700">
+                {requirement.grade}
+              </span>
+            )}
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}
+            >
+              {status.label}
+            </span>
+          </div>
+        </div>
+        {requirement.status === "missing" &&
+          requirement.kind === "elective" && (
+            <div className="mt-2">
+              {requirement.availableOptions.length === 0 ? (
+                <p className="text-sm text-red-600">
+                  No options left for this slot
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-1">
+                  {options.map((option) => (
+                    <span
+                      key={option}
+                      className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs"
+                    >
+                      {option}
+                    </span>
+                  ))}
+                  {requirement.availableOptions.length > VISIBLE_OPTIONS && (
+                    <button
+                      onClick={() => toggleOptions(key)}
+                      className="px-2 py-0.5 text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      {isExpanded
+                        ? "Show less"
+                        : `+${
+                            requirement.availableOptions.length -
+                            VISIBLE_OPTIONS
+                          } more`}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+      </li>
+    );
+  };
+
+  const remainingRequirements = audit.requirements.filter(
+    (requirement) => requirement.status !== "completed"
+  );
+  const completedRequirements = audit.requirements.filter(
+    (requirement) => requirement.status === "completed"
+  );
+
+  return (
+    <div className="w-full max-w-7xl mx-auto mb-6 space-y-6">
+      {/* Summary */}
+      <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Completed:</span>
+            <span className="text-lg font-bold text-green-600">
+              {formatCredits(audit.completedCredits)} cr
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">In progress:</span>
+            <span className="text-lg font-bold text-yellow-600">
+              {formatCredits(audit.inProgressCredits)} cr
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Remaining:</span>
+            <span className="text-lg font-bold text-red-600">
+              {formatCredits(audit.remainingCredits)} cr
+            </span>
+          </div>
+          {audit.complete && (
+            <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-medium">
+              All requirements completed
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Categories */}
+      <div className="bg-white rounded-lg shadow-md p-4 overflow-x-auto">
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">
+          Requirements by category
+        </h3>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4 font-medium">Category</th>
+              <th className="py-2 pr-4 font-medium">Completed</th>
+              <th className="py-2 pr-4 font-medium">In progress</th>
+              <th className="py-2 pr-4 font-medium">Missing</th>
+              <th className="py-2 font-medium">Credits</th>
+            </tr>
+          </thead>
+          <tbody>
+            {audit.categories.map((category) => (
+              <tr key={category.category} className="border-b last:border-0">
+                <td className="py-2 pr-4 font-medium text-gray-900">
+                  {category.category}
+                </td>
+                <td className="py-2 pr-4 text-green-700">
+                  {category.completed}/{category.total}
+                </td>
+                <td className="py-2 pr-4 text-yellow-700">
+                  {category.inProgress}
+                </td>
+                <td className="py-2 pr-4 text-red-700">{category.missing}</td>
+                <td className="py-2 text-gray-700">
+                  {formatCredits(category.completedCredits)}
+                  {category.inProgressCredits > 0 &&
+                    ` (+${formatCredits(category.inProgressCredits)})`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Remaining requirements */}
+      <div className="bg-white rounded-lg shadow-md p-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">
+          What remains ({remainingRequirements.length})
+        </h3>
+        {remainingRequirements.length === 0 ? (
+          <p className="text-sm text-gray-600">Nothing left in your plan.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {remainingRequirements.map(renderRequirement)}
+          </ul>
+        )}
+      </div>
+
+      {/* Completed requirements */}
+      {completedRequirements.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">
+            Completed ({completedRequirements.length})
+          </h3>
+          <ul className="divide-y divide-gray-100">
+            {completedRequirements.map(renderRequirement)}
+          </ul>
+        </div>
+      )}
+
+      {audit.unassignedCourses.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">
+            Courses outside the plan
+          </h3>
+          <p className="text-sm text-gray-600 mb-2">
+            These passed courses did not fill any requirement.
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {audit.unassignedCourses.map((code) => (
+              <span
+                key={code}
+                className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs"
+              >
+                {code}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,11 @@
 
 import { useState, useEffect } from "react";
 import React from "react"; // Added missing import for React
+import { fetchLessonsByIds, fetchTermInfo } from "@/lib/catalog-client";
+import { getTermSlug } from "@/lib/catalog-terms";
+import { buildTimetableIcs } from "@/lib/ics";
+import { formatClockTime } from "@/lib/lessons";
+import { TIMETABLE_SLOT_MINUTES, buildTimetable } from "@/lib/timetable";
 
 interface LessonSession {
   location: string;
@@ -57,6 +62,9 @@ interface LessonCalendarProps {
   onLessonClick?: (lesson: Lesson) => void; // Add callback for lesson clicks
 }
 
+// Height of a 30-minute row in pixels
+const SLOT_HEIGHT = 40;
+
 export default function LessonCalendar({
   lessons,
   selectedLessons,
@@ -68,53 +76,10 @@ export default function LessonCalendar({
   selectedPlan = [],
   onLessonClick,
 }: LessonCalendarProps) {
-  const [hoveredCell, setHoveredCell] = useState<string | null>(null);
   const [lessonsData, setLessonsData] = useState<Lesson[]>([]);
   const [isLessonsDataLoaded, setIsLessonsDataLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-
-  // Load lessons data from public file
-  const loadLessonsData = async () => {
-    setIsLoading(true);
-    try {
-      console.log("Calendar: Loading lessons data...");
-      const lessonsResponse = await fetch("/lessons.json");
-      const lessonsData = await lessonsResponse.json();
-
-      // Handle the structure where lessons are nested under 'lessons' property
-      const lessonsArray = Array.isArray(lessonsData)
-        ? lessonsData
-        : lessonsData.lessons;
-
-      if (Array.isArray(lessonsArray)) {
-        setLessonsData(lessonsArray);
-        setIsLessonsDataLoaded(true);
-        console.log(
-          "Calendar: Lessons data loaded successfully, count:",
-          lessonsArray.length
-        );
-      } else {
-        console.error(
-          "Calendar: lessons.json does not contain a lessons array:",
-          lessonsData
-        );
-        console.log("Calendar: lessons.json structure:", typeof lessonsData);
-        setLessonsData([]);
-        setIsLessonsDataLoaded(false);
-      }
-    } catch (error) {
-      console.error("Calendar: Error loading lessons data:", error);
-      setLessonsData([]);
-      setIsLessonsDataLoaded(false);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Load lessons data on component mount
-  useEffect(() => {
-    loadLessonsData();
-  }, []);
+  const [isExporting, setIsExporting] = useState(false);
 
   // Function to get selected lesson IDs from current plan and user courses
   const getSelectedLessonIds = () => {
@@ -124,9 +89,6 @@ export default function LessonCalendar({
     userCourses.forEach((course) => {
       if (course.lesson_id) {
         selectedLessonIds.push(course.lesson_id);
-        console.log(
-          `Calendar: Course ${course.code} has lesson_id: ${course.lesson_id}`
-        );
       }
     });
 
@@ -145,264 +107,48 @@ export default function LessonCalendar({
       });
     });
 
-    console.log("Calendar: Selected lesson IDs:", selectedLessonIds);
-    return selectedLessonIds;
-  };
-
-  // Function to get filtered lessons for calendar display
-  const getFilteredLessonsForCalendar = () => {
-    const selectedLessonIds = getSelectedLessonIds();
-
-    if (selectedLessonIds.length === 0) {
-      return [];
-    }
-
-    // Ensure lessonsData is an array before filtering
-    if (!Array.isArray(lessonsData)) {
-      console.error("Calendar: lessonsData is not an array:", lessonsData);
-      console.log("Calendar: lessonsData type:", typeof lessonsData);
-      return [];
-    }
-
-    console.log("Calendar: Total lessons available:", lessonsData.length);
-    console.log("Calendar: Sample lesson structure:", lessonsData[0]);
-
-    // Show all available lesson IDs for debugging
-    const availableLessonIds = lessonsData
-      .map((lesson) => lesson.lesson_id)
-      .slice(0, 10); // Show first 10
-    console.log(
-      "Calendar: Available lesson IDs (first 10):",
-      availableLessonIds
-    );
-
-    // Check if specific lesson IDs from transcript exist in lessons data
-    selectedLessonIds.forEach((lessonId) => {
-      const exists = lessonsData.some(
-        (lesson) => lesson.lesson_id === lessonId
-      );
-      console.log(
-        `Calendar: Lesson ID ${lessonId} exists in lessons data:`,
-        exists
-      );
-
-      // If lesson exists, show its session details
-      if (exists) {
-        const lesson = lessonsData.find((l) => l.lesson_id === lessonId);
-        console.log(`Calendar: Lesson ${lessonId} sessions:`, lesson?.sessions);
-
-        // Show day names from sessions
-        lesson?.sessions.forEach((session, index) => {
-          console.log(
-            `Calendar: Session ${index} day: "${session.day}", time: "${session.time}"`
-          );
-        });
-      }
-    });
-
-    // Filter lessons data to only include selected lessons
-    const filteredLessons = lessonsData.filter((lesson) =>
-      selectedLessonIds.includes(lesson.lesson_id)
-    );
-
-    console.log("Calendar: Filtered lessons count:", filteredLessons.length);
-    console.log("Calendar: Filtered lessons:", filteredLessons);
-
-    return filteredLessons;
+    return [...new Set(selectedLessonIds)];
   };
 
-  // Generate time slots from 8:30 to 18:00 with 30-minute intervals
-  const generateTimeSlots = () => {
-    const slots = [];
-    const startHour = 8;
-    const startMinute = 30;
-    const endHour = 16;
-    const endMinute = 0;
-
-    for (let hour = startHour; hour <= endHour; hour++) {
-      for (let minute of [0, 30]) {
-        if (hour === startHour && minute < startMinute) continue;
-        if (hour === endHour && minute > endMinute) continue;
-
-        const timeString = `${hour.toString().padStart(2, "0")}:${minute
-          .toString()
-          .padStart(2, "0")}`;
-        const nextMinute = minute === 30 ? 0 : 30;
-        const nextHour = minute === 30 ? hour + 1 : hour;
-        const nextTimeString = `${nextHour
-          .toString()
-          .padStart(2, "0")}:${nextMinute.toString().padStart(2, "0")}`;
-
-        slots.push({
-          start: timeString,
-          end: nextTimeString,
-          display: `${timeString}-${nextTimeString}`,
-        });
-      }
-    }
-    return slots;
-  };
-
-  const timeSlots = generateTimeSlots();
-  const days = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
-
-  // Map Turkish day names to English
-  const dayNameMap: { [key: string]: string } = {
-    Pazartesi: "Monday",
-    Salı: "Tuesday",
-    Çarşamba: "Wednesday",
-    Perşembe: "Thursday",
-    Cuma: "Friday",
-    Cumartesi: "Saturday",
-    Pazar: "Sunday",
-  };
+  // Reload the sections when the selection changes
+  const selectedLessonIdsKey = getSelectedLessonIds().sort().join(",");
 
-  // Helper function to check if a lesson session is in a specific time slot
-  const isSessionInTimeSlot = (
-    session: LessonSession,
-    timeSlot: { start: string; end: string }
-  ) => {
-    console.log(
-      `Calendar: Checking time match - session time: "${session.time}", timeSlot: ${timeSlot.start}-${timeSlot.end}`
-    );
-
-    // Handle both "-" and "/" separators in time format
-    const timeParts = session.time.includes("-")
-      ? session.time.split("-")
-      : session.time.split("/");
-
-    if (timeParts.length !== 2) {
-      console.log(`Calendar: Invalid time format: ${session.time}`);
-      return false;
+  // Load the selected sections of the current term from the catalog
+  const loadLessonsData = async (lessonIds: string[]) => {
+    setIsLoading(true);
+    try {
+      const lessonsData = await fetchLessonsByIds(lessonIds);
+      setLessonsData(lessonsData);
+      setIsLessonsDataLoaded(true);
+      console.log("Calendar: Lessons loaded, count:", lessonsData.length);
+    } catch (error) {
+      console.error("Calendar: Error loading lessons data:", error);
+      setLessonsData([]);
+      setIsLessonsDataLoaded(false);
+    } finally {
+      setIsLoading(false);
     }
-
-    const sessionStart = timeParts[0].trim();
-    const sessionEnd = timeParts[1].trim();
-
-    console.log(
-      `Calendar: Parsed session time - start: "${sessionStart}", end: "${sessionEnd}"`
-    );
-    console.log(
-      `Calendar: TimeSlot - start: "${timeSlot.start}", end: "${timeSlot.end}"`
-    );
-
-    // Convert times to minutes for easier comparison
-    const timeToMinutes = (timeStr: string) => {
-      const [hours, minutes] = timeStr.split(":").map(Number);
-      return hours * 60 + minutes;
-    };
-
-    const sessionStartMinutes = timeToMinutes(sessionStart);
-    const sessionEndMinutes = timeToMinutes(sessionEnd);
-    const slotStartMinutes = timeToMinutes(timeSlot.start);
-    const slotEndMinutes = timeToMinutes(timeSlot.end);
-
-    // Check if the session overlaps with the time slot
-    // A session overlaps if it starts before the slot ends AND ends after the slot starts
-    const overlap =
-      sessionStartMinutes < slotEndMinutes &&
-      sessionEndMinutes > slotStartMinutes;
-
-    console.log(
-      `Calendar: Time overlap result: ${overlap} (session: ${sessionStartMinutes}-${sessionEndMinutes}, slot: ${slotStartMinutes}-${slotEndMinutes})`
-    );
-
-    return overlap;
   };
 
-  // Helper function to check if a lesson session starts in this time slot
-  const isSessionStartingInTimeSlot = (
-    session: LessonSession,
-    timeSlot: { start: string; end: string }
-  ) => {
-    console.log(
-      `Calendar: Checking if session starts in time slot - session time: "${session.time}", timeSlot: ${timeSlot.start}-${timeSlot.end}`
-    );
-
-    // Handle both "-" and "/" separators in time format
-    const timeParts = session.time.includes("-")
-      ? session.time.split("-")
-      : session.time.split("/");
-
-    if (timeParts.length !== 2) {
-      console.log(`Calendar: Invalid time format: ${session.time}`);
-      return false;
-    }
-
-    const sessionStart = timeParts[0].trim();
-
-    console.log(
-      `Calendar: Session start time: "${sessionStart}", timeSlot start: "${timeSlot.start}"`
-    );
-
-    // Check if the session starts exactly at this time slot
-    const startsInSlot = sessionStart === timeSlot.start;
-
-    console.log(`Calendar: Session starts in this slot: ${startsInSlot}`);
-
-    return startsInSlot;
-  };
-
-  // Helper function to get lessons for a specific day and time slot
-  const getLessonsForSlot = (
-    day: string,
-    timeSlot: { start: string; end: string }
-  ) => {
-    const filteredLessons = getFilteredLessonsForCalendar();
-    console.log(
-      `Calendar: Checking for lessons on ${day} at ${timeSlot.start}-${timeSlot.end}`
+  useEffect(() => {
+    loadLessonsData(
+      selectedLessonIdsKey ? selectedLessonIdsKey.split(",") : []
     );
-    console.log(`Calendar: Filtered lessons count: ${filteredLessons.length}`);
-
-    const lessonsForSlot = filteredLessons.filter((lesson) => {
-      const hasSession = lesson.sessions.some((session) => {
-        // Map Turkish day name to English
-        const mappedDay = dayNameMap[session.day] || session.day;
-        const dayMatch = mappedDay === day;
-        const startsInSlot = isSessionStartingInTimeSlot(session, timeSlot);
-        console.log(
-          `Calendar: Lesson ${lesson.lesson_id} session: day="${session.day}" -> "${mappedDay}" (${dayMatch}), starts in slot: ${startsInSlot}`
-        );
-        return dayMatch && startsInSlot;
-      });
-      return hasSession;
-    });
+  }, [selectedLessonIdsKey]);
 
-    console.log(
-      `Calendar: Found ${lessonsForSlot.length} lessons starting in ${day} at ${timeSlot.start}-${timeSlot.end}`
+  // Function to get filtered lessons for calendar display
+  const getFilteredLessonsForCalendar = () => {
+    const selectedLessonIds = getSelectedLessonIds();
+    return lessonsData.filter((lesson) =>
+      selectedLessonIds.includes(lesson.lesson_id)
     );
-    return lessonsForSlot;
   };
 
-  // Helper function to calculate how many time slots a lesson spans
-  const getLessonSpan = (session: LessonSession) => {
-    const timeParts = session.time.includes("-")
-      ? session.time.split("-")
-      : session.time.split("/");
-
-    if (timeParts.length !== 2) return 1;
-
-    const sessionStart = timeParts[0].trim();
-    const sessionEnd = timeParts[1].trim();
-
-    // Convert times to minutes
-    const timeToMinutes = (timeStr: string) => {
-      const [hours, minutes] = timeStr.split(":").map(Number);
-      return hours * 60 + minutes;
-    };
-
-    const startMinutes = timeToMinutes(sessionStart);
-    const endMinutes = timeToMinutes(sessionEnd);
-    const durationMinutes = endMinutes - startMinutes;
-
-    // Calculate how many 30-minute slots this spans
-    const span = Math.ceil(durationMinutes / 30);
-
-    console.log(
-      `Calendar: Lesson duration: ${durationMinutes} minutes, spans ${span} slots`
-    );
-    return Math.max(1, span);
-  };
+  // Calendar layout of the selected lessons: time range, days and columns
+  // for overlapping sessions
+  const timetable = buildTimetable(getFilteredLessonsForCalendar());
+  const slotCount = (timetable.end - timetable.start) / TIMETABLE_SLOT_MINUTES;
+  const gridTemplateColumns = `80px repeat(${timetable.days.length}, minmax(0, 1fr))`;
 
   // Helper function to check if a lesson is selected
   const isLessonSelected = (lessonId: string) => {
@@ -412,62 +158,69 @@ export default function LessonCalendar({
     );
   };
 
-  // Helper function to get selected lesson for a slot
-  const getSelectedLessonForSlot = (
-    day: string,
-    timeSlot: { start: string; end: string }
-  ) => {
-    return selectedLessons.find(
-      (selected) =>
-        selected.session.day === day &&
-        isSessionInTimeSlot(selected.session, timeSlot)
-    );
+  // Helper function to handle a click on a session: open the course, or
+  // toggle the lesson selection when no click handler is given
+  const handleSessionClick = (lesson: Lesson, session: LessonSession) => {
+    if (onLessonClick) {
+      onLessonClick(lesson);
+      return;
+    }
+    if (isLessonSelected(lesson.lesson_id)) {
+      onLessonDeselect(lesson.lesson_id);
+    } else {
+      onLessonSelect({
+        courseCode: courseCode || lesson.course_code,
+        lessonId: lesson.lesson_id,
+        session,
+        instructor: lesson.instructor,
+        deliveryMode: lesson.delivery_mode,
+      });
+    }
   };
 
-  // Helper function to handle cell click
-  const handleCellClick = (
-    day: string,
-    timeSlot: { start: string; end: string }
-  ) => {
-    const lessonsForSlot = getLessonsForSlot(day, timeSlot);
-
-    if (lessonsForSlot.length === 0) return;
-
-    // If there's only one lesson, select/deselect it
-    if (lessonsForSlot.length === 1) {
-      const lesson = lessonsForSlot[0];
-      const session = lesson.sessions.find(
-        (s) => s.day === day && isSessionInTimeSlot(s, timeSlot)
-      )!;
-
-      if (isLessonSelected(lesson.lesson_id)) {
-        onLessonDeselect(lesson.lesson_id);
-      } else {
-        onLessonSelect({
-          courseCode,
-          lessonId: lesson.lesson_id,
-          session,
-          instructor: lesson.instructor,
-          deliveryMode: lesson.delivery_mode,
-        });
+  // Helper function to format a session's location, hiding empty rooms
+  const formatLocation = (session: LessonSession) =>
+    [session.location, session.room]
+      .filter((part) => part && part !== "-" && part !== "--")
+      .join(" ") || "Online";
+
+  // Export the selected sections as a recurring-event .ics file
+  const handleExportIcs = async () => {
+    setIsExporting(true);
+    try {
+      const term = await fetchTermInfo();
+      const courseNames = Object.fromEntries(
+        userCourses.map((course) => [course.code, course.name])
+      );
+      const { content, eventCount, skippedSessions } = buildTimetableIcs(
+        getFilteredLessonsForCalendar(),
+        term,
+        { courseNames }
+      );
+      if (eventCount === 0) {
+        alert("None of the selected lessons has a scheduled session.");
+        return;
       }
-    } else {
-      // If there are multiple lessons, show a selection modal or handle differently
-      // For now, just select the first one
-      const lesson = lessonsForSlot[0];
-      const session = lesson.sessions.find(
-        (s) => s.day === day && isSessionInTimeSlot(s, timeSlot)
-      )!;
-
-      if (!isLessonSelected(lesson.lesson_id)) {
-        onLessonSelect({
-          courseCode,
-          lessonId: lesson.lesson_id,
-          session,
-          instructor: lesson.instructor,
-          deliveryMode: lesson.delivery_mode,
-        });
+
+      const url = URL.createObjectURL(
+        new Blob([content], { type: "text/calendar;charset=utf-8" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `foritu-${getTermSlug(term.semester)}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      if (skippedSessions > 0) {
+        alert(
+          `${skippedSessions} session(s) without a day or time were not exported.`
+        );
       }
+    } catch (error) {
+      console.error("Calendar: Error exporting timetable:", error);
+      alert("Failed to export the timetable. Please try again.");
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -565,13 +318,40 @@ export default function LessonCalendar({
 
   return (
     <div className="w-full max-w-7xl mx-auto">
+      {/* Export Button */}
+      <div className="flex justify-end mb-3">
+        <button
+          onClick={handleExportIcs}
+          disabled={isExporting}
+          className="inline-flex items-center px-3 py-2 text-sm font-medium text-green-700 bg-white border border-green-300 rounded-md hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <svg
+            className="w-4 h-4 mr-2"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+            />
+          </svg>
+          {isExporting ? "Exporting..." : "Export to Calendar (.ics)"}
+        </button>
+      </div>
+
       {/* Calendar Container */}
       <div className="bg-white rounded-xl border border-gray-200 overflow-hidden shadow-lg">
         {/* Calendar Header */}
         <div className="bg-gradient-to-r from-green-600 to-green-700 text-white">
-          <div className="grid grid-cols-6 border-b border-green-500">
+          <div
+            className="grid border-b border-green-500"
+            style={{ gridTemplateColumns }}
+          >
             <div className="p-2 text-xs font-semibold text-center">Hours</div>
-            {days.map((day) => (
+            {timetable.days.map((day) => (
               <div
                 key={day}
                 className="p-2 text-xs font-semibold text-center border-l border-green-500"
@@ -583,151 +363,145 @@ export default function LessonCalendar({
         </div>
 
         {/* Calendar Body */}
-        <div className="bg-gray-25 relative">
-          {timeSlots.map((timeSlot, timeIndex) => (
+        <div className="grid" style={{ gridTemplateColumns }}>
+          {/* Time Slot Labels */}
+          <div className="bg-gray-100 border-r border-gray-200">
+            {Array.from({ length: slotCount }, (_, index) => {
+              const start = timetable.start + index * TIMETABLE_SLOT_MINUTES;
+              return (
+                <div
+                  key={start}
+                  className="flex items-center justify-center text-xs font-medium text-gray-700 border-b border-gray-100 last:border-b-0"
+                  style={{ height: SLOT_HEIGHT }}
+                >
+                  {formatClockTime(start)}-
+                  {formatClockTime(start + TIMETABLE_SLOT_MINUTES)}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Day Columns */}
+          {timetable.days.map((day) => (
             <div
-              key={timeIndex}
-              className="grid grid-cols-6 border-b border-gray-100 last:border-b-0"
+              key={day}
+              className="relative border-r border-gray-100 last:border-r-0"
+              style={{ height: slotCount * SLOT_HEIGHT }}
             >
-              {/* Time Slot Header */}
-              <div className="p-1 text-xs font-medium text-gray-700 bg-gray-100 border-r border-gray-200 flex items-center justify-center">
-                {timeSlot.display}
-              </div>
-
-              {/* Day Cells */}
-              {days.map((day) => {
-                const lessonsForSlot = getLessonsForSlot(day, timeSlot);
-                const selectedLesson = getSelectedLessonForSlot(day, timeSlot);
-                const hasLessons = lessonsForSlot.length > 0;
-                const isSelected = selectedLesson !== undefined;
-
-                // Check if this cell has a spanning lesson (long lesson)
-                const hasSpanningLesson = lessonsForSlot.some((lesson) => {
-                  const session = lesson.sessions.find((s) => {
-                    const mappedDay = dayNameMap[s.day] || s.day;
-                    return (
-                      mappedDay === day &&
-                      isSessionStartingInTimeSlot(s, timeSlot)
-                    );
-                  });
-                  return session && getLessonSpan(session) > 1;
-                });
-
-                // Debug logging for cell state
-                if (hasLessons) {
-                  console.log(
-                    `Calendar: Cell ${day} ${timeSlot.start}-${timeSlot.end} has ${lessonsForSlot.length} lessons`
+              {Array.from({ length: slotCount }, (_, index) => (
+                <div
+                  key={index}
+                  className="border-b border-gray-100 last:border-b-0"
+                  style={{ height: SLOT_HEIGHT }}
+                />
+              ))}
+
+              {/* Sessions, side by side when they overlap */}
+              {timetable.blocks
+                .filter((block) => block.day === day)
+                .map((block) => {
+                  const isSelected = isLessonSelected(block.lesson.lesson_id);
+                  const top =
+                    ((block.start - timetable.start) / TIMETABLE_SLOT_MINUTES) *
+                    SLOT_HEIGHT;
+                  const height = Math.max(
+                    ((block.end - block.start) / TIMETABLE_SLOT_MINUTES) *
+                      SLOT_HEIGHT -
+                      4,
+                    20
                   );
-                }
-
-                return (
-                  <div
-                    key={day}
-                    className={`p-1 border-r border-gray-100 last:border-r-0 min-h-[40px] relative transition-all duration-200 ${
-                      isSelected
-                        ? "bg-blue-50 border-blue-200 shadow-sm"
-                        : hasLessons && !hasSpanningLesson
-                        ? "bg-green-50 border-green-200"
-                        : ""
-                    }`}
-                    onClick={() => handleCellClick(day, timeSlot)}
-                    onMouseEnter={() =>
-                      setHoveredCell(`${day}-${timeSlot.start}`)
-                    }
-                    onMouseLeave={() => setHoveredCell(null)}
-                  >
-                    {isSelected && (
-                      <div className="text-xs space-y-0.5">
-                        <div className="font-bold text-blue-900 text-[11px] leading-tight">
-                          {selectedLesson.lessonId}
+                  return (
+                    <div
+                      key={`${block.lesson.lesson_id}-${block.session.time}-${block.column}`}
+                      className={`absolute rounded border p-1 z-10 cursor-pointer overflow-hidden ${
+                        isSelected
+                          ? "bg-blue-100 border-blue-300 hover:bg-blue-200"
+                          : block.columns > 1
+                          ? "bg-orange-100 border-orange-300 hover:bg-orange-200"
+                          : "bg-green-100 border-green-200 hover:bg-green-200"
+                      }`}
+                      style={{
+                        top: top + 2,
+                        height,
+                        left: `calc(${
+                          (block.column / block.columns) * 100
+                        }% + 2px)`,
+                        width: `calc(${100 / block.columns}% - 4px)`,
+                      }}
+                      title={`${block.lesson.course_code} (${block.lesson.lesson_id}) ${block.session.time}`}
+                      onClick={() =>
+                        handleSessionClick(block.lesson, block.session)
+                      }
+                    >
+                      <div className="text-xs">
+                        <div className="font-bold text-gray-900 text-[11px] leading-tight mb-0.5">
+                          {block.lesson.lesson_id}
                         </div>
-                        <div className="text-blue-800 text-[11px] leading-tight font-semibold">
-                          {selectedLesson.courseCode ||
-                            lessonsData.find(
-                              (l) => l.lesson_id === selectedLesson.lessonId
-                            )?.course_code ||
-                            "Unknown Course"}
+                        <div className="text-gray-800 text-[11px] leading-tight font-semibold mb-0.5">
+                          {block.lesson.course_code}
                         </div>
-                        <div className="text-blue-700 text-[10px] leading-tight">
-                          {selectedLesson.instructor || "TBA"}
+                        <div className="text-gray-700 text-[10px] leading-tight mb-0.5">
+                          {block.lesson.instructor || "TBA"}
                         </div>
-                        <div className="text-blue-600 text-[10px] leading-tight font-medium">
-                          {selectedLesson.session.time}
+                        <div className="text-gray-600 text-[10px] leading-tight font-medium">
+                          {formatClockTime(block.start)}-
+                          {formatClockTime(block.end)}
                         </div>
-                        <div className="text-blue-500 text-[10px] leading-tight">
-                          {selectedLesson.session.room !== "--"
-                            ? selectedLesson.session.room
-                            : "Online"}
+                        <div className="text-gray-500 text-[10px] leading-tight">
+                          {formatLocation(block.session)}
                         </div>
                       </div>
-                    )}
-                  </div>
-                );
-              })}
+                    </div>
+                  );
+                })}
             </div>
           ))}
+        </div>
+      </div>
 
-          {/* Overlay for spanning lesson cards */}
-          {getFilteredLessonsForCalendar().map((lesson) => {
-            const session = lesson.sessions[0]; // Get the first session
-            if (!session) return null;
-
-            const mappedDay = dayNameMap[session.day] || session.day;
-            const dayIndex = days.indexOf(mappedDay);
-            if (dayIndex === -1) return null;
-
-            // Find the time slot where this lesson starts
-            const startTimeSlot = timeSlots.find((slot) =>
-              isSessionStartingInTimeSlot(session, slot)
-            );
-            if (!startTimeSlot) return null;
-
-            const startTimeIndex = timeSlots.indexOf(startTimeSlot);
-            const span = getLessonSpan(session);
-            const isLongLesson = span > 1;
-
-            if (!isLongLesson) return null;
-
-            // Calculate position
-            const top = startTimeIndex * 40 + 10; // 40px per time slot
-            const left = (dayIndex + 1) * (100 / 6) + 1; // +1 for time column, 6 columns total, +2 for margin
-            const height = span * 40 - 4; // 40px per slot minus padding
-
-            return (
-              <div
+      {/* Unscheduled / Online Sections */}
+      {timetable.unscheduled.length > 0 && (
+        <div className="mt-4 bg-white rounded-xl border border-gray-200 shadow-sm p-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-1">
+            Unscheduled / Online
+          </h3>
+          <p className="text-xs text-gray-500 mb-3">
+            These sections have no fixed day or time, so they are not shown on
+            the calendar.
+          </p>
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+            {timetable.unscheduled.map(({ lesson, sessions }) => (
+              <button
                 key={lesson.lesson_id}
-                className="absolute bg-green-100 rounded border border-green-200 p-1 z-10 cursor-pointer hover:bg-green-200"
-                style={{
-                  top: `${top}px`,
-                  left: `${left}%`,
-                  width: `${100 / 6 - 2}%`,
-                  height: `${height}px`,
-                }}
-                onClick={() => {
-                  if (onLessonClick) {
-                    onLessonClick(lesson);
-                  }
-                }}
+                className={`text-left p-3 rounded-lg border transition-colors ${
+                  isLessonSelected(lesson.lesson_id)
+                    ? "bg-blue-50 border-blue-300 hover:bg-blue-100"
+                    : "bg-gray-50 border-gray-200 hover:bg-gray-100"
+                }`}
+                onClick={() =>
+                  sessions[0] && handleSessionClick(lesson, sessions[0])
+                }
               >
-                <div className="text-xs">
-                  <div className="font-bold text-green-900 text-[11px] leading-tight mb-0.5">
-                    {lesson.lesson_id}
-                  </div>
-                  <div className="text-green-800 text-[11px] leading-tight font-semibold mb-0.5">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-semibold text-gray-900">
                     {lesson.course_code}
-                  </div>
-                  <div className="text-green-700 text-[10px] leading-tight mb-0.5">
-                    {lesson.instructor || "TBA"}
-                  </div>
-                  <div className="text-green-600 text-[10px] leading-tight font-medium">
-                    {session.time}
-                  </div>
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {lesson.lesson_id}
+                  </span>
                 </div>
-              </div>
-            );
-          })}
+                <div className="text-xs text-gray-700">
+                  {lesson.instructor || "TBA"}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {lesson.delivery_mode}
+                  {sessions[0] && ` · ${formatLocation(sessions[0])}`}
+                </div>
+              </button>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
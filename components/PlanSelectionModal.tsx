@@ -1,7 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { StorePlan, PlanCourse } from '@/lib/actions';
+import { useUser } from '@clerk/nextjs';
+import { StorePlan } from '@/lib/actions';
+import { getErrorMessage } from '@/lib/errors';
+import { inferProgramCode } from '@/lib/lessons';
+import { mergeStudentProfile } from '@/lib/profile';
+import { PlansCatalogue, findPlanPeriod } from '@/lib/plan-schema';
 
 interface Course {
   type: 'course';
@@ -17,48 +22,15 @@ interface Elective {
 
 type SemesterItem = Course | Elective;
 
-interface Plan {
-  name: string;
-  semesters: Array<Array<{
-    type: 'course' | 'elective';
-    code?: string;
-    name?: string;
-    category?: string;
-    options?: string[];
-    data?: {
-      name: string;
-      category: string;
-      options: string[];
-    };
-  }>>;
-}
-
-interface Program {
-  name: string;
-  periods: Array<{
-    name: string;
-    semesters: Plan['semesters'];
-  }>;
-}
-
-interface Faculty {
-  name: string;
-  programs: Program[];
-}
-
-interface PlansData {
-  faculties: Faculty[];
-}
-
 interface PlanSelectionModalProps {
   isOpen: boolean;
   onClose: () => void;
   onPlanSelect: (plan: SemesterItem[][]) => void;
-  userId: string; // Add userId prop for backend operations
 }
 
-export default function PlanSelectionModal({ isOpen, onClose, onPlanSelect, userId }: PlanSelectionModalProps) {
-  const [plansData, setPlansData] = useState<PlansData | null>(null);
+export default function PlanSelectionModal({ isOpen, onClose, onPlanSelect }: PlanSelectionModalProps) {
+  const { user } = useUser();
+  const [plansData, setPlansData] = useState<PlansCatalogue | null>(null);
   const [selectedFaculty, setSelectedFaculty] = useState<string>('');
   const [selectedProgram, setSelectedProgram] = useState<string>('');
   const [selectedPeriod, setSelectedPeriod] = useState<string>('');
@@ -69,12 +41,14 @@ export default function PlanSelectionModal({ isOpen, onClose, onPlanSelect, user
   useEffect(() => {
     const loadPlansData = async () => {
       try {
-        const response = await fetch('/plans.json');
+        const response = await fetch('/api/plans');
         const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || 'Failed to load plans data');
+        }
         setPlansData(data);
         setIsLoading(false);
-      } catch (error) {
-        console.error('Error loading plans data:', error);
+      } catch {
         setIsLoading(false);
         setError('Failed to load plans data');
       }
@@ -90,134 +64,53 @@ export default function PlanSelectionModal({ isOpen, onClose, onPlanSelect, user
       return;
     }
 
-    if (!userId) {
-      setError('User ID is required to store plan');
-      return;
-    }
-
-    const faculty = plansData.faculties.find(f => f.name === selectedFaculty);
-    if (!faculty) {
-      return;
-    }
-
-    const program = faculty.programs.find(p => p.name === selectedProgram);
-    if (!program) {
+    if (!user) {
+      setError('You need to be signed in to store a plan');
       return;
     }
 
-    const period = program.periods.find(per => per.name === selectedPeriod);
-    if (!period) {
+    const selection = findPlanPeriod(plansData, selectedFaculty, selectedProgram, selectedPeriod);
+    if (!selection) {
       return;
     }
+    const { program, period } = selection;
 
-    // Ensure period.semesters is an array
-    if (!Array.isArray(period.semesters)) {
-      return;
-    }
-
-    // Transform the plan data to match the expected format
-    const transformedPlan: SemesterItem[][] = period.semesters.map((semester) => {
-      // Handle case where semester might be an object instead of an array
-      if (!Array.isArray(semester)) {
-        // If semester is an object, try to extract courses from it
-        if (typeof semester === 'object' && semester !== null) {
-          const semesterObj = semester as any; // Type assertion for dynamic object
-          
-          // Check if the object has a 'courses' property
-          if (semesterObj.courses && Array.isArray(semesterObj.courses)) {
-            return semesterObj.courses.map((item: any) => {
-              if (item.type === 'course') {
-                return {
-                  type: 'course' as const,
-                  code: item.code || ''
-                } as SemesterItem;
-              } else if (item.type === 'elective') {
-                return {
-                  type: 'elective' as const,
-                  name: item.data?.name || item.name || '',
-                  category: item.data?.category || item.category || '',
-                  options: item.data?.options || item.options || []
-                } as SemesterItem;
-              }
-              return item as SemesterItem;
-            });
-          }
-          
-          // If no courses property, try to treat the object itself as a course
-          if (semesterObj.type === 'course') {
-            return [{
-              type: 'course' as const,
-              code: semesterObj.code || ''
-            } as SemesterItem];
-          } else if (semesterObj.type === 'elective') {
-            return [{
-              type: 'elective' as const,
-              name: semesterObj.data?.name || semesterObj.name || '',
-              category: semesterObj.data?.category || semesterObj.category || '',
-              options: semesterObj.data?.options || semesterObj.options || []
-            } as SemesterItem];
-          }
-        }
-        
-        // If we can't handle it, return empty array
-        return [];
-      }
-      
-      const transformedSemester = semester.map(item => {
-        if (item.type === 'course') {
-          return {
-            type: 'course' as const,
-            code: item.code || ''
-          } as SemesterItem;
-        } else if (item.type === 'elective') {
-          return {
-            type: 'elective' as const,
-            name: item.data?.name || item.name || '',
-            category: item.data?.category || item.category || '',
-            options: item.data?.options || item.options || []
-          } as SemesterItem;
-        }
-        return item as SemesterItem;
-      });
-      
-      return transformedSemester;
-    });
+    // Plans are validated when loaded, so semesters are already lists of items
+    const transformedPlan: SemesterItem[][] = period.semesters;
 
     // Store the plan in the backend
     setIsStoring(true);
     setError('');
 
     try {
-      // Convert SemesterItem[][] to PlanCourse[][] for backend storage
-      const planForBackend: PlanCourse[][] = transformedPlan.map(semester => 
-        semester.map(item => {
-          if (item.type === 'course') {
-            return {
-              type: 'course',
-              code: item.code
-            } as PlanCourse;
-          } else {
-            return {
-              type: 'elective',
-              name: item.name,
-              category: item.category,
-              options: item.options
-            } as PlanCourse;
-          }
-        })
-      );
-
-      const result = await StorePlan(userId, planForBackend);
+      const result = await StorePlan(transformedPlan);
       
       if (result.success) {
+        if (result.warning) alert(result.warning);
+        // Store the program on the profile so lesson sections can be filtered by it
+        const programCode = program.code || inferProgramCode(
+          transformedPlan.flatMap(semester =>
+            semester.flatMap(item => (item.type === 'course' ? [item.code] : []))
+          )
+        );
+        if (user && programCode) {
+          try {
+            await user.update({
+              unsafeMetadata: mergeStudentProfile(user.unsafeMetadata, { programCode })
+            });
+          } catch {
+            // The plan is stored; without the program code lesson sections
+            // are just not filtered by program
+          }
+        }
+
         // Plan stored successfully, call the callback
         onPlanSelect(transformedPlan);
         onClose();
       } else {
-        setError(result.error || 'Failed to store plan');
+        setError(getErrorMessage(result));
       }
-    } catch (error) {
-      console.error('Error storing plan:', error);
+    } catch {
       setError('Failed to store plan. Please try again.');
     } finally {
       setIsStoring(false);
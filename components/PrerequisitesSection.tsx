@@ -0,0 +1,206 @@
+"use client";
+
+import {
+  PrerequisiteCourseResult,
+  PrerequisiteEvaluation,
+  describePrerequisiteResult,
+} from "@/lib/prerequisites";
+import { PLANNED_GRADE } from "@/lib/academic";
+import { SpecialConditionResult } from "@/lib/eligibility";
+
+interface PrerequisitesSectionProps {
+  evaluation: PrerequisiteEvaluation;
+  specialConditions?: SpecialConditionResult[];
+  getCourseName: (code: string) => string | undefined;
+  // null means the default state: expanded when something is unsatisfied
+  expanded: boolean | null;
+  onExpandedChange: (expanded: boolean) => void;
+}
+
+// Helper function to get the status label for a prerequisite
+const getStatusLabel = (result: PrerequisiteCourseResult): string => {
+  switch (result.status) {
+    case "not-taken":
+      return "Not taken";
+    case "in-progress":
+    case "assumed":
+      return "Planned to pass";
+    case "failed":
+      return "Failed";
+    default:
+      return result.grade === PLANNED_GRADE
+        ? result.comparedGrade || ""
+        : result.grade || "";
+  }
+};
+
+const getStatusColor = (result: PrerequisiteCourseResult): string => {
+  switch (result.status) {
+    case "not-taken":
+      return "text-gray-400";
+    case "in-progress":
+    case "assumed":
+      return "text-blue-600";
+    case "satisfied":
+      return "text-green-600";
+    default:
+      return "text-red-600";
+  }
+};
+
+const getConditionColor = (result: SpecialConditionResult): string => {
+  switch (result.status) {
+    case "satisfied":
+      return "bg-green-500";
+    case "unsatisfied":
+      return "bg-red-500";
+    default:
+      return "bg-yellow-500";
+  }
+};
+
+function SpecialConditionsList({
+  conditions,
+}: {
+  conditions: SpecialConditionResult[];
+}) {
+  if (conditions.length === 0) return null;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">
+        Special Conditions
+      </h4>
+      <div className="space-y-2">
+        {conditions.map((result, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <div
+              className={`w-3 h-3 rounded-full ${getConditionColor(result)}`}
+            ></div>
+            <span className="text-sm font-medium text-gray-800">
+              {result.condition}
+            </span>
+            <span className="text-xs text-gray-500">{result.reason}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function PrerequisitesSection({
+  evaluation,
+  specialConditions = [],
+  getCourseName,
+  expanded,
+  onExpandedChange,
+}: PrerequisitesSectionProps) {
+  if (evaluation.groups.length === 0) {
+    return (
+      <div className="border-t border-gray-200 pt-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">
+          Prerequisites
+        </h3>
+        <p className="text-gray-500 text-sm">
+          No prerequisites required for this course.
+        </p>
+        {specialConditions.length > 0 && (
+          <div className="mt-4">
+            <SpecialConditionsList conditions={specialConditions} />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const allSatisfied =
+    evaluation.satisfied &&
+    specialConditions.every((result) => result.status !== "unsatisfied");
+  const isExpanded = expanded !== null ? expanded : !allSatisfied;
+
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <button
+        onClick={() => onExpandedChange(!isExpanded)}
+        className="flex items-center justify-between w-full text-left hover:bg-gray-50 rounded-lg p-2 -m-2 transition-colors group"
+      >
+        <div className="flex items-center">
+          <h3 className="text-lg font-semibold text-gray-800">Prerequisites</h3>
+          {allSatisfied && (
+            <span className="text-green-600 text-sm ml-2">(All Satisfied)</span>
+          )}
+        </div>
+        <svg
+          className={`w-5 h-5 text-gray-500 transition-transform duration-200 ${
+            isExpanded ? "rotate-90" : ""
+          }`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5l7 7-7 7"
+          />
+        </svg>
+      </button>
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          {evaluation.groups.map((group, groupIndex) => (
+            <div key={groupIndex} className="bg-gray-50 rounded-lg p-4">
+              <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center">
+                <div
+                  className={`w-3 h-3 rounded-full mr-2 ${
+                    group.satisfied ? "bg-green-500" : "bg-red-500"
+                  }`}
+                ></div>
+                Group {group.group}{" "}
+                {group.satisfiedBy && (
+                  <span className="text-green-600 text-xs ml-2">
+                    (Satisfied by {group.satisfiedBy.matchedCode})
+                  </span>
+                )}
+              </h4>
+              <div className="space-y-2">
+                {group.courses.map((result, prereqIndex) => (
+                  <div
+                    key={prereqIndex}
+                    className="flex items-center justify-between"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <div
+                        className={`w-3 h-3 rounded-full ${
+                          result.satisfied ? "bg-green-500" : "bg-red-500"
+                        }`}
+                      ></div>
+                      <div>
+                        <span className="text-sm font-medium text-gray-800">
+                          {getCourseName(result.code) || result.code}
+                        </span>
+                        <p className="text-xs text-gray-500">
+                          {describePrerequisiteResult(result)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <span
+                        className={`text-sm font-semibold ${getStatusColor(
+                          result
+                        )}`}
+                      >
+                        {getStatusLabel(result)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <SpecialConditionsList conditions={specialConditions} />
+        </div>
+      )}
+    </div>
+  );
+}
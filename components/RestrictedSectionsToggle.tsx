@@ -0,0 +1,30 @@
+"use client";
+
+interface RestrictedSectionsToggleProps {
+  // Number of sections that are full or closed to the student's program
+  restrictedCount: number;
+  showRestricted: boolean;
+  onShowRestrictedChange: (showRestricted: boolean) => void;
+}
+
+export default function RestrictedSectionsToggle({
+  restrictedCount,
+  showRestricted,
+  onShowRestrictedChange,
+}: RestrictedSectionsToggleProps) {
+  if (restrictedCount === 0) return null;
+
+  return (
+    <label className="flex items-center space-x-2 text-xs text-gray-600 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={showRestricted}
+        onChange={(e) => onShowRestrictedChange(e.target.checked)}
+      />
+      <span>
+        Show {restrictedCount} full or restricted section
+        {restrictedCount === 1 ? "" : "s"} anyway
+      </span>
+    </label>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GetRevision, ListRevisions, RestoreRevision } from "@/lib/actions";
+import {
+  REVISION_ACTION_LABELS,
+  Revision,
+  RevisionInfo,
+  RevisionKind,
+  diffPlans,
+} from "@/lib/revisions";
+import { getErrorMessage } from "@/lib/errors";
+import { diffTranscripts } from "@/lib/transcript-merge";
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<RevisionKind, string> = {
+  transcript: "Transcript",
+  plan: "Academic Plan",
+};
+
+// Helper function to format a revision timestamp in the user's locale
+const formatTimestamp = (createdAt: string) =>
+  new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Lines describing what a revision changed compared with the one before it
+function describeRevision(
+  revision: Revision,
+  previous: Revision | null
+): string[] {
+  if (revision.action === "delete") {
+    return ["Restore this revision to bring back the data the reset removed."];
+  }
+  if (!previous || previous.kind !== revision.kind) {
+    return ["First recorded version"];
+  }
+  // After a reset, the next save starts from nothing
+  const before = previous.action === "delete" ? null : previous;
+
+  if (revision.kind === "transcript") {
+    const changes = diffTranscripts(
+      before?.kind === "transcript" ? before.data : [],
+      revision.data
+    ).changes;
+    return changes.map((change) => {
+      if (change.kind === "added") {
+        return `+ ${change.code} (${change.semester}) ${change.after?.grade}`;
+      }
+      if (change.kind === "removed") {
+        return `- ${change.code} (${change.semester})`;
+      }
+      return `~ ${change.code} (${change.semester}) ${change.fields
+        .map(
+          (field) =>
+            `${field} ${change.before?.[field]} → ${change.after?.[field]}`
+        )
+        .join(", ")}`;
+    });
+  }
+
+  return diffPlans(
+    before?.kind === "plan" ? before.data : [],
+    revision.data
+  ).flatMap(({ semesterIndex, added, removed }) => [
+    ...added.map((name) => `+ ${name} (semester ${semesterIndex + 1})`),
+    ...removed.map((name) => `- ${name} (semester ${semesterIndex + 1})`),
+  ]);
+}
+
+export default function RevisionHistoryModal({
+  isOpen,
+  onClose,
+}: RevisionHistoryModalProps) {
+  const [kind, setKind] = useState<RevisionKind>("transcript");
+  const [revisions, setRevisions] = useState<RevisionInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<{
+    revision: Revision;
+    previous: Revision | null;
+  } | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Load the revision list when the modal opens or the kind changes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadRevisions = async () => {
+      setIsLoading(true);
+      setError(null);
+      setSelectedId(null);
+      setDetails(null);
+      const result = await ListRevisions(kind);
+      if (result.success) {
+        setRevisions(result.revisions);
+      } else {
+        setRevisions([]);
+        setError(getErrorMessage(result));
+      }
+      setIsLoading(false);
+    };
+
+    loadRevisions();
+  }, [isOpen, kind]);
+
+  // Load the selected revision and the one before it for the diff
+  useEffect(() => {
+    if (!selectedId) return;
+
+    const loadDetails = async () => {
+      const index = revisions.findIndex(
+        (revision) => revision.id === selectedId
+      );
+      const previousInfo = revisions[index + 1];
+      const [current, previous] = await Promise.all([
+        GetRevision(selectedId),
+        previousInfo ? GetRevision(previousInfo.id) : null,
+      ]);
+      if (current.revision) {
+        setDetails({
+          revision: current.revision,
+          previous: previous?.revision || null,
+        });
+      } else {
+        setError(getErrorMessage(current));
+      }
+    };
+
+    setDetails(null);
+    loadDetails();
+  }, [selectedId, revisions]);
+
+  const handleRestore = async (revision: RevisionInfo) => {
+    if (
+      !window.confirm(
+        `Restore your ${KIND_LABELS[
+          revision.kind
+        ].toLowerCase()} to the version from ${formatTimestamp(
+          revision.createdAt
+        )}? The current version stays in the history.`
+      )
+    ) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const result = await RestoreRevision(revision.id);
+      if (result.success) {
+        if (result.warning) alert(result.warning);
+        console.log("Client: Revision restored:", result.message);
+        // Reload the page to refresh the transcript and plan data
+        window.location.reload();
+      } else {
+        console.error("Client: Failed to restore revision:", result.error);
+        alert(`Failed to restore: ${getErrorMessage(result)}`);
+      }
+    } catch (error) {
+      console.error("Client: Error restoring revision:", error);
+      alert("Failed to restore. Please try again.");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const changeLines = details
+    ? describeRevision(details.revision, details.previous)
+    : [];
+  const detailLines =
+    changeLines.length > 0 ? changeLines : ["No changes to courses"];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Revision History
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          <div className="flex space-x-2 mb-4">
+            {(Object.keys(KIND_LABELS) as RevisionKind[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                  kind === option
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {KIND_LABELS[option]}
+              </button>
+            ))}
+          </div>
+
+          {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+          {isLoading ? (
+            <p className="text-sm text-gray-600 text-center py-4">
+              Loading revisions...
+            </p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-4">
+              No revisions yet. A revision is recorded every time you save.
+            </p>
+          ) : (
+            <ul className="border border-gray-200 rounded-md divide-y divide-gray-100">
+              {revisions.map((revision, index) => {
+                const isSelected = revision.id === selectedId;
+                // The newest saved version is the current data
+                const isCurrent = index === 0 && revision.action !== "delete";
+                return (
+                  <li key={revision.id}>
+                    <div
+                      className={`flex items-center px-3 py-2 cursor-pointer ${
+                        isSelected ? "bg-blue-50" : "hover:bg-gray-50"
+                      }`}
+                      onClick={() =>
+                        setSelectedId(isSelected ? null : revision.id)
+                      }
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center space-x-2">
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+                              revision.action === "delete"
+                                ? "bg-red-100 text-red-800"
+                                : "bg-gray-100 text-gray-700"
+                            }`}
+                          >
+                            {REVISION_ACTION_LABELS[revision.action]}
+                          </span>
+                          <span className="text-sm text-gray-900">
+                            {formatTimestamp(revision.createdAt)}
+                          </span>
+                          {isCurrent && (
+                            <span className="text-xs text-green-700 font-medium">
+                              Current
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1 truncate">
+                          {revision.summary}
+                        </p>
+                      </div>
+                      {!isCurrent && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRestore(revision);
+                          }}
+                          disabled={isRestoring}
+                          className="ml-3 text-xs text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400 flex-shrink-0"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </div>
+
+                    {/* Changes of the selected revision */}
+                    {isSelected && (
+                      <div className="px-3 pb-3">
+                        {details?.revision.id === revision.id ? (
+                          <ul className="max-h-48 overflow-y-auto text-xs font-mono text-gray-700 bg-gray-50 rounded-md p-2 space-y-0.5">
+                            {detailLines.map((line, lineIndex) => (
+                              <li key={lineIndex}>{line}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-xs text-gray-500">
+                            Loading changes...
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
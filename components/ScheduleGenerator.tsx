@@ -0,0 +1,312 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { CURRENT_SEMESTER } from "@/lib/constants";
+import { isSameTerm } from "@/lib/academic";
+import { fetchLessonsForCourses } from "@/lib/catalog-client";
+import { isSameCourseCode } from "@/lib/course-codes";
+import {
+  Lesson,
+  formatClockTime,
+  getSessionDay,
+  isOnlineLesson,
+  isSectionAvailable,
+  parseSessionTime,
+} from "@/lib/lessons";
+import {
+  DEFAULT_SCHEDULE_PREFERENCES,
+  DeliveryPreference,
+  ScheduleOption,
+  ScheduleResult,
+  SchedulePreferences,
+  generateSchedules,
+} from "@/lib/scheduler";
+
+interface TranscriptItem {
+  semester: string;
+  code: string;
+  name: string;
+  credits: string;
+  grade: string;
+  lesson_id?: string;
+}
+
+export interface LessonAssignment {
+  code: string;
+  semester: string;
+  lessonId: string;
+}
+
+interface ScheduleGeneratorProps {
+  transcript: TranscriptItem[];
+  programCode?: string | null;
+  onApplySchedule: (assignments: LessonAssignment[]) => void;
+}
+
+const DELIVERY_OPTIONS: { value: DeliveryPreference; label: string }[] = [
+  { value: "any", label: "Any" },
+  { value: "physical", label: "Physical" },
+  { value: "online", label: "Online" },
+];
+
+// Helper function to describe when the sessions of a lesson take place
+const describeSessions = (lesson: Lesson): string => {
+  const sessions = lesson.sessions
+    .map((session) => {
+      const day = getSessionDay(session);
+      const range = parseSessionTime(session.time);
+      if (!day || !range) return null;
+      return `${day.slice(0, 3)} ${formatClockTime(
+        range.start
+      )}-${formatClockTime(range.end)}`;
+    })
+    .filter(Boolean);
+
+  return sessions.length > 0 ? sessions.join(", ") : "No fixed time";
+};
+
+export default function ScheduleGenerator({
+  transcript,
+  programCode,
+  onApplySchedule,
+}: ScheduleGeneratorProps) {
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [preferences, setPreferences] = useState<SchedulePreferences>(
+    DEFAULT_SCHEDULE_PREFERENCES
+  );
+  const [includeRestricted, setIncludeRestricted] = useState(false);
+  const [result, setResult] = useState<ScheduleResult | null>(null);
+
+  // Courses taken in the current semester
+  const plannedCourses = useMemo(
+    () =>
+      transcript.filter(
+        (item) =>
+          item.code !== "PLACEHOLDER" &&
+          isSameTerm(item.semester, CURRENT_SEMESTER)
+      ),
+    [transcript]
+  );
+
+  // Changes only when a course is added or removed, not when a section is picked
+  const plannedCodesKey = [...new Set(plannedCourses.map((item) => item.code))]
+    .sort()
+    .join("|");
+
+  // Load the sections of the planned courses from the catalog
+  useEffect(() => {
+    let cancelled = false;
+    const loadLessons = async () => {
+      setIsLoading(true);
+      try {
+        const data = await fetchLessonsForCourses(
+          plannedCodesKey ? plannedCodesKey.split("|") : []
+        );
+        if (!cancelled) setLessons(data);
+      } catch (error) {
+        console.error("Scheduler: Error loading lessons data:", error);
+        if (!cancelled) setLessons([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadLessons();
+    return () => {
+      cancelled = true;
+    };
+  }, [plannedCodesKey]);
+
+  // Results no longer match once the inputs change
+  useEffect(() => {
+    setResult(null);
+  }, [preferences, plannedCourses, includeRestricted, programCode]);
+
+  const handleGenerate = () => {
+    // Leave out full sections and sections closed to the student's program
+    const candidateLessons = includeRestricted
+      ? lessons
+      : lessons.filter((lesson) => isSectionAvailable(lesson, programCode));
+
+    setResult(
+      generateSchedules(
+        plannedCourses.map((item) => item.code),
+        candidateLessons,
+        preferences
+      )
+    );
+  };
+
+  const handleApply = (option: ScheduleOption) => {
+    const assignments: LessonAssignment[] = [];
+    option.lessons.forEach((lesson) => {
+      plannedCourses
+        .filter((item) => isSameCourseCode(item.code, lesson.course_code))
+        .forEach((item) => {
+          assignments.push({
+            code: item.code,
+            semester: item.semester,
+            lessonId: lesson.lesson_id,
+          });
+        });
+    });
+    onApplySchedule(assignments);
+  };
+
+  const togglePreference = (
+    key: "avoidEarlyClasses" | "freeFriday" | "minimizeLocationChanges"
+  ) => {
+    setPreferences((prev) => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  if (plannedCourses.length === 0) {
+    return (
+      <div className="mb-6 p-4 bg-gray-50 rounded-lg text-sm text-gray-500">
+        Add courses to {CURRENT_SEMESTER} to generate a schedule.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 p-4 lg:p-6 bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">
+            Schedule Generator
+          </h3>
+          <p className="text-sm text-gray-500">
+            {plannedCourses.length} courses in {CURRENT_SEMESTER}
+          </p>
+        </div>
+        <button
+          onClick={handleGenerate}
+          disabled={isLoading || lessons.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "Loading sections..." : "Generate Schedules"}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={preferences.avoidEarlyClasses}
+            onChange={() => togglePreference("avoidEarlyClasses")}
+          />
+          <span>No 8:30 classes</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={preferences.freeFriday}
+            onChange={() => togglePreference("freeFriday")}
+          />
+          <span>Free Friday</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={preferences.minimizeLocationChanges}
+            onChange={() => togglePreference("minimizeLocationChanges")}
+          />
+          <span>Fewer location changes</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Delivery:</span>
+          <select
+            value={preferences.deliveryMode}
+            onChange={(e) =>
+              setPreferences((prev) => ({
+                ...prev,
+                deliveryMode: e.target.value as DeliveryPreference,
+              }))
+            }
+            className="border border-gray-300 rounded px-2 py-1"
+          >
+            {DELIVERY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={includeRestricted}
+            onChange={() => setIncludeRestricted((prev) => !prev)}
+          />
+          <span>Include full or restricted sections</span>
+        </label>
+      </div>
+
+      {result && (
+        <div className="space-y-3">
+          {result.coursesWithoutSections.length > 0 && (
+            <p className="text-sm text-yellow-700">
+              No sections found for {result.coursesWithoutSections.join(", ")}.
+              These courses are left out.
+            </p>
+          )}
+          {result.options.length === 0 ? (
+            <p className="text-sm text-red-600">
+              No conflict-free schedule exists for these courses.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500">
+                {result.truncated
+                  ? `Showing the best of the first ${result.totalCombinations} conflict-free schedules`
+                  : `${result.totalCombinations} conflict-free schedules found`}
+              </p>
+              {result.options.map((option, index) => (
+                <div
+                  key={option.lessons.map((l) => l.lesson_id).join("-")}
+                  className="p-3 bg-gray-50 rounded-lg"
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="text-sm font-semibold text-gray-800">
+                      Option {index + 1}
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {option.stats.daysOnCampus} days,{" "}
+                        {option.stats.earlyClasses} early classes,{" "}
+                        {option.stats.fridayClasses} Friday classes,{" "}
+                        {option.stats.locationChanges} location changes
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleApply(option)}
+                      className="px-3 py-1 bg-green-600 text-white text-xs font-medium rounded hover:bg-green-700 transition-colors"
+                    >
+                      Apply
+                    </button>
+                  </div>
+                  <div className="space-y-1">
+                    {option.lessons.map((lesson) => (
+                      <div
+                        key={lesson.lesson_id}
+                        className="flex flex-wrap text-xs text-gray-600 gap-x-2"
+                      >
+                        <span className="font-medium text-gray-800">
+                          {lesson.course_code}
+                        </span>
+                        <span>CRN {lesson.lesson_id}</span>
+                        <span>{lesson.instructor}</span>
+                        <span>{describeSessions(lesson)}</span>
+                        {isOnlineLesson(lesson) && (
+                          <span className="text-blue-600">Online</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { SectionRestriction } from "@/lib/lessons";
+
+interface SectionRestrictionBadgesProps {
+  restrictions: SectionRestriction[];
+  programCode?: string | null;
+}
+
+export default function SectionRestrictionBadges({
+  restrictions,
+  programCode,
+}: SectionRestrictionBadgesProps) {
+  if (restrictions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {restrictions.includes("program") && (
+        <span
+          className="px-1.5 py-0.5 bg-yellow-100 text-yellow-800 text-[10px] font-medium rounded"
+          title={`Not open to ${programCode || "your program"}`}
+        >
+          Not your program
+        </span>
+      )}
+      {restrictions.includes("full") && (
+        <span
+          className="px-1.5 py-0.5 bg-red-100 text-red-700 text-[10px] font-medium rounded"
+          title="No seats left in this section"
+        >
+          Full
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,27 @@
 "use client";
 
 import { useMemo } from "react";
+import {
+  ASSUMED_PASS_GRADE,
+  PLANNED_GRADE,
+  getEffectiveGrade,
+  getLatestAttempt,
+  getTranscriptUpToSemester,
+  hasPlannedMarker,
+  isFailingGrade,
+  isPassingGrade,
+} from "@/lib/academic";
+import {
+  PrerequisiteGroup,
+  describePrerequisiteResult,
+} from "@/lib/prerequisites";
+import { evaluateEligibility } from "@/lib/eligibility";
+import {
+  CourseEquivalenceGroups,
+  getEquivalentCodes,
+  getLanguageVariant,
+  isSameCourseCode,
+} from "@/lib/course-codes";
 
 interface Course {
   type: "course";
@@ -24,21 +45,12 @@ interface TranscriptItem {
   grade: string;
 }
 
-interface PrerequisiteCourse {
-  code: string;
-  min: string;
-}
-
-interface PrerequisiteGroup {
-  group: number;
-  courses: PrerequisiteCourse[];
-}
-
 interface CourseInfo {
   code: string;
   name: string;
   credits?: string;
   prerequisites?: PrerequisiteGroup[];
+  special_conditions?: string[];
 }
 
 interface SemesterGridProps {
@@ -46,7 +58,7 @@ interface SemesterGridProps {
   transcript: TranscriptItem[];
   selectedSemester: string | null;
   coursesData: CourseInfo[];
-  courseMappings: Record<string, string[]>;
+  courseEquivalences: CourseEquivalenceGroups;
   onCourseClick: (
     courseCode: string,
     isElective: boolean,
@@ -60,51 +72,12 @@ export default function SemesterGrid({
   transcript,
   selectedSemester,
   coursesData,
-  courseMappings,
+  courseEquivalences,
   onCourseClick,
 }: SemesterGridProps) {
   // Get transcript data up to the selected semester
-  const getTranscriptUpToSelected = () => {
-    if (!selectedSemester) return [];
-
-    // Get all unique semesters from transcript and sort them
-    const semesters = [...new Set(transcript.map((item) => item.semester))];
-    const sortedSemesters = semesters.sort((a, b) => {
-      const getYear = (semester: string) => {
-        const yearMatch = semester.match(/(\d{4})/);
-        return yearMatch ? parseInt(yearMatch[1]) : 0;
-      };
-
-      const getSemesterOrder = (semester: string) => {
-        if (semester.includes("Fall")) return 1;
-        if (semester.includes("Spring")) return 2;
-        if (semester.includes("Summer")) return 3;
-        return 0;
-      };
-
-      const yearA = getYear(a);
-      const yearB = getYear(b);
-
-      if (yearA !== yearB) return yearA - yearB;
-
-      return getSemesterOrder(a) - getSemesterOrder(b);
-    });
-
-    // Find the index of the selected semester
-    const selectedIndex = sortedSemesters.indexOf(selectedSemester);
-    if (selectedIndex === -1) return [];
-
-    // Get semesters up to and including the selected semester
-    const semestersUpToSelected = sortedSemesters.slice(0, selectedIndex + 1);
-
-    // Return all transcript items from semesters up to the selected semester
-    return transcript.filter((item) =>
-      semestersUpToSelected.includes(item.semester)
-    );
-  };
-
   const filteredTranscript = useMemo(
-    () => getTranscriptUpToSelected(),
+    () => getTranscriptUpToSemester(transcript, selectedSemester),
     [transcript, selectedSemester]
   );
 
@@ -130,253 +103,49 @@ export default function SemesterGrid({
   };
 
   // Helper function to get effective grade for a course based on selected semester
-  const getEffectiveGrade = (courseCode: string): string => {
+  const getCourseEffectiveGrade = (courseCode: string): string => {
     const courseHistory = filteredTranscript.filter(
       (t: TranscriptItem) => t.code === courseCode
     );
-    if (courseHistory.length === 0) return "";
-
-    const latestAttempt = courseHistory[courseHistory.length - 1];
-    const latestGrade = latestAttempt.grade;
-
-    // If the latest grade has an asterisk (planned grade), return it as is for display
-    // but treat it as completed for logic purposes
-    if (latestGrade.endsWith("*")) {
-      return latestGrade; // Return with asterisk for display
-    }
-
-    // If the latest grade is not "--", return it as is
-    if (latestGrade !== "--") return latestGrade;
-
-    // If the latest grade is "--" (planned), check if we're viewing a semester after it
-    if (selectedSemester && latestAttempt.semester !== selectedSemester) {
-      // Compare semesters to see if selected semester is after the planned semester
-      const plannedSemester = latestAttempt.semester;
-
-      // Extract year and semester order for comparison
-      const getSemesterOrder = (semester: string) => {
-        const yearMatch = semester.match(/(\d{4})/);
-        if (!yearMatch) return 0;
-        const year = parseInt(yearMatch[1]);
-
-        let semesterOrder = 1; // Güz
-        if (semester.includes("Bahar")) semesterOrder = 2;
-        else if (semester.includes("Yaz")) semesterOrder = 3;
-
-        return year * 10 + semesterOrder;
-      };
-
-      const plannedOrder = getSemesterOrder(plannedSemester);
-      const selectedOrder = getSemesterOrder(selectedSemester);
-
-      // If selected semester is after the planned semester, show as passed with "?"
-      if (selectedOrder > plannedOrder) {
-        return "?"; // Passed (assumed)
-      }
-    }
-
-    return latestGrade; // Return "--" if still in the same or earlier semester
-  };
-
-  // Function to check if a prerequisite is satisfied
-  const isPrerequisiteSatisfied = (
-    prereqCode: string,
-    minGrade: string
-  ): boolean => {
-    // First check for exact match (with and without spaces)
-    let courseHistory = filteredTranscript.filter(
-      (t: TranscriptItem) => t.code === prereqCode
-    );
-
-    // If no exact match, also check with spaces removed
-    if (courseHistory.length === 0) {
-      const prereqCodeNoSpaces = prereqCode.replace(/\s+/g, "");
-      courseHistory = filteredTranscript.filter(
-        (t: TranscriptItem) => t.code.replace(/\s+/g, "") === prereqCodeNoSpaces
-      );
-    }
-
-    // If no exact match, try to find equivalent course using course mappings
-    if (courseHistory.length === 0) {
-      // Check if the target course has explicit mappings in course-mappings.json
-      const alternatives = courseMappings[prereqCode] || [];
-
-      // Look for any of the alternative courses in the available courses
-      for (const alternativeCode of alternatives) {
-        const equivalentMatch = filteredTranscript.find(
-          (t: TranscriptItem) => t.code === alternativeCode
-        );
-        if (equivalentMatch) {
-          courseHistory = filteredTranscript.filter(
-            (t: TranscriptItem) => t.code === equivalentMatch.code
-          );
-          break;
-        }
-      }
-    }
-
-    if (courseHistory.length === 0) return false;
-
-    // Get the latest attempt for this prerequisite course
-    const latestAttempt = courseHistory[courseHistory.length - 1];
-    const latestGrade = latestAttempt.grade;
-
-    // If the latest grade is not "--", use it directly
-    if (latestGrade !== "--") {
-      // Handle asterisk grades by removing the asterisk for comparison
-      let gradeForComparison = latestGrade;
-      if (latestGrade.endsWith("*")) {
-        gradeForComparison = latestGrade.replace("*", "");
-      }
-
-      // Grade comparison logic - based on transcript grades
-      const gradeOrder = [
-        "FF",
-        "FD",
-        "VF",
-        "DD",
-        "DD+",
-        "DC",
-        "DC+",
-        "CC",
-        "CC+",
-        "CB",
-        "CB+",
-        "BB",
-        "BB+",
-        "BA",
-        "BA+",
-        "AA",
-        "BL",
-      ];
-      const latestGradeIndex = gradeOrder.indexOf(gradeForComparison);
-      const minGradeIndex = gradeOrder.indexOf(minGrade);
-
-      return latestGradeIndex >= minGradeIndex;
-    }
-
-    // If the latest grade is "--" (planned), check if we're viewing a semester after it
-    if (selectedSemester && latestAttempt.semester !== selectedSemester) {
-      // For planned courses, we need to check if the selected semester comes after the planned semester
-      const plannedSemester = latestAttempt.semester;
-
-      // If the planned semester is from the plan (e.g., "Semester 1"), we need to compare differently
-      if (plannedSemester.startsWith("Semester ")) {
-        // Extract semester number from plan
-        const planSemesterNum = parseInt(
-          plannedSemester.replace("Semester ", "")
-        );
-
-        // Extract semester number from selected semester
-        const selectedSemesterNum = parseInt(
-          selectedSemester.replace(/[^0-9]/g, "")
-        );
-
-        // If selected semester is after the planned semester, consider it as passed
-        if (selectedSemesterNum > planSemesterNum) {
-          // Grade comparison logic for planned courses (assumed pass)
-          const gradeOrder = [
-            "FF",
-            "FD",
-            "VF",
-            "DD",
-            "DD+",
-            "DC",
-            "DC+",
-            "CC",
-            "CC+",
-            "CB",
-            "CB+",
-            "BB",
-            "BB+",
-            "BA",
-            "BA+",
-            "AA",
-            "BL",
-          ];
-          const minGradeIndex = gradeOrder.indexOf(minGrade);
-
-          // Planned courses are considered as passing with "CC" grade
-          const assumedGradeIndex = gradeOrder.indexOf("CC");
-
-          return assumedGradeIndex >= minGradeIndex;
-        }
-      } else {
-        // For regular transcript semesters, use the existing logic
-        const getSemesterOrder = (semester: string) => {
-          const yearMatch = semester.match(/(\d{4})/);
-          if (!yearMatch) return 0;
-          const year = parseInt(yearMatch[1]);
-
-          let semesterOrder = 1; // Güz
-          if (semester.includes("Bahar")) semesterOrder = 2;
-          else if (semester.includes("Yaz")) semesterOrder = 3;
-
-          return year * 10 + semesterOrder;
-        };
-
-        const plannedOrder = getSemesterOrder(plannedSemester);
-        const selectedOrder = getSemesterOrder(selectedSemester);
-
-        // If selected semester is after the planned semester, consider it as passed
-        if (selectedOrder > plannedOrder) {
-          // Grade comparison logic for "?" grade (assumed pass)
-          const gradeOrder = [
-            "FF",
-            "FD",
-            "VF",
-            "DD",
-            "DD+",
-            "DC",
-            "DC+",
-            "CC",
-            "CC+",
-            "CB",
-            "CB+",
-            "BB",
-            "BB+",
-            "BA",
-            "BA+",
-            "AA",
-            "BL",
-          ];
-          const minGradeIndex = gradeOrder.indexOf(minGrade);
-
-          // "?" grade is considered as a passing grade, so it should satisfy most prerequisites
-          // We'll treat it as equivalent to "CC" (minimum passing grade)
-          const assumedGradeIndex = gradeOrder.indexOf("CC");
-
-          return assumedGradeIndex >= minGradeIndex;
-        }
-      }
-    }
-
-    return false; // Currently taken or not yet taken
+    return getEffectiveGrade(courseHistory, selectedSemester);
   };
 
-  // Function to check if a prerequisite group is satisfied (at least one course in group)
-  const isPrerequisiteGroupSatisfied = (group: PrerequisiteGroup): boolean => {
-    return group.courses.some((prereq) =>
-      isPrerequisiteSatisfied(prereq.code, prereq.min)
-    );
+  // Function to evaluate the eligibility of a course for the selected semester
+  const getEligibility = (courseCode: string) => {
+    return evaluateEligibility(transcript, courseCode, selectedSemester, {
+      courses: coursesData,
+      equivalences: courseEquivalences,
+    });
   };
 
-  // Function to get prerequisites for a course
-  const getPrerequisites = (code: string): PrerequisiteGroup[] | undefined => {
-    const course = coursesData.find((c) => c.code === code);
-    return course?.prerequisites;
+  // Function to check if a course has unsatisfied prerequisites or conditions
+  const hasUnsatisfiedPrerequisites = (courseCode: string): boolean => {
+    return !getEligibility(courseCode).eligible;
   };
 
-  // Function to check if a course has unsatisfied prerequisites
-  const hasUnsatisfiedPrerequisites = (courseCode: string): boolean => {
-    const prerequisites = getPrerequisites(courseCode);
-    if (!prerequisites || prerequisites.length === 0) return false;
+  // Helper function to describe why a course cannot be taken yet
+  const getPrerequisiteWarning = (courseCode: string): string => {
+    const eligibility = getEligibility(courseCode);
+    const unsatisfiedGroups = eligibility.prerequisites.groups
+      .filter((group) => !group.satisfied)
+      .map(
+        (group) =>
+          `Group ${group.group}: ` +
+          group.courses
+            .map(
+              (result) =>
+                `${result.code} (${describePrerequisiteResult(result)})`
+            )
+            .join(" or ")
+      );
+    const unmetConditions = eligibility.specialConditions
+      .filter((result) => result.status !== "satisfied")
+      .map((result) => result.reason);
 
-    // Check if any group is not satisfied
-    return prerequisites.some((group) => !isPrerequisiteGroupSatisfied(group));
+    return [...unsatisfiedGroups, ...unmetConditions].join("\n");
   };
 
-  // Helper function to find a course using course mappings and E suffix matching
+  // Helper function to find a course using course equivalences and E suffix matching
   const findCourseByMapping = (
     targetCourseCode: string,
     planCourseCodes: Set<string>
@@ -387,59 +156,33 @@ export default function SemesterGrid({
     );
     if (exactMatch) return exactMatch;
 
-    // Check course mappings from course-mappings.json
-    const mappedCourses = courseMappings[targetCourseCode] || [];
-    for (const mappedCourse of mappedCourses) {
-      const mappedMatch = filteredTranscript.find(
+    // Courses in the plan are matched on their own, not as substitutes
+    const isPlanCourse = (code: string) =>
+      Array.from(planCourseCodes).some((planCode) =>
+        isSameCourseCode(planCode, code)
+      );
+    const findSubstitute = (code: string) =>
+      filteredTranscript.find(
         (t: TranscriptItem) =>
-          t.code === mappedCourse && !planCourseCodes.has(t.code)
+          isSameCourseCode(t.code, code) && !isPlanCourse(t.code)
       );
-      if (mappedMatch) return mappedMatch;
-    }
 
-    // Check reverse mappings (if target course is in the mapped courses)
-    for (const [mappedCode, alternatives] of Object.entries(courseMappings)) {
-      if (alternatives.includes(targetCourseCode)) {
-        const reverseMatch = filteredTranscript.find(
-          (t: TranscriptItem) =>
-            t.code === mappedCode && !planCourseCodes.has(t.code)
-        );
-        if (reverseMatch) return reverseMatch;
-      }
+    // Check equivalent courses from course-equivalences.json
+    for (const equivalentCode of getEquivalentCodes(
+      courseEquivalences,
+      targetCourseCode
+    )) {
+      const equivalentMatch = findSubstitute(equivalentCode);
+      if (equivalentMatch) return equivalentMatch;
     }
 
-    // Check space-normalized mappings (remove spaces for comparison)
-    const targetCodeNoSpaces = targetCourseCode.replace(/\s+/g, "");
-    for (const [mappedCode, alternatives] of Object.entries(courseMappings)) {
-      const mappedCodeNoSpaces = mappedCode.replace(/\s+/g, "");
-      if (mappedCodeNoSpaces === targetCodeNoSpaces) {
-        for (const alternative of alternatives) {
-          const alternativeMatch = filteredTranscript.find(
-            (t: TranscriptItem) =>
-              t.code === alternative && !planCourseCodes.has(t.code)
-          );
-          if (alternativeMatch) return alternativeMatch;
-        }
-      }
+    // Check E suffix matching (e.g., BLG 210E matches BLG 210 and vice versa)
+    const languageVariant = getLanguageVariant(targetCourseCode);
+    if (languageVariant) {
+      const variantMatch = findSubstitute(languageVariant);
+      if (variantMatch) return variantMatch;
     }
 
-    // Check E suffix matching (e.g., BLG210E matches BLG210 and vice versa)
-    const hasE = targetCourseCode.endsWith("E");
-    const baseCode = hasE ? targetCourseCode.slice(0, -1) : targetCourseCode;
-    const eCode = hasE ? targetCourseCode : targetCourseCode + "E";
-
-    // Try matching with E suffix
-    const eMatch = filteredTranscript.find(
-      (t: TranscriptItem) => t.code === eCode && !planCourseCodes.has(t.code)
-    );
-    if (eMatch) return eMatch;
-
-    // Try matching without E suffix
-    const baseMatch = filteredTranscript.find(
-      (t: TranscriptItem) => t.code === baseCode && !planCourseCodes.has(t.code)
-    );
-    if (baseMatch) return baseMatch;
-
     // If no mapping found, return null
     return null;
   };
@@ -526,104 +269,46 @@ export default function SemesterGrid({
     return null; // No course assigned to this elective
   };
 
+  // Helper function to get the color of a course based on its latest attempt
+  const getCourseColor = (courseCode: string): string | null => {
+    const courseHistory = filteredTranscript.filter(
+      (t: TranscriptItem) => t.code === courseCode
+    );
+    if (courseHistory.length === 0) return null;
+
+    const effectiveGrade = getEffectiveGrade(courseHistory, selectedSemester);
+    if (effectiveGrade === PLANNED_GRADE) {
+      return "bg-blue-500"; // Currently taken
+    } else if (effectiveGrade === ASSUMED_PASS_GRADE) {
+      return "bg-green-600"; // Passed (assumed)
+    } else if (hasPlannedMarker(effectiveGrade)) {
+      // Check if this star grade is from the current semester
+      const latestAttempt = getLatestAttempt(courseHistory)!;
+      if (latestAttempt.semester === selectedSemester) {
+        return "bg-blue-500"; // Currently taken (star grade in current semester)
+      } else {
+        return "bg-green-600"; // Passed (star grade from past semester)
+      }
+    } else if (isPassingGrade(effectiveGrade)) {
+      return "bg-green-600"; // Passed (including conditional pass)
+    } else if (isFailingGrade(effectiveGrade)) {
+      return "bg-red-400"; // Failed (more subtle)
+    }
+    return null;
+  };
+
   const getItemColor = (item: SemesterItem) => {
     if (item.type === "elective") {
       // For electives, check if there's an assigned course and use its grade for coloring
       const assignedCourse = getAssignedCourseForElective(item.name);
-      if (assignedCourse) {
-        const courseHistory = filteredTranscript.filter(
-          (t: TranscriptItem) => t.code === assignedCourse.code
-        );
-        if (courseHistory.length > 0) {
-          const effectiveGrade = getEffectiveGrade(assignedCourse.code);
-          if (effectiveGrade === "--") {
-            return "bg-blue-500"; // Currently taken
-          } else if (effectiveGrade === "?") {
-            return "bg-green-600"; // Passed (assumed)
-          } else if (effectiveGrade.endsWith("*")) {
-            // Check if this star grade is from the current semester
-            const latestAttempt = courseHistory[courseHistory.length - 1];
-            if (latestAttempt.semester === selectedSemester) {
-              return "bg-blue-500"; // Currently taken (star grade in current semester)
-            } else {
-              return "bg-green-600"; // Passed (star grade from past semester)
-            }
-          } else {
-            // Handle regular grades
-            if (
-              [
-                "AA",
-                "BA",
-                "BA+",
-                "BB",
-                "BB+",
-                "CB",
-                "CB+",
-                "CC",
-                "CC+",
-                "DC",
-                "DC+",
-                "DD",
-                "DD+",
-                "BL",
-              ].includes(effectiveGrade)
-            ) {
-              return "bg-green-600"; // Passed (including conditional pass)
-            } else if (["FD", "FF", "VF"].includes(effectiveGrade)) {
-              return "bg-red-400"; // Failed (more subtle)
-            }
-          }
-        }
-      }
-      return "bg-purple-500"; // Default for electives with no assigned course
+      const assignedColor = assignedCourse
+        ? getCourseColor(assignedCourse.code)
+        : null;
+      return assignedColor || "bg-purple-500"; // Default for electives with no assigned course
     }
 
     // For courses, check if they have been taken and their grade
-    const courseHistory = filteredTranscript.filter(
-      (t: TranscriptItem) => t.code === item.code
-    );
-    if (courseHistory.length > 0) {
-      const effectiveGrade = getEffectiveGrade(item.code);
-      if (effectiveGrade === "--") {
-        return "bg-blue-500"; // Currently taken
-      } else if (effectiveGrade === "?") {
-        return "bg-green-600"; // Passed (assumed)
-      } else if (effectiveGrade.endsWith("*")) {
-        // Check if this star grade is from the current semester
-        const latestAttempt = courseHistory[courseHistory.length - 1];
-        if (latestAttempt.semester === selectedSemester) {
-          return "bg-blue-500"; // Currently taken (star grade in current semester)
-        } else {
-          return "bg-green-600"; // Passed (star grade from past semester)
-        }
-      } else {
-        // Handle regular grades
-        if (
-          [
-            "AA",
-            "BA",
-            "BA+",
-            "BB",
-            "BB+",
-            "CB",
-            "CB+",
-            "CC",
-            "CC+",
-            "DC",
-            "DC+",
-            "DD",
-            "DD+",
-            "BL",
-          ].includes(effectiveGrade)
-        ) {
-          return "bg-green-600"; // Passed (including conditional pass)
-        } else if (["FD", "FF", "VF"].includes(effectiveGrade)) {
-          return "bg-red-400"; // Failed (more subtle)
-        }
-      }
-    }
-
-    return "bg-purple-500"; // Default for not taken
+    return getCourseColor(item.code) || "bg-purple-500"; // Default for not taken
   };
 
   return (
@@ -695,7 +380,9 @@ export default function SemesterGrid({
                                     {(() => {
                                       if (displayCourse) {
                                         const effectiveGrade =
-                                          getEffectiveGrade(displayCourse.code);
+                                          getCourseEffectiveGrade(
+                                            displayCourse.code
+                                          );
                                         if (effectiveGrade) {
                                           return (
                                             <div className="absolute -top-1 -right-1 bg-white text-gray-800 text-xs font-bold px-1 rounded-full min-w-[20px] text-center">
@@ -709,7 +396,12 @@ export default function SemesterGrid({
                                         hasUnsatisfiedPrerequisites(item.code)
                                       ) {
                                         return (
-                                          <div className="absolute -top-1 -right-1 bg-yellow-500 text-white text-xs font-bold px-1 rounded-full min-w-[20px] text-center">
+                                          <div
+                                            className="absolute -top-1 -right-1 bg-yellow-500 text-white text-xs font-bold px-1 rounded-full min-w-[20px] text-center"
+                                            title={getPrerequisiteWarning(
+                                              item.code
+                                            )}
+                                          >
                                             🔒
                                           </div>
                                         );
@@ -758,7 +450,7 @@ export default function SemesterGrid({
                                       </div>
                                       {(() => {
                                         const effectiveGrade =
-                                          getEffectiveGrade(
+                                          getCourseEffectiveGrade(
                                             assignedCourse.code
                                           );
                                         if (effectiveGrade) {
@@ -773,7 +465,12 @@ export default function SemesterGrid({
                                           )
                                         ) {
                                           return (
-                                            <div className="absolute -top-1 -right-1 bg-yellow-500 text-white text-xs font-bold px-1 rounded-full min-w-[20px] text-center">
+                                            <div
+                                              className="absolute -top-1 -right-1 bg-yellow-500 text-white text-xs font-bold px-1 rounded-full min-w-[20px] text-center"
+                                              title={getPrerequisiteWarning(
+                                                assignedCourse.code
+                                              )}
+                                            >
                                               🔒
                                             </div>
                                           );
@@ -1,12 +1,27 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useUser, SignOutButton, UserButton } from "@clerk/nextjs";
 import {
   DeleteTranscript,
-  ParseAndStoreTranscript,
   DeletePlan,
+  StoreTranscript,
+  TranscriptCourse,
+  parseTranscriptFromBase64,
 } from "@/lib/actions";
+import {
+  getTranscriptSemesters,
+  isFailingGrade,
+  isPassingGrade,
+  isPlannedSemester,
+} from "@/lib/academic";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import { getErrorMessage } from "@/lib/errors";
+import { calculateStandingTimeline, findProbationRisk } from "@/lib/standing";
+import { ImportIssue, importParsedCourses } from "@/lib/transcript-import";
+import StandingTimeline from "./StandingTimeline";
+import UploadTranscriptModal from "./UploadTranscriptModal";
+import RevisionHistoryModal from "./RevisionHistoryModal";
 
 interface TranscriptItem {
   semester: string;
@@ -38,7 +53,7 @@ interface SemesterPanelProps {
   onAddNewSemester: () => void;
   onDeleteLatestSemester: () => void;
   onDeleteSemester: (semesterName: string) => void;
-  onUploadTranscript: (file: File) => Promise<void>;
+  onUploadTranscript: (courses: TranscriptCourse[]) => Promise<void>; // Review a re-imported transcript against the current one
   onClose?: () => void; // Add optional close handler for mobile
   onMarkChangesAsUnsaved?: () => void; // Callback to mark changes as unsaved
   onShowResetConfirmation?: () => void; // Callback to show reset transcript confirmation
@@ -48,8 +63,12 @@ interface SemesterPanelProps {
   hasUnsavedChanges?: boolean; // Whether there are unsaved changes
   onSaveChanges?: () => void; // Callback to save changes
   isSaving?: boolean; // Whether saving is in progress
+  courseEquivalences?: CourseEquivalenceGroups; // Equivalent courses count as retakes in GPA
 }
 
+// Number of unreadable courses listed when importing a PDF
+const MAX_LISTED_ISSUES = 5;
+
 export default function SemesterPanel({
   transcript,
   plan,
@@ -68,11 +87,17 @@ export default function SemesterPanel({
   hasUnsavedChanges = false,
   onSaveChanges,
   isSaving = false,
+  courseEquivalences = [],
 }: SemesterPanelProps) {
   const { user } = useUser();
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showRevisionHistory, setShowRevisionHistory] = useState(false);
+  const [listView, setListView] = useState<"semesters" | "timeline">(
+    "semesters"
+  );
 
   // Check if transcript is empty (no transcript found)
   const hasTranscript = transcript && transcript.length > 0;
@@ -94,32 +119,68 @@ export default function SemesterPanel({
       // Convert file to base64
       const base64 = await convertFileToBase64(selectedFile);
 
-      // Call the combined parse and store action
-      const result = await ParseAndStoreTranscript(user.id, base64);
+      // Parse the PDF, then validate the courses like the import modal does
+      const parsed = await parseTranscriptFromBase64(base64);
+      if (parsed.error) {
+        alert(`Failed to upload transcript: ${getErrorMessage(parsed)}`);
+        return;
+      }
 
-      if (result.success) {
-        console.log(
-          "Client: Transcript uploaded and processed successfully:",
-          result.message
-        );
-        // Reload the page to refresh the transcript data
-        window.location.reload();
-      } else {
-        console.error(
-          "Client: Failed to upload and process transcript:",
-          result.error
+      const { courses, issues } = importParsedCourses(parsed.courses);
+      const issueList = formatIssues(issues);
+      if (courses.length === 0) {
+        alert(
+          issues.length > 0
+            ? `No valid courses found in the transcript:\n${issueList}`
+            : "No courses found in the transcript"
         );
-        alert(`Failed to upload transcript: ${result.error}`);
+        return;
       }
+      const skipMessage =
+        `${issues.length} course(s) could not be read and will be skipped:\n` +
+        `${issueList}\n\nImport the other ${courses.length} course(s)?`;
+      if (issues.length > 0 && !confirm(skipMessage)) return;
+
+      await handleImportCourses(courses);
     } catch (error) {
       console.error("Client: Error uploading transcript:", error);
-      alert("Failed to upload transcript. Please try again.");
+      alert(
+        error instanceof Error
+          ? `Failed to upload transcript: ${error.message}`
+          : "Failed to upload transcript. Please try again."
+      );
     } finally {
       setIsUploading(false);
       setSelectedFile(null);
     }
   };
 
+  // Store courses reviewed in the import modal, or compare them with the
+  // existing transcript first
+  const handleImportCourses = async (courses: TranscriptCourse[]) => {
+    if (hasTranscript) {
+      await onUploadTranscript(courses);
+      return;
+    }
+    if (!user?.id) return;
+
+    const result = await StoreTranscript(courses);
+    if (!result.success) {
+      throw new Error(getErrorMessage(result));
+    }
+    if (result.warning) alert(result.warning);
+    console.log("Client: Transcript imported successfully:", result.message);
+    // Reload the page to refresh the transcript data
+    window.location.reload();
+  };
+
+  // Helper function to list the first import issues in an alert
+  const formatIssues = (issues: ImportIssue[]) =>
+    issues
+      .slice(0, MAX_LISTED_ISSUES)
+      .map((issue) => `Row ${issue.row}: ${issue.message}`)
+      .join("\n");
+
   // Convert file to base64
   const convertFileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -139,14 +200,15 @@ export default function SemesterPanel({
   const handleResetTranscript = async () => {
     if (user?.id) {
       try {
-        const result = await DeleteTranscript(user.id);
+        const result = await DeleteTranscript();
         if (result.success) {
+          if (result.warning) alert(result.warning);
           console.log("Client: Transcript reset successfully:", result.message);
           // Reload the page to refresh the transcript data
           window.location.reload();
         } else {
           console.error("Client: Failed to reset transcript:", result.error);
-          alert("Failed to reset transcript. Please try again.");
+          alert(`Failed to reset transcript: ${getErrorMessage(result)}`);
         }
       } catch (error) {
         console.error("Client: Error resetting transcript:", error);
@@ -159,8 +221,9 @@ export default function SemesterPanel({
   const handleResetPlan = async () => {
     if (user?.id) {
       try {
-        const result = await DeletePlan(user.id);
+        const result = await DeletePlan();
         if (result.success) {
+          if (result.warning) alert(result.warning);
           console.log(
             "Client: Academic plan reset successfully:",
             result.message
@@ -169,7 +232,7 @@ export default function SemesterPanel({
           window.location.reload();
         } else {
           console.error("Client: Failed to reset academic plan:", result.error);
-          alert("Failed to reset academic plan. Please try again.");
+          alert(`Failed to reset academic plan: ${getErrorMessage(result)}`);
         }
       } catch (error) {
         console.error("Client: Error resetting academic plan:", error);
@@ -197,35 +260,8 @@ export default function SemesterPanel({
       document.removeEventListener("mousedown", handleClickOutside);
     };
   }, [showUserMenu]);
-  // Get unique semesters from transcript, sorted in reverse chronological order
-  const getUniqueSemesters = () => {
-    const semesters = [...new Set(transcript.map((item) => item.semester))];
-
-    // Sort semesters in reverse chronological order (newest first)
-    return semesters.sort((a, b) => {
-      // Extract year and semester type for sorting
-      const getYear = (semester: string) => {
-        const yearMatch = semester.match(/(\d{4})/);
-        return yearMatch ? parseInt(yearMatch[1]) : 0;
-      };
-
-      const getSemesterOrder = (semester: string) => {
-        if (semester.includes("Güz")) return 1;
-        if (semester.includes("Bahar")) return 2;
-        if (semester.includes("Yaz")) return 3;
-        return 0;
-      };
-
-      const yearA = getYear(a);
-      const yearB = getYear(b);
-
-      if (yearA !== yearB) return yearB - yearA; // Reverse year comparison
-
-      return getSemesterOrder(b) - getSemesterOrder(a); // Reverse semester order comparison
-    });
-  };
-
-  const semesters = getUniqueSemesters();
+  // Get unique semesters from transcript, newest first
+  const semesters = getTranscriptSemesters(transcript, "desc");
 
   // Determine current semester (last actual semester before plans)
   const getCurrentSemester = () => {
@@ -237,12 +273,10 @@ export default function SemesterPanel({
       const semesterCourses = transcript.filter(
         (item) => item.semester === semester
       );
-      const isPlannedSemester =
+      const isPlaceholderSemester =
         semesterCourses.length === 1 &&
         semesterCourses[0].code === "PLACEHOLDER";
-      const isPlannedSemesterByName = semester.includes("Planı");
-
-      if (!isPlannedSemester && !isPlannedSemesterByName) {
+      if (!isPlaceholderSemester && !isPlannedSemester(semester)) {
         return semester; // Return the first (most recent) non-planned semester
       }
     }
@@ -252,6 +286,13 @@ export default function SemesterPanel({
 
   const currentSemester = getCurrentSemester();
 
+  // Term-by-term standing and the first planned semester that would cause probation
+  const standingTimeline = useMemo(
+    () => calculateStandingTimeline(transcript, courseEquivalences),
+    [transcript, courseEquivalences]
+  );
+  const probationRisk = findProbationRisk(standingTimeline);
+
   // Set initial selected semester to the current semester if none is selected
   useEffect(() => {
     if (!selectedSemester && currentSemester) {
@@ -272,35 +313,13 @@ export default function SemesterPanel({
       0
     );
 
-    // Helper function to get grade without asterisk for comparison
-    const getGradeForComparison = (grade: string) => {
-      return grade.endsWith("*") ? grade.replace("*", "") : grade;
-    };
+    const passedCourses = courses.filter((course) =>
+      isPassingGrade(course.grade)
+    ).length;
 
-    const passedCourses = courses.filter((course) => {
-      const gradeForComparison = getGradeForComparison(course.grade);
-      return [
-        "AA",
-        "BA",
-        "BA+",
-        "BB",
-        "BB+",
-        "CB",
-        "CB+",
-        "CC",
-        "CC+",
-        "DC",
-        "DC+",
-        "DD",
-        "DD+",
-        "BL",
-      ].includes(gradeForComparison);
-    }).length;
-
-    const failedCourses = courses.filter((course) => {
-      const gradeForComparison = getGradeForComparison(course.grade);
-      return ["FD", "FF", "VF"].includes(gradeForComparison);
-    }).length;
+    const failedCourses = courses.filter((course) =>
+      isFailingGrade(course.grade)
+    ).length;
 
     const currentCourses = courses.filter(
       (course) => course.grade === "--"
@@ -319,33 +338,10 @@ export default function SemesterPanel({
   const getGradeColor = (grade: string) => {
     if (grade === "--") return "text-blue-600";
 
-    // Handle asterisk grades by removing the asterisk for color determination
-    let gradeForComparison = grade;
-    if (grade.endsWith("*")) {
-      gradeForComparison = grade.replace("*", "");
-    }
-
-    if (
-      [
-        "AA",
-        "BA",
-        "BA+",
-        "BB",
-        "BB+",
-        "CB",
-        "CB+",
-        "CC",
-        "CC+",
-        "DC",
-        "DC+",
-        "DD",
-        "DD+",
-        "BL",
-      ].includes(gradeForComparison)
-    ) {
+    if (isPassingGrade(grade)) {
       return "text-green-600";
     }
-    if (["FD", "FF", "VF"].includes(gradeForComparison)) {
+    if (isFailingGrade(grade)) {
       return "text-red-600";
     }
     return "text-gray-600";
@@ -511,6 +507,12 @@ export default function SemesterPanel({
               <div className="text-xs text-gray-500 text-center">
                 Upload your transcript PDF to get started
               </div>
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="w-full text-xs text-blue-600 hover:text-blue-800 font-medium transition-colors"
+              >
+                Import from CSV, Excel, text or JSON
+              </button>
             </div>
           )}
           {hasTranscript && (
@@ -542,155 +544,202 @@ export default function SemesterPanel({
             </button>
           )}
 
-          {/* Semester List */}
-          {semesters.map((semester, index) => {
-            const isSelected = selectedSemester === semester;
-            const isCurrentSemester = semester === currentSemester;
-
-            // Check if this is a planned semester (has only placeholder course or ends with "Planı")
-            const semesterCourses = transcript.filter(
-              (item) => item.semester === semester
-            );
-            const isPlannedSemester =
-              (semesterCourses.length === 1 &&
-                semesterCourses[0].code === "PLACEHOLDER") ||
-              semester.includes("Planı");
-
-            // Find the latest plan (first planned semester in the sorted list)
-            const plannedSemesters = semesters.filter((s) => {
-              const sCourses = transcript.filter((item) => item.semester === s);
-              return (
-                (sCourses.length === 1 && sCourses[0].code === "PLACEHOLDER") ||
-                s.includes("Planı")
-              );
-            });
-            const isLatestPlan =
-              plannedSemesters.length > 0 && semester === plannedSemesters[0];
-
-            // Format semester name for planned semesters
-            const formatSemesterName = (semesterName: string) => {
-              if (!isPlannedSemester) return semesterName;
-
-              if (semesterName.includes("Güz Dönemi")) {
-                return semesterName.replace("Güz Dönemi", "Güz Planı");
-              } else if (semesterName.includes("Bahar Dönemi")) {
-                return semesterName.replace("Bahar Dönemi", "Bahar Planı");
-              } else if (semesterName.includes("Yaz Dönemi")) {
-                return semesterName.replace("Yaz Dönemi", "Yaz Planı");
-              }
-              return semesterName;
-            };
-
-            return (
-              <div key={index} className="relative">
+          {/* Probation Warning */}
+          {probationRisk && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs text-red-800">
+              <span className="font-semibold">Probation warning:</span> with the
+              planned grades, your cumulative GPA would drop to{" "}
+              {probationRisk.cumulativeGpa?.toFixed(2)} after{" "}
+              {probationRisk.semester}.
+            </div>
+          )}
+
+          {/* Semester List / Standing Timeline Toggle */}
+          {hasTranscript && (
+            <div className="flex bg-gray-200 rounded-lg p-1 text-xs font-medium">
+              {(["semesters", "timeline"] as const).map((view) => (
                 <button
-                  className={`w-full text-left px-3 py-2 rounded-lg transition-all duration-200 cursor-pointer ${
-                    isSelected
-                      ? "bg-blue-600 text-white shadow-lg"
-                      : "bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 hover:border-blue-300 hover:shadow-sm"
+                  key={view}
+                  className={`flex-1 py-1 rounded-md transition-colors ${
+                    listView === view
+                      ? "bg-white text-gray-900 shadow-sm"
+                      : "text-gray-600 hover:text-gray-900"
                   }`}
-                  onClick={() => {
-                    onSemesterSelect(semester);
-                    // Close sidebar on mobile when semester is selected
-                    if (onClose) {
-                      onClose();
-                    }
-                  }}
+                  onClick={() => setListView(view)}
                 >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      {isPlannedSemester ? (
-                        <svg
-                          className="w-4 h-4 mr-2"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01"
-                          />
-                        </svg>
-                      ) : (
-                        <svg
-                          className="w-4 h-4 mr-2"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            strokeLinecap="round"
-                            strokeLinejoin="round"
-                            strokeWidth={2}
-                            d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
-                          />
-                        </svg>
-                      )}
-                      <span
-                        className={`font-medium text-sm ${
-                          isSelected ? "text-white" : "text-gray-800"
-                        }`}
-                      >
-                        {formatSemesterName(semester)}
-                      </span>
-                    </div>
-                    {isCurrentSemester && !isPlannedSemester && (
-                      <span
-                        className={`text-xs px-2 py-1 rounded-full font-medium ${
-                          isSelected
-                            ? "bg-white text-blue-600"
-                            : "bg-green-100 text-green-700"
-                        }`}
-                      >
-                        Current
-                      </span>
-                    )}
-                  </div>
+                  {view === "semesters" ? "Semesters" : "Standing"}
                 </button>
-                {isPlannedSemester && isLatestPlan && (
+              ))}
+            </div>
+          )}
+
+          {/* Standing Timeline */}
+          {listView === "timeline" && (
+            <StandingTimeline
+              timeline={standingTimeline}
+              selectedSemester={selectedSemester}
+              onSemesterSelect={(semester) => {
+                onSemesterSelect(semester);
+                if (onClose) {
+                  onClose();
+                }
+              }}
+            />
+          )}
+
+          {/* Semester List */}
+          {listView === "semesters" &&
+            semesters.map((semester, index) => {
+              const isSelected = selectedSemester === semester;
+              const isCurrentSemester = semester === currentSemester;
+
+              // Check if this is a planned semester (has only placeholder course or ends with "Planı")
+              const semesterCourses = transcript.filter(
+                (item) => item.semester === semester
+              );
+              const isPlanned =
+                (semesterCourses.length === 1 &&
+                  semesterCourses[0].code === "PLACEHOLDER") ||
+                isPlannedSemester(semester);
+
+              // Find the latest plan (first planned semester in the sorted list)
+              const plannedSemesters = semesters.filter((s) => {
+                const sCourses = transcript.filter(
+                  (item) => item.semester === s
+                );
+                return (
+                  (sCourses.length === 1 &&
+                    sCourses[0].code === "PLACEHOLDER") ||
+                  isPlannedSemester(s)
+                );
+              });
+              const isLatestPlan =
+                plannedSemesters.length > 0 && semester === plannedSemesters[0];
+
+              // Format semester name for planned semesters
+              const formatSemesterName = (semesterName: string) => {
+                if (!isPlanned) return semesterName;
+
+                if (semesterName.includes("Güz Dönemi")) {
+                  return semesterName.replace("Güz Dönemi", "Güz Planı");
+                } else if (semesterName.includes("Bahar Dönemi")) {
+                  return semesterName.replace("Bahar Dönemi", "Bahar Planı");
+                } else if (semesterName.includes("Yaz Dönemi")) {
+                  return semesterName.replace("Yaz Dönemi", "Yaz Planı");
+                }
+                return semesterName;
+              };
+
+              return (
+                <div key={index} className="relative">
                   <button
-                    className={`absolute top-1/2 right-1 transform -translate-y-1/2 p-1 rounded-full transition-colors ${
+                    className={`w-full text-left px-3 py-2 rounded-lg transition-all duration-200 cursor-pointer ${
                       isSelected
-                        ? "hover:bg-red-500 hover:bg-opacity-20"
-                        : "hover:bg-red-100"
+                        ? "bg-blue-600 text-white shadow-lg"
+                        : "bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 hover:border-blue-300 hover:shadow-sm"
                     }`}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      if (
-                        window.confirm(
-                          `Are you sure you want to delete "${formatSemesterName(
-                            semester
-                          )}"?`
-                        )
-                      ) {
-                        onDeleteSemester(semester);
-                        markChangesAsUnsaved();
+                    onClick={() => {
+                      onSemesterSelect(semester);
+                      // Close sidebar on mobile when semester is selected
+                      if (onClose) {
+                        onClose();
                       }
                     }}
-                    title="Delete semester"
                   >
-                    <svg
-                      className={`w-3 h-3 ${
-                        isSelected ? "text-white" : "text-red-600"
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center">
+                        {isPlanned ? (
+                          <svg
+                            className="w-4 h-4 mr-2"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M9 5H7a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01"
+                            />
+                          </svg>
+                        ) : (
+                          <svg
+                            className="w-4 h-4 mr-2"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                            />
+                          </svg>
+                        )}
+                        <span
+                          className={`font-medium text-sm ${
+                            isSelected ? "text-white" : "text-gray-800"
+                          }`}
+                        >
+                          {formatSemesterName(semester)}
+                        </span>
+                      </div>
+                      {isCurrentSemester && !isPlanned && (
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full font-medium ${
+                            isSelected
+                              ? "bg-white text-blue-600"
+                              : "bg-green-100 text-green-700"
+                          }`}
+                        >
+                          Current
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                  {isPlanned && isLatestPlan && (
+                    <button
+                      className={`absolute top-1/2 right-1 transform -translate-y-1/2 p-1 rounded-full transition-colors ${
+                        isSelected
+                          ? "hover:bg-red-500 hover:bg-opacity-20"
+                          : "hover:bg-red-100"
                       }`}
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (
+                          window.confirm(
+                            `Are you sure you want to delete "${formatSemesterName(
+                              semester
+                            )}"?`
+                          )
+                        ) {
+                          onDeleteSemester(semester);
+                          markChangesAsUnsaved();
+                        }
+                      }}
+                      title="Delete semester"
                     >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                      />
-                    </svg>
-                  </button>
-                )}
-              </div>
-            );
-          })}
+                      <svg
+                        className={`w-3 h-3 ${
+                          isSelected ? "text-white" : "text-red-600"
+                        }`}
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                        />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              );
+            })}
         </div>
       </div>
 
@@ -780,6 +829,54 @@ export default function SemesterPanel({
                     Reset Academic Plan
                   </button>
 
+                  {/* Import Updated Transcript */}
+                  <button
+                    className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                    onClick={() => {
+                      setShowUserMenu(false);
+                      setShowImportModal(true);
+                    }}
+                  >
+                    <svg
+                      className="w-4 h-4 mr-3 text-gray-500"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                      />
+                    </svg>
+                    Import Updated Transcript
+                  </button>
+
+                  {/* Revision History */}
+                  <button
+                    className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                    onClick={() => {
+                      setShowUserMenu(false);
+                      setShowRevisionHistory(true);
+                    }}
+                  >
+                    <svg
+                      className="w-4 h-4 mr-3 text-gray-500"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                      />
+                    </svg>
+                    Revision History
+                  </button>
+
                   {/* Reset My Transcript */}
                   <button
                     className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
@@ -832,6 +929,19 @@ export default function SemesterPanel({
           </div>
         </div>
       </div>
+
+      {/* Import Transcript Modal */}
+      <UploadTranscriptModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImport={handleImportCourses}
+      />
+
+      {/* Revision History Modal */}
+      <RevisionHistoryModal
+        isOpen={showRevisionHistory}
+        onClose={() => setShowRevisionHistory(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,120 @@
+"use client";
+
+import { formatClassStanding } from "@/lib/academic";
+import {
+  ACADEMIC_STATUS_LABELS,
+  AcademicStatus,
+  SemesterStanding,
+} from "@/lib/standing";
+
+interface StandingTimelineProps {
+  timeline: SemesterStanding[];
+  selectedSemester: string | null;
+  onSemesterSelect: (semesterName: string) => void;
+}
+
+const STATUS_STYLES: Record<
+  AcademicStatus,
+  { className: string; dotClassName: string }
+> = {
+  "high-honour": {
+    className: "bg-purple-100 text-purple-800",
+    dotClassName: "bg-purple-500",
+  },
+  honour: {
+    className: "bg-green-100 text-green-800",
+    dotClassName: "bg-green-500",
+  },
+  good: {
+    className: "bg-gray-100 text-gray-700",
+    dotClassName: "bg-gray-400",
+  },
+  probation: {
+    className: "bg-red-100 text-red-800",
+    dotClassName: "bg-red-500",
+  },
+  pending: {
+    className: "bg-blue-50 text-blue-700",
+    dotClassName: "bg-blue-300",
+  },
+};
+
+// Helper function to format a GPA that may not exist yet
+const formatGpa = (gpa: number | null) => (gpa === null ? "-" : gpa.toFixed(2));
+
+// Helper function to round credits to one decimal place
+const formatCredits = (credits: number) => Math.round(credits * 10) / 10;
+
+export default function StandingTimeline({
+  timeline,
+  selectedSemester,
+  onSemesterSelect,
+}: StandingTimelineProps) {
+  if (timeline.length === 0) {
+    return (
+      <div className="text-xs text-gray-500 text-center py-4">
+        No semesters yet
+      </div>
+    );
+  }
+
+  // Newest first, like the semester list
+  const entries = [...timeline].reverse();
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {entries.map((entry) => {
+        const style = STATUS_STYLES[entry.status];
+        const isSelected = entry.semester === selectedSemester;
+        return (
+          <li key={entry.semester} className="mb-3 ml-4">
+            <span
+              className={`absolute -left-1.5 mt-2 w-3 h-3 rounded-full border-2 border-white ${style.dotClassName}`}
+            />
+            <button
+              className={`w-full text-left p-3 rounded-lg border transition-all duration-200 ${
+                isSelected
+                  ? "border-blue-400 bg-blue-50 shadow-sm"
+                  : "border-gray-200 bg-white hover:border-blue-300"
+              } ${entry.isPlanned ? "border-dashed" : ""}`}
+              onClick={() => onSemesterSelect(entry.semester)}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-800 truncate">
+                  {entry.semester}
+                </span>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full font-medium flex-shrink-0 ml-2 ${style.className}`}
+                >
+                  {ACADEMIC_STATUS_LABELS[entry.status]}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-gray-600">
+                <span>
+                  Term GPA:{" "}
+                  <span className="font-semibold text-gray-900">
+                    {formatGpa(entry.termGpa)}
+                  </span>
+                </span>
+                <span>
+                  Cumulative:{" "}
+                  <span className="font-semibold text-gray-900">
+                    {formatGpa(entry.cumulativeGpa)}
+                  </span>
+                </span>
+                <span>
+                  Credits: {formatCredits(entry.creditsEarned)}/
+                  {formatCredits(entry.creditsAttempted)}
+                </span>
+                <span>
+                  {formatClassStanding(entry.classStanding)} (
+                  {formatCredits(entry.cumulativeCreditsEarned)} cr)
+                </span>
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
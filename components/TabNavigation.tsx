@@ -1,15 +1,17 @@
 import React from "react";
 
-export type TabType = "semesters" | "calendar" | "json";
+export type TabType = "semesters" | "calendar" | "audit" | "gpa" | "json";
 
 interface TabNavigationProps {
   activeTab: TabType;
   onTabChange: (tab: TabType) => void;
+  actions?: React.ReactNode; // Buttons shown at the right of the tabs
 }
 
 export default function TabNavigation({
   activeTab,
   onTabChange,
+  actions,
 }: TabNavigationProps) {
   const allTabs = [
     {
@@ -50,6 +52,44 @@ export default function TabNavigation({
         </svg>
       ),
     },
+    {
+      id: "audit" as TabType,
+      label: "Audit",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+          />
+        </svg>
+      ),
+    },
+    {
+      id: "gpa" as TabType,
+      label: "GPA",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+          />
+        </svg>
+      ),
+    },
     {
       id: "json" as TabType,
       label: "JSON",
@@ -81,7 +121,7 @@ export default function TabNavigation({
 
   return (
     <div className="mt-6 mb-2 max-w-7xl mx-auto px-4 lg:px-8">
-      <div className="border-b border-gray-200">
+      <div className="border-b border-gray-200 flex items-end justify-between">
         <nav className="-mb-px flex space-x-8" aria-label="Tabs">
           {tabs.map((tab) => (
             <button
@@ -98,6 +138,7 @@ export default function TabNavigation({
             </button>
           ))}
         </nav>
+        {actions && <div className="pb-2">{actions}</div>}
       </div>
     </div>
   );
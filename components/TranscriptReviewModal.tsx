@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { compareSemesters } from "@/lib/academic";
+import {
+  TranscriptChange,
+  TranscriptChangeKind,
+  TranscriptDiff,
+} from "@/lib/transcript-merge";
+
+interface TranscriptReviewModalProps {
+  diff: TranscriptDiff | null;
+  onClose: () => void;
+  onApply: (acceptedIds: Set<string>) => void;
+}
+
+const KIND_STYLES: Record<
+  TranscriptChangeKind,
+  { label: string; className: string }
+> = {
+  added: { label: "New", className: "bg-green-100 text-green-800" },
+  changed: { label: "Changed", className: "bg-yellow-100 text-yellow-800" },
+  removed: { label: "Removed", className: "bg-red-100 text-red-800" },
+};
+
+// Helper function to describe what a change does to the row
+function describeChange(change: TranscriptChange): string {
+  if (change.kind === "added") {
+    return `${change.after?.credits} cr, ${change.after?.grade}`;
+  }
+  if (change.kind === "removed") {
+    return `${change.before?.credits} cr, ${change.before?.grade}`;
+  }
+  return change.fields
+    .map(
+      (field) =>
+        `${field}: ${change.before?.[field]} → ${change.after?.[field]}`
+    )
+    .join(", ");
+}
+
+export default function TranscriptReviewModal({
+  diff,
+  onClose,
+  onApply,
+}: TranscriptReviewModalProps) {
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set());
+
+  // Start from the suggested decisions whenever a new import is reviewed
+  useEffect(() => {
+    setAcceptedIds(
+      new Set(
+        (diff?.changes || [])
+          .filter((change) => change.defaultAccepted)
+          .map((change) => change.id)
+      )
+    );
+  }, [diff]);
+
+  // Changes grouped by semester, newest first like the semester list
+  const groups = useMemo(() => {
+    const bySemester = new Map<string, TranscriptChange[]>();
+    (diff?.changes || []).forEach((change) => {
+      bySemester.set(change.semester, [
+        ...(bySemester.get(change.semester) || []),
+        change,
+      ]);
+    });
+    return [...bySemester.entries()].sort(([a], [b]) => compareSemesters(b, a));
+  }, [diff]);
+
+  if (!diff) return null;
+
+  const toggleChange = (id: string) => {
+    setAcceptedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const setAll = (accepted: boolean) => {
+    setAcceptedIds(
+      new Set(accepted ? diff.changes.map((change) => change.id) : [])
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              Review Transcript Changes
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {diff.changes.length} changes, {diff.unchangedCount} courses
+              unchanged
+              {diff.preservedPlannedCount > 0 &&
+                `, ${diff.preservedPlannedCount} planned courses kept`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg
+              className="w-6 h-6"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Changes */}
+        <div className="p-6 overflow-y-auto space-y-4">
+          {diff.changes.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-4">
+              The imported transcript matches the stored one.
+            </p>
+          ) : (
+            <>
+              <div className="flex justify-end space-x-3 text-xs">
+                <button
+                  onClick={() => setAll(true)}
+                  className="text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Accept all
+                </button>
+                <button
+                  onClick={() => setAll(false)}
+                  className="text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Reject all
+                </button>
+              </div>
+              {groups.map(([semester, changes]) => (
+                <div key={semester}>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    {semester}
+                    {changes.some((change) => change.isNewSemester) && (
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 font-medium">
+                        New semester
+                      </span>
+                    )}
+                  </h3>
+                  <ul className="border border-gray-200 rounded-md divide-y divide-gray-100">
+                    {changes.map((change) => (
+                      <li key={change.id}>
+                        <label className="flex items-center px-3 py-2 cursor-pointer hover:bg-gray-50">
+                          <input
+                            type="checkbox"
+                            checked={acceptedIds.has(change.id)}
+                            onChange={() => toggleChange(change.id)}
+                            className="mr-3"
+                          />
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded-full font-medium flex-shrink-0 ${
+                              KIND_STYLES[change.kind].className
+                            }`}
+                          >
+                            {KIND_STYLES[change.kind].label}
+                          </span>
+                          <span className="ml-3 text-sm text-gray-900 font-medium flex-shrink-0">
+                            {change.code}
+                          </span>
+                          <span className="ml-2 text-sm text-gray-600 truncate">
+                            {change.name}
+                          </span>
+                          <span className="ml-auto pl-3 text-xs text-gray-500 flex-shrink-0">
+                            {describeChange(change)}
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(acceptedIds)}
+            disabled={acceptedIds.size === 0}
+            className="px-4 py-2 text-sm font-medium text-white rounded-md transition-colors bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Apply {acceptedIds.size} Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,69 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo } from 'react';
+import { ReadSpreadsheet, TranscriptCourse, parseTranscriptFromBase64 } from '@/lib/actions';
+import {
+  ColumnMapping,
+  ImportFormat,
+  ImportResult,
+  TRANSCRIPT_COLUMNS,
+  TranscriptColumn,
+  detectColumnMapping,
+  getImportFormat,
+  importParsedCourses,
+  importPortalText,
+  importTableRows,
+  importTranscriptJson,
+  parseCsv,
+} from '@/lib/transcript-import';
 
 interface UploadTranscriptModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onUpload: (file: File) => void;
+  onImport: (courses: TranscriptCourse[]) => Promise<void>;
 }
 
-export default function UploadTranscriptModal({ isOpen, onClose, onUpload }: UploadTranscriptModalProps) {
+const COLUMN_LABELS: Record<TranscriptColumn, string> = {
+  semester: 'Semester',
+  code: 'Course code',
+  name: 'Course name',
+  credits: 'Credits',
+  grade: 'Grade',
+};
+
+// Issues shown before the list is cut short
+const MAX_VISIBLE_ISSUES = 50;
+
+export default function UploadTranscriptModal({ isOpen, onClose, onImport }: UploadTranscriptModalProps) {
+  const [mode, setMode] = useState<'file' | 'paste'>('file');
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [pastedText, setPastedText] = useState('');
+  // Rows of a CSV or spreadsheet, mapped to columns before importing
+  const [tableRows, setTableRows] = useState<string[][] | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [fileResult, setFileResult] = useState<ImportResult | null>(null);
+  const [reading, setReading] = useState(false);
   const [uploading, setUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const result = useMemo<ImportResult | null>(() => {
+    if (mode === 'paste') {
+      return pastedText.trim() ? importPortalText(pastedText) : null;
+    }
+    if (tableRows && columnMapping) {
+      return importTableRows(tableRows, columnMapping);
+    }
+    return fileResult;
+  }, [mode, pastedText, tableRows, columnMapping, fileResult]);
+
+  const resetFile = () => {
+    setSelectedFile(null);
+    setTableRows(null);
+    setColumnMapping(null);
+    setFileResult(null);
+  };
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -28,56 +78,108 @@ export default function UploadTranscriptModal({ isOpen, onClose, onUpload }: Upl
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    
+
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (validateFile(file)) {
-        setSelectedFile(file);
-      }
+      handleFile(e.dataTransfer.files[0]);
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (validateFile(file)) {
-        setSelectedFile(file);
-      }
+      handleFile(e.target.files[0]);
     }
+    // Allow choosing the same file again after fixing it
+    e.target.value = '';
   };
 
-  const validateFile = (file: File): boolean => {
-    const allowedTypes = [
-      'application/pdf',
-      'text/plain',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'application/vnd.ms-excel'
-    ];
-    
-    if (!allowedTypes.includes(file.type)) {
-      alert('Please select a valid file type (PDF, TXT, or Excel)');
-      return false;
+  const validateFile = (file: File): ImportFormat | null => {
+    const format = getImportFormat(file.name);
+    if (!format) {
+      alert('Please select a valid file type (PDF, CSV, Excel .xlsx, TXT or JSON)');
+      return null;
     }
-    
+
     if (file.size > 10 * 1024 * 1024) { // 10MB limit
       alert('File size must be less than 10MB');
-      return false;
+      return null;
+    }
+
+    return format;
+  };
+
+  // Convert file to base64
+  const convertFileToBase64 = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
+        resolve((reader.result as string).split(',')[1]);
+      };
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    });
+  };
+
+  // Reads the file and produces rows to map or courses to review
+  const handleFile = async (file: File) => {
+    const format = validateFile(file);
+    if (!format) return;
+
+    resetFile();
+    setSelectedFile(file);
+    setReading(true);
+    try {
+      if (format === 'csv' || format === 'xlsx') {
+        let rows: string[][];
+        if (format === 'csv') {
+          rows = parseCsv(await file.text());
+        } else {
+          const spreadsheet = await ReadSpreadsheet(await convertFileToBase64(file));
+          if (!spreadsheet.success) {
+            setFileResult({ courses: [], issues: [{ row: 0, message: spreadsheet.error || 'Could not read the spreadsheet' }] });
+            return;
+          }
+          rows = spreadsheet.rows;
+        }
+        setTableRows(rows);
+        setColumnMapping(detectColumnMapping(rows[0] || []));
+      } else if (format === 'json') {
+        setFileResult(importTranscriptJson(await file.text()));
+      } else if (format === 'text') {
+        setFileResult(importPortalText(await file.text()));
+      } else {
+        const parsed = await parseTranscriptFromBase64(await convertFileToBase64(file));
+        setFileResult(
+          parsed.error
+            ? { courses: [], issues: [{ row: 0, message: parsed.error }] }
+            : importParsedCourses(parsed.courses)
+        );
+      }
+    } catch (error) {
+      console.error('Reading transcript failed:', error);
+      setFileResult({ courses: [], issues: [{ row: 0, message: 'The file could not be read' }] });
+    } finally {
+      setReading(false);
     }
-    
-    return true;
   };
 
-  const handleUpload = async () => {
-    if (!selectedFile) return;
-    
+  const handleMappingChange = (column: TranscriptColumn, index: number) => {
+    if (!columnMapping) return;
+    setColumnMapping({ ...columnMapping, [column]: index });
+  };
+
+  const handleImport = async () => {
+    if (!result || result.courses.length === 0) return;
+
     setUploading(true);
     try {
-      await onUpload(selectedFile);
-      setSelectedFile(null);
+      await onImport(result.courses);
+      resetFile();
+      setPastedText('');
       onClose();
     } catch (error) {
-      console.error('Upload failed:', error);
-      alert('Upload failed. Please try again.');
+      console.error('Import failed:', error);
+      alert('Import failed. Please try again.');
     } finally {
       setUploading(false);
     }
@@ -89,12 +191,14 @@ export default function UploadTranscriptModal({ isOpen, onClose, onUpload }: Upl
 
   if (!isOpen) return null;
 
+  const canImport = !!result && result.courses.length > 0 && !uploading && !reading;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Upload Transcript</h2>
+          <h2 className="text-xl font-semibold text-gray-900">Import Transcript</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -106,73 +210,182 @@ export default function UploadTranscriptModal({ isOpen, onClose, onUpload }: Upl
         </div>
 
         {/* Content */}
-        <div className="p-6">
+        <div className="p-6 overflow-y-auto">
           <div className="mb-4">
             <p className="text-sm text-gray-600 mb-4">
-              Upload your transcript file to automatically import your course history. 
-              Supported formats: PDF, TXT, Excel files.
+              Import your course history from a file or from text copied from the student portal.
+              Every row is checked before anything is saved.
             </p>
-          </div>
-
-          {/* Upload Area */}
-          <div
-            className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
-              dragActive 
-                ? 'border-blue-400 bg-blue-50' 
-                : selectedFile 
-                  ? 'border-green-400 bg-green-50' 
-                  : 'border-gray-300 hover:border-gray-400'
-            }`}
-            onDragEnter={handleDrag}
-            onDragLeave={handleDrag}
-            onDragOver={handleDrag}
-            onDrop={handleDrop}
-          >
-            {selectedFile ? (
-              <div className="space-y-2">
-                <svg className="w-12 h-12 mx-auto text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-                <p className="text-sm font-medium text-gray-900">{selectedFile.name}</p>
-                <p className="text-xs text-gray-500">
-                  {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                </p>
+            <div className="flex space-x-2">
+              {(['file', 'paste'] as const).map((option) => (
                 <button
-                  onClick={() => setSelectedFile(null)}
-                  className="text-sm text-red-600 hover:text-red-800 transition-colors"
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    mode === option
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
                 >
-                  Remove file
+                  {option === 'file' ? 'Upload file' : 'Paste text'}
                 </button>
-              </div>
-            ) : (
-              <div className="space-y-2">
-                <svg className="w-12 h-12 mx-auto text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-                </svg>
-                <p className="text-sm text-gray-600">
-                  Drag and drop your transcript file here, or{' '}
+              ))}
+            </div>
+          </div>
+
+          {mode === 'paste' ? (
+            <textarea
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              rows={10}
+              placeholder={'2023-2024 Güz Dönemi\nMAT 103E Mathematics I 4 6 BB\nFIZ 101E Physics I 3 5 CB'}
+              className="w-full p-3 text-sm font-mono text-gray-900 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          ) : (
+            /* Upload Area */
+            <div
+              className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+                dragActive
+                  ? 'border-blue-400 bg-blue-50'
+                  : selectedFile
+                    ? 'border-green-400 bg-green-50'
+                    : 'border-gray-300 hover:border-gray-400'
+              }`}
+              onDragEnter={handleDrag}
+              onDragLeave={handleDrag}
+              onDragOver={handleDrag}
+              onDrop={handleDrop}
+            >
+              {selectedFile ? (
+                <div className="space-y-2">
+                  <svg className="w-12 h-12 mx-auto text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <p className="text-sm font-medium text-gray-900">{selectedFile.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                  </p>
                   <button
-                    onClick={handleBrowseClick}
-                    className="text-blue-600 hover:text-blue-800 font-medium transition-colors"
+                    onClick={resetFile}
+                    className="text-sm text-red-600 hover:text-red-800 transition-colors"
                   >
-                    browse files
+                    Remove file
                   </button>
-                </p>
-                <p className="text-xs text-gray-500">
-                  PDF, TXT, or Excel files up to 10MB
-                </p>
-              </div>
-            )}
-          </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <svg className="w-12 h-12 mx-auto text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                  </svg>
+                  <p className="text-sm text-gray-600">
+                    Drag and drop your transcript file here, or{' '}
+                    <button
+                      onClick={handleBrowseClick}
+                      className="text-blue-600 hover:text-blue-800 font-medium transition-colors"
+                    >
+                      browse files
+                    </button>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    PDF, CSV, Excel (.xlsx), TXT or Foritu JSON files up to 10MB
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Hidden file input */}
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.txt,.xlsx,.xls"
+            accept=".pdf,.csv,.tsv,.xlsx,.txt,.json"
             onChange={handleFileSelect}
             className="hidden"
           />
+
+          {/* Column Mapping */}
+          {mode === 'file' && tableRows && columnMapping && (
+            <div className="mt-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Columns</h3>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {TRANSCRIPT_COLUMNS.map((column) => (
+                  <label key={column} className="text-xs text-gray-600">
+                    {COLUMN_LABELS[column]}
+                    <select
+                      value={columnMapping[column]}
+                      onChange={(e) => handleMappingChange(column, parseInt(e.target.value))}
+                      className="mt-1 block w-full px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded-md"
+                    >
+                      <option value={-1}>Not in file</option>
+                      {(tableRows[0] || []).map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Preview */}
+          {reading && (
+            <p className="mt-4 text-sm text-gray-600">Reading file...</p>
+          )}
+          {!reading && result && (
+            <div className="mt-4">
+              <p className="text-sm text-gray-900">
+                <span className="font-semibold">{result.courses.length}</span> courses ready to import
+                {result.issues.length > 0 && (
+                  <>, <span className="font-semibold text-red-600">{result.issues.length}</span> problems found</>
+                )}
+              </p>
+              {result.issues.length > 0 && (
+                <ul className="mt-2 max-h-40 overflow-y-auto text-xs text-red-700 bg-red-50 border border-red-200 rounded-md p-3 space-y-1">
+                  {result.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                    <li key={index}>
+                      {issue.row > 0 ? `Row ${issue.row}: ` : ''}{issue.message}
+                    </li>
+                  ))}
+                  {result.issues.length > MAX_VISIBLE_ISSUES && (
+                    <li>...and {result.issues.length - MAX_VISIBLE_ISSUES} more</li>
+                  )}
+                </ul>
+              )}
+              {result.courses.length > 0 && (
+                <div className="mt-2 max-h-48 overflow-y-auto border border-gray-200 rounded-md">
+                  <table className="w-full text-xs text-left text-gray-700">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-2 py-1 font-medium">Semester</th>
+                        <th className="px-2 py-1 font-medium">Code</th>
+                        <th className="px-2 py-1 font-medium">Name</th>
+                        <th className="px-2 py-1 font-medium text-right">Credits</th>
+                        <th className="px-2 py-1 font-medium">Grade</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.courses.map((course, index) => (
+                        <tr key={index} className="border-t border-gray-100">
+                          <td className="px-2 py-1 whitespace-nowrap">{course.semester}</td>
+                          <td className="px-2 py-1 whitespace-nowrap">{course.code}</td>
+                          <td className="px-2 py-1">{course.name}</td>
+                          <td className="px-2 py-1 text-right">{course.credits}</td>
+                          <td className="px-2 py-1">{course.grade}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {result.issues.length > 0 && result.courses.length > 0 && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Rows with problems are left out. Fix them in the source and import again to include them.
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -184,10 +397,10 @@ export default function UploadTranscriptModal({ isOpen, onClose, onUpload }: Upl
             Cancel
           </button>
           <button
-            onClick={handleUpload}
-            disabled={!selectedFile || uploading}
+            onClick={handleImport}
+            disabled={!canImport}
             className={`px-4 py-2 text-sm font-medium text-white rounded-md transition-colors ${
-              selectedFile && !uploading
+              canImport
                 ? 'bg-blue-600 hover:bg-blue-700'
                 : 'bg-gray-400 cursor-not-allowed'
             }`}
@@ -198,14 +411,14 @@ export default function UploadTranscriptModal({ isOpen, onClose, onUpload }: Upl
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Uploading...
+                Importing...
               </div>
             ) : (
-              'Upload Transcript'
+              `Import ${result?.courses.length || ''} Courses`
             )}
           </button>
         </div>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
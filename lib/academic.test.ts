@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import {
+  getComparableGrade,
+  getEffectiveGrade,
+  getLatestAttempts,
+  getSemesterOrder,
+  isEffectivelyPassed,
+  parseSemester,
+  sortSemesters,
+} from "@/lib/academic";
+import { attempt } from "@/lib/test-fixtures";
+
+describe("parseSemester", () => {
+  it("parses a completed semester", () => {
+    expect(parseSemester("2024-2025 Güz Dönemi")).toEqual({
+      raw: "2024-2025 Güz Dönemi",
+      startYear: 2024,
+      term: "Güz",
+      isPlanned: false,
+      planIndex: null,
+    });
+  });
+
+  it("marks Planı semesters as planned", () => {
+    const parsed = parseSemester("2025-2026 Bahar Planı");
+    expect(parsed.term).toBe("Bahar");
+    expect(parsed.startYear).toBe(2025);
+    expect(parsed.isPlanned).toBe(true);
+  });
+
+  it("parses the summer term", () => {
+    expect(parseSemester("2023-2024 Yaz Dönemi").term).toBe("Yaz");
+  });
+
+  it("parses legacy Semester N names", () => {
+    expect(parseSemester("Semester 3")).toEqual({
+      raw: "Semester 3",
+      startYear: 0,
+      term: null,
+      isPlanned: true,
+      planIndex: 3,
+    });
+  });
+});
+
+describe("getSemesterOrder", () => {
+  it("orders Güz, Bahar and Yaz within an academic year", () => {
+    const guz = getSemesterOrder("2024-2025 Güz Dönemi");
+    const bahar = getSemesterOrder("2024-2025 Bahar Dönemi");
+    const yaz = getSemesterOrder("2024-2025 Yaz Dönemi");
+    expect(guz).toBeLessThan(bahar);
+    expect(bahar).toBeLessThan(yaz);
+  });
+
+  it("orders a summer term before the next year's Güz", () => {
+    expect(getSemesterOrder("2024-2025 Yaz Dönemi")).toBeLessThan(
+      getSemesterOrder("2025-2026 Güz Dönemi")
+    );
+  });
+
+  it("orders a plan like the completed semester of the same term", () => {
+    expect(getSemesterOrder("2025-2026 Güz Planı")).toBe(
+      getSemesterOrder("2025-2026 Güz Dönemi")
+    );
+  });
+
+  it("orders legacy Semester N names before dated semesters", () => {
+    expect(getSemesterOrder("Semester 8")).toBeLessThan(
+      getSemesterOrder("2020-2021 Güz Dönemi")
+    );
+    expect(sortSemesters(["Semester 2", "Semester 1"])).toEqual([
+      "Semester 1",
+      "Semester 2",
+    ]);
+  });
+});
+
+describe("getLatestAttempts", () => {
+  it("keeps the latest attempt of each course", () => {
+    const latest = getLatestAttempts([
+      attempt("2024-2025 Bahar Dönemi", "MAT 103", "AA"),
+      attempt("2023-2024 Güz Dönemi", "MAT 103", "FF"),
+      attempt("2023-2024 Güz Dönemi", "FIZ 101", "BB"),
+    ]);
+    expect(latest).toHaveLength(2);
+    expect(latest.find((item) => item.code === "MAT 103")?.grade).toBe("AA");
+    expect(latest.find((item) => item.code === "FIZ 101")?.grade).toBe("BB");
+  });
+
+  it("keeps the later row of two attempts in the same semester", () => {
+    const latest = getLatestAttempts([
+      attempt("2024-2025 Güz Dönemi", "MAT 103", "FF"),
+      attempt("2024-2025 Güz Dönemi", "MAT 103", "CC"),
+    ]);
+    expect(latest).toEqual([attempt("2024-2025 Güz Dönemi", "MAT 103", "CC")]);
+  });
+
+  it("treats a planned retake as the latest attempt", () => {
+    const latest = getLatestAttempts([
+      attempt("2024-2025 Güz Dönemi", "MAT 103", "FF"),
+      attempt("2025-2026 Güz Planı", "MAT 103", "--"),
+    ]);
+    expect(latest[0].grade).toBe("--");
+  });
+});
+
+describe("getEffectiveGrade", () => {
+  const planned = [attempt("2025-2026 Güz Planı", "MAT 103", "--")];
+
+  it("returns an empty grade without attempts", () => {
+    expect(getEffectiveGrade([])).toBe("");
+  });
+
+  it("keeps -- while the planned semester is selected", () => {
+    expect(getEffectiveGrade(planned, "2025-2026 Güz Planı")).toBe("--");
+  });
+
+  it("assumes a pass once a later semester is selected", () => {
+    expect(getEffectiveGrade(planned, "2025-2026 Bahar Planı")).toBe("?");
+  });
+
+  it("keeps -- as seen from an earlier semester", () => {
+    expect(getEffectiveGrade(planned, "2024-2025 Bahar Dönemi")).toBe("--");
+  });
+
+  it("returns planned grades such as BB* as they are", () => {
+    const attempts = [attempt("2025-2026 Güz Planı", "MAT 103", "BB*")];
+    expect(getEffectiveGrade(attempts, "2025-2026 Bahar Planı")).toBe("BB*");
+  });
+});
+
+describe("getComparableGrade", () => {
+  it("strips the planned marker", () => {
+    expect(
+      getComparableGrade(attempt("2025-2026 Güz Planı", "MAT 103", "BB*"))
+    ).toBe("BB");
+  });
+
+  it("returns null for a course in progress", () => {
+    expect(
+      getComparableGrade(
+        attempt("2025-2026 Güz Planı", "MAT 103", "--"),
+        "2025-2026 Güz Planı"
+      )
+    ).toBeNull();
+  });
+
+  it("compares an assumed pass as CC", () => {
+    expect(
+      getComparableGrade(
+        attempt("2025-2026 Güz Planı", "MAT 103", "--"),
+        "2025-2026 Bahar Planı"
+      )
+    ).toBe("CC");
+  });
+
+  it("returns completed grades unchanged", () => {
+    expect(
+      getComparableGrade(attempt("2023-2024 Güz Dönemi", "MAT 103", "FF"))
+    ).toBe("FF");
+  });
+});
+
+describe("isEffectivelyPassed", () => {
+  it("passes with a passing or planned passing grade", () => {
+    expect(
+      isEffectivelyPassed(attempt("2023-2024 Güz Dönemi", "MAT 103", "DD"))
+    ).toBe(true);
+    expect(
+      isEffectivelyPassed(attempt("2025-2026 Güz Planı", "MAT 103", "BB*"))
+    ).toBe(true);
+  });
+
+  it("fails with a failing grade", () => {
+    expect(
+      isEffectivelyPassed(attempt("2023-2024 Güz Dönemi", "MAT 103", "FF"))
+    ).toBe(false);
+    expect(
+      isEffectivelyPassed(attempt("2023-2024 Güz Dönemi", "MAT 103", "VF"))
+    ).toBe(false);
+  });
+
+  it("is not passed while in progress, and passed once assumed", () => {
+    const planned = attempt("2025-2026 Güz Planı", "MAT 103", "--");
+    expect(isEffectivelyPassed(planned, "2025-2026 Güz Planı")).toBe(false);
+    expect(isEffectivelyPassed(planned, "2025-2026 Bahar Planı")).toBe(true);
+  });
+});
@@ -0,0 +1,369 @@
+// Shared academic rules: semester identifiers, the grade scale, attempt
+// resolution and effective-grade computation used across the app.
+
+export type Term = "Güz" | "Bahar" | "Yaz";
+
+export interface SemesterId {
+  raw: string;
+  startYear: number;
+  term: Term | null;
+  isPlanned: boolean;
+  // Legacy plan semesters are stored as "Semester N"
+  planIndex: number | null;
+}
+
+export interface AttemptLike {
+  semester: string;
+  code: string;
+  grade: string;
+}
+
+const TERM_ORDER: Record<Term, number> = {
+  Güz: 1,
+  Bahar: 2,
+  Yaz: 3,
+};
+
+// Grade placeholders used by the transcript editor
+export const PLANNED_GRADE = "--";
+export const ASSUMED_PASS_GRADE = "?";
+export const PLANNED_GRADE_MARKER = "*";
+
+// Planned courses in a past semester are treated as passed with this grade
+export const ASSUMED_PASS_EQUIVALENT = "CC";
+
+// Ascending order used for minimum grade comparisons
+export const GRADE_SCALE = [
+  "FF",
+  "FD",
+  "VF",
+  "DD",
+  "DD+",
+  "DC",
+  "DC+",
+  "CC",
+  "CC+",
+  "CB",
+  "CB+",
+  "BB",
+  "BB+",
+  "BA",
+  "BA+",
+  "AA",
+  "BL",
+];
+
+export const PASSING_GRADES = [
+  "AA",
+  "BA+",
+  "BA",
+  "BB+",
+  "BB",
+  "CB+",
+  "CB",
+  "CC+",
+  "CC",
+  "DC+",
+  "DC",
+  "DD+",
+  "DD",
+  "BL",
+];
+
+// BZ is the failing grade of non-credit courses graded BL/BZ
+export const FAILING_GRADES = ["FD", "FF", "VF", "BZ"];
+
+export const GRADE_POINTS: Record<string, number> = {
+  AA: 4.0,
+  "BA+": 3.75,
+  BA: 3.5,
+  "BB+": 3.25,
+  BB: 3.0,
+  "CB+": 2.75,
+  CB: 2.5,
+  "CC+": 2.25,
+  CC: 2.0,
+  "DC+": 1.75,
+  DC: 1.5,
+  "DD+": 1.25,
+  DD: 1.0,
+  FD: 0.5,
+  FF: 0.0,
+  VF: 0.0,
+  BL: 0.0,
+};
+
+// Minimum earned credits for each class standing (1.sınıf to 4.sınıf)
+export const CLASS_STANDING_THRESHOLDS = [0, 30, 60, 95];
+
+// Cumulative GPA below which a student is on academic probation
+export const PROBATION_GPA = 2.0;
+
+// Term GPA for the honour (onur) and high honour (yüksek onur) lists
+export const HONOUR_GPA = 3.0;
+export const HIGH_HONOUR_GPA = 3.5;
+
+/**
+ * Parses a semester name such as "2024-2025 Güz Dönemi", "2025-2026 Bahar Planı"
+ * or the legacy "Semester 3".
+ */
+export function parseSemester(semester: string): SemesterId {
+  const planMatch = semester.match(/^Semester (\d+)$/);
+  if (planMatch) {
+    return {
+      raw: semester,
+      startYear: 0,
+      term: null,
+      isPlanned: true,
+      planIndex: parseInt(planMatch[1]),
+    };
+  }
+
+  const yearMatch = semester.match(/(\d{4})/);
+
+  let term: Term | null = null;
+  if (semester.includes("Güz")) term = "Güz";
+  else if (semester.includes("Bahar")) term = "Bahar";
+  else if (semester.includes("Yaz")) term = "Yaz";
+
+  return {
+    raw: semester,
+    startYear: yearMatch ? parseInt(yearMatch[1]) : 0,
+    term,
+    isPlanned: isPlannedSemester(semester),
+    planIndex: null,
+  };
+}
+
+/**
+ * Returns a sortable number for a semester. Legacy "Semester N" names sort
+ * before any dated semester.
+ */
+export function getSemesterOrder(semester: string): number {
+  const parsed = parseSemester(semester);
+  if (parsed.planIndex !== null) return parsed.planIndex;
+  return parsed.startYear * 10 + (parsed.term ? TERM_ORDER[parsed.term] : 0);
+}
+
+export function compareSemesters(a: string, b: string): number {
+  return getSemesterOrder(a) - getSemesterOrder(b);
+}
+
+export function isSemesterAfter(semester: string, other: string): boolean {
+  return compareSemesters(semester, other) > 0;
+}
+
+// Same academic year and term, e.g. "2025-2026 Güz" and "2025-2026 Güz Planı"
+export function isSameTerm(a: string, b: string): boolean {
+  const parsedA = parseSemester(a);
+  const parsedB = parseSemester(b);
+  return (
+    parsedA.term !== null &&
+    parsedA.term === parsedB.term &&
+    parsedA.startYear === parsedB.startYear
+  );
+}
+
+export function isPlannedSemester(semester: string): boolean {
+  return semester.includes("Planı");
+}
+
+/**
+ * Returns the unique semesters in chronological order (or newest first).
+ */
+export function sortSemesters(
+  semesters: string[],
+  direction: "asc" | "desc" = "asc"
+): string[] {
+  const sorted = [...new Set(semesters)].sort(compareSemesters);
+  return direction === "asc" ? sorted : sorted.reverse();
+}
+
+export function getTranscriptSemesters(
+  transcript: AttemptLike[],
+  direction: "asc" | "desc" = "asc"
+): string[] {
+  return sortSemesters(
+    transcript.map((item) => item.semester),
+    direction
+  );
+}
+
+/**
+ * Returns the next semester after the given one, marked as a plan.
+ */
+export function getNextPlannedSemester(semester: string): string | null {
+  const yearMatch = semester.match(/(\d{4})-(\d{4})/);
+  if (!yearMatch) return null;
+
+  const startYear = parseInt(yearMatch[1]);
+  const endYear = parseInt(yearMatch[2]);
+  const { term } = parseSemester(semester);
+
+  if (term === "Güz") return `${startYear}-${endYear} Bahar Planı`;
+  if (term === "Bahar") return `${startYear}-${endYear} Yaz Planı`;
+  if (term === "Yaz") return `${startYear + 1}-${endYear + 1} Güz Planı`;
+  return null;
+}
+
+/**
+ * Returns the transcript rows from semesters up to and including the selected one.
+ */
+export function getTranscriptUpToSemester<T extends AttemptLike>(
+  transcript: T[],
+  selectedSemester?: string | null
+): T[] {
+  if (!selectedSemester) return [];
+
+  const semesters = getTranscriptSemesters(transcript);
+  const selectedIndex = semesters.indexOf(selectedSemester);
+  if (selectedIndex === -1) return [];
+
+  const semestersUpToSelected = new Set(semesters.slice(0, selectedIndex + 1));
+  return transcript.filter((item) => semestersUpToSelected.has(item.semester));
+}
+
+/**
+ * Sorts attempts by semester. Attempts in the same semester keep their
+ * transcript order.
+ */
+export function sortAttempts<T extends AttemptLike>(
+  attempts: T[],
+  direction: "asc" | "desc" = "asc"
+): T[] {
+  const sorted = attempts
+    .map((attempt, index) => ({ attempt, index }))
+    .sort(
+      (a, b) =>
+        compareSemesters(a.attempt.semester, b.attempt.semester) ||
+        a.index - b.index
+    )
+    .map(({ attempt }) => attempt);
+  return direction === "asc" ? sorted : sorted.reverse();
+}
+
+export function getLatestAttempt<T extends AttemptLike>(
+  attempts: T[]
+): T | null {
+  if (attempts.length === 0) return null;
+  const sorted = sortAttempts(attempts);
+  return sorted[sorted.length - 1];
+}
+
+/**
+ * Groups attempts by course code and returns the latest attempt of each course.
+ */
+export function getLatestAttempts<T extends AttemptLike>(transcript: T[]): T[] {
+  const courseGroups = new Map<string, T[]>();
+  transcript.forEach((attempt) => {
+    if (!courseGroups.has(attempt.code)) {
+      courseGroups.set(attempt.code, []);
+    }
+    courseGroups.get(attempt.code)!.push(attempt);
+  });
+
+  const latestAttempts: T[] = [];
+  courseGroups.forEach((attempts) => {
+    const latest = getLatestAttempt(attempts);
+    if (latest) latestAttempts.push(latest);
+  });
+  return latestAttempts;
+}
+
+// Removes the asterisk that marks a grade chosen by the user for a planned course
+export function stripPlannedMarker(grade: string): string {
+  return grade.endsWith(PLANNED_GRADE_MARKER)
+    ? grade.slice(0, -PLANNED_GRADE_MARKER.length)
+    : grade;
+}
+
+export function hasPlannedMarker(grade: string): boolean {
+  return grade.endsWith(PLANNED_GRADE_MARKER);
+}
+
+export function isPlannedGrade(grade: string): boolean {
+  return grade === PLANNED_GRADE || hasPlannedMarker(grade);
+}
+
+export function isPassingGrade(grade: string): boolean {
+  return PASSING_GRADES.includes(stripPlannedMarker(grade));
+}
+
+export function isFailingGrade(grade: string): boolean {
+  return FAILING_GRADES.includes(stripPlannedMarker(grade));
+}
+
+/**
+ * Checks a grade against a prerequisite minimum such as "DD".
+ */
+export function meetsMinimumGrade(grade: string, minGrade: string): boolean {
+  const gradeIndex = GRADE_SCALE.indexOf(stripPlannedMarker(grade));
+  if (gradeIndex === -1) return false;
+  return gradeIndex >= GRADE_SCALE.indexOf(minGrade);
+}
+
+/**
+ * Returns the grade to display for a course as seen from the selected semester:
+ * planned grades ("BB*") as is, "--" when still in progress, and "?" when the
+ * course was planned in an earlier semester and is assumed passed.
+ */
+export function getEffectiveGrade(
+  attempts: AttemptLike[],
+  selectedSemester?: string | null
+): string {
+  const latestAttempt = getLatestAttempt(attempts);
+  if (!latestAttempt) return "";
+
+  const latestGrade = latestAttempt.grade;
+  if (latestGrade !== PLANNED_GRADE) return latestGrade;
+
+  if (
+    selectedSemester &&
+    latestAttempt.semester !== selectedSemester &&
+    isSemesterAfter(selectedSemester, latestAttempt.semester)
+  ) {
+    return ASSUMED_PASS_GRADE;
+  }
+
+  return latestGrade;
+}
+
+/**
+ * Returns the grade an attempt should be compared with, or null if the course
+ * is still in progress as seen from the selected semester.
+ */
+export function getComparableGrade(
+  attempt: AttemptLike,
+  selectedSemester?: string | null
+): string | null {
+  const effectiveGrade = getEffectiveGrade([attempt], selectedSemester);
+  if (effectiveGrade === ASSUMED_PASS_GRADE) return ASSUMED_PASS_EQUIVALENT;
+  if (effectiveGrade === PLANNED_GRADE || effectiveGrade === "") return null;
+  return stripPlannedMarker(effectiveGrade);
+}
+
+/**
+ * Whether the course counts as passed as seen from the selected semester.
+ */
+export function isEffectivelyPassed(
+  attempt: AttemptLike,
+  selectedSemester?: string | null
+): boolean {
+  const grade = getComparableGrade(attempt, selectedSemester);
+  return grade !== null && isPassingGrade(grade);
+}
+
+/**
+ * Returns the class standing (1 to 4) for the given number of earned credits.
+ */
+export function getClassStanding(earnedCredits: number): number {
+  let standing = 1;
+  CLASS_STANDING_THRESHOLDS.forEach((threshold, index) => {
+    if (earnedCredits >= threshold) standing = index + 1;
+  });
+  return standing;
+}
+
+export function formatClassStanding(standing: number): string {
+  return `${standing}.sınıf`;
+}
@@ -0,0 +1,202 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { randomBytes } from "crypto";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DeletePlan,
+  DeleteTranscript,
+  GetPlan,
+  GetTranscript,
+  ListRevisions,
+  StorePlan,
+  StoreTranscript,
+  UpdateTranscript,
+} from "@/lib/actions";
+import { ErrCode } from "@/lib/errors";
+import { FakeBackend, createFakeBackend } from "@/lib/fake-backend";
+
+const session = vi.hoisted(() => ({ userId: "user_1" as string | null }));
+
+// The actions call the shared fake backend; each test gets a new one
+const fake = vi.hoisted(() => ({ backend: null as FakeBackend | null }));
+
+vi.mock("@/lib/fake-backend", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/fake-backend")>()),
+  getFakeBackend: () => fake.backend,
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: async () => ({ userId: session.userId }),
+  currentUser: async () => null,
+}));
+
+const transcript = [
+  {
+    semester: "2023-2024 Güz Dönemi",
+    code: "MAT 103",
+    name: "Mathematics I",
+    credits: "4",
+    grade: "CC",
+  },
+];
+
+const plan = [[{ type: "course", code: "MAT 103", name: "Mathematics I" }]];
+
+let directory: string;
+
+beforeEach(async () => {
+  process.env.BACKEND_TARGET = "fake";
+  process.env.LOG_LEVEL = "error";
+  directory = await mkdtemp(path.join(tmpdir(), "actions-"));
+  process.env.REVISIONS_DIR = directory;
+  process.env.REVISIONS_KEY = randomBytes(32).toString("base64");
+  session.userId = "user_1";
+  fake.backend = createFakeBackend();
+});
+
+afterEach(async () => {
+  delete process.env.REVISIONS_DIR;
+  delete process.env.REVISIONS_KEY;
+  await rm(directory, { recursive: true, force: true });
+});
+
+// Makes revision writes fail: a file where the directory should be
+const breakRevisionStore = async () => {
+  await rm(directory, { recursive: true });
+  await writeFile(directory, "");
+};
+
+describe("transcript actions", () => {
+  it("stores, updates and deletes the transcript", async () => {
+    expect(await GetTranscript()).toMatchObject({
+      success: true,
+      exists: false,
+    });
+
+    expect(await StoreTranscript(transcript)).toMatchObject({ success: true });
+    expect(fake.backend!.data.transcripts.get("user_1")?.courses).toEqual(
+      transcript
+    );
+
+    const updated = [{ ...transcript[0], grade: "BB" }];
+    expect(await UpdateTranscript(updated)).toMatchObject({ success: true });
+    expect(await GetTranscript()).toMatchObject({
+      exists: true,
+      courses: updated,
+    });
+
+    expect(await DeleteTranscript()).toMatchObject({ success: true });
+    expect((await GetTranscript()).exists).toBe(false);
+  });
+
+  it("keeps the transcripts of users apart", async () => {
+    await StoreTranscript(transcript);
+    session.userId = "user_2";
+    expect((await GetTranscript()).exists).toBe(false);
+  });
+
+  it("fails with the error code of the backend", async () => {
+    expect(await UpdateTranscript(transcript)).toMatchObject({
+      success: false,
+      errorCode: ErrCode.NotFound,
+    });
+  });
+
+  it("rejects courses that cannot be repaired without writing", async () => {
+    const result = await StoreTranscript([{ ...transcript[0], semester: "" }]);
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: ErrCode.InvalidArgument,
+    });
+    expect(result.report?.dropped).toHaveLength(1);
+    expect(fake.backend!.data.transcripts.size).toBe(0);
+  });
+
+  it("requires a signed-in user", async () => {
+    session.userId = null;
+    expect(await StoreTranscript(transcript)).toMatchObject({
+      success: false,
+      errorCode: ErrCode.Unauthenticated,
+    });
+    expect(fake.backend!.data.transcripts.size).toBe(0);
+  });
+});
+
+describe("plan actions", () => {
+  it("stores and deletes the plan", async () => {
+    expect(await GetPlan()).toMatchObject({ success: true, exists: false });
+
+    expect(await StorePlan(plan)).toMatchObject({ success: true });
+    expect(await GetPlan()).toMatchObject({ exists: true, plan });
+
+    expect(await DeletePlan()).toMatchObject({ success: true });
+    expect((await GetPlan()).exists).toBe(false);
+  });
+
+  it("rejects a plan item that cannot be repaired", async () => {
+    expect(
+      await StorePlan([[{ type: "lab", code: "FIZ 101L" }]])
+    ).toMatchObject({ success: false, errorCode: ErrCode.InvalidArgument });
+    expect(fake.backend!.data.plans.size).toBe(0);
+  });
+});
+
+describe("resetting data", () => {
+  it("keeps the transcript as a revision before deleting it", async () => {
+    await StoreTranscript(transcript);
+    expect(await DeleteTranscript()).toMatchObject({ success: true });
+
+    expect((await GetTranscript()).exists).toBe(false);
+    const { revisions } = await ListRevisions();
+    expect(revisions[0]).toMatchObject({
+      kind: "transcript",
+      action: "delete",
+    });
+  });
+
+  it("does not delete the transcript when its revision fails", async () => {
+    await StoreTranscript(transcript);
+    await breakRevisionStore();
+
+    const result = await DeleteTranscript();
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Nothing was reset");
+    expect((await GetTranscript()).courses).toEqual(transcript);
+  });
+
+  it("does not delete the transcript when it cannot be read", async () => {
+    await StoreTranscript(transcript);
+    const backend = fake.backend!;
+    const { fetcher } = backend;
+    backend.fetcher = async (input, init) =>
+      (init?.method || "GET") === "GET"
+        ? new Response(JSON.stringify({ code: "internal", message: "" }), {
+            status: 500,
+          })
+        : fetcher(input, init);
+
+    try {
+      expect((await DeleteTranscript()).success).toBe(false);
+    } finally {
+      backend.fetcher = fetcher;
+    }
+    expect((await GetTranscript()).courses).toEqual(transcript);
+  });
+
+  it("does not delete the plan when its revision fails", async () => {
+    await StorePlan(plan);
+    await breakRevisionStore();
+
+    expect((await DeletePlan()).success).toBe(false);
+    expect((await GetPlan()).plan).toEqual(plan);
+  });
+
+  it("deletes without a revision when history is not configured", async () => {
+    await StorePlan(plan);
+    delete process.env.REVISIONS_KEY;
+
+    expect(await DeletePlan()).toMatchObject({ success: true });
+    expect((await GetPlan()).exists).toBe(false);
+  });
+});
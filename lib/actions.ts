@@ -1,6 +1,37 @@
 "use server";
 
-import Client, { Environment } from "@/lib/client";
+import { createBackendClient, getErrorCode } from "@/lib/backend";
+import { loadCourseEquivalences, loadCourses } from "@/lib/catalog";
+import { GraduationAudit, auditGraduation } from "@/lib/audit";
+import { SpreadsheetError, readXlsxRows } from "@/lib/xlsx";
+import {
+  Revision,
+  RevisionData,
+  RevisionInfo,
+  RevisionKind,
+  summarizeDelete,
+  summarizePlan,
+  summarizeTranscriptChange,
+} from "@/lib/revisions";
+import {
+  addRevision,
+  getLatestRevision,
+  getRevision,
+  isRevisionStoreConfigured,
+  listRevisions,
+} from "@/lib/revision-store";
+import { AuthError, requireAdminUserId, requireUserId } from "@/lib/auth";
+import { ActionResult, ErrCode } from "@/lib/errors";
+import {
+  DataReport,
+  hasDroppedRecords,
+  validateStoredPlan,
+  validateStoredTranscript,
+} from "@/lib/user-data-schema";
+import { createLogger, startRequest } from "@/lib/logger";
+import { PlanItem } from "@/lib/plan-schema";
+
+const log = createLogger("actions");
 
 export interface SelectedLesson {
   courseCode: string;
@@ -28,30 +59,31 @@ export interface TranscriptCourse {
 export interface ParseTranscriptResult {
   courses: TranscriptCourse[];
   error: string;
+  errorCode?: ErrCode;
   debug: string;
 }
 
-export interface GetTranscriptResult {
+export interface GetTranscriptResult extends ActionResult {
   courses: TranscriptCourse[];
-  error: string;
-  success: boolean;
+  // False when the user has no transcript yet; the call still succeeds
+  exists: boolean;
+  // Repairs and dropped courses from validating the stored transcript
+  report?: DataReport;
 }
 
-export interface StoreTranscriptResult {
-  success: boolean;
-  error: string;
+export interface StoreTranscriptResult extends ActionResult {
   message: string;
+  // Repairs and rejected courses from validating the courses sent
+  report?: DataReport;
 }
 
-export interface UpdateTranscriptResult {
-  success: boolean;
-  error: string;
+export interface UpdateTranscriptResult extends ActionResult {
   message: string;
+  // Repairs and rejected courses from validating the courses sent
+  report?: DataReport;
 }
 
-export interface DeleteTranscriptResult {
-  success: boolean;
-  error: string;
+export interface DeleteTranscriptResult extends ActionResult {
   message: string;
 }
 
@@ -61,200 +93,174 @@ export interface DeleteTranscriptResult {
 export async function parseTranscriptFromBase64(
   base64Data: string
 ): Promise<ParseTranscriptResult> {
+  startRequest("parseTranscriptFromBase64");
   try {
-    console.log("Server: Starting transcript parsing...");
-    console.log("Server: Base64 data length:", base64Data.length);
+    await requireUserId();
+    log.info("Parsing transcript", { base64Length: base64Data.length });
 
-    // Create API client for staging environment
-    const client = new Client(Environment("staging"));
+    // Create API client for the configured backend
+    const client = createBackendClient();
 
     // Prepare request payload
     const request = {
       pdf_base64: base64Data,
     };
 
-    console.log("Server: Sending request to API...");
-
     // Call the API
     const response = await client.transcript.ParseTranscript(request);
 
-    console.log("Server: API Response received:");
-    console.log("Server: Courses found:", response.courses.length);
-    console.log("Server: Error:", response.error);
-    console.log("Server: Debug:", response.debug);
-
-    // Log each course
-    response.courses.forEach((course, index) => {
-      console.log(`Server: Course ${index + 1}:`, {
-        semester: course.semester,
-        code: course.code,
-        name: course.name,
-        credits: course.credits,
-        grade: course.grade,
-      });
+    log.info("Transcript parsed", {
+      courseCount: response.courses.length,
+      error: response.error,
+    });
+    log.debug("Parsed courses", {
+      courses: response.courses,
+      debug: response.debug,
     });
 
     return response;
   } catch (error) {
-    console.error("Server: Error parsing transcript:", error);
+    log.error("Error parsing transcript", { error });
 
     return {
       courses: [],
       error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
       debug: "Error occurred during API call",
     };
   }
 }
 
+export interface ReadSpreadsheetResult extends ActionResult {
+  rows: string[][];
+}
+
 /**
- * Server action to get user's transcript
+ * Server action to read the rows of an uploaded .xlsx transcript
  */
-export async function GetTranscript(
-  userId: string
-): Promise<GetTranscriptResult> {
+export async function ReadSpreadsheet(
+  base64Data: string
+): Promise<ReadSpreadsheetResult> {
+  startRequest("ReadSpreadsheet");
   try {
-    // Create API client for staging environment
-    const client = new Client(Environment("staging"));
-
-    // Call the API to get user's transcript
-    const response = await client.transcript.GetTranscript(userId);
+    await requireUserId();
+    const rows = readXlsxRows(Buffer.from(base64Data, "base64"));
+    log.info("Spreadsheet read", { rowCount: rows.length });
 
     return {
-      courses: response.transcript?.courses || [],
+      rows,
       error: "",
-      success: !!response.transcript,
+      success: true,
     };
   } catch (error) {
-    console.error("Server: Error getting transcript:", error);
+    log.error("Error reading spreadsheet", { error });
 
     return {
-      courses: [],
-      error: error instanceof Error ? error.message : "Unknown error occurred",
+      rows: [],
+      error:
+        error instanceof SpreadsheetError || error instanceof AuthError
+          ? error.message
+          : "Could not read the spreadsheet",
+      errorCode: getErrorCode(error),
       success: false,
     };
   }
 }
 
 /**
- * Server action to store user's transcript
+ * Server action to get the signed-in user's transcript
+ */
+export async function GetTranscript(): Promise<GetTranscriptResult> {
+  startRequest("GetTranscript");
+  try {
+    return await getTranscriptForUser(await requireUserId());
+  } catch (error) {
+    return { courses: [], exists: false, ...toErrorResult(error) };
+  }
+}
+
+/**
+ * Server action to store the signed-in user's transcript
  */
 export async function StoreTranscript(
-  userId: string,
   courses: TranscriptCourse[]
 ): Promise<StoreTranscriptResult> {
+  startRequest("StoreTranscript");
   try {
-    // Create API client for staging environment
-    const client = new Client(Environment("staging"));
-
-    // Prepare request payload
-    const request = {
-      userId: userId,
-      courses: courses,
-    };
-
-    // Call the API to store user's transcript
-    const response = await client.transcript.StoreTranscript(request);
-
-    return {
-      success: true,
-      error: "",
-      message: response.message,
-    };
+    return await storeTranscriptForUser(await requireUserId(), courses);
   } catch (error) {
-    console.error("Server: Error storing transcript:", error);
-
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-      message: "",
-    };
+    return { message: "", ...toErrorResult(error) };
   }
 }
 
 /**
- * Server action to update user's transcript
+ * Server action to update the signed-in user's transcript
  */
 export async function UpdateTranscript(
-  userId: string,
-  courses: TranscriptCourse[]
+  input: TranscriptCourse[]
 ): Promise<UpdateTranscriptResult> {
+  startRequest("UpdateTranscript");
   try {
-    console.log("Server: Updating transcript for user:", userId);
-    console.log("Server: Courses to update:", courses.length);
-
-    // Log the first few courses to see their structure
-    courses.slice(0, 3).forEach((course, index) => {
-      console.log(`Server: Course ${index + 1}:`, {
-        semester: course.semester,
-        code: course.code,
-        name: course.name,
-        credits: course.credits,
-        grade: course.grade,
-        lesson_id: course.lesson_id,
+    const userId = await requireUserId();
+    const { courses, report } = validateStoredTranscript(input);
+    if (hasDroppedRecords(report)) {
+      log.warn("Rejected invalid transcript", {
+        userId,
+        droppedCount: report.dropped.length,
       });
-    });
+      return { message: "", ...toInvalidDataResult("transcript", report) };
+    }
+    log.info("Updating transcript", { userId, courseCount: courses.length });
+    log.debug("Courses to update", { courses });
 
-    // Create API client for staging environment
-    const client = new Client(Environment("staging"));
+    // Create API client for the configured backend
+    const client = createBackendClient();
+    const previous = await getPreviousTranscript(userId);
 
     // Prepare request payload
     const request = {
       courses: courses,
     };
 
-    console.log("Server: Sending request to update transcript...");
-
     // Call the API to update user's transcript
     const response = await client.transcript.UpdateTranscript(userId, request);
+    log.debug("Transcript updated", { response: response.message });
 
-    console.log("Server: UpdateTranscript API Response received:");
-    console.log("Server: Message:", response.message);
-    console.log("Server: User ID:", response.userId);
+    const warning = await recordRevision(userId, {
+      kind: "transcript",
+      action: "update",
+      summary: summarizeTranscriptChange(previous, courses),
+      data: courses,
+    });
 
     return {
       success: true,
       error: "",
+      warning,
       message: response.message,
+      report,
     };
   } catch (error) {
-    console.error("Server: Error updating transcript:", error);
+    log.error("Error updating transcript", { error });
 
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
       message: "Failed to update transcript",
     };
   }
 }
 
 /**
- * Server action to delete user's transcript
+ * Server action to delete the signed-in user's transcript
  */
-export async function DeleteTranscript(
-  userId: string
-): Promise<DeleteTranscriptResult> {
+export async function DeleteTranscript(): Promise<DeleteTranscriptResult> {
+  startRequest("DeleteTranscript");
   try {
-    console.log("Server: Deleting transcript for user:", userId);
-    const client = new Client(Environment("staging"));
-    console.log("Server: Sending request to delete transcript...");
-    const response = await client.transcript.DeleteTranscript(userId);
-
-    console.log("Server: DeleteTranscript API Response received:");
-    console.log("Server: Message:", response.message);
-    console.log("Server: User ID:", response.userId);
-
-    return {
-      success: true,
-      error: "",
-      message: response.message,
-    };
+    return await deleteTranscriptForUser(await requireUserId());
   } catch (error) {
-    console.error("Server: Error deleting transcript:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-      message: "",
-    };
+    return { message: "", ...toErrorResult(error) };
   }
 }
 
@@ -267,91 +273,62 @@ export interface PlanCourse {
   options?: string[];
 }
 
-export interface GetPlanResult {
+export interface GetPlanResult extends ActionResult {
   plan: PlanCourse[][] | null;
-  error: string;
-  success: boolean;
+  // False when the user has not picked a plan yet
+  exists: boolean;
+  // Repairs and dropped items from validating the stored plan
+  report?: DataReport;
 }
 
-export interface StorePlanResult {
-  success: boolean;
-  error: string;
+export interface StorePlanResult extends ActionResult {
   message: string;
+  // Repairs and rejected items from validating the plan sent
+  report?: DataReport;
 }
 
-export interface DeletePlanResult {
-  success: boolean;
-  error: string;
+export interface DeletePlanResult extends ActionResult {
   message: string;
 }
 
 /**
- * Server action to get user's plan
+ * Server action to get the signed-in user's plan
  */
-export async function GetPlan(userId: string): Promise<GetPlanResult> {
+export async function GetPlan(): Promise<GetPlanResult> {
+  startRequest("GetPlan");
   try {
-    console.log("Server: Getting plan for user:", userId);
-
-    // Create API client for staging environment
-    const client = new Client(Environment("staging"));
-
-    console.log("Server: Sending request to get plan...");
-
-    // Call the API to get user's plan
-    const response = await client.plan.GetPlan({ userId });
-
-    console.log("Server: GetPlan API Response received:");
-    console.log("Server: Plan found:", response.plan ? "Yes" : "No");
-    console.log("Server: Error:", response.error);
-
-    if (response.error) {
-      return {
-        plan: null,
-        error: response.error,
-        success: false,
-      };
-    }
-
-    return {
-      plan: response.plan?.planJson || null,
-      error: "",
-      success: !!response.plan,
-    };
+    return await getPlanForUser(await requireUserId());
   } catch (error) {
-    console.error("Server: Error getting plan:", error);
-
-    return {
-      plan: null,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-      success: false,
-    };
+    return { plan: null, exists: false, ...toErrorResult(error) };
   }
 }
 
 /**
- * Server action to store user's plan
+ * Server action to store the signed-in user's plan. Takes a stored plan or a
+ * plan from the catalogue; both are validated before they are written.
  */
 export async function StorePlan(
-  userId: string,
-  planJson: PlanCourse[][]
+  input: (PlanCourse | PlanItem)[][]
 ): Promise<StorePlanResult> {
+  startRequest("StorePlan");
   try {
-    console.log("Server: Storing plan for user:", userId);
-    console.log("Server: Plan semesters:", planJson.length);
+    const userId = await requireUserId();
+    const { plan: planJson, report } = validateStoredPlan(input);
+    if (hasDroppedRecords(report)) {
+      log.warn("Rejected invalid plan", {
+        userId,
+        droppedCount: report.dropped.length,
+      });
+      return { message: "", ...toInvalidDataResult("plan", report) };
+    }
+    log.info("Storing plan", { userId, semesterCount: planJson.length });
 
-    // Create API client for staging environment
-    const client = new Client(Environment("staging"));
+    // Create API client for the configured backend
+    const client = createBackendClient();
+    await getPreviousPlan(userId);
 
     // Transform PlanCourse[][] to the expected Course[][] format
-    const transformedPlan = planJson.map((semester) =>
-      semester.map((item) => ({
-        type: item.type,
-        code: item.code,
-        name: item.name || "", // Provide default empty string
-        category: item.category || "", // Provide default empty string
-        options: item.options || [], // Provide default empty array
-      }))
-    );
+    const transformedPlan = toBackendPlan(planJson);
 
     // Prepare request payload
     const request = {
@@ -359,61 +336,52 @@ export async function StorePlan(
       planJson: transformedPlan,
     };
 
-    console.log("Server: Sending request to store plan...");
-
     // Call the API to store user's plan
     const response = await client.plan.StorePlan(request);
+    log.debug("Plan stored", {
+      success: response.success,
+      error: response.error,
+    });
 
-    console.log("Server: StorePlan API Response received:");
-    console.log("Server: Success:", response.success);
-    console.log("Server: Error:", response.error);
+    const warning = response.success
+      ? await recordRevision(userId, {
+          kind: "plan",
+          action: "store",
+          summary: summarizePlan(planJson),
+          data: planJson,
+        })
+      : undefined;
 
     return {
       success: response.success,
       error: response.error || "",
+      warning,
       message: response.success
         ? "Plan stored successfully"
         : "Failed to store plan",
+      report,
     };
   } catch (error) {
-    console.error("Server: Error storing plan:", error);
+    log.error("Error storing plan", { error });
 
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
       message: "Failed to store plan",
     };
   }
 }
 
 /**
- * Server action to delete user's plan
+ * Server action to delete the signed-in user's plan
  */
-export async function DeletePlan(userId: string): Promise<DeletePlanResult> {
+export async function DeletePlan(): Promise<DeletePlanResult> {
+  startRequest("DeletePlan");
   try {
-    console.log("Server: Deleting plan for user:", userId);
-    const client = new Client(Environment("staging"));
-    console.log("Server: Sending request to delete plan...");
-    const response = await client.plan.DeletePlan({ userId });
-
-    console.log("Server: DeletePlan API Response received:");
-    console.log("Server: Success:", response.success);
-    console.log("Server: Error:", response.error);
-
-    return {
-      success: response.success,
-      error: response.error || "",
-      message: response.success
-        ? "Plan deleted successfully"
-        : "Failed to delete plan",
-    };
+    return await deletePlanForUser(await requireUserId());
   } catch (error) {
-    console.error("Server: Error deleting plan:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error occurred",
-      message: "Failed to delete plan",
-    };
+    return { message: "Failed to delete plan", ...toErrorResult(error) };
   }
 }
 
@@ -421,29 +389,28 @@ export async function DeletePlan(userId: string): Promise<DeletePlanResult> {
  * Server action to parse and store transcript in one operation
  */
 export async function ParseAndStoreTranscript(
-  userId: string,
   base64Data: string
 ): Promise<StoreTranscriptResult> {
+  startRequest("ParseAndStoreTranscript");
   try {
-    console.log(
-      "Server: Starting parse and store transcript for user:",
-      userId
-    );
+    const userId = await requireUserId();
+    log.info("Parsing and storing transcript", { userId });
 
     // First parse the transcript
     const parseResult = await parseTranscriptFromBase64(base64Data);
 
     if (parseResult.error) {
-      console.error("Server: Error parsing transcript:", parseResult.error);
+      log.error("Error parsing transcript", { error: parseResult.error });
       return {
         success: false,
         error: parseResult.error,
+        errorCode: parseResult.errorCode,
         message: "Failed to parse transcript",
       };
     }
 
     if (parseResult.courses.length === 0) {
-      console.log("Server: No courses found in transcript");
+      log.info("No courses found in transcript");
       return {
         success: false,
         error: "No courses found in transcript",
@@ -452,16 +419,720 @@ export async function ParseAndStoreTranscript(
     }
 
     // Then store the transcript
-    const storeResult = await StoreTranscript(userId, parseResult.courses);
+    const storeResult = await storeTranscriptForUser(
+      userId,
+      parseResult.courses
+    );
 
-    console.log("Server: Parse and store completed successfully");
+    log.info("Parse and store completed", { success: storeResult.success });
     return storeResult;
   } catch (error) {
-    console.error("Server: Error in parse and store transcript:", error);
+    log.error("Error in parse and store transcript", { error });
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
       message: "Failed to process transcript",
     };
   }
 }
+
+export interface AuditGraduationResult extends ActionResult {
+  audit: GraduationAudit | null;
+}
+
+/**
+ * Server action to audit user's transcript against their stored plan
+ */
+export async function AuditGraduation(
+  referenceSemester?: string | null
+): Promise<AuditGraduationResult> {
+  startRequest("AuditGraduation");
+  try {
+    const userId = await requireUserId();
+    log.info("Auditing graduation", { userId });
+
+    const [transcriptResult, planResult, courses, equivalences] =
+      await Promise.all([
+        getTranscriptForUser(userId),
+        getPlanForUser(userId),
+        loadCourses(),
+        loadCourseEquivalences(),
+      ]);
+
+    if (!planResult.plan) {
+      return {
+        audit: null,
+        error: planResult.error || "No plan found",
+        success: false,
+      };
+    }
+
+    const audit = auditGraduation(planResult.plan, transcriptResult.courses, {
+      courses,
+      equivalences,
+      referenceSemester,
+    });
+
+    log.info("Audit completed", {
+      missingCount: audit.requirements.filter((r) => r.status === "missing")
+        .length,
+    });
+
+    return {
+      audit,
+      error: "",
+      success: true,
+    };
+  } catch (error) {
+    log.error("Error auditing graduation", { error });
+
+    return {
+      audit: null,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      success: false,
+    };
+  }
+}
+
+// Helper function to convert a plan to the API's Course[][] format
+function toBackendPlan(planJson: PlanCourse[][]) {
+  return planJson.map((semester) =>
+    semester.map((item) => ({
+      type: item.type,
+      code: item.code,
+      name: item.name || "", // Provide default empty string
+      category: item.category || "", // Provide default empty string
+      options: item.options || [], // Provide default empty array
+    }))
+  );
+}
+
+// Helper function to get a user's transcript from the API
+async function getTranscriptForUser(
+  userId: string
+): Promise<GetTranscriptResult> {
+  try {
+    // Create API client for the configured backend
+    const client = createBackendClient();
+
+    // Call the API to get user's transcript
+    const response = await client.transcript.GetTranscript(userId);
+    if (!response.transcript) {
+      return { courses: [], exists: false, error: "", success: true };
+    }
+
+    const { courses, report } = validateStoredTranscript(
+      response.transcript.courses
+    );
+    logDataReport("transcript", userId, report);
+
+    return {
+      courses,
+      exists: true,
+      report,
+      error: "",
+      success: true,
+    };
+  } catch (error) {
+    // The API answers NotFound for a user who has not uploaded a transcript
+    if (getErrorCode(error) === ErrCode.NotFound) {
+      return { courses: [], exists: false, error: "", success: true };
+    }
+    log.error("Error getting transcript", { userId, error });
+
+    return {
+      courses: [],
+      exists: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      success: false,
+    };
+  }
+}
+
+// Helper function to store a user's transcript and record the revision
+async function storeTranscriptForUser(
+  userId: string,
+  input: TranscriptCourse[]
+): Promise<StoreTranscriptResult> {
+  try {
+    const { courses, report } = validateStoredTranscript(input);
+    if (hasDroppedRecords(report)) {
+      log.warn("Rejected invalid transcript", {
+        userId,
+        droppedCount: report.dropped.length,
+      });
+      return { message: "", ...toInvalidDataResult("transcript", report) };
+    }
+
+    // Create API client for the configured backend
+    const client = createBackendClient();
+    const previous = await getPreviousTranscript(userId);
+
+    // Prepare request payload
+    const request = {
+      userId: userId,
+      courses: courses,
+    };
+
+    log.info("Storing transcript", { userId, courseCount: courses.length });
+    log.debug("Courses to store", { courses });
+
+    // Call the API to store user's transcript
+    const response = await client.transcript.StoreTranscript(request);
+
+    const warning = await recordRevision(userId, {
+      kind: "transcript",
+      action: "store",
+      summary: summarizeTranscriptChange(previous, courses),
+      data: courses,
+    });
+
+    return {
+      success: true,
+      error: "",
+      warning,
+      message: response.message,
+      report,
+    };
+  } catch (error) {
+    log.error("Error storing transcript", { userId, error });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      message: "",
+    };
+  }
+}
+
+// Helper function to delete a user's transcript, keeping it as a revision
+async function deleteTranscriptForUser(
+  userId: string
+): Promise<DeleteTranscriptResult> {
+  try {
+    log.info("Deleting transcript", { userId });
+    const client = createBackendClient();
+
+    // Keep the transcript as a revision first so the reset can be undone
+    if (isRevisionStoreConfigured()) {
+      const current = await getTranscriptForUser(userId);
+      if (!current.success) {
+        return {
+          success: false,
+          error: current.error,
+          errorCode: current.errorCode,
+          message: "",
+        };
+      }
+      if (current.courses.length > 0) {
+        const failure = await recordDeletedRevision(userId, {
+          kind: "transcript",
+          data: current.courses,
+        });
+        if (failure) return { message: "", ...failure };
+      }
+    }
+
+    const response = await client.transcript.DeleteTranscript(userId);
+    log.debug("Transcript deleted", { response: response.message });
+
+    return {
+      success: true,
+      error: "",
+      message: response.message,
+    };
+  } catch (error) {
+    log.error("Error deleting transcript", { userId, error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      message: "",
+    };
+  }
+}
+
+// Helper function to get a user's plan from the API
+async function getPlanForUser(userId: string): Promise<GetPlanResult> {
+  try {
+    // Create API client for the configured backend
+    const client = createBackendClient();
+
+    // Call the API to get user's plan
+    const response = await client.plan.GetPlan({ userId });
+    log.debug("Plan read", {
+      userId,
+      found: !!response.plan,
+      error: response.error,
+    });
+
+    if (response.error) {
+      return {
+        plan: null,
+        exists: false,
+        error: response.error,
+        success: false,
+      };
+    }
+
+    if (!response.plan) {
+      return { plan: null, exists: false, error: "", success: true };
+    }
+
+    const { plan, report } = validateStoredPlan(response.plan.planJson);
+    logDataReport("plan", userId, report);
+
+    return {
+      plan,
+      exists: true,
+      report,
+      error: "",
+      success: true,
+    };
+  } catch (error) {
+    if (getErrorCode(error) === ErrCode.NotFound) {
+      return { plan: null, exists: false, error: "", success: true };
+    }
+    log.error("Error getting plan", { userId, error });
+
+    return {
+      plan: null,
+      exists: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      success: false,
+    };
+  }
+}
+
+// Helper function to delete a user's plan, keeping it as a revision
+async function deletePlanForUser(userId: string): Promise<DeletePlanResult> {
+  try {
+    log.info("Deleting plan", { userId });
+    const client = createBackendClient();
+
+    // Keep the plan as a revision first so the reset can be undone
+    if (isRevisionStoreConfigured()) {
+      const current = await getPlanForUser(userId);
+      if (!current.success) {
+        return {
+          success: false,
+          error: current.error,
+          errorCode: current.errorCode,
+          message: "Failed to delete plan",
+        };
+      }
+      if (current.plan) {
+        const failure = await recordDeletedRevision(userId, {
+          kind: "plan",
+          data: current.plan,
+        });
+        if (failure) return { message: "Failed to delete plan", ...failure };
+      }
+    }
+
+    const response = await client.plan.DeletePlan({ userId });
+    log.debug("Plan deleted", {
+      success: response.success,
+      error: response.error,
+    });
+
+    return {
+      success: response.success,
+      error: response.error || "",
+      message: response.success
+        ? "Plan deleted successfully"
+        : "Failed to delete plan",
+    };
+  } catch (error) {
+    log.error("Error deleting plan", { userId, error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      message: "Failed to delete plan",
+    };
+  }
+}
+
+// Helper function to log what validating stored data repaired or left out.
+// The entries can quote stored values, so they are only logged at debug level.
+function logDataReport(kind: string, userId: string, report: DataReport) {
+  if (report.repaired.length === 0 && report.dropped.length === 0) return;
+  log.warn(`Stored ${kind} needed repairs`, {
+    userId,
+    repairedCount: report.repaired.length,
+    droppedCount: report.dropped.length,
+  });
+  log.debug(`Stored ${kind} report`, {
+    repaired: report.repaired,
+    dropped: report.dropped,
+  });
+}
+
+// Helper function to build the failed result of a save whose data has
+// records that could not be repaired; nothing is written in that case
+function toInvalidDataResult(kind: string, report: DataReport) {
+  return {
+    success: false,
+    error: `Invalid ${kind}: ${report.dropped.join("; ")}`,
+    errorCode: ErrCode.InvalidArgument,
+    report,
+  };
+}
+
+// Helper function to build the failed result of an action from its error
+function toErrorResult(error: unknown) {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error occurred",
+    errorCode: getErrorCode(error),
+  };
+}
+
+// Shown when a reset was stopped because its revision could not be written
+const RESET_REVISION_ERROR =
+  "Nothing was reset, because the current version could not be added to the revision history. Please try again.";
+
+// Shown when a save succeeded but its revision could not be written
+const REVISION_WARNING =
+  "Your changes were saved, but they could not be added to the revision history.";
+
+// Helper function to record a revision without failing the save that made it.
+// Returns a warning for the action result if the revision was not written.
+async function recordRevision(
+  userId: string,
+  revision: Omit<Revision, "id" | "createdAt">
+): Promise<string | undefined> {
+  // Revision history is turned off when no store is configured
+  if (!isRevisionStoreConfigured()) return undefined;
+  try {
+    await addRevision(userId, revision);
+    return undefined;
+  } catch (error) {
+    log.error("Error recording revision", { userId, error });
+    return REVISION_WARNING;
+  }
+}
+
+// Helper function to record the data a reset is about to delete. Unlike
+// recordRevision it fails the action: without the revision the reset could
+// not be undone, so nothing is deleted.
+async function recordDeletedRevision(userId: string, revision: RevisionData) {
+  try {
+    await addRevision(userId, {
+      ...revision,
+      action: "delete",
+      summary: summarizeDelete(revision),
+    });
+    return undefined;
+  } catch (error) {
+    log.error("Error recording revision before a reset", { userId, error });
+    return { success: false, error: RESET_REVISION_ERROR };
+  }
+}
+
+// Helper function to get the transcript a save replaces. Without any
+// revision yet, the stored transcript is recorded first so it can be restored.
+async function getPreviousTranscript(
+  userId: string
+): Promise<TranscriptCourse[] | null> {
+  if (!isRevisionStoreConfigured()) return null;
+  try {
+    const latest = await getLatestRevision(userId, "transcript");
+    if (latest) return latest.action === "delete" ? [] : latest.data;
+
+    const current = await getTranscriptForUser(userId);
+    if (!current.success || current.courses.length === 0) return null;
+    await recordRevision(userId, {
+      kind: "transcript",
+      action: "store",
+      summary: "Version before revision history",
+      data: current.courses,
+    });
+    return current.courses;
+  } catch (error) {
+    log.error("Error reading transcript revisions", { userId, error });
+    return null;
+  }
+}
+
+// Helper function to record the stored plan before the first tracked save
+async function getPreviousPlan(userId: string): Promise<PlanCourse[][] | null> {
+  if (!isRevisionStoreConfigured()) return null;
+  try {
+    const latest = await getLatestRevision(userId, "plan");
+    if (latest) return latest.action === "delete" ? null : latest.data;
+
+    const current = await getPlanForUser(userId);
+    if (!current.plan) return null;
+    await recordRevision(userId, {
+      kind: "plan",
+      action: "store",
+      summary: "Version before revision history",
+      data: current.plan,
+    });
+    return current.plan;
+  } catch (error) {
+    log.error("Error reading plan revisions", { userId, error });
+    return null;
+  }
+}
+
+export interface ListRevisionsResult extends ActionResult {
+  revisions: RevisionInfo[];
+}
+
+export interface GetRevisionResult extends ActionResult {
+  revision: Revision | null;
+}
+
+export interface RestoreRevisionResult extends ActionResult {
+  message: string;
+}
+
+/**
+ * Server action to list the revisions of the user's transcript and plan
+ */
+export async function ListRevisions(
+  kind?: RevisionKind
+): Promise<ListRevisionsResult> {
+  startRequest("ListRevisions");
+  try {
+    const userId = await requireUserId();
+    const revisions = await listRevisions(userId, kind);
+    return { revisions, error: "", success: true };
+  } catch (error) {
+    log.error("Error listing revisions", { error });
+    return {
+      revisions: [],
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      success: false,
+    };
+  }
+}
+
+/**
+ * Server action to get a revision with its data
+ */
+export async function GetRevision(
+  revisionId: string
+): Promise<GetRevisionResult> {
+  startRequest("GetRevision");
+  try {
+    const userId = await requireUserId();
+    const revision = await getRevision(userId, revisionId);
+    return {
+      revision,
+      error: revision ? "" : "Revision not found",
+      errorCode: revision ? undefined : ErrCode.NotFound,
+      success: !!revision,
+    };
+  } catch (error) {
+    log.error("Error getting revision", { revisionId, error });
+    return {
+      revision: null,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      success: false,
+    };
+  }
+}
+
+/**
+ * Server action to restore a revision as the user's transcript or plan
+ */
+export async function RestoreRevision(
+  revisionId: string
+): Promise<RestoreRevisionResult> {
+  startRequest("RestoreRevision");
+  try {
+    const userId = await requireUserId();
+    log.info("Restoring revision", { userId, revisionId });
+    const revision = await getRevision(userId, revisionId);
+    if (!revision) {
+      return {
+        success: false,
+        error: "Revision not found",
+        errorCode: ErrCode.NotFound,
+        message: "Failed to restore revision",
+      };
+    }
+
+    const client = createBackendClient();
+    const summary = `Restored the version from ${revision.createdAt.slice(
+      0,
+      10
+    )}`;
+
+    let warning: string | undefined;
+    if (revision.kind === "transcript") {
+      await getPreviousTranscript(userId);
+      // A reset transcript has to be created again
+      const current = await getTranscriptForUser(userId);
+      if (!current.success) {
+        return {
+          success: false,
+          error: current.error,
+          errorCode: current.errorCode,
+          message: "Failed to restore revision",
+        };
+      }
+      if (current.exists) {
+        await client.transcript.UpdateTranscript(userId, {
+          courses: revision.data,
+        });
+      } else {
+        await client.transcript.StoreTranscript({
+          userId,
+          courses: revision.data,
+        });
+      }
+      warning = await recordRevision(userId, {
+        kind: "transcript",
+        action: "restore",
+        summary,
+        data: revision.data,
+      });
+    } else {
+      await getPreviousPlan(userId);
+      const response = await client.plan.StorePlan({
+        userId,
+        planJson: toBackendPlan(revision.data),
+      });
+      if (!response.success) {
+        return {
+          success: false,
+          error: response.error || "Unknown error occurred",
+          message: "Failed to restore revision",
+        };
+      }
+      warning = await recordRevision(userId, {
+        kind: "plan",
+        action: "restore",
+        summary,
+        data: revision.data,
+      });
+    }
+
+    log.info("Revision restored", { kind: revision.kind });
+    return {
+      success: true,
+      error: "",
+      warning,
+      message: `${revision.kind === "plan" ? "Plan" : "Transcript"} restored`,
+    };
+  } catch (error) {
+    log.error("Error restoring revision", { revisionId, error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+      errorCode: getErrorCode(error),
+      message: "Failed to restore revision",
+    };
+  }
+}
+
+// Admin operations act on another user's data, so each one checks that the
+// caller is an admin (see lib/auth.ts) before calling the API.
+
+export interface AdminTranscriptSummary {
+  userId: string;
+  courseCount: number;
+}
+
+export interface AdminListTranscriptsResult extends ActionResult {
+  transcripts: AdminTranscriptSummary[];
+}
+
+/**
+ * Server action for admins to list the users with a stored transcript
+ */
+export async function AdminListTranscripts(): Promise<AdminListTranscriptsResult> {
+  startRequest("AdminListTranscripts");
+  try {
+    const adminId = await requireAdminUserId();
+    log.info("Admin listing transcripts", { adminId });
+    const client = createBackendClient();
+    const response = await client.transcript.ListAllTranscripts();
+
+    return {
+      transcripts: response.transcripts.map((transcript) => ({
+        userId: transcript.userId,
+        courseCount: transcript.courses.length,
+      })),
+      error: "",
+      success: true,
+    };
+  } catch (error) {
+    log.error("Error listing transcripts", { error });
+    return { transcripts: [], ...toErrorResult(error) };
+  }
+}
+
+/**
+ * Server action for admins to get any user's transcript
+ */
+export async function AdminGetTranscript(
+  userId: string
+): Promise<GetTranscriptResult> {
+  startRequest("AdminGetTranscript");
+  try {
+    const adminId = await requireAdminUserId();
+    log.info("Admin getting transcript", { adminId, userId });
+    return await getTranscriptForUser(userId);
+  } catch (error) {
+    return { courses: [], exists: false, ...toErrorResult(error) };
+  }
+}
+
+/**
+ * Server action for admins to get any user's plan
+ */
+export async function AdminGetPlan(userId: string): Promise<GetPlanResult> {
+  startRequest("AdminGetPlan");
+  try {
+    const adminId = await requireAdminUserId();
+    log.info("Admin getting plan", { adminId, userId });
+    return await getPlanForUser(userId);
+  } catch (error) {
+    return { plan: null, exists: false, ...toErrorResult(error) };
+  }
+}
+
+/**
+ * Server action for admins to delete any user's transcript
+ */
+export async function AdminDeleteTranscript(
+  userId: string
+): Promise<DeleteTranscriptResult> {
+  startRequest("AdminDeleteTranscript");
+  try {
+    const adminId = await requireAdminUserId();
+    log.info("Admin deleting transcript", { adminId, userId });
+    return await deleteTranscriptForUser(userId);
+  } catch (error) {
+    return { message: "", ...toErrorResult(error) };
+  }
+}
+
+/**
+ * Server action for admins to delete any user's plan
+ */
+export async function AdminDeletePlan(
+  userId: string
+): Promise<DeletePlanResult> {
+  startRequest("AdminDeletePlan");
+  try {
+    const adminId = await requireAdminUserId();
+    log.info("Admin deleting plan", { adminId, userId });
+    return await deletePlanForUser(userId);
+  } catch (error) {
+    return { message: "Failed to delete plan", ...toErrorResult(error) };
+  }
+}
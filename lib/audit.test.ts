@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  AuditOptions,
+  AuditPlanItem,
+  REQUIRED_CATEGORY,
+  auditGraduation,
+} from "@/lib/audit";
+import { attempt } from "@/lib/test-fixtures";
+
+const options: AuditOptions = {
+  courses: [
+    { code: "MAT 103", name: "Mathematics I", credits: "4" },
+    {
+      code: "BLG 101E",
+      name: "Introduction to Information Systems",
+      credits: "3",
+    },
+    { code: "BLG 411E", name: "Software Engineering", credits: "3" },
+    { code: "BLG 412E", name: "Computer Graphics", credits: "3" },
+    { code: "BLG 413E", name: "System Programming", credits: "2" },
+  ],
+  equivalences: [["BLG 101E", "BBF 101E"]],
+};
+
+const course = (code: string): AuditPlanItem => ({ type: "course", code });
+
+const elective = (name: string, options: string[]): AuditPlanItem => ({
+  type: "elective",
+  name,
+  category: "Technical Elective",
+  options,
+});
+
+describe("auditGraduation", () => {
+  it("matches required courses by code, equivalence and language", () => {
+    const audit = auditGraduation(
+      [[course("MAT 103E"), course("BLG 101E")]],
+      [
+        attempt("2023-2024 Güz Dönemi", "MAT 103", "CC", "4"),
+        attempt("2023-2024 Güz Dönemi", "BBF 101E", "BB"),
+      ],
+      options
+    );
+    expect(audit.requirements.map((r) => [r.status, r.matchedCode])).toEqual([
+      ["completed", "MAT 103"],
+      ["completed", "BBF 101E"],
+    ]);
+    expect(audit.completedCredits).toBe(7);
+    expect(audit.complete).toBe(true);
+  });
+
+  it("does not count a failed latest attempt", () => {
+    const audit = auditGraduation(
+      [[course("MAT 103")]],
+      [
+        attempt("2023-2024 Güz Dönemi", "MAT 103", "CC", "4"),
+        attempt("2023-2024 Bahar Dönemi", "MAT 103", "FF", "4"),
+      ],
+      options
+    );
+    expect(audit.requirements[0].status).toBe("missing");
+    expect(audit.remainingCredits).toBe(4);
+    expect(audit.complete).toBe(false);
+  });
+
+  it("marks planned courses as in progress until a later semester", () => {
+    const plan = [[course("MAT 103")]];
+    const transcript = [attempt("2025-2026 Güz Planı", "MAT 103", "--", "4")];
+
+    const current = auditGraduation(plan, transcript, {
+      ...options,
+      referenceSemester: "2025-2026 Güz Planı",
+    });
+    expect(current.requirements[0].status).toBe("in-progress");
+    expect(current.inProgressCredits).toBe(4);
+
+    const later = auditGraduation(plan, transcript, {
+      ...options,
+      referenceSemester: "2025-2026 Bahar Planı",
+    });
+    expect(later.requirements[0].status).toBe("completed");
+  });
+
+  it("fills elective slots so that as many as possible are completed", () => {
+    const audit = auditGraduation(
+      [
+        [
+          elective("Technical Elective 1", ["BLG 411E", "BLG 412E"]),
+          elective("Technical Elective 2", ["BLG 411E"]),
+        ],
+      ],
+      [
+        attempt("2024-2025 Güz Dönemi", "BLG 411E", "BB"),
+        attempt("2024-2025 Güz Dönemi", "BLG 412E", "AA"),
+      ],
+      options
+    );
+    expect(audit.requirements.map((r) => r.matchedCode)).toEqual([
+      "BLG 412E",
+      "BLG 411E",
+    ]);
+    expect(audit.categories).toEqual([
+      {
+        category: "Technical Elective",
+        total: 2,
+        completed: 2,
+        inProgress: 0,
+        missing: 0,
+        completedCredits: 6,
+        inProgressCredits: 0,
+      },
+    ]);
+  });
+
+  it("lists the options left for an open elective slot", () => {
+    const audit = auditGraduation(
+      [
+        [course("BLG 411E")],
+        [elective("Technical Elective", ["BLG 411E", "BLG 412E", "BLG 413E"])],
+      ],
+      [attempt("2024-2025 Güz Dönemi", "BLG 411E", "BB")],
+      options
+    );
+    const slot = audit.requirements[1];
+    expect(slot.status).toBe("missing");
+    expect(slot.availableOptions).toEqual(["BLG 412E", "BLG 413E"]);
+    // Estimated with the smallest credit load among the options
+    expect(slot.credits).toBe(2);
+  });
+
+  it("reports completed courses outside the plan", () => {
+    const audit = auditGraduation(
+      [[course("MAT 103")]],
+      [
+        attempt("2023-2024 Güz Dönemi", "MAT 103", "CC", "4"),
+        attempt("2023-2024 Güz Dönemi", "SNT 101", "AA", "2"),
+      ],
+      options
+    );
+    expect(audit.unassignedCourses).toEqual(["SNT 101"]);
+    expect(audit.categories[0].category).toBe(REQUIRED_CATEGORY);
+  });
+});
@@ -0,0 +1,315 @@
+// Graduation audit: matches transcript attempts to the required courses and
+// elective slots of a curriculum plan and reports what remains.
+
+import {
+  AttemptLike,
+  getComparableGrade,
+  getLatestAttempts,
+  isEffectivelyPassed,
+} from "@/lib/academic";
+import { findCatalogCourse } from "@/lib/catalog-index";
+import {
+  CourseEquivalenceGroups,
+  areEquivalentCourses,
+  canonicalizeCourseCode,
+  getLanguageVariant,
+  isSameCourseCode,
+} from "@/lib/course-codes";
+import { CatalogCourse } from "@/lib/prerequisites";
+
+// Plan items as stored with StorePlan
+export interface AuditPlanItem {
+  type: string;
+  // Elective slots have a name and options instead of a code
+  code?: string;
+  name?: string;
+  category?: string;
+  options?: string[];
+}
+
+export type AuditAttempt = AttemptLike & { credits: string; name?: string };
+
+export type RequirementStatus = "completed" | "in-progress" | "missing";
+
+// Category of required courses, which have no category in the plan
+export const REQUIRED_CATEGORY = "Required";
+
+export interface RequirementResult {
+  kind: "course" | "elective";
+  // Course code for required courses, slot name for electives
+  label: string;
+  category: string;
+  // Index of the plan semester the requirement belongs to
+  semesterIndex: number;
+  status: RequirementStatus;
+  // Transcript course that fills the requirement
+  matchedCode: string | null;
+  matchedSemester: string | null;
+  grade: string | null;
+  credits: number | null;
+  // Options still available for an elective slot that is still missing
+  availableOptions: string[];
+}
+
+export interface CategorySummary {
+  category: string;
+  total: number;
+  completed: number;
+  inProgress: number;
+  missing: number;
+  completedCredits: number;
+  inProgressCredits: number;
+}
+
+export interface GraduationAudit {
+  requirements: RequirementResult[];
+  categories: CategorySummary[];
+  completedCredits: number;
+  inProgressCredits: number;
+  // Credits of missing requirements, where the catalog knows them
+  remainingCredits: number;
+  // Passed courses that did not fill any requirement
+  unassignedCourses: string[];
+  complete: boolean;
+}
+
+export interface AuditOptions {
+  courses: CatalogCourse[];
+  equivalences: CourseEquivalenceGroups;
+  // Planned attempts before this semester count as passed
+  referenceSemester?: string | null;
+}
+
+interface Candidate {
+  attempt: AuditAttempt;
+  status: Exclude<RequirementStatus, "missing">;
+}
+
+const parseCredits = (credits: string | undefined) => {
+  const value = parseFloat(credits || "");
+  return isNaN(value) ? null : value;
+};
+
+// Helper function to check if an attempt can fill a course requirement
+const matchesCourse = (
+  attemptCode: string,
+  requiredCode: string,
+  equivalences: CourseEquivalenceGroups
+) => {
+  if (areEquivalentCourses(equivalences, attemptCode, requiredCode)) {
+    return true;
+  }
+  const languageVariant = getLanguageVariant(requiredCode);
+  return !!languageVariant && isSameCourseCode(attemptCode, languageVariant);
+};
+
+/**
+ * Finds a maximum matching of slots to candidates with augmenting paths, so
+ * an attempt that fits several elective slots goes where it leaves the most
+ * slots filled. Returns the candidate index matched to each slot.
+ */
+function matchSlots(
+  slots: number[],
+  candidates: Candidate[],
+  fits: (slot: number, candidate: Candidate) => boolean
+): Map<number, number> {
+  const slotOf = new Map<number, number>();
+
+  const augment = (slot: number, visited: Set<number>): boolean => {
+    for (let i = 0; i < candidates.length; i++) {
+      if (visited.has(i) || !fits(slot, candidates[i])) continue;
+      visited.add(i);
+      const currentSlot = slotOf.get(i);
+      if (currentSlot === undefined || augment(currentSlot, visited)) {
+        slotOf.set(i, slot);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  slots.forEach((slot) => augment(slot, new Set()));
+
+  const assignment = new Map<number, number>();
+  slotOf.forEach((slot, candidate) => assignment.set(slot, candidate));
+  return assignment;
+}
+
+function summarizeCategories(
+  requirements: RequirementResult[]
+): CategorySummary[] {
+  const summaries = new Map<string, CategorySummary>();
+  requirements.forEach((requirement) => {
+    if (!summaries.has(requirement.category)) {
+      summaries.set(requirement.category, {
+        category: requirement.category,
+        total: 0,
+        completed: 0,
+        inProgress: 0,
+        missing: 0,
+        completedCredits: 0,
+        inProgressCredits: 0,
+      });
+    }
+    const summary = summaries.get(requirement.category)!;
+    const credits = requirement.credits || 0;
+    summary.total++;
+    if (requirement.status === "completed") {
+      summary.completed++;
+      summary.completedCredits += credits;
+    } else if (requirement.status === "in-progress") {
+      summary.inProgress++;
+      summary.inProgressCredits += credits;
+    } else {
+      summary.missing++;
+    }
+  });
+  return Array.from(summaries.values());
+}
+
+/**
+ * Audits a transcript against a plan. Required courses are matched first
+ * (exact code, equivalent course or the other language version), then the
+ * remaining attempts fill elective slots, each slot taking at most one
+ * course. Completed attempts are preferred over courses in progress.
+ */
+export function auditGraduation(
+  plan: AuditPlanItem[][],
+  transcript: AuditAttempt[],
+  options: AuditOptions
+): GraduationAudit {
+  const { courses, equivalences, referenceSemester } = options;
+
+  // Failed latest attempts cannot fill a requirement
+  const candidates: Candidate[] = [];
+  getLatestAttempts(transcript).forEach((attempt) => {
+    if (isEffectivelyPassed(attempt, referenceSemester)) {
+      candidates.push({ attempt, status: "completed" });
+    } else if (getComparableGrade(attempt, referenceSemester) === null) {
+      candidates.push({ attempt, status: "in-progress" });
+    }
+  });
+  // Completed attempts first so required courses take them when possible
+  candidates.sort(
+    (a, b) =>
+      (a.status === "completed" ? 0 : 1) - (b.status === "completed" ? 0 : 1)
+  );
+
+  const used = new Set<number>();
+  const requirements: RequirementResult[] = [];
+  const electiveSlots: { item: AuditPlanItem; result: RequirementResult }[] =
+    [];
+
+  const fillRequirement = (result: RequirementResult, index: number) => {
+    const { attempt, status } = candidates[index];
+    used.add(index);
+    result.status = status;
+    result.matchedCode = attempt.code;
+    result.matchedSemester = attempt.semester;
+    result.grade = attempt.grade;
+    result.credits =
+      parseCredits(attempt.credits) ??
+      parseCredits(findCatalogCourse(courses, attempt.code)?.credits);
+  };
+
+  plan.forEach((semester, semesterIndex) => {
+    semester.forEach((item) => {
+      const result: RequirementResult = {
+        kind: item.type === "elective" ? "elective" : "course",
+        label: (item.type === "elective" ? item.name : item.code) || "",
+        category: item.category || REQUIRED_CATEGORY,
+        semesterIndex,
+        status: "missing",
+        matchedCode: null,
+        matchedSemester: null,
+        grade: null,
+        credits: null,
+        availableOptions: [],
+      };
+      requirements.push(result);
+
+      if (result.kind === "elective") {
+        electiveSlots.push({ item, result });
+        return;
+      }
+
+      result.credits = parseCredits(
+        findCatalogCourse(courses, result.label)?.credits
+      );
+      const index = candidates.findIndex(
+        (candidate, i) =>
+          !used.has(i) &&
+          matchesCourse(candidate.attempt.code, result.label, equivalences)
+      );
+      if (index !== -1) fillRequirement(result, index);
+    });
+  });
+
+  const fitsSlot = (slot: number, candidate: Candidate) =>
+    (electiveSlots[slot].item.options || []).some((option) =>
+      matchesCourse(candidate.attempt.code, option, equivalences)
+    );
+
+  // Fill as many slots as possible with completed courses, then use courses
+  // in progress for the slots that are left
+  (["completed", "in-progress"] as const).forEach((status) => {
+    const pool = candidates
+      .map((candidate, index) => ({ candidate, index }))
+      .filter(
+        ({ candidate, index }) =>
+          candidate.status === status && !used.has(index)
+      );
+    const openSlots = electiveSlots
+      .map((_, slot) => slot)
+      .filter((slot) => electiveSlots[slot].result.status === "missing");
+    matchSlots(
+      openSlots,
+      pool.map(({ candidate }) => candidate),
+      fitsSlot
+    ).forEach((poolIndex, slot) =>
+      fillRequirement(electiveSlots[slot].result, pool[poolIndex].index)
+    );
+  });
+
+  // Courses already taken or in progress cannot fill another slot; failed
+  // courses stay available to retake
+  const takenCodes = new Set(
+    candidates.map(({ attempt }) => canonicalizeCourseCode(attempt.code))
+  );
+  electiveSlots.forEach(({ item, result }) => {
+    if (result.status !== "missing") return;
+    result.availableOptions = (item.options || []).filter(
+      (option) => !takenCodes.has(canonicalizeCourseCode(option))
+    );
+    // Estimate the credits with the smallest credit load among the options
+    const optionCredits = result.availableOptions
+      .map((option) =>
+        parseCredits(findCatalogCourse(courses, option)?.credits)
+      )
+      .filter((credits): credits is number => credits !== null);
+    result.credits =
+      optionCredits.length > 0 ? Math.min(...optionCredits) : null;
+  });
+
+  const sumCredits = (status: RequirementStatus) =>
+    requirements
+      .filter((requirement) => requirement.status === status)
+      .reduce((sum, requirement) => sum + (requirement.credits || 0), 0);
+
+  return {
+    requirements,
+    categories: summarizeCategories(requirements),
+    completedCredits: sumCredits("completed"),
+    inProgressCredits: sumCredits("in-progress"),
+    remainingCredits: sumCredits("missing"),
+    unassignedCourses: candidates
+      .filter(
+        (candidate, index) =>
+          !used.has(index) && candidate.status === "completed"
+      )
+      .map(({ attempt }) => attempt.code),
+    complete: requirements.every(
+      (requirement) => requirement.status === "completed"
+    ),
+  };
+}
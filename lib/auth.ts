@@ -0,0 +1,52 @@
+// Resolves the caller of server actions and API routes from the Clerk
+// session, so user data is never read or written for a client-supplied id.
+// Acting on another user's data requires an admin: a user listed in
+// ADMIN_USER_IDS (comma-separated) or with role "admin" in the Clerk
+// publicMetadata, which only the Clerk backend can set.
+
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { ErrCode } from "@/lib/client";
+
+export type AuthErrorCode = ErrCode.Unauthenticated | ErrCode.PermissionDenied;
+
+export class AuthError extends Error {
+  code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+  }
+}
+
+const getAdminUserIds = () =>
+  (process.env.ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+/**
+ * Returns the signed-in user's id, or throws an AuthError when the request
+ * has no session.
+ */
+export async function requireUserId(): Promise<string> {
+  const { userId } = await auth();
+  if (!userId) {
+    throw new AuthError(ErrCode.Unauthenticated, "Not signed in");
+  }
+  return userId;
+}
+
+/**
+ * Returns the signed-in admin's id, or throws an AuthError when the caller is
+ * not signed in or not an admin.
+ */
+export async function requireAdminUserId(): Promise<string> {
+  const userId = await requireUserId();
+  if (getAdminUserIds().includes(userId)) return userId;
+
+  const user = await currentUser();
+  if (user?.publicMetadata?.role === "admin") return userId;
+
+  throw new AuthError(ErrCode.PermissionDenied, "Admin access required");
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { createRetryingFetcher } from "@/lib/backend";
+import { ErrCode, Fetcher } from "@/lib/client";
+
+const BASE_URL = "http://localhost:4000";
+
+const unavailable = () =>
+  new Response(JSON.stringify({ code: ErrCode.Unavailable, message: "" }), {
+    status: 503,
+  });
+
+const refused = () =>
+  new TypeError("fetch failed", {
+    cause: Object.assign(new Error("connect ECONNREFUSED"), {
+      code: "ECONNREFUSED",
+    }),
+  });
+
+const reset = () =>
+  new TypeError("fetch failed", {
+    cause: Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }),
+  });
+
+// Fails once with the given error or response, then succeeds
+const failOnce = (failure: Response | Error) => {
+  let calls = 0;
+  return vi.fn(async () => {
+    calls++;
+    if (calls > 1) return new Response("{}");
+    if (failure instanceof Error) throw failure;
+    return failure;
+  });
+};
+
+const send = (fetcher: Fetcher, method: string, path: string) =>
+  createRetryingFetcher(fetcher, 2)(`${BASE_URL}${path}`, { method });
+
+describe("createRetryingFetcher", () => {
+  it("retries a read after a transient error code", async () => {
+    const fetcher = failOnce(unavailable());
+    const response = await send(fetcher, "GET", "/transcript/user_1");
+    expect(response.ok).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries read-only POST endpoints", async () => {
+    const fetcher = failOnce(reset());
+    await send(fetcher, "POST", "/get-plan");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not resend a write after a transient error code", async () => {
+    const fetcher = failOnce(unavailable());
+    const response = await send(fetcher, "POST", "/store-plan");
+    expect(response.status).toBe(503);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not resend a write when the connection dropped", async () => {
+    const fetcher = failOnce(reset());
+    await expect(send(fetcher, "PUT", "/transcript/user_1")).rejects.toThrow(
+      "fetch failed"
+    );
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("resends a write that was never sent", async () => {
+    const fetcher = failOnce(refused());
+    const response = await send(fetcher, "DELETE", "/transcript/user_1");
+    expect(response.ok).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops after the last attempt", async () => {
+    const fetcher = vi.fn(async () => unavailable());
+    const response = await send(fetcher, "GET", "/health");
+    expect(response.status).toBe(503);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
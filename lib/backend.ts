@@ -0,0 +1,165 @@
+// Chooses the backend the server actions call from BACKEND_TARGET:
+//   "local"         the Encore app running on localhost (Local)
+//   "fake"          the in-process stand-in in lib/fake-backend.ts
+//   "preview:<pr>"  the preview environment of a pull request (PreviewEnv)
+//   any other name  the cloud environment with that name (Environment)
+// Without BACKEND_TARGET the staging environment is used. Requests that fail
+// with a transient error code are retried with exponential backoff, as long
+// as sending them again cannot repeat a write (see createRetryingFetcher).
+
+import Client, {
+  APIError,
+  Environment,
+  ErrCode,
+  Fetcher,
+  Local,
+  PreviewEnv,
+} from "@/lib/client";
+import { AuthError } from "@/lib/auth";
+import { isTransientErrorCode } from "@/lib/errors";
+import { getFakeBackend } from "@/lib/fake-backend";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("backend");
+
+export const DEFAULT_BACKEND_TARGET = "staging";
+
+const PREVIEW_PREFIX = "preview:";
+
+// Attempts per request, including the first one
+export const MAX_REQUEST_ATTEMPTS = 3;
+
+// Delay before the first retry; it doubles for every further retry
+const RETRY_BASE_DELAY_MS = 200;
+
+// Requests that can be sent again without changing anything: read methods,
+// and the POST endpoints of the API that only read
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS"];
+const IDEMPOTENT_PATHS = ["/get-plan", "/parse-transcript"];
+
+// Connection errors raised before a request was sent
+const NOT_SENT_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+export function getBackendTarget(): string {
+  return process.env.BACKEND_TARGET?.trim() || DEFAULT_BACKEND_TARGET;
+}
+
+/**
+ * Creates an API client for the configured backend.
+ */
+export function createBackendClient(target = getBackendTarget()): Client {
+  if (target === "fake") {
+    // The base URL is only used to build request URLs for the fake fetcher
+    return new Client(Local, {
+      fetcher: createRetryingFetcher(getFakeBackend().fetcher),
+    });
+  }
+
+  const fetcher = createRetryingFetcher(fetch);
+  if (target === "local") {
+    return new Client(Local, { fetcher });
+  }
+  if (target.startsWith(PREVIEW_PREFIX)) {
+    return new Client(PreviewEnv(target.slice(PREVIEW_PREFIX.length)), {
+      fetcher,
+    });
+  }
+  return new Client(Environment(target), { fetcher });
+}
+
+/**
+ * Returns the error code of a failed call: the code of an API or auth error,
+ * Unavailable when the backend could not be reached, otherwise Unknown.
+ */
+export function getErrorCode(error: unknown): ErrCode {
+  if (error instanceof APIError || error instanceof AuthError) {
+    return error.code;
+  }
+  // fetch rejects with a TypeError when there is no response at all
+  if (error instanceof TypeError) return ErrCode.Unavailable;
+  return ErrCode.Unknown;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Helper function to read the Encore error code of a failed response
+async function getResponseErrorCode(
+  response: Response
+): Promise<ErrCode | undefined> {
+  try {
+    const body = await response.clone().json();
+    return body?.code;
+  } catch {
+    return undefined;
+  }
+}
+
+// Helper function to tell whether a request can safely be sent twice
+function isIdempotentRequest(
+  input: Parameters<Fetcher>[0],
+  init: Parameters<Fetcher>[1]
+): boolean {
+  const request = input instanceof Request ? input : null;
+  const method = (init?.method || request?.method || "GET").toUpperCase();
+  if (IDEMPOTENT_METHODS.includes(method)) return true;
+
+  const url = request ? request.url : input.toString();
+  try {
+    return IDEMPOTENT_PATHS.includes(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+// Helper function to tell whether fetch failed before sending the request,
+// e.g. because the connection was refused
+function isNotSentError(error: unknown): boolean {
+  const cause = error instanceof TypeError ? error.cause : undefined;
+  const code = (cause as { code?: unknown } | undefined)?.code;
+  return typeof code === "string" && NOT_SENT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Wraps a fetcher so failed requests are sent again after a growing delay.
+ * Idempotent requests are retried on a transient error code or when the
+ * backend could not be reached. Other requests (stores, updates, deletes)
+ * are only retried when the connection failed before they were sent, as
+ * the backend may otherwise have applied them already.
+ */
+export function createRetryingFetcher(
+  fetcher: Fetcher,
+  maxAttempts = MAX_REQUEST_ATTEMPTS
+): Fetcher {
+  return async (input, init) => {
+    const idempotent = isIdempotentRequest(input, init);
+    for (let attempt = 1; ; attempt++) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      let response: Response;
+      try {
+        response = await fetcher(input, init);
+      } catch (error) {
+        const retryable = idempotent
+          ? getErrorCode(error) === ErrCode.Unavailable
+          : isNotSentError(error);
+        if (attempt >= maxAttempts || !retryable) {
+          throw error;
+        }
+        log.warn("Backend not reachable, retrying", { attempt, delay });
+        await wait(delay);
+        continue;
+      }
+
+      if (response.ok || !idempotent || attempt >= maxAttempts) {
+        return response;
+      }
+      const code = await getResponseErrorCode(response);
+      if (!isTransientErrorCode(code)) return response;
+      log.warn("Backend returned a transient error, retrying", {
+        attempt,
+        code,
+        delay,
+      });
+      await wait(delay);
+    }
+  };
+}
@@ -0,0 +1,102 @@
+// Client-side cache for catalog requests. Every URL is fetched at most once
+// per session and shared by all components, so opening the course popup or
+// switching tabs does not download the catalog again.
+
+import { CURRENT_SEMESTER } from "@/lib/constants";
+import { CatalogDataset, TermInfo, getCatalogUrl } from "@/lib/catalog-terms";
+import { CatalogCourse } from "@/lib/prerequisites";
+import { Lesson } from "@/lib/lessons";
+
+const requests = new Map<string, Promise<unknown>>();
+
+class CatalogRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "CatalogRequestError";
+    this.status = status;
+  }
+}
+
+function fetchCached<T>(url: string): Promise<T> {
+  if (!requests.has(url)) {
+    const request = fetch(url).then(async (response) => {
+      const data = await response.json();
+      if (!response.ok) {
+        throw new CatalogRequestError(
+          data?.error || `Request to ${url} failed`,
+          response.status
+        );
+      }
+      return data as T;
+    });
+    // Allow a retry if the request failed
+    request.catch(() => requests.delete(url));
+    requests.set(url, request);
+  }
+  return requests.get(url) as Promise<T>;
+}
+
+/**
+ * Fetches a full catalog dataset, throwing on error responses so callers do
+ * not store an error body as catalog data.
+ */
+export function fetchCatalogDataset<T>(
+  dataset: CatalogDataset,
+  semester: string = CURRENT_SEMESTER
+): Promise<T> {
+  return fetchCached<T>(getCatalogUrl(dataset, semester));
+}
+
+/**
+ * Fetches a single course, or null if the catalog does not have it.
+ */
+export async function fetchCatalogCourse(
+  code: string,
+  semester: string = CURRENT_SEMESTER
+): Promise<CatalogCourse | null> {
+  try {
+    return await fetchCached<CatalogCourse>(
+      getCatalogUrl("courses", semester, { code })
+    );
+  } catch (error) {
+    if (error instanceof CatalogRequestError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetches the sections of the given courses. Codes are sorted so the same set
+ * of courses shares one cached request.
+ */
+export function fetchLessonsForCourses(
+  courseCodes: string[],
+  semester: string = CURRENT_SEMESTER
+): Promise<Lesson[]> {
+  if (courseCodes.length === 0) return Promise.resolve([]);
+  return fetchCached<Lesson[]>(
+    getCatalogUrl("lessons", semester, {
+      course: [...new Set(courseCodes)].sort(),
+    })
+  );
+}
+
+export function fetchLessonsByIds(
+  lessonIds: string[],
+  semester: string = CURRENT_SEMESTER
+): Promise<Lesson[]> {
+  if (lessonIds.length === 0) return Promise.resolve([]);
+  return fetchCached<Lesson[]>(
+    getCatalogUrl("lessons", semester, { id: [...new Set(lessonIds)].sort() })
+  );
+}
+
+// Semester name and first and last day of classes of a term
+export function fetchTermInfo(
+  semester: string = CURRENT_SEMESTER
+): Promise<TermInfo> {
+  return fetchCatalogDataset<TermInfo>("term", semester);
+}
@@ -0,0 +1,148 @@
+// Lookup indexes over the catalog datasets. Each index is built once per
+// array and reused, so lookups by course code or lesson id and course searches
+// do not scan thousands of entries on every render or request.
+
+import { CatalogCourse } from "@/lib/prerequisites";
+import { Lesson } from "@/lib/lessons";
+import { canonicalizeCourseCode } from "@/lib/course-codes";
+
+interface CourseIndex {
+  byCode: Map<string, CatalogCourse>;
+  byNormalizedCode: Map<string, CatalogCourse>;
+}
+
+// Course codes and names normalized for search, sorted by code
+type CourseSearchIndex = {
+  course: CatalogCourse;
+  code: string;
+  name: string;
+}[];
+
+interface LessonIndex {
+  byId: Map<string, Lesson>;
+  byCourse: Map<string, Lesson[]>;
+}
+
+const courseIndexes = new WeakMap<CatalogCourse[], CourseIndex>();
+const courseSearchIndexes = new WeakMap<CatalogCourse[], CourseSearchIndex>();
+const lessonIndexes = new WeakMap<Lesson[], LessonIndex>();
+
+// Search compares codes without spaces so partial queries like "BLG1" match
+const normalizeSearchCode = (code: string) =>
+  code.replace(/\s+/g, "").toUpperCase();
+
+const normalizeSearchText = (text: string) =>
+  text.toLocaleLowerCase("tr").trim();
+
+export function getCourseIndex(courses: CatalogCourse[]): CourseIndex {
+  let index = courseIndexes.get(courses);
+  if (!index) {
+    index = { byCode: new Map(), byNormalizedCode: new Map() };
+    for (const course of courses) {
+      // Keep the first entry like Array.find did
+      if (!index.byCode.has(course.code)) {
+        index.byCode.set(course.code, course);
+      }
+      const normalized = canonicalizeCourseCode(course.code);
+      if (!index.byNormalizedCode.has(normalized)) {
+        index.byNormalizedCode.set(normalized, course);
+      }
+    }
+    courseIndexes.set(courses, index);
+  }
+  return index;
+}
+
+function getCourseSearchIndex(courses: CatalogCourse[]): CourseSearchIndex {
+  let index = courseSearchIndexes.get(courses);
+  if (!index) {
+    index = courses
+      .map((course) => ({
+        course,
+        code: normalizeSearchCode(course.code),
+        name: normalizeSearchText(course.name),
+      }))
+      .sort((a, b) => a.course.code.localeCompare(b.course.code));
+    courseSearchIndexes.set(courses, index);
+  }
+  return index;
+}
+
+export function getLessonIndex(lessons: Lesson[]): LessonIndex {
+  let index = lessonIndexes.get(lessons);
+  if (!index) {
+    index = { byId: new Map(), byCourse: new Map() };
+    for (const lesson of lessons) {
+      index.byId.set(lesson.lesson_id, lesson);
+      const courseKey = canonicalizeCourseCode(lesson.course_code);
+      if (!index.byCourse.has(courseKey)) index.byCourse.set(courseKey, []);
+      index.byCourse.get(courseKey)!.push(lesson);
+    }
+    lessonIndexes.set(lessons, index);
+  }
+  return index;
+}
+
+/**
+ * Finds a course by its exact code.
+ */
+export function findCatalogCourse(
+  courses: CatalogCourse[],
+  code: string
+): CatalogCourse | undefined {
+  return getCourseIndex(courses).byCode.get(code);
+}
+
+/**
+ * Finds a course by code, ignoring spaces and case ("BLG101E" or "blg 101e").
+ */
+export function findCatalogCourseByNormalizedCode(
+  courses: CatalogCourse[],
+  code: string
+): CatalogCourse | undefined {
+  return getCourseIndex(courses).byNormalizedCode.get(
+    canonicalizeCourseCode(code)
+  );
+}
+
+export function findLessonById(
+  lessons: Lesson[],
+  lessonId: string
+): Lesson | undefined {
+  return getLessonIndex(lessons).byId.get(lessonId);
+}
+
+export function findLessonsForCourse(
+  lessons: Lesson[],
+  courseCode: string
+): Lesson[] {
+  return (
+    getLessonIndex(lessons).byCourse.get(canonicalizeCourseCode(courseCode)) ||
+    []
+  );
+}
+
+/**
+ * Searches courses by code or name. Code matches rank before name matches,
+ * and prefix matches before matches elsewhere in the text.
+ */
+export function searchCatalogCourses(
+  courses: CatalogCourse[],
+  query: string,
+  limit = 20
+): CatalogCourse[] {
+  const codeQuery = normalizeSearchCode(query);
+  const nameQuery = normalizeSearchText(query);
+  if (!codeQuery) return [];
+
+  // The index is sorted by code, so each rank keeps the order by code
+  const ranks: CatalogCourse[][] = [[], [], [], []];
+  for (const { course, code, name } of getCourseSearchIndex(courses)) {
+    if (code.startsWith(codeQuery)) ranks[0].push(course);
+    else if (code.includes(codeQuery)) ranks[1].push(course);
+    else if (name.startsWith(nameQuery)) ranks[2].push(course);
+    else if (name.includes(nameQuery)) ranks[3].push(course);
+  }
+
+  return ranks.flat().slice(0, limit);
+}
@@ -0,0 +1,253 @@
+// Schema validation for the catalog datasets, run when a term is loaded so
+// malformed data fails loudly instead of breaking the views.
+
+import { CatalogCourse } from "@/lib/prerequisites";
+import {
+  CourseEquivalenceGroups,
+  mappingsToEquivalenceGroups,
+} from "@/lib/course-codes";
+import { Lesson, LessonsFile } from "@/lib/lessons";
+import { TermInfo } from "@/lib/catalog-terms";
+
+// Stop collecting issues after this many to keep error messages readable
+const MAX_REPORTED_ISSUES = 20;
+
+export class CatalogValidationError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    const shown = issues.slice(0, MAX_REPORTED_ISSUES);
+    const more =
+      issues.length > shown.length
+        ? `\n  ...and ${issues.length - shown.length} more`
+        : "";
+    super(`Invalid catalog data in ${source}:\n  ${shown.join("\n  ")}${more}`);
+    this.name = "CatalogValidationError";
+    this.issues = issues;
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function validateCourse(course: unknown, at: string, issues: string[]) {
+  if (!isObject(course)) {
+    issues.push(`${at}: expected an object`);
+    return;
+  }
+  if (!isString(course.code) || !course.code.trim()) {
+    issues.push(`${at}.code: expected a non-empty string`);
+  }
+  if (!isString(course.name)) {
+    issues.push(`${at}.name: expected a string`);
+  }
+  if (course.credits !== undefined && !isString(course.credits)) {
+    issues.push(`${at}.credits: expected a string`);
+  }
+  if (
+    course.special_conditions !== undefined &&
+    !isStringArray(course.special_conditions)
+  ) {
+    issues.push(`${at}.special_conditions: expected an array of strings`);
+  }
+  if (course.prerequisites === undefined) return;
+  if (!Array.isArray(course.prerequisites)) {
+    issues.push(`${at}.prerequisites: expected an array`);
+    return;
+  }
+  course.prerequisites.forEach((group: unknown, groupIndex) => {
+    const groupAt = `${at}.prerequisites[${groupIndex}]`;
+    if (
+      !isObject(group) ||
+      typeof group.group !== "number" ||
+      !Array.isArray(group.courses)
+    ) {
+      issues.push(`${groupAt}: expected { group: number, courses: [] }`);
+      return;
+    }
+    group.courses.forEach((prereq: unknown, prereqIndex) => {
+      if (
+        !isObject(prereq) ||
+        !isString(prereq.code) ||
+        !isString(prereq.min)
+      ) {
+        issues.push(
+          `${groupAt}.courses[${prereqIndex}]: expected { code: string, min: string }`
+        );
+      }
+    });
+  });
+}
+
+export function validateCourses(
+  data: unknown,
+  source: string
+): CatalogCourse[] {
+  const issues: string[] = [];
+  if (!Array.isArray(data)) {
+    throw new CatalogValidationError(source, ["expected an array of courses"]);
+  }
+
+  data.forEach((course, index) => validateCourse(course, `[${index}]`, issues));
+
+  if (issues.length > 0) throw new CatalogValidationError(source, issues);
+  return data as CatalogCourse[];
+}
+
+function validateLesson(lesson: unknown, at: string, issues: string[]) {
+  if (!isObject(lesson)) {
+    issues.push(`${at}: expected an object`);
+    return;
+  }
+  (
+    [
+      "lesson_id",
+      "course_code",
+      "delivery_mode",
+      "instructor",
+      "capacity",
+      "enrolled",
+    ] as const
+  ).forEach((field) => {
+    if (!isString(lesson[field])) {
+      issues.push(`${at}.${field}: expected a string`);
+    }
+  });
+  if (
+    lesson.allowed_programs !== undefined &&
+    !isStringArray(lesson.allowed_programs)
+  ) {
+    issues.push(`${at}.allowed_programs: expected an array of strings`);
+  }
+  if (!Array.isArray(lesson.sessions)) {
+    issues.push(`${at}.sessions: expected an array`);
+    return;
+  }
+  lesson.sessions.forEach((session: unknown, sessionIndex) => {
+    if (
+      !isObject(session) ||
+      !isString(session.location) ||
+      !isString(session.day) ||
+      !isString(session.time) ||
+      !isString(session.room)
+    ) {
+      issues.push(
+        `${at}.sessions[${sessionIndex}]: expected { location, day, time, room } strings`
+      );
+    }
+  });
+}
+
+export function validateLessons(data: unknown, source: string): LessonsFile {
+  const issues: string[] = [];
+  // Older files are a bare array of lessons
+  const lessons = Array.isArray(data)
+    ? data
+    : isObject(data) && Array.isArray(data.lessons)
+    ? data.lessons
+    : null;
+  if (!lessons) {
+    throw new CatalogValidationError(source, [
+      "expected { lessons: [] } or an array of lessons",
+    ]);
+  }
+
+  const seenIds = new Set<string>();
+  lessons.forEach((lesson, index) => {
+    validateLesson(lesson, `lessons[${index}]`, issues);
+    const lessonId = (lesson as Lesson)?.lesson_id;
+    if (isString(lessonId)) {
+      if (seenIds.has(lessonId)) {
+        issues.push(`lessons[${index}].lesson_id: duplicate ${lessonId}`);
+      }
+      seenIds.add(lessonId);
+    }
+  });
+
+  if (issues.length > 0) throw new CatalogValidationError(source, issues);
+  return {
+    metadata: isObject(data) && isObject(data.metadata) ? data.metadata : {},
+    lessons: lessons as Lesson[],
+  };
+}
+
+/**
+ * Validates course-equivalences.json. The older course-mappings.json object
+ * format is converted to equivalence groups.
+ */
+export function validateCourseEquivalences(
+  data: unknown,
+  source: string
+): CourseEquivalenceGroups {
+  if (isObject(data)) {
+    const issues = Object.entries(data)
+      .filter(([, alternatives]) => !isStringArray(alternatives))
+      .map(([code]) => `${code}: expected an array of strings`);
+    if (issues.length > 0) throw new CatalogValidationError(source, issues);
+    return mappingsToEquivalenceGroups(data as Record<string, string[]>);
+  }
+
+  if (!Array.isArray(data)) {
+    throw new CatalogValidationError(source, [
+      "expected an array of equivalent course code groups",
+    ]);
+  }
+
+  const issues: string[] = [];
+  data.forEach((group, index) => {
+    if (!isStringArray(group) || group.length < 2) {
+      issues.push(`[${index}]: expected at least two course codes`);
+    }
+  });
+
+  if (issues.length > 0) throw new CatalogValidationError(source, issues);
+  return data as CourseEquivalenceGroups;
+}
+
+const isIsoDate = (value: unknown): value is string =>
+  isString(value) &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !isNaN(Date.parse(value));
+
+export function validateTermInfo(data: unknown, source: string): TermInfo {
+  if (!isObject(data)) {
+    throw new CatalogValidationError(source, ["expected an object"]);
+  }
+
+  const issues: string[] = [];
+  if (!isString(data.semester) || data.semester.trim() === "") {
+    issues.push("semester: expected a non-empty string");
+  }
+  ["startDate", "endDate"].forEach((field) => {
+    if (!isIsoDate(data[field])) {
+      issues.push(`${field}: expected a date such as "2025-09-22"`);
+    }
+  });
+  if (
+    issues.length === 0 &&
+    (data.endDate as string) < (data.startDate as string)
+  ) {
+    issues.push("endDate: must not be before startDate");
+  }
+  if (data.holidays !== undefined) {
+    if (!Array.isArray(data.holidays)) {
+      issues.push("holidays: expected an array of dates");
+    } else {
+      data.holidays.forEach((holiday: unknown, index) => {
+        if (!isIsoDate(holiday)) {
+          issues.push(
+            `holidays[${index}]: expected a date such as "2025-10-29"`
+          );
+        }
+      });
+    }
+  }
+
+  if (issues.length > 0) throw new CatalogValidationError(source, issues);
+  return data as unknown as TermInfo;
+}
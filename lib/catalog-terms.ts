@@ -0,0 +1,76 @@
+// Catalog datasets and term naming, shared by the server loader and the
+// client cache in lib/catalog-client.ts.
+
+import { CURRENT_SEMESTER } from "@/lib/constants";
+import { parseSemester } from "@/lib/academic";
+
+export const CATALOG_DATASETS = [
+  "courses",
+  "lessons",
+  "course-equivalences",
+  "term",
+] as const;
+
+export type CatalogDataset = (typeof CATALOG_DATASETS)[number];
+
+// term.json: the semester a catalog directory belongs to and its first and
+// last day of classes ("YYYY-MM-DD")
+export interface TermInfo {
+  semester: string;
+  startDate: string;
+  endDate: string;
+  // Days without classes within the term, e.g. public holidays
+  holidays?: string[];
+}
+
+export function isCatalogDataset(value: string): value is CatalogDataset {
+  return (CATALOG_DATASETS as readonly string[]).includes(value);
+}
+
+const TURKISH_CHAR_MAP: Record<string, string> = {
+  ç: "c",
+  ğ: "g",
+  ı: "i",
+  ö: "o",
+  ş: "s",
+  ü: "u",
+};
+
+const slugify = (value: string) =>
+  value
+    .trim()
+    .toLocaleLowerCase("tr")
+    .replace(/[çğıöşü]/g, (char) => TURKISH_CHAR_MAP[char])
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+/**
+ * Returns the directory name of a term, e.g. "2025-2026 Güz" -> "2025-2026-guz".
+ * Planned semesters ("2025-2026 Güz Planı") share the catalog of their term,
+ * and slugs are returned unchanged.
+ */
+export function getTermSlug(semester: string): string {
+  const { startYear, term } = parseSemester(semester);
+  if (term && startYear) {
+    return slugify(`${startYear}-${startYear + 1} ${term}`);
+  }
+  return slugify(semester);
+}
+
+/**
+ * URL of a catalog dataset for a term, served by app/api/catalog. Query
+ * parameters with several values are repeated (?course=A&course=B).
+ */
+export function getCatalogUrl(
+  dataset: CatalogDataset,
+  semester: string = CURRENT_SEMESTER,
+  query: Record<string, string | string[]> = {}
+): string {
+  const params = new URLSearchParams({ term: getTermSlug(semester) });
+  Object.entries(query).forEach(([key, value]) => {
+    (Array.isArray(value) ? value : [value]).forEach((item) =>
+      params.append(key, item)
+    );
+  });
+  return `/api/catalog/${dataset}?${params.toString()}`;
+}
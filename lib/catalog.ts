@@ -0,0 +1,174 @@
+// Server-side access to the course catalog. Each academic term has its own
+// directory under data/catalog, e.g. data/catalog/2025-2026-guz/ with
+// courses.json, lessons.json (or the original lessons.psv),
+// course-equivalences.json and a term.json naming the semester. Curriculum
+// plans are not tied to a term and live in data/plans.json.
+
+import { readFile, readdir } from "fs/promises";
+import path from "path";
+import { CURRENT_SEMESTER } from "@/lib/constants";
+import { CatalogCourse } from "@/lib/prerequisites";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import { LessonsFile } from "@/lib/lessons";
+import { CatalogDataset, TermInfo, getTermSlug } from "@/lib/catalog-terms";
+import {
+  validateCourseEquivalences,
+  validateCourses,
+  validateLessons,
+  validateTermInfo,
+} from "@/lib/catalog-schema";
+import { parseLessonsPsv } from "@/lib/lessons-psv";
+import { PlansCatalogue, validatePlansCatalogue } from "@/lib/plan-schema";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("catalog");
+
+const CATALOG_ROOT = path.join(process.cwd(), "data", "catalog");
+const PLANS_PATH = path.join(process.cwd(), "data", "plans.json");
+
+export interface CatalogTerm {
+  slug: string;
+  semester: string;
+}
+
+const cache = new Map<string, Promise<unknown>>();
+
+// Loads a dataset once per server process
+function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  if (!cache.has(key)) {
+    const promise = load();
+    // Allow a retry if loading failed
+    promise.catch(() => cache.delete(key));
+    cache.set(key, promise);
+  }
+  return cache.get(key) as Promise<T>;
+}
+
+function getTermDir(term: string): string {
+  return path.join(CATALOG_ROOT, getTermSlug(term));
+}
+
+async function readJsonFile(filePath: string): Promise<unknown> {
+  return JSON.parse(await readFile(filePath, "utf8"));
+}
+
+const isMissingFile = (error: unknown) =>
+  (error as NodeJS.ErrnoException)?.code === "ENOENT";
+
+/**
+ * Lists the terms that have a catalog directory, newest first.
+ */
+export function listCatalogTerms(): Promise<CatalogTerm[]> {
+  return cached("terms", async () => {
+    const entries = await readdir(CATALOG_ROOT, { withFileTypes: true });
+    const terms = await Promise.all(
+      entries
+        .filter((entry) => entry.isDirectory())
+        .map(async (entry) => {
+          const termFile = (await readJsonFile(
+            path.join(CATALOG_ROOT, entry.name, "term.json")
+          ).catch(() => ({}))) as { semester?: string };
+          return {
+            slug: entry.name,
+            semester: termFile.semester || entry.name,
+          };
+        })
+    );
+    return terms.sort((a, b) => b.slug.localeCompare(a.slug));
+  });
+}
+
+export async function hasCatalogTerm(term: string): Promise<boolean> {
+  const slug = getTermSlug(term);
+  return (await listCatalogTerms()).some((t) => t.slug === slug);
+}
+
+export function loadCourses(
+  term: string = CURRENT_SEMESTER
+): Promise<CatalogCourse[]> {
+  const filePath = path.join(getTermDir(term), "courses.json");
+  return cached(filePath, async () =>
+    validateCourses(await readJsonFile(filePath), filePath)
+  );
+}
+
+export function loadCourseEquivalences(
+  term: string = CURRENT_SEMESTER
+): Promise<CourseEquivalenceGroups> {
+  const filePath = path.join(getTermDir(term), "course-equivalences.json");
+  return cached(filePath, async () =>
+    validateCourseEquivalences(await readJsonFile(filePath), filePath)
+  );
+}
+
+/**
+ * Loads term.json: the semester name and the first and last day of classes.
+ */
+export function loadTermInfo(
+  term: string = CURRENT_SEMESTER
+): Promise<TermInfo> {
+  const filePath = path.join(getTermDir(term), "term.json");
+  return cached(filePath, async () =>
+    validateTermInfo(await readJsonFile(filePath), filePath)
+  );
+}
+
+/**
+ * Loads the lesson sections of a term from lessons.json, or imports them
+ * from lessons.psv when the term only has the original export.
+ */
+export function loadLessons(
+  term: string = CURRENT_SEMESTER
+): Promise<LessonsFile> {
+  const termDir = getTermDir(term);
+  return cached(path.join(termDir, "lessons"), async () => {
+    const jsonPath = path.join(termDir, "lessons.json");
+    try {
+      return validateLessons(await readJsonFile(jsonPath), jsonPath);
+    } catch (error) {
+      if (!isMissingFile(error)) throw error;
+    }
+
+    const psvPath = path.join(termDir, "lessons.psv");
+    const imported = parseLessonsPsv(await readFile(psvPath, "utf8"), psvPath);
+    return validateLessons(imported, psvPath);
+  });
+}
+
+export function loadCatalogDataset(
+  dataset: CatalogDataset,
+  term: string = CURRENT_SEMESTER
+): Promise<CatalogCourse[] | LessonsFile | CourseEquivalenceGroups | TermInfo> {
+  switch (dataset) {
+    case "courses":
+      return loadCourses(term);
+    case "lessons":
+      return loadLessons(term);
+    case "course-equivalences":
+      return loadCourseEquivalences(term);
+    case "term":
+      return loadTermInfo(term);
+  }
+}
+
+/**
+ * Loads the curriculum plans of every faculty, program and entry period.
+ */
+export function loadPlansCatalogue(): Promise<PlansCatalogue> {
+  return cached(PLANS_PATH, async () => {
+    const repairs: string[] = [];
+    const plans = validatePlansCatalogue(
+      await readJsonFile(PLANS_PATH),
+      PLANS_PATH,
+      repairs
+    );
+    if (repairs.length > 0) {
+      log.warn("Repaired legacy plan data", {
+        source: PLANS_PATH,
+        repairedCount: repairs.length,
+      });
+      log.debug("Plan data repairs", { repairs });
+    }
+    return plans;
+  });
+}
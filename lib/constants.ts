@@ -1,4 +1,4 @@
 // Global constants for the application
 
-// Current academic semester
+// Current academic semester, also selects the catalog term in data/catalog
 export const CURRENT_SEMESTER = '2025-2026 Güz';
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  areEquivalentCourses,
+  canonicalizeCourseCode,
+  getCourseEquivalences,
+  getEquivalenceKey,
+  getEquivalentCodes,
+  getLanguageVariant,
+  isSameCourseCode,
+  mappingsToEquivalenceGroups,
+  parseCourseCode,
+} from "@/lib/course-codes";
+
+describe("parseCourseCode", () => {
+  it.each([
+    ["BLG 101E", { english: true, lab: false, variant: "" }],
+    ["FIZ 101L", { english: false, lab: true, variant: "" }],
+    ["FIZ 101EL", { english: true, lab: true, variant: "" }],
+    ["ING 201A", { english: false, lab: false, variant: "A" }],
+    ["MAT 103", { english: false, lab: false, variant: "" }],
+  ])("reads the suffix of %s", (code, suffix) => {
+    expect(parseCourseCode(code)).toMatchObject({ ...suffix, canonical: code });
+  });
+
+  it("reads codes without a space, in lower case and with Turkish letters", () => {
+    expect(parseCourseCode(" blg101e ")).toEqual({
+      subject: "BLG",
+      number: "101",
+      english: true,
+      lab: false,
+      variant: "",
+      canonical: "BLG 101E",
+    });
+    expect(parseCourseCode("TÜRK 1001")?.canonical).toBe("TÜRK 1001");
+  });
+
+  it("returns null for codes that do not follow the pattern", () => {
+    expect(parseCourseCode("PLACEHOLDER")).toBeNull();
+    expect(parseCourseCode("BLG 10")).toBeNull();
+    expect(parseCourseCode("")).toBeNull();
+  });
+});
+
+describe("canonicalizeCourseCode", () => {
+  it("writes parsed codes with one space", () => {
+    expect(canonicalizeCourseCode("BLG101E")).toBe("BLG 101E");
+    expect(isSameCourseCode("fiz101el", "FIZ 101EL")).toBe(true);
+    expect(isSameCourseCode("BLG 101E", "BLG 101")).toBe(false);
+  });
+
+  it("trims and upper-cases codes that cannot be parsed", () => {
+    expect(canonicalizeCourseCode("  free   elective ")).toBe("FREE ELECTIVE");
+  });
+});
+
+describe("getLanguageVariant", () => {
+  it("switches between the English and Turkish versions", () => {
+    expect(getLanguageVariant("BLG 210E")).toBe("BLG 210");
+    expect(getLanguageVariant("BLG210")).toBe("BLG 210E");
+    expect(getLanguageVariant("FIZ 101EL")).toBe("FIZ 101L");
+    expect(getLanguageVariant("PLACEHOLDER")).toBeNull();
+  });
+});
+
+describe("course equivalences", () => {
+  const groups = [
+    ["BLG 101E", "BBF101E"],
+    ["BBF 101E", "BIL 101E"],
+    ["MAT 103E", "MAT 103"],
+  ];
+
+  it("is transitive", () => {
+    expect(areEquivalentCourses(groups, "BLG 101E", "BIL 101E")).toBe(true);
+    expect(getEquivalentCodes(groups, "BIL101E")).toEqual([
+      "BBF 101E",
+      "BLG 101E",
+    ]);
+  });
+
+  it("is symmetric", () => {
+    expect(areEquivalentCourses(groups, "BIL 101E", "BLG 101E")).toBe(true);
+    expect(areEquivalentCourses(groups, "MAT 103", "MAT 103E")).toBe(true);
+  });
+
+  it("keeps separate classes apart", () => {
+    expect(areEquivalentCourses(groups, "BLG 101E", "MAT 103")).toBe(false);
+    expect(getEquivalentCodes(groups, "FIZ 101")).toEqual([]);
+    expect(areEquivalentCourses(groups, "FIZ101", "FIZ 101")).toBe(true);
+  });
+
+  it("gives every member of a class the same key", () => {
+    const keys = ["BLG 101E", "BBF 101E", "BIL 101E"].map((code) =>
+      getEquivalenceKey(groups, code)
+    );
+    expect(new Set(keys).size).toBe(1);
+    expect(getEquivalenceKey(groups, "fiz101")).toBe("FIZ 101");
+  });
+
+  it("caches the classes per groups array", () => {
+    expect(getCourseEquivalences(groups)).toBe(getCourseEquivalences(groups));
+  });
+
+  it("converts the older mappings format", () => {
+    const converted = mappingsToEquivalenceGroups({
+      "BLG 101E": ["BBF 101E"],
+      "BBF 101E": ["BLG 101E"],
+    });
+    expect(areEquivalentCourses(converted, "BBF 101E", "BLG 101E")).toBe(true);
+    expect(getEquivalentCodes(converted, "BLG 101E")).toEqual(["BBF 101E"]);
+  });
+});
@@ -0,0 +1,185 @@
+// Course code parsing and course equivalences. Codes appear as "BLG 101E" in
+// the catalog and transcripts and as "BLG101E" in prerequisites; both parse
+// to the same canonical code.
+
+export interface CourseCode {
+  subject: string; // "BLG"
+  number: string; // "101"
+  english: boolean; // "E" suffix, taught in English
+  lab: boolean; // "L" suffix, laboratory part of a course
+  variant: string; // Any other suffix, e.g. "A" in "ING 201A"
+  canonical: string; // "BLG 101E"
+}
+
+// scripts/convert-plan.mjs keeps a copy; update it with this pattern
+const COURSE_CODE_PATTERN = /^([A-ZÇĞİÖŞÜ]{2,4})\s*(\d{3,4})([A-Z]*)$/;
+
+export function formatCourseCode(code: Omit<CourseCode, "canonical">): string {
+  return `${code.subject} ${code.number}${code.variant}${
+    code.english ? "E" : ""
+  }${code.lab ? "L" : ""}`;
+}
+
+/**
+ * Parses a course code such as "BLG 101E", "BLG101E", "FIZ 101EL" or
+ * "ING 201A". Returns null for codes that do not follow the pattern.
+ */
+export function parseCourseCode(code: string): CourseCode | null {
+  const match = code.trim().toUpperCase().match(COURSE_CODE_PATTERN);
+  if (!match) return null;
+
+  const [, subject, number, suffix] = match;
+  const english = suffix === "E" || suffix === "EL";
+  const lab = suffix === "L" || suffix === "EL";
+  const parsed = {
+    subject,
+    number,
+    english,
+    lab,
+    variant: english || lab ? "" : suffix,
+  };
+  return { ...parsed, canonical: formatCourseCode(parsed) };
+}
+
+/**
+ * Returns the canonical form of a course code ("BLG101E" -> "BLG 101E").
+ * Codes that cannot be parsed are trimmed and upper-cased.
+ */
+export function canonicalizeCourseCode(code: string): string {
+  return (
+    parseCourseCode(code)?.canonical ||
+    code.trim().replace(/\s+/g, " ").toUpperCase()
+  );
+}
+
+export function isSameCourseCode(a: string, b: string): boolean {
+  return canonicalizeCourseCode(a) === canonicalizeCourseCode(b);
+}
+
+/**
+ * Returns the other language version of a course ("BLG 210E" <-> "BLG 210"),
+ * or null if the code cannot be parsed.
+ */
+export function getLanguageVariant(code: string): string | null {
+  const parsed = parseCourseCode(code);
+  if (!parsed) return null;
+  return formatCourseCode({ ...parsed, english: !parsed.english });
+}
+
+// Shape of course-equivalences.json: each entry lists courses that count as
+// the same course, e.g. [["BLG 101E", "BBF 101E"]]
+export type CourseEquivalenceGroups = string[][];
+
+export interface CourseEquivalences {
+  // Canonical code -> every canonical code in its equivalence class
+  classes: Map<string, string[]>;
+}
+
+const equivalenceCache = new WeakMap<
+  CourseEquivalenceGroups,
+  CourseEquivalences
+>();
+
+/**
+ * Builds the equivalence classes of the listed groups with union-find, so
+ * equivalence is symmetric and transitive without listing every pair:
+ * [["A", "B"], ["B", "C"]] makes A, B and C equivalent. The result is cached
+ * per groups array.
+ */
+export function getCourseEquivalences(
+  groups: CourseEquivalenceGroups
+): CourseEquivalences {
+  const cached = equivalenceCache.get(groups);
+  if (cached) return cached;
+
+  const parent = new Map<string, string>();
+  const find = (code: string): string => {
+    let root = code;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    let current = code;
+    while (current !== root) {
+      const next = parent.get(current)!;
+      parent.set(current, root);
+      current = next;
+    }
+    return root;
+  };
+
+  groups.forEach((group) => {
+    const codes = group.map(canonicalizeCourseCode);
+    codes.forEach((code) => {
+      if (!parent.has(code)) parent.set(code, code);
+    });
+    codes.slice(1).forEach((code) => {
+      const rootA = find(codes[0]);
+      const rootB = find(code);
+      if (rootA !== rootB) parent.set(rootB, rootA);
+    });
+  });
+
+  const members = new Map<string, string[]>();
+  parent.forEach((_, code) => {
+    const root = find(code);
+    if (!members.has(root)) members.set(root, []);
+    members.get(root)!.push(code);
+  });
+
+  const classes = new Map<string, string[]>();
+  members.forEach((codes) => {
+    const sorted = codes.sort();
+    sorted.forEach((code) => classes.set(code, sorted));
+  });
+
+  const equivalences = { classes };
+  equivalenceCache.set(groups, equivalences);
+  return equivalences;
+}
+
+/**
+ * Returns the canonical codes equivalent to a course, not including itself.
+ */
+export function getEquivalentCodes(
+  groups: CourseEquivalenceGroups,
+  code: string
+): string[] {
+  const canonical = canonicalizeCourseCode(code);
+  const members = getCourseEquivalences(groups).classes.get(canonical) || [];
+  return members.filter((member) => member !== canonical);
+}
+
+/**
+ * Returns a key shared by all courses in the same equivalence class, so
+ * attempts of equivalent courses can be grouped as one course.
+ */
+export function getEquivalenceKey(
+  groups: CourseEquivalenceGroups,
+  code: string
+): string {
+  const canonical = canonicalizeCourseCode(code);
+  return getCourseEquivalences(groups).classes.get(canonical)?.[0] || canonical;
+}
+
+export function areEquivalentCourses(
+  groups: CourseEquivalenceGroups,
+  a: string,
+  b: string
+): boolean {
+  return (
+    isSameCourseCode(a, b) ||
+    getEquivalentCodes(groups, a).includes(canonicalizeCourseCode(b))
+  );
+}
+
+/**
+ * Converts the older course-mappings.json format, where every key lists its
+ * alternatives in both directions, to equivalence groups.
+ */
+export function mappingsToEquivalenceGroups(
+  mappings: Record<string, string[]>
+): CourseEquivalenceGroups {
+  return Object.entries(mappings).map(([code, alternatives]) => [
+    code,
+    ...alternatives,
+  ]);
+}
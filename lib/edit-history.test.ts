@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  EditCommand,
+  MAX_HISTORY_LENGTH,
+  createBatchCommand,
+  createEditHistory,
+  createRevertCommand,
+  isCommandReverted,
+  recordCommand,
+  redoHistory,
+  undoHistory,
+} from "@/lib/edit-history";
+import {
+  createAddAttemptCommand,
+  createDeleteAttemptCommand,
+  createUpdateAttemptCommand,
+} from "@/lib/transcript-commands";
+import { attempt } from "@/lib/test-fixtures";
+
+type Attempt = ReturnType<typeof attempt>;
+
+const FALL = "2025-2026 Güz Planı";
+const SPRING = "2025-2026 Bahar Planı";
+
+const transcript: Attempt[] = [
+  attempt(FALL, "MAT 103"),
+  attempt(FALL, "FIZ 101"),
+  attempt(SPRING, "MAT 104"),
+];
+
+const codes = (rows: Attempt[]) => rows.map((row) => row.code);
+
+describe("edit history", () => {
+  const add = createAddAttemptCommand("Added", attempt(SPRING, "BLG 102E"));
+  const remove = createDeleteAttemptCommand<Attempt>(
+    "Removed",
+    FALL,
+    "FIZ 101"
+  );
+
+  it("undoes and redoes commands in order", () => {
+    let history = recordCommand(createEditHistory<Attempt[]>(), add);
+    history = recordCommand(history, remove);
+
+    const undone = undoHistory(history)!;
+    expect(undone.command).toBe(remove);
+    expect(undone.history.past).toEqual([add]);
+
+    const redone = redoHistory(undone.history)!;
+    expect(redone.command).toBe(remove);
+    expect(redone.history).toEqual(history);
+  });
+
+  it("clears the redo stack when a new command is recorded", () => {
+    const history = recordCommand(createEditHistory<Attempt[]>(), add);
+    const { history: undone } = undoHistory(history)!;
+    expect(recordCommand(undone, remove).future).toEqual([]);
+  });
+
+  it("returns null when there is nothing to undo or redo", () => {
+    expect(undoHistory(createEditHistory())).toBeNull();
+    expect(redoHistory(createEditHistory())).toBeNull();
+  });
+
+  it("drops the oldest commands past the limit", () => {
+    let history = createEditHistory<Attempt[]>();
+    for (let i = 0; i <= MAX_HISTORY_LENGTH; i++) {
+      history = recordCommand(history, add);
+    }
+    expect(history.past).toHaveLength(MAX_HISTORY_LENGTH);
+  });
+
+  it("reverts an earlier command and keeps the later ones", () => {
+    const afterAdd = add.apply(transcript);
+    const afterRemove = remove.apply(afterAdd);
+    const revert = createRevertCommand(add);
+    expect(codes(revert.apply(afterRemove))).toEqual(["MAT 103", "MAT 104"]);
+
+    const history = recordCommand(
+      recordCommand(recordCommand(createEditHistory<Attempt[]>(), add), remove),
+      revert
+    );
+    expect(isCommandReverted(history, add.id)).toBe(true);
+    expect(isCommandReverted(history, remove.id)).toBe(false);
+  });
+
+  it("applies and reverts a batch as one edit", () => {
+    const batch: EditCommand<Attempt[]> = createBatchCommand("Batch", [
+      createAddAttemptCommand("Added", attempt(FALL, "BLG 101E")),
+      createUpdateAttemptCommand<Attempt>("Updated", FALL, "BLG 101E", {
+        grade: "AA",
+      }),
+    ]);
+    const applied = batch.apply(transcript);
+    expect(applied[2]).toEqual(attempt(FALL, "BLG 101E", "AA"));
+    expect(batch.revert(applied)).toEqual(transcript);
+  });
+});
+
+describe("transcript commands", () => {
+  it("adds a row after the last row of its semester", () => {
+    const add = createAddAttemptCommand("Added", attempt(FALL, "BLG 101E"));
+    expect(codes(add.apply(transcript))).toEqual([
+      "MAT 103",
+      "FIZ 101",
+      "BLG 101E",
+      "MAT 104",
+    ]);
+    expect(add.revert(add.apply(transcript))).toEqual(transcript);
+  });
+
+  it("puts a removed row back where it was", () => {
+    const remove = createDeleteAttemptCommand<Attempt>(
+      "Removed",
+      FALL,
+      "MAT 103"
+    );
+    const removed = remove.apply(transcript);
+    expect(codes(removed)).toEqual(["FIZ 101", "MAT 104"]);
+    expect(remove.revert(removed)).toEqual(transcript);
+  });
+
+  it("restores updated fields after other edits", () => {
+    const update = createUpdateAttemptCommand<Attempt>(
+      "Updated",
+      SPRING,
+      "MAT 104",
+      { grade: "BB*" }
+    );
+    const add = createAddAttemptCommand("Added", attempt(FALL, "BLG 101E"));
+    const edited = add.apply(update.apply(transcript));
+    expect(codes(update.revert(edited))).toEqual(codes(edited));
+    expect(update.revert(edited).find((row) => row.code === "MAT 104")).toEqual(
+      attempt(SPRING, "MAT 104")
+    );
+  });
+});
@@ -0,0 +1,127 @@
+// Command-based undo/redo history. Every edit is recorded as a command that
+// knows how to apply and revert itself, so edits can be undone in order or
+// a single earlier edit can be reverted without losing the ones after it.
+
+export interface EditCommand<T> {
+  id: string;
+  // Shown in the change list, e.g. "Added BLG 102E to 2024-2025 Güz Planı"
+  label: string;
+  apply: (state: T) => T;
+  revert: (state: T) => T;
+  // Set on commands that revert a single earlier command
+  revertsId?: string;
+}
+
+export interface EditHistory<T> {
+  // Applied commands, oldest first
+  past: EditCommand<T>[];
+  // Undone commands, the next one to redo last
+  future: EditCommand<T>[];
+}
+
+// Oldest commands are dropped beyond this many
+export const MAX_HISTORY_LENGTH = 100;
+
+let nextCommandId = 0;
+
+export function createCommandId(): string {
+  nextCommandId++;
+  return `edit-${Date.now()}-${nextCommandId}`;
+}
+
+export function createEditHistory<T>(): EditHistory<T> {
+  return { past: [], future: [] };
+}
+
+/**
+ * Records a command that has been applied. Recording a new command clears
+ * the redo stack.
+ */
+export function recordCommand<T>(
+  history: EditHistory<T>,
+  command: EditCommand<T>
+): EditHistory<T> {
+  return {
+    past: [...history.past, command].slice(-MAX_HISTORY_LENGTH),
+    future: [],
+  };
+}
+
+/**
+ * Moves the latest command to the redo stack. Returns null when there is
+ * nothing to undo; otherwise the caller reverts `command` on its state.
+ */
+export function undoHistory<T>(
+  history: EditHistory<T>
+): { history: EditHistory<T>; command: EditCommand<T> } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, command],
+    },
+    command,
+  };
+}
+
+/**
+ * Moves the latest undone command back to the past. Returns null when there
+ * is nothing to redo; otherwise the caller applies `command` on its state.
+ */
+export function redoHistory<T>(
+  history: EditHistory<T>
+): { history: EditHistory<T>; command: EditCommand<T> } | null {
+  const command = history.future[history.future.length - 1];
+  if (!command) return null;
+  return {
+    history: {
+      past: [...history.past, command],
+      future: history.future.slice(0, -1),
+    },
+    command,
+  };
+}
+
+/**
+ * Creates the command that reverts a single earlier command. It is recorded
+ * like any other edit, so the revert itself can be undone.
+ */
+export function createRevertCommand<T>(
+  command: EditCommand<T>
+): EditCommand<T> {
+  return {
+    id: createCommandId(),
+    label: `Reverted: ${command.label}`,
+    apply: command.revert,
+    revert: command.apply,
+    revertsId: command.id,
+  };
+}
+
+export function isCommandReverted<T>(
+  history: EditHistory<T>,
+  id: string
+): boolean {
+  return history.past.some((command) => command.revertsId === id);
+}
+
+/**
+ * Groups several commands into one edit, e.g. applying a generated schedule.
+ */
+export function createBatchCommand<T>(
+  label: string,
+  commands: EditCommand<T>[]
+): EditCommand<T> {
+  return {
+    id: createCommandId(),
+    label,
+    apply: (state) =>
+      commands.reduce((current, command) => command.apply(current), state),
+    revert: (state) =>
+      commands.reduceRight(
+        (current, command) => command.revert(current),
+        state
+      ),
+  };
+}
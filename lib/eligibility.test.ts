@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateEligibility,
+  getClassStandingAt,
+  parseClassStandingCondition,
+} from "@/lib/eligibility";
+import { CatalogCourse, PrerequisiteOptions } from "@/lib/prerequisites";
+import { attempt } from "@/lib/test-fixtures";
+
+const FALL = "2023-2024 Güz Dönemi";
+const SPRING = "2023-2024 Bahar Dönemi";
+const PLANNED = "2024-2025 Güz Planı";
+
+const courses: CatalogCourse[] = [
+  {
+    code: "BLG 102E",
+    name: "Introduction to Scientific and Engineering Computing",
+    prerequisites: [{ group: 1, courses: [{ code: "BLG 101E", min: "DD" }] }],
+  },
+  {
+    code: "BLG 223E",
+    name: "Data Structures",
+    prerequisites: [
+      {
+        group: 1,
+        courses: [
+          { code: "BLG 102E", min: "CC" },
+          { code: "BLG 252E", min: "DD" },
+        ],
+      },
+      { group: 2, courses: [{ code: "MAT 103", min: "DD" }] },
+    ],
+  },
+  {
+    code: "BLG 411E",
+    name: "Software Engineering",
+    special_conditions: ["3.Sınıf"],
+  },
+  {
+    code: "BLG 492E",
+    name: "Graduation Design Project",
+    special_conditions: ["4. sinif", "Bölüm onayı"],
+  },
+];
+
+const options: PrerequisiteOptions = { courses, equivalences: [] };
+
+// Passed courses worth the given credits, all in the fall semester
+const creditsOf = (credits: number) =>
+  [...Array(credits / 10)].map((_, index) =>
+    attempt(FALL, `MAT ${201 + index}`, "CC", "10")
+  );
+
+describe("evaluateEligibility", () => {
+  it("allows a course once its prerequisites are passed", () => {
+    const result = evaluateEligibility(
+      [attempt(FALL, "BLG 101E", "DD")],
+      "BLG 102E",
+      SPRING,
+      options
+    );
+    expect(result.eligible).toBe(true);
+    expect(result.reasons).toEqual([]);
+  });
+
+  it("names every prerequisite group that is missing", () => {
+    const result = evaluateEligibility(
+      [attempt(FALL, "BLG 102E", "DC")],
+      "BLG 223E",
+      SPRING,
+      options
+    );
+    expect(result.eligible).toBe(false);
+    expect(result.reasons).toEqual([
+      "Prerequisite group 1 not satisfied (BLG 102E or BLG 252E)",
+      "Prerequisite group 2 not satisfied (MAT 103)",
+    ]);
+  });
+
+  it("accepts any course of a group", () => {
+    const result = evaluateEligibility(
+      [attempt(FALL, "BLG 252E", "DD"), attempt(FALL, "MAT 103", "CC")],
+      "BLG 223E",
+      SPRING,
+      options
+    );
+    expect(result.eligible).toBe(true);
+  });
+
+  it("does not count a prerequisite taken in the same semester", () => {
+    const transcript = [attempt(PLANNED, "BLG 101E")];
+
+    const sameSemester = evaluateEligibility(
+      transcript,
+      "BLG 102E",
+      PLANNED,
+      options
+    );
+    expect(sameSemester.eligible).toBe(false);
+    expect(sameSemester.prerequisites.groups[0].courses[0].status).toBe(
+      "in-progress"
+    );
+    expect(sameSemester.reasons).toEqual([
+      "Prerequisite group 1 not satisfied (BLG 101E)",
+    ]);
+
+    expect(
+      evaluateEligibility(transcript, "BLG 102E", "2024-2025 Bahar Planı", {
+        ...options,
+        gradeOverrides: { [`BLG 101E-${PLANNED}`]: "CC" },
+      }).eligible
+    ).toBe(true);
+  });
+
+  it("requires the class standing of the course", () => {
+    const secondYear = evaluateEligibility(
+      creditsOf(50),
+      "BLG 411E",
+      SPRING,
+      options
+    );
+    expect(secondYear.eligible).toBe(false);
+    expect(secondYear.specialConditions[0]).toMatchObject({
+      status: "unsatisfied",
+      requiredStanding: 3,
+    });
+    expect(secondYear.reasons).toEqual([
+      "Requires 3.sınıf, current standing is 2.sınıf",
+    ]);
+
+    const thirdYear = evaluateEligibility(
+      creditsOf(60),
+      "BLG 411E",
+      SPRING,
+      options
+    );
+    expect(thirdYear.eligible).toBe(true);
+    expect(thirdYear.specialConditions[0].status).toBe("satisfied");
+  });
+
+  it("lists conditions it cannot check without blocking the course", () => {
+    const result = evaluateEligibility(
+      creditsOf(100),
+      "BLG 492E",
+      SPRING,
+      options
+    );
+    expect(result.eligible).toBe(true);
+    expect(result.unknownConditions).toEqual(["Bölüm onayı"]);
+    expect(result.reasons).toEqual([]);
+  });
+
+  it("allows courses that are not in the catalog", () => {
+    const result = evaluateEligibility([], "BLG 999E", SPRING, options);
+    expect(result.eligible).toBe(true);
+    expect(result.specialConditions).toEqual([]);
+  });
+});
+
+describe("getClassStandingAt", () => {
+  it("counts only the credits earned before the semester", () => {
+    const transcript = [
+      ...creditsOf(30),
+      attempt(SPRING, "BLG 101E", "AA", "30"),
+      attempt(SPRING, "BLG 102E", "FF", "30"),
+    ];
+    expect(getClassStandingAt(transcript, SPRING)).toEqual({
+      classStanding: 2,
+      earnedCredits: 30,
+    });
+    expect(getClassStandingAt(transcript, PLANNED)).toEqual({
+      classStanding: 3,
+      earnedCredits: 60,
+    });
+    expect(getClassStandingAt(transcript, null).earnedCredits).toBe(60);
+  });
+});
+
+describe("parseClassStandingCondition", () => {
+  it.each([
+    ["3.Sınıf", 3],
+    ["4. sınıf", 4],
+    [" 2.SINIF ", 2],
+    ["4.sinif", 4],
+  ])("reads %s", (condition, standing) => {
+    expect(parseClassStandingCondition(condition)).toBe(standing);
+  });
+
+  it("returns null for other conditions", () => {
+    expect(parseClassStandingCondition("Bölüm onayı")).toBeNull();
+    expect(parseClassStandingCondition("Sınıf 3")).toBeNull();
+  });
+});
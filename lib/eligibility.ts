@@ -0,0 +1,160 @@
+// Course eligibility: prerequisites plus the special conditions from
+// courses.json, such as class-standing requirements ("3.Sınıf").
+
+import {
+  AttemptLike,
+  compareSemesters,
+  formatClassStanding,
+  getClassStanding,
+} from "@/lib/academic";
+import { calculateEarnedCredits } from "@/lib/grade-policy";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import {
+  PrerequisiteEvaluation,
+  PrerequisiteOptions,
+  evaluatePrerequisites,
+} from "@/lib/prerequisites";
+import { findCatalogCourse } from "@/lib/catalog-index";
+
+export type SpecialConditionStatus = "satisfied" | "unsatisfied" | "unknown";
+
+export interface SpecialConditionResult {
+  condition: string;
+  status: SpecialConditionStatus;
+  // Set for class-standing conditions
+  requiredStanding: number | null;
+  reason: string;
+}
+
+export interface EligibilityResult {
+  courseCode: string;
+  // False only when a prerequisite or a known condition is unmet
+  eligible: boolean;
+  classStanding: number;
+  earnedCredits: number;
+  prerequisites: PrerequisiteEvaluation;
+  specialConditions: SpecialConditionResult[];
+  // Conditions the app cannot check and the student should verify
+  unknownConditions: string[];
+  reasons: string[];
+}
+
+/**
+ * Returns the required class standing for conditions like "4.Sınıf",
+ * or null if the condition is not a class-standing requirement.
+ */
+export function parseClassStandingCondition(condition: string): number | null {
+  const match = condition.trim().match(/^(\d)\s*\.\s*s[ıi]n[ıi]f$/i);
+  return match ? parseInt(match[1]) : null;
+}
+
+export function evaluateSpecialConditions(
+  conditions: string[],
+  classStanding: number
+): SpecialConditionResult[] {
+  return conditions.map((condition) => {
+    const requiredStanding = parseClassStandingCondition(condition);
+
+    if (requiredStanding === null) {
+      return {
+        condition,
+        status: "unknown",
+        requiredStanding: null,
+        reason: `Unrecognized condition "${condition}", check it manually`,
+      };
+    }
+
+    const satisfied = classStanding >= requiredStanding;
+    return {
+      condition,
+      status: satisfied ? "satisfied" : "unsatisfied",
+      requiredStanding,
+      reason: satisfied
+        ? `Requires ${formatClassStanding(requiredStanding)}`
+        : `Requires ${formatClassStanding(
+            requiredStanding
+          )}, current standing is ${formatClassStanding(classStanding)}`,
+    };
+  });
+}
+
+/**
+ * Returns the class standing at the start of the reference semester, based on
+ * the credits earned in earlier semesters.
+ */
+export function getClassStandingAt<T extends AttemptLike & { credits: string }>(
+  transcript: T[],
+  referenceSemester: string | null | undefined,
+  equivalences: CourseEquivalenceGroups = []
+): { classStanding: number; earnedCredits: number } {
+  const earlierAttempts = referenceSemester
+    ? transcript.filter(
+        (t) => compareSemesters(t.semester, referenceSemester) < 0
+      )
+    : transcript;
+  const earnedCredits = calculateEarnedCredits(earlierAttempts, {
+    selectedSemester: referenceSemester,
+    equivalences,
+  });
+
+  return { classStanding: getClassStanding(earnedCredits), earnedCredits };
+}
+
+/**
+ * Checks whether a course can be registered for in the reference semester.
+ */
+export function evaluateEligibility<
+  T extends AttemptLike & { credits: string }
+>(
+  transcript: T[],
+  courseCode: string,
+  referenceSemester: string | null | undefined,
+  options: PrerequisiteOptions
+): EligibilityResult {
+  const prerequisites = evaluatePrerequisites(
+    transcript,
+    courseCode,
+    referenceSemester,
+    options
+  );
+
+  const { classStanding, earnedCredits } = getClassStandingAt(
+    transcript,
+    referenceSemester,
+    options.equivalences
+  );
+  const course = findCatalogCourse(options.courses, courseCode);
+  const specialConditions = evaluateSpecialConditions(
+    course?.special_conditions || [],
+    classStanding
+  );
+
+  const reasons: string[] = [];
+  prerequisites.groups
+    .filter((group) => !group.satisfied)
+    .forEach((group) => {
+      reasons.push(
+        `Prerequisite group ${group.group} not satisfied (${group.courses
+          .map((result) => result.code)
+          .join(" or ")})`
+      );
+    });
+  specialConditions
+    .filter((result) => result.status === "unsatisfied")
+    .forEach((result) => reasons.push(result.reason));
+
+  return {
+    courseCode,
+    eligible:
+      prerequisites.satisfied &&
+      specialConditions.every((result) => result.status !== "unsatisfied"),
+    classStanding,
+    earnedCredits,
+    prerequisites,
+    specialConditions,
+    unknownConditions: specialConditions
+      .filter((result) => result.status === "unknown")
+      .map((result) => result.condition),
+    reasons,
+  };
+}
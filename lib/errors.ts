@@ -0,0 +1,99 @@
+// Error codes and user-facing messages for server action results. Failures
+// keep the Encore ErrCode of the API error (or of the auth check in
+// lib/auth.ts), so the UI can tell e.g. a missing session from an
+// unreachable backend and show a message in the user's language.
+
+import { ErrCode } from "@/lib/client";
+
+export { ErrCode };
+
+/**
+ * Fields every server action result has. `error` is the raw message for
+ * logs; use getErrorMessage for what the user sees.
+ */
+export interface ActionResult {
+  success: boolean;
+  error: string;
+  // Set when the failure came with an error code
+  errorCode?: ErrCode;
+  // Set when the action succeeded but a side effect failed, e.g. recording
+  // the revision of a save; shown to the user as it is
+  warning?: string;
+}
+
+// Codes worth retrying: the same request may succeed a moment later
+export const TRANSIENT_ERROR_CODES: ErrCode[] = [
+  ErrCode.Unavailable,
+  ErrCode.DeadlineExceeded,
+  ErrCode.ResourceExhausted,
+  ErrCode.Aborted,
+];
+
+export function isTransientErrorCode(code: ErrCode | undefined): boolean {
+  return code !== undefined && TRANSIENT_ERROR_CODES.includes(code);
+}
+
+export type Locale = "en" | "tr";
+
+const ERROR_MESSAGES: Record<Locale, Partial<Record<ErrCode, string>>> = {
+  en: {
+    [ErrCode.Unknown]: "Something went wrong. Please try again.",
+    [ErrCode.Unauthenticated]: "Your session has ended. Please sign in again.",
+    [ErrCode.PermissionDenied]: "You do not have permission to do this.",
+    [ErrCode.NotFound]: "The requested data was not found.",
+    [ErrCode.InvalidArgument]:
+      "The data sent was not valid. Please check it and try again.",
+    [ErrCode.AlreadyExists]: "This data already exists.",
+    [ErrCode.Unavailable]:
+      "The server is not reachable right now. Please try again in a moment.",
+    [ErrCode.DeadlineExceeded]:
+      "The server took too long to respond. Please try again.",
+    [ErrCode.ResourceExhausted]:
+      "Too many requests. Please wait a moment and try again.",
+    [ErrCode.Aborted]: "The request was interrupted. Please try again.",
+  },
+  tr: {
+    [ErrCode.Unknown]: "Beklenmeyen bir hata oluştu. Lütfen tekrar deneyin.",
+    [ErrCode.Unauthenticated]:
+      "Oturumunuz sona erdi. Lütfen tekrar giriş yapın.",
+    [ErrCode.PermissionDenied]: "Bu işlem için yetkiniz yok.",
+    [ErrCode.NotFound]: "İstenen veri bulunamadı.",
+    [ErrCode.InvalidArgument]:
+      "Gönderilen veriler geçersiz. Lütfen kontrol edip tekrar deneyin.",
+    [ErrCode.AlreadyExists]: "Bu veri zaten mevcut.",
+    [ErrCode.Unavailable]:
+      "Sunucuya şu anda ulaşılamıyor. Lütfen biraz sonra tekrar deneyin.",
+    [ErrCode.DeadlineExceeded]:
+      "Sunucu zamanında yanıt vermedi. Lütfen tekrar deneyin.",
+    [ErrCode.ResourceExhausted]:
+      "Çok fazla istek gönderildi. Lütfen biraz bekleyip tekrar deneyin.",
+    [ErrCode.Aborted]: "İstek yarıda kesildi. Lütfen tekrar deneyin.",
+  },
+};
+
+/**
+ * The locale for messages: Turkish when the browser prefers it, otherwise
+ * English.
+ */
+export function getPreferredLocale(): Locale {
+  return typeof navigator !== "undefined" &&
+    navigator.language?.toLowerCase().startsWith("tr")
+    ? "tr"
+    : "en";
+}
+
+/**
+ * Returns the message to show for a failed result. Coded failures get a
+ * localized message; failures without a code, such as "No courses found in
+ * transcript", keep their own message.
+ */
+export function getErrorMessage(
+  result: { error?: string; errorCode?: ErrCode },
+  locale: Locale = getPreferredLocale()
+): string {
+  const messages = ERROR_MESSAGES[locale];
+  if (result.errorCode) {
+    return messages[result.errorCode] || messages[ErrCode.Unknown]!;
+  }
+  return result.error || messages[ErrCode.Unknown]!;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import Client, { APIError, ErrCode, Local } from "@/lib/client";
+import { createFakeBackend } from "@/lib/fake-backend";
+
+const courses = [
+  {
+    semester: "2023-2024 Güz Dönemi",
+    code: "MAT 103",
+    name: "Mathematics I",
+    credits: "4",
+    grade: "CC",
+  },
+];
+
+const planJson = [
+  [{ type: "course", code: "MAT 103", name: "", category: "", options: [] }],
+];
+
+const createClient = () => {
+  const backend = createFakeBackend();
+  return { backend, client: new Client(Local, { fetcher: backend.fetcher }) };
+};
+
+// Resolves to the error code of a failed call
+const getCode = (call: Promise<unknown>) =>
+  call.then(
+    () => undefined,
+    (error: APIError) => error.code
+  );
+
+describe("fake backend", () => {
+  it("stores, updates and deletes a transcript", async () => {
+    const { client } = createClient();
+    await client.transcript.StoreTranscript({ userId: "user_1", courses });
+    const updated = [{ ...courses[0], grade: "BB" }];
+    await client.transcript.UpdateTranscript("user_1", { courses: updated });
+
+    const { transcript } = await client.transcript.GetTranscript("user_1");
+    expect(transcript).toMatchObject({ userId: "user_1", courses: updated });
+
+    await client.transcript.DeleteTranscript("user_1");
+    expect(await getCode(client.transcript.GetTranscript("user_1"))).toBe(
+      ErrCode.NotFound
+    );
+  });
+
+  it("stores and deletes a plan", async () => {
+    const { client } = createClient();
+    expect(await client.plan.GetPlan({ userId: "user_1" })).toEqual({
+      plan: null,
+      error: "",
+    });
+
+    await client.plan.StorePlan({ userId: "user_1", planJson });
+    const { plan } = await client.plan.GetPlan({ userId: "user_1" });
+    expect(plan?.planJson).toEqual(planJson);
+
+    await client.plan.DeletePlan({ userId: "user_1" });
+    expect((await client.plan.GetPlan({ userId: "user_1" })).plan).toBeNull();
+  });
+
+  it("does not share stored objects with callers", async () => {
+    const { backend, client } = createClient();
+    const stored = courses.map((course) => ({ ...course }));
+    await client.transcript.StoreTranscript({
+      userId: "user_1",
+      courses: stored,
+    });
+    stored[0].grade = "AA";
+    expect(backend.data.transcripts.get("user_1")?.courses).toEqual(courses);
+  });
+
+  it("answers with the error codes of the API", async () => {
+    const { client } = createClient();
+    expect(
+      await getCode(client.transcript.UpdateTranscript("user_1", { courses }))
+    ).toBe(ErrCode.NotFound);
+    expect(
+      await getCode(
+        client.transcript.StoreTranscript({ userId: "", courses: [] })
+      )
+    ).toBe(ErrCode.InvalidArgument);
+    expect(
+      await getCode(
+        client.transcript.ParseAndStoreTranscript({
+          userId: "user_1",
+          pdf_base64: "",
+        })
+      )
+    ).toBe(ErrCode.Unimplemented);
+  });
+
+  it("keeps the data of every backend apart and drops it on reset", async () => {
+    const first = createClient();
+    const second = createClient();
+    await first.client.transcript.StoreTranscript({
+      userId: "user_1",
+      courses,
+    });
+    expect(second.backend.data.transcripts.size).toBe(0);
+
+    first.backend.reset();
+    expect(first.backend.data.transcripts.size).toBe(0);
+  });
+});
@@ -0,0 +1,264 @@
+// In-process stand-in for the transcript, plan and health services, used with
+// BACKEND_TARGET=fake (see lib/backend.ts) for local development and tests
+// without network. It plugs into the generated client as its fetcher, so
+// requests and responses have the same shapes as the real API. Data is kept
+// in memory and lost when the server restarts. PDF parsing is not available.
+
+import { Fetcher, health, plan, transcript } from "@/lib/client";
+
+export interface FakeBackendData {
+  transcripts: Map<string, transcript.Transcript>;
+  plans: Map<string, plan.Plan>;
+  nextId: number;
+}
+
+export interface FakeBackend {
+  data: FakeBackendData;
+  fetcher: Fetcher;
+  // Drops all stored transcripts and plans
+  reset: () => void;
+}
+
+interface FakeRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+type FakeHandler = (
+  data: FakeBackendData,
+  request: FakeRequest,
+  params: string[]
+) => Response;
+
+const createData = (): FakeBackendData => ({
+  transcripts: new Map(),
+  plans: new Map(),
+  nextId: 1,
+});
+
+// Copies data in and out so callers never share objects with the store
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Errors use the body of Encore API errors, which the client turns into an
+// APIError with the same code
+const apiError = (status: number, code: string, message: string) =>
+  json({ code, message }, status);
+
+const notFound = (message: string) => apiError(404, "not_found", message);
+
+const getBody = <T>(request: FakeRequest) => (request.body || {}) as Partial<T>;
+
+const routes: [string, RegExp, FakeHandler][] = [
+  [
+    "GET",
+    /^\/health$/,
+    () =>
+      json({
+        status: "ok",
+        message: "Fake backend is running",
+      } as health.HealthResponse),
+  ],
+
+  [
+    "GET",
+    /^\/transcripts$/,
+    (data) => {
+      const transcripts = Array.from(data.transcripts.values()).map(copy);
+      return json({
+        transcripts,
+        count: transcripts.length,
+      } as transcript.ListTranscriptsResponse);
+    },
+  ],
+  [
+    "GET",
+    /^\/transcript\/([^/]+)$/,
+    (data, _request, [userId]) => {
+      const stored = data.transcripts.get(userId);
+      if (!stored) return notFound("transcript not found");
+      return json({
+        transcript: copy(stored),
+      } as transcript.GetTranscriptResponse);
+    },
+  ],
+  [
+    "POST",
+    /^\/transcript$/,
+    (data, request) => {
+      const { userId, courses } =
+        getBody<transcript.StoreTranscriptRequest>(request);
+      if (!userId || !Array.isArray(courses)) {
+        return apiError(
+          400,
+          "invalid_argument",
+          "userId and courses are required"
+        );
+      }
+      data.transcripts.set(userId, {
+        id: data.transcripts.get(userId)?.id ?? data.nextId++,
+        userId,
+        courses: copy(courses),
+      });
+      return json({
+        message: "Transcript stored successfully",
+        userId,
+      } as transcript.StoreTranscriptResponse);
+    },
+  ],
+  [
+    "PUT",
+    /^\/transcript\/([^/]+)$/,
+    (data, request, [userId]) => {
+      const stored = data.transcripts.get(userId);
+      if (!stored) return notFound("transcript not found");
+      const { courses } = getBody<transcript.UpdateTranscriptRequest>(request);
+      if (!Array.isArray(courses)) {
+        return apiError(400, "invalid_argument", "courses are required");
+      }
+      data.transcripts.set(userId, { ...stored, courses: copy(courses) });
+      return json({
+        message: "Transcript updated successfully",
+        userId,
+      } as transcript.UpdateTranscriptResponse);
+    },
+  ],
+  [
+    "DELETE",
+    /^\/transcript\/([^/]+)$/,
+    (data, _request, [userId]) => {
+      if (!data.transcripts.delete(userId)) {
+        return notFound("transcript not found");
+      }
+      return json({
+        message: "Transcript deleted successfully",
+        userId,
+      } as transcript.DeleteTranscriptResponse);
+    },
+  ],
+  [
+    "POST",
+    /^\/parse-transcript$/,
+    () =>
+      json({
+        courses: [],
+        error: "PDF parsing is not available in the fake backend",
+        debug: "",
+      } as transcript.ParseTranscriptResponse),
+  ],
+  [
+    "POST",
+    /^\/parse-and-store-transcript$/,
+    () =>
+      apiError(
+        501,
+        "unimplemented",
+        "PDF parsing is not available in the fake backend"
+      ),
+  ],
+
+  [
+    "POST",
+    /^\/get-plan$/,
+    (data, request) => {
+      const { userId } = getBody<plan.GetPlanRequest>(request);
+      const stored = userId ? data.plans.get(userId) : undefined;
+      // A user without a plan gets no plan and no error
+      return json({
+        plan: stored ? copy(stored) : null,
+        error: "",
+      });
+    },
+  ],
+  [
+    "POST",
+    /^\/store-plan$/,
+    (data, request) => {
+      const { userId, planJson } = getBody<plan.StorePlanRequest>(request);
+      if (!userId || !Array.isArray(planJson)) {
+        return json({
+          success: false,
+          error: "userId and planJson are required",
+        } as plan.StorePlanResponse);
+      }
+      data.plans.set(userId, {
+        id: data.plans.get(userId)?.id ?? data.nextId++,
+        userId,
+        planJson: copy(planJson),
+      });
+      return json({ success: true, error: "" } as plan.StorePlanResponse);
+    },
+  ],
+  [
+    "POST",
+    /^\/delete-plan$/,
+    (data, request) => {
+      const { userId } = getBody<plan.DeletePlanRequest>(request);
+      if (userId) data.plans.delete(userId);
+      return json({ success: true, error: "" } as plan.DeletePlanResponse);
+    },
+  ],
+];
+
+// Helper function to read the method, path and JSON body of a client request
+function readRequest(
+  input: Parameters<Fetcher>[0],
+  init?: Parameters<Fetcher>[1]
+): FakeRequest {
+  const url = new URL(
+    typeof input === "string" || input instanceof URL ? input : input.url
+  );
+  const body =
+    typeof init?.body === "string" && init.body ? JSON.parse(init.body) : null;
+  return {
+    method: (init?.method || "GET").toUpperCase(),
+    path: url.pathname,
+    body,
+  };
+}
+
+/**
+ * Creates a fake backend with its own empty data, e.g. for a test.
+ */
+export function createFakeBackend(): FakeBackend {
+  const backend: FakeBackend = {
+    data: createData(),
+    fetcher: async (input, init) => {
+      const request = readRequest(input, init);
+      for (const [method, pattern, handler] of routes) {
+        const match = request.method === method && pattern.exec(request.path);
+        if (match) {
+          return handler(
+            backend.data,
+            request,
+            match.slice(1).map(decodeURIComponent)
+          );
+        }
+      }
+      return notFound(`no route for ${request.method} ${request.path}`);
+    },
+    reset: () => {
+      backend.data = createData();
+    },
+  };
+  return backend;
+}
+
+// Kept on globalThis so the data survives module reloads in development
+const globalForFake = globalThis as { fakeBackend?: FakeBackend };
+
+/**
+ * Returns the fake backend shared by the server actions.
+ */
+export function getFakeBackend(): FakeBackend {
+  if (!globalForFake.fakeBackend) {
+    globalForFake.fakeBackend = createFakeBackend();
+  }
+  return globalForFake.fakeBackend;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateGpa,
+  calculateTermGpas,
+  evaluateRetakeOptions,
+  getRetakeCandidates,
+  getRetakeSemester,
+  simulateScenario,
+  solveTargetGpa,
+} from "@/lib/gpa";
+import { attempt } from "@/lib/test-fixtures";
+
+const FALL = "2024-2025 Güz Dönemi";
+const SPRING = "2024-2025 Bahar Dönemi";
+const PLANNED = "2025-2026 Güz Planı";
+
+const transcript = [
+  attempt(FALL, "MAT 103", "CC", "4"),
+  attempt(FALL, "BLG 101E", "AA"),
+  attempt(SPRING, "FIZ 101", "DD"),
+  attempt(PLANNED, "BLG 223E", "--", "4"),
+];
+
+describe("calculateGpa", () => {
+  it("leaves out courses without a graded attempt", () => {
+    expect(calculateGpa(transcript)).toEqual({
+      gpa: 23 / 10,
+      credits: 10,
+      points: 23,
+    });
+  });
+
+  it("only counts the latest attempt of a retaken course", () => {
+    const retaken = [...transcript, attempt(SPRING, "MAT 103", "AA", "4")];
+    expect(calculateGpa(retaken).points).toBe(31);
+    expect(calculateGpa(retaken).credits).toBe(10);
+  });
+
+  it("counts an equivalent course as a retake when equivalences are given", () => {
+    const replaced = [
+      attempt(FALL, "BBF 101E", "FF"),
+      attempt(SPRING, "BLG 101E", "BB"),
+    ];
+    expect(calculateGpa(replaced).gpa).toBe(1.5);
+    expect(calculateGpa(replaced, [["BLG 101E", "BBF 101E"]]).gpa).toBe(3);
+  });
+});
+
+describe("calculateTermGpas", () => {
+  it("returns the term and cumulative GPA of each semester in order", () => {
+    const terms = calculateTermGpas(transcript.slice(0, 3));
+    expect(
+      terms.map(({ semester, gpa, cumulativeGpa }) => [
+        semester,
+        gpa,
+        cumulativeGpa,
+      ])
+    ).toEqual([
+      [FALL, 20 / 7, 20 / 7],
+      [SPRING, 1, 23 / 10],
+    ]);
+  });
+});
+
+describe("simulateScenario", () => {
+  it("applies grades to planned attempts and adds retakes", () => {
+    const result = simulateScenario(transcript, {
+      grades: { [`BLG 223E-${PLANNED}`]: "BB" },
+      retakes: [{ code: "FIZ 101", semester: PLANNED, grade: "BA" }],
+    });
+    expect(result.cumulative.credits).toBe(14);
+    expect(result.cumulative.points).toBe(8 + 12 + 10.5 + 12);
+    expect(result.terms.map((term) => term.semester)).toEqual([
+      FALL,
+      SPRING,
+      PLANNED,
+    ]);
+    expect(result.terms[2].gpa).toBe((12 + 10.5) / 7);
+  });
+});
+
+describe("solveTargetGpa", () => {
+  it("finds the most even grades that reach the target", () => {
+    const solution = solveTargetGpa(transcript, 2.5);
+    // (2.5 * 14 - 23) / 4 credits
+    expect(solution.requiredAverage).toBe(3);
+    expect(solution.uniformGrade).toBe("BB");
+    expect(solution.grades).toEqual({ [`BLG 223E-${PLANNED}`]: "BB" });
+    expect(solution.feasible).toBe(true);
+    expect(solution.alreadyMet).toBe(false);
+    expect(solution.resultingGpa).toBe(2.5);
+  });
+
+  it("reports a target that cannot be reached", () => {
+    const solution = solveTargetGpa(transcript, 3.5);
+    expect(solution.feasible).toBe(false);
+    expect(solution.uniformGrade).toBeNull();
+    expect(solution.grades).toEqual({ [`BLG 223E-${PLANNED}`]: "AA" });
+  });
+
+  it("reports a target already met by passing the planned courses", () => {
+    const solution = solveTargetGpa(transcript, 1.9);
+    expect(solution.alreadyMet).toBe(true);
+    expect(solution.grades).toEqual({ [`BLG 223E-${PLANNED}`]: "DD" });
+  });
+
+  it("replaces earlier attempts of an equivalent planned course", () => {
+    const withEquivalent = [
+      attempt(FALL, "MAT 103", "BB", "4"),
+      attempt(FALL, "BBF 101E", "FF"),
+      attempt(PLANNED, "BLG 101E", "--"),
+    ];
+    const equivalences = [["BLG 101E", "BBF 101E"]];
+    // (3 * 7 - 12) / 3 credits, with the FF left out of the fixed part
+    expect(
+      solveTargetGpa(withEquivalent, 3, [], equivalences).requiredAverage
+    ).toBe(3);
+    expect(solveTargetGpa(withEquivalent, 3).requiredAverage).toBe(6);
+  });
+});
+
+describe("retakes", () => {
+  it("lists passed courses below AA, lowest grade first", () => {
+    expect(getRetakeCandidates(transcript).map((a) => a.code)).toEqual([
+      "FIZ 101",
+      "MAT 103",
+    ]);
+  });
+
+  it("plans retakes in the latest planned semester", () => {
+    expect(getRetakeSemester(transcript)).toBe(PLANNED);
+    expect(getRetakeSemester(transcript.slice(0, 3))).toBe(
+      "2024-2025 Yaz Planı"
+    );
+  });
+
+  it("ranks retake options by the average they require", () => {
+    const options = evaluateRetakeOptions(transcript, 3, PLANNED);
+    expect(options.map((option) => option.code)).toEqual([
+      "FIZ 101",
+      "MAT 103",
+    ]);
+    // (3 * 14 - 20) / 7 credits with FIZ 101 retaken next to BLG 223E
+    expect(options[0].requiredAverage).toBeCloseTo(22 / 7);
+    expect(options[0].maxGain).toBeCloseTo(0.9);
+    expect(options[1].maxGain).toBeCloseTo(0.8);
+  });
+});
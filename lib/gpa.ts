@@ -0,0 +1,367 @@
+// GPA calculation and "what-if" simulation: named scenarios of grades for
+// planned courses, retakes of passed courses, and the grades needed in the
+// remaining planned courses to reach a target GPA.
+
+import {
+  AttemptLike,
+  GRADE_POINTS,
+  PASSING_GRADES,
+  PLANNED_GRADE,
+  getLatestAttempts,
+  getNextPlannedSemester,
+  getTranscriptSemesters,
+  isPassingGrade,
+  isPlannedGrade,
+  isPlannedSemester,
+  stripPlannedMarker,
+} from "@/lib/academic";
+import { CourseEquivalenceGroups, getEquivalenceKey } from "@/lib/course-codes";
+import { calculatePolicyGpa } from "@/lib/grade-policy";
+
+export type GradedAttempt = AttemptLike & { credits: string; name?: string };
+
+export interface GpaSummary {
+  gpa: number;
+  // Credits of courses with a grade that counts towards the GPA
+  credits: number;
+  points: number;
+}
+
+export interface TermGpa extends GpaSummary {
+  semester: string;
+  // Cumulative GPA at the end of this semester
+  cumulativeGpa: number;
+}
+
+export interface ScenarioRetake {
+  code: string;
+  semester: string;
+  grade: string;
+}
+
+export interface GpaScenario {
+  id: string;
+  name: string;
+  // Grades for planned attempts, keyed by `${code}-${semester}`
+  grades: Record<string, string>;
+  retakes: ScenarioRetake[];
+}
+
+export interface ScenarioResult {
+  cumulative: GpaSummary;
+  terms: TermGpa[];
+}
+
+export interface TargetGpaSolution {
+  target: number;
+  // Passing every planned course with the lowest grade reaches the target
+  alreadyMet: boolean;
+  // The target can be reached with the planned courses
+  feasible: boolean;
+  // Average grade points needed in the planned courses
+  requiredAverage: number | null;
+  // Lowest grade that reaches the target when every planned course gets it
+  uniformGrade: string | null;
+  // Lowest and most even grades that reach the target, keyed like scenarios
+  grades: Record<string, string>;
+  resultingGpa: number;
+}
+
+export interface RetakeOption {
+  code: string;
+  currentGrade: string;
+  credits: number;
+  // Required average in the planned courses when this course is retaken
+  // and included in them
+  requiredAverage: number | null;
+  // Cumulative GPA gain if the retake is graded AA
+  maxGain: number;
+}
+
+// Grades a planned course can be given, highest first
+export const SCENARIO_GRADES = PASSING_GRADES.filter(
+  (grade) => grade !== "BL" && GRADE_POINTS[grade] !== undefined
+);
+
+// Lowest passing grade used as the floor when solving for a target
+const LOWEST_PASSING_GRADE = SCENARIO_GRADES[SCENARIO_GRADES.length - 1];
+
+export const getAttemptKey = (attempt: AttemptLike) =>
+  `${attempt.code}-${attempt.semester}`;
+
+const getGradePoints = (grade: string): number | undefined =>
+  GRADE_POINTS[stripPlannedMarker(grade)];
+
+/**
+ * Calculates the GPA with the default grade policy. Courses without a graded
+ * attempt ("--") do not count, and equivalent courses count as retakes of
+ * each other.
+ */
+export function calculateGpa(
+  transcript: GradedAttempt[],
+  equivalences: CourseEquivalenceGroups = []
+): GpaSummary {
+  const { gpa, gpaCredits, points } = calculatePolicyGpa(transcript, {
+    equivalences,
+  });
+  return { gpa, credits: gpaCredits, points };
+}
+
+/**
+ * Returns the GPA of each semester on its own and the cumulative GPA at its
+ * end, in chronological order.
+ */
+export function calculateTermGpas(
+  transcript: GradedAttempt[],
+  equivalences: CourseEquivalenceGroups = []
+): TermGpa[] {
+  const semesters = getTranscriptSemesters(transcript);
+  return semesters.map((semester, index) => {
+    const upToSemester = new Set(semesters.slice(0, index + 1));
+    return {
+      semester,
+      ...calculateGpa(
+        transcript.filter((t) => t.semester === semester),
+        equivalences
+      ),
+      cumulativeGpa: calculateGpa(
+        transcript.filter((t) => upToSemester.has(t.semester)),
+        equivalences
+      ).gpa,
+    };
+  });
+}
+
+// Planned attempts are the ones a scenario can assign grades to
+export function getPlannedAttempts<T extends GradedAttempt>(
+  transcript: T[]
+): T[] {
+  return getLatestAttempts(transcript).filter((attempt) =>
+    isPlannedGrade(attempt.grade)
+  );
+}
+
+/**
+ * Passed courses that can be retaken to raise the GPA, lowest grade first.
+ */
+export function getRetakeCandidates<T extends GradedAttempt>(
+  transcript: T[]
+): T[] {
+  return getLatestAttempts(transcript)
+    .filter(
+      (attempt) =>
+        !isPlannedGrade(attempt.grade) &&
+        isPassingGrade(attempt.grade) &&
+        (getGradePoints(attempt.grade) ?? 4) < GRADE_POINTS.AA
+    )
+    .sort(
+      (a, b) =>
+        (getGradePoints(a.grade) || 0) - (getGradePoints(b.grade) || 0) ||
+        a.code.localeCompare(b.code)
+    );
+}
+
+/**
+ * Returns the semester retakes are planned in: the latest planned semester of
+ * the transcript, or the semester after the latest one.
+ */
+export function getRetakeSemester(transcript: GradedAttempt[]): string | null {
+  const [latestSemester] = getTranscriptSemesters(transcript, "desc");
+  if (!latestSemester) return null;
+  return isPlannedSemester(latestSemester)
+    ? latestSemester
+    : getNextPlannedSemester(latestSemester);
+}
+
+/**
+ * Returns the transcript with the scenario's grades applied to planned
+ * attempts and its retakes added as new attempts.
+ */
+export function applyScenario(
+  transcript: GradedAttempt[],
+  scenario: Pick<GpaScenario, "grades" | "retakes">
+): GradedAttempt[] {
+  const latestAttempts = new Map(
+    getLatestAttempts(transcript).map((attempt) => [attempt.code, attempt])
+  );
+  const applied = transcript.map((attempt) => {
+    const grade = scenario.grades[getAttemptKey(attempt)];
+    return grade && isPlannedGrade(attempt.grade)
+      ? { ...attempt, grade }
+      : attempt;
+  });
+
+  scenario.retakes.forEach((retake) => {
+    const original = latestAttempts.get(retake.code);
+    if (!original) return;
+    applied.push({
+      ...original,
+      semester: retake.semester,
+      grade: retake.grade,
+    });
+  });
+  return applied;
+}
+
+export function simulateScenario(
+  transcript: GradedAttempt[],
+  scenario: Pick<GpaScenario, "grades" | "retakes">,
+  equivalences: CourseEquivalenceGroups = []
+): ScenarioResult {
+  const applied = applyScenario(transcript, scenario);
+  return {
+    cumulative: calculateGpa(applied, equivalences),
+    terms: calculateTermGpas(applied, equivalences),
+  };
+}
+
+// Lowest grade whose points reach the given average
+function getLowestGradeFor(average: number): string | null {
+  for (let i = SCENARIO_GRADES.length - 1; i >= 0; i--) {
+    if (GRADE_POINTS[SCENARIO_GRADES[i]] >= average - 1e-9) {
+      return SCENARIO_GRADES[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the grades needed in the planned courses (and any retakes) to reach
+ * a target cumulative GPA. Grades start at the lowest passing grade and the
+ * lowest grade is raised one step at a time, so the suggestion is as even
+ * as possible.
+ */
+export function solveTargetGpa(
+  transcript: GradedAttempt[],
+  target: number,
+  retakes: Omit<ScenarioRetake, "grade">[] = [],
+  equivalences: CourseEquivalenceGroups = []
+): TargetGpaSolution {
+  // Retakes are planned attempts whose grade is still open
+  const withRetakes = applyScenario(transcript, {
+    grades: {},
+    retakes: retakes.map((retake) => ({ ...retake, grade: PLANNED_GRADE })),
+  });
+  const planned = getPlannedAttempts(withRetakes).filter(
+    (attempt) => parseFloat(attempt.credits || "0") > 0
+  );
+  // Earlier attempts of planned courses (or of their equivalents) are
+  // replaced once they are graded
+  const plannedKeys = new Set(
+    planned.map((attempt) => getEquivalenceKey(equivalences, attempt.code))
+  );
+  const fixed = calculateGpa(
+    withRetakes.filter(
+      (attempt) =>
+        !plannedKeys.has(getEquivalenceKey(equivalences, attempt.code))
+    ),
+    equivalences
+  );
+
+  const plannedCredits = planned.reduce(
+    (sum, attempt) => sum + parseFloat(attempt.credits),
+    0
+  );
+  const totalCredits = fixed.credits + plannedCredits;
+  const requiredPoints = target * totalCredits - fixed.points;
+
+  if (plannedCredits === 0) {
+    return {
+      target,
+      alreadyMet: fixed.gpa >= target,
+      feasible: fixed.gpa >= target,
+      requiredAverage: null,
+      uniformGrade: null,
+      grades: {},
+      resultingGpa: fixed.gpa,
+    };
+  }
+
+  const requiredAverage = requiredPoints / plannedCredits;
+  const uniformGrade = getLowestGradeFor(Math.max(requiredAverage, 0));
+
+  // Raise the lowest grade (larger courses first on ties) until the target
+  // is reached or every course has the highest grade
+  const steps = planned.map(() => SCENARIO_GRADES.length - 1);
+  const pointsOf = () =>
+    planned.reduce(
+      (sum, attempt, i) =>
+        sum +
+        GRADE_POINTS[SCENARIO_GRADES[steps[i]]] * parseFloat(attempt.credits),
+      0
+    );
+  while (pointsOf() < requiredPoints - 1e-9) {
+    let next = -1;
+    steps.forEach((step, i) => {
+      if (step === 0) return;
+      if (
+        next === -1 ||
+        step > steps[next] ||
+        (step === steps[next] &&
+          parseFloat(planned[i].credits) > parseFloat(planned[next].credits))
+      ) {
+        next = i;
+      }
+    });
+    if (next === -1) break;
+    steps[next]--;
+  }
+
+  const grades: Record<string, string> = {};
+  planned.forEach((attempt, i) => {
+    grades[getAttemptKey(attempt)] = SCENARIO_GRADES[steps[i]];
+  });
+  const resultingPoints = fixed.points + pointsOf();
+
+  return {
+    target,
+    alreadyMet: requiredAverage <= GRADE_POINTS[LOWEST_PASSING_GRADE],
+    feasible: requiredAverage <= GRADE_POINTS.AA + 1e-9,
+    requiredAverage,
+    uniformGrade,
+    grades,
+    resultingGpa: totalCredits > 0 ? resultingPoints / totalCredits : 0,
+  };
+}
+
+/**
+ * Shows how retaking each low-grade passed course changes what is needed to
+ * reach the target, best option first.
+ */
+export function evaluateRetakeOptions(
+  transcript: GradedAttempt[],
+  target: number,
+  semester: string,
+  equivalences: CourseEquivalenceGroups = []
+): RetakeOption[] {
+  const current = calculateGpa(transcript, equivalences);
+  return getRetakeCandidates(transcript)
+    .map((attempt) => {
+      const retake = { code: attempt.code, semester };
+      const solution = solveTargetGpa(
+        transcript,
+        target,
+        [retake],
+        equivalences
+      );
+      const best = calculateGpa(
+        applyScenario(transcript, {
+          grades: {},
+          retakes: [{ ...retake, grade: "AA" }],
+        }),
+        equivalences
+      );
+      return {
+        code: attempt.code,
+        currentGrade: attempt.grade,
+        credits: parseFloat(attempt.credits || "0"),
+        requiredAverage: solution.requiredAverage,
+        maxGain: best.gpa - current.gpa,
+      };
+    })
+    .sort(
+      (a, b) =>
+        (a.requiredAverage ?? Infinity) - (b.requiredAverage ?? Infinity) ||
+        b.maxGain - a.maxGain
+    );
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateEarnedCredits,
+  calculateGpaResult,
+  calculatePolicyGpa,
+  createGradePolicy,
+  resolveCountedAttempts,
+} from "@/lib/grade-policy";
+import { attempt } from "@/lib/test-fixtures";
+
+const equivalences = [["BLG 101E", "BBF 101E"]];
+
+describe("resolveCountedAttempts", () => {
+  const transcript = [
+    attempt("2023-2024 Güz Dönemi", "BBF 101E", "BB"),
+    attempt("2023-2024 Bahar Dönemi", "BLG 101E", "CC"),
+  ];
+  const gradeOf = (a: { grade: string }) => a.grade;
+
+  it("keeps the latest attempt across equivalent courses", () => {
+    const counted = resolveCountedAttempts(transcript, gradeOf, {
+      equivalences,
+    });
+    expect(counted).toHaveLength(1);
+    expect(counted[0].attempt.code).toBe("BLG 101E");
+  });
+
+  it("keeps the best attempt with the best-grade rule", () => {
+    const counted = resolveCountedAttempts(transcript, gradeOf, {
+      equivalences,
+      policy: createGradePolicy({ retakeRule: "best" }),
+    });
+    expect(counted[0].attempt.code).toBe("BBF 101E");
+  });
+});
+
+describe("calculatePolicyGpa", () => {
+  it("does not let an in-progress retake hide the earlier grade", () => {
+    const result = calculatePolicyGpa([
+      attempt("2024-2025 Güz Dönemi", "MAT 103", "DD", "4"),
+      attempt("2025-2026 Güz Planı", "MAT 103", "--", "4"),
+    ]);
+    expect(result).toEqual({ gpa: 1, gpaCredits: 4, points: 4 });
+  });
+
+  it("uses a grade picked for a planned attempt", () => {
+    const result = calculatePolicyGpa([
+      attempt("2024-2025 Güz Dönemi", "MAT 103", "DD", "4"),
+      attempt("2025-2026 Güz Planı", "MAT 103", "AA*", "4"),
+    ]);
+    expect(result.gpa).toBe(4);
+  });
+
+  it("leaves non-credit grades out of the GPA", () => {
+    const result = calculatePolicyGpa([
+      attempt("2024-2025 Güz Dönemi", "MAT 103", "AA", "4"),
+      attempt("2024-2025 Güz Dönemi", "KIM 101", "BL", "2"),
+    ]);
+    expect(result.gpaCredits).toBe(4);
+  });
+});
+
+describe("calculateEarnedCredits", () => {
+  it("counts passed courses once across equivalent codes", () => {
+    const transcript = [
+      attempt("2023-2024 Güz Dönemi", "BBF 101E", "DD"),
+      attempt("2023-2024 Bahar Dönemi", "BLG 101E", "BB"),
+      attempt("2023-2024 Bahar Dönemi", "KIM 101", "BL", "2"),
+      attempt("2023-2024 Bahar Dönemi", "FIZ 101", "FF", "4"),
+    ];
+    expect(calculateEarnedCredits(transcript)).toBe(8);
+    expect(calculateEarnedCredits(transcript, { equivalences })).toBe(5);
+  });
+
+  it("counts planned courses of earlier semesters as passed", () => {
+    const transcript = [attempt("2025-2026 Güz Planı", "MAT 103", "--", "4")];
+    expect(
+      calculateGpaResult(transcript, {
+        selectedSemester: "2025-2026 Bahar Planı",
+      }).earnedCredits
+    ).toBe(4);
+    expect(
+      calculateGpaResult(transcript, {
+        selectedSemester: "2025-2026 Güz Planı",
+      }).earnedCredits
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,173 @@
+// Grade policy: grade points, which grades count towards the GPA and earned
+// credits, and how retakes replace earlier attempts. Attempts of equivalent
+// courses (course-equivalences.json, e.g. BLG 101E and BBF 101E) are treated
+// as attempts of the same course.
+
+import {
+  AttemptLike,
+  GRADE_POINTS,
+  PASSING_GRADES,
+  getComparableGrade,
+  sortAttempts,
+  stripPlannedMarker,
+} from "@/lib/academic";
+import { CourseEquivalenceGroups, getEquivalenceKey } from "@/lib/course-codes";
+
+export type CreditAttempt = AttemptLike & { credits: string };
+
+// Which attempt of a retaken course counts
+export type RetakeRule = "latest" | "best";
+
+export interface GradePolicy {
+  // Points of the grades that count towards the GPA
+  gradePoints: Record<string, number>;
+  // Grades that earn the course's credits
+  creditGrades: string[];
+  retakeRule: RetakeRule;
+}
+
+// Non-credit grades: BL (passed) and BZ (failed) count towards neither the
+// GPA nor, for BZ, earned credits. VF (failed for attendance) counts as 0.
+export const DEFAULT_GRADE_POLICY: GradePolicy = {
+  gradePoints: Object.fromEntries(
+    Object.entries(GRADE_POINTS).filter(([grade]) => grade !== "BL")
+  ),
+  creditGrades: PASSING_GRADES,
+  retakeRule: "latest",
+};
+
+export function createGradePolicy(
+  overrides: Partial<GradePolicy> = {}
+): GradePolicy {
+  return { ...DEFAULT_GRADE_POLICY, ...overrides };
+}
+
+export interface GradePolicyOptions {
+  policy?: GradePolicy;
+  equivalences?: CourseEquivalenceGroups;
+  // Planned attempts before this semester count as passed for credits
+  selectedSemester?: string | null;
+}
+
+export interface CountedAttempt<T extends CreditAttempt> {
+  // Canonical code shared by all equivalent courses
+  courseKey: string;
+  attempt: T;
+  grade: string;
+}
+
+export interface GpaResult {
+  gpa: number;
+  // Credits of counted attempts with a GPA grade
+  gpaCredits: number;
+  points: number;
+  earnedCredits: number;
+}
+
+/**
+ * Groups attempts by course, treating equivalent codes as one course, and
+ * returns the attempt that counts for each course. `gradeOf` returns the
+ * grade to use for an attempt, or null if it has no grade yet; courses
+ * without a graded attempt are left out.
+ */
+export function resolveCountedAttempts<T extends CreditAttempt>(
+  transcript: T[],
+  gradeOf: (attempt: T) => string | null,
+  options: GradePolicyOptions = {}
+): CountedAttempt<T>[] {
+  const { policy = DEFAULT_GRADE_POLICY, equivalences = [] } = options;
+
+  const courses = new Map<string, CountedAttempt<T>[]>();
+  sortAttempts(transcript).forEach((attempt) => {
+    const grade = gradeOf(attempt);
+    if (grade === null) return;
+    const courseKey = getEquivalenceKey(equivalences, attempt.code);
+    if (!courses.has(courseKey)) courses.set(courseKey, []);
+    courses.get(courseKey)!.push({ courseKey, attempt, grade });
+  });
+
+  const counted: CountedAttempt<T>[] = [];
+  courses.forEach((attempts) => {
+    if (policy.retakeRule === "latest") {
+      counted.push(attempts[attempts.length - 1]);
+      return;
+    }
+    // Best grade by points; later attempts win ties
+    counted.push(
+      attempts.reduce((best, current) =>
+        (policy.gradePoints[current.grade] ?? -1) >=
+        (policy.gradePoints[best.grade] ?? -1)
+          ? current
+          : best
+      )
+    );
+  });
+  return counted;
+}
+
+// Grade used for the GPA: the actual or user-picked grade, ignoring
+// attempts that are still in progress
+const getGpaGrade = (attempt: AttemptLike) =>
+  stripPlannedMarker(attempt.grade) || null;
+
+/**
+ * Calculates the cumulative GPA from the attempt that counts for each course.
+ * An in-progress retake does not hide the grade of the earlier attempt.
+ */
+export function calculatePolicyGpa<T extends CreditAttempt>(
+  transcript: T[],
+  options: GradePolicyOptions = {}
+): Omit<GpaResult, "earnedCredits"> {
+  const { policy = DEFAULT_GRADE_POLICY } = options;
+  let points = 0;
+  let gpaCredits = 0;
+
+  resolveCountedAttempts(
+    transcript,
+    (attempt) => {
+      const grade = getGpaGrade(attempt);
+      return grade !== null && policy.gradePoints[grade] !== undefined
+        ? grade
+        : null;
+    },
+    options
+  ).forEach(({ attempt, grade }) => {
+    const credits = parseFloat(attempt.credits || "0");
+    points += policy.gradePoints[grade] * credits;
+    gpaCredits += credits;
+  });
+
+  return {
+    gpa: gpaCredits > 0 ? points / gpaCredits : 0,
+    gpaCredits,
+    points,
+  };
+}
+
+/**
+ * Returns the credits earned from the attempt that counts for each course, as
+ * seen from the selected semester.
+ */
+export function calculateEarnedCredits<T extends CreditAttempt>(
+  transcript: T[],
+  options: GradePolicyOptions = {}
+): number {
+  const { policy = DEFAULT_GRADE_POLICY, selectedSemester } = options;
+  return resolveCountedAttempts(
+    transcript,
+    (attempt) => getComparableGrade(attempt, selectedSemester),
+    options
+  )
+    .filter(({ grade }) => policy.creditGrades.includes(grade))
+    .reduce((sum, { attempt }) => sum + parseFloat(attempt.credits || "0"), 0);
+}
+
+export function calculateGpaResult<T extends CreditAttempt>(
+  transcript: T[],
+  options: GradePolicyOptions = {}
+): GpaResult {
+  return {
+    ...calculatePolicyGpa(transcript, options),
+    earnedCredits: calculateEarnedCredits(transcript, options),
+  };
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { TermInfo } from "@/lib/catalog-terms";
+import { buildTimetableIcs } from "@/lib/ics";
+import {
+  Lesson,
+  ONLINE_DELIVERY_MODE,
+  PHYSICAL_DELIVERY_MODE,
+} from "@/lib/lessons";
+
+const term: TermInfo = {
+  semester: "2025-2026 Güz",
+  startDate: "2025-09-22",
+  endDate: "2026-01-02",
+  holidays: ["2025-10-29", "2026-01-01"],
+};
+
+const lesson = (overrides: Partial<Lesson> = {}): Lesson => ({
+  lesson_id: "10001",
+  course_code: "BLG 101E",
+  delivery_mode: PHYSICAL_DELIVERY_MODE,
+  instructor: "Ayşe Yılmaz",
+  capacity: "60",
+  enrolled: "55",
+  sessions: [
+    { location: "EEB", day: "Çarşamba", time: "08:30/11:29", room: "5202" },
+  ],
+  ...overrides,
+});
+
+const now = new Date(Date.UTC(2025, 8, 1, 12, 0, 0));
+
+// Content lines with folded lines joined again
+const unfold = (content: string) => content.replace(/\r\n /g, "").split("\r\n");
+
+const getEvent = (content: string) => {
+  const lines = unfold(content);
+  return lines.slice(
+    lines.indexOf("BEGIN:VEVENT"),
+    lines.indexOf("END:VEVENT") + 1
+  );
+};
+
+describe("buildTimetableIcs", () => {
+  it("ends every line with CRLF", () => {
+    const { content } = buildTimetableIcs([lesson()], term, { now });
+    expect(content.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(content.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it("repeats a session weekly until the last day of classes", () => {
+    const { content, eventCount } = buildTimetableIcs([lesson()], term, {
+      now,
+    });
+    expect(eventCount).toBe(1);
+    expect(getEvent(content)).toEqual(
+      expect.arrayContaining([
+        "UID:10001-0-2025-09-22@foritu",
+        "DTSTAMP:20250901T120000Z",
+        // The first Wednesday of the term
+        "DTSTART;TZID=Europe/Istanbul:20250924T083000",
+        "DTEND;TZID=Europe/Istanbul:20250924T112900",
+        // 23:59:59 in Istanbul
+        "RRULE:FREQ=WEEKLY;UNTIL=20260102T205959Z",
+        "LOCATION:EEB 5202",
+      ])
+    );
+  });
+
+  it("leaves out holidays that fall on the day of the session", () => {
+    const wednesday = getEvent(
+      buildTimetableIcs([lesson()], term, { now }).content
+    );
+    expect(wednesday).toContain("EXDATE;TZID=Europe/Istanbul:20251029T083000");
+
+    const thursday = getEvent(
+      buildTimetableIcs(
+        [
+          lesson({
+            sessions: [
+              {
+                location: "EEB",
+                day: "Perşembe",
+                time: "13:30/15:29",
+                room: "",
+              },
+            ],
+          }),
+        ],
+        term,
+        { now }
+      ).content
+    );
+    expect(thursday).toContain("EXDATE;TZID=Europe/Istanbul:20260101T133000");
+    expect(thursday.filter((line) => line.startsWith("EXDATE"))).toHaveLength(
+      1
+    );
+  });
+
+  it("adds no EXDATE without holidays on the day", () => {
+    const event = getEvent(
+      buildTimetableIcs([lesson()], { ...term, holidays: undefined }, { now })
+        .content
+    );
+    expect(event.some((line) => line.startsWith("EXDATE"))).toBe(false);
+  });
+
+  it("escapes text values", () => {
+    const { content } = buildTimetableIcs(
+      [lesson({ instructor: "Dr. A\\B; C, D" })],
+      term,
+      { now, courseNames: { "BLG 101E": "Giriş, Uygulamalar; 1" } }
+    );
+    const event = getEvent(content);
+    expect(event).toContain("SUMMARY:BLG 101E - Giriş\\, Uygulamalar\\; 1");
+    expect(event).toContain(
+      `DESCRIPTION:CRN: 10001\\nInstructor: Dr. A\\\\B\\; C\\, D\\nDelivery mode: ${PHYSICAL_DELIVERY_MODE}`
+    );
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const name =
+      "Çok Değişkenli Fonksiyonların İntegral Hesabı ve Uygulamaları ".repeat(
+        3
+      );
+    const { content } = buildTimetableIcs([lesson()], term, {
+      now,
+      courseNames: { "BLG 101E": name },
+    });
+    const encoder = new TextEncoder();
+    const lines = content.split("\r\n");
+    lines.forEach((line) =>
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75)
+    );
+    expect(lines.some((line) => line.startsWith(" "))).toBe(true);
+    expect(getEvent(content)).toContain(`SUMMARY:BLG 101E - ${name}`);
+  });
+
+  it("skips sessions without a day or time", () => {
+    const result = buildTimetableIcs(
+      [
+        lesson({
+          delivery_mode: ONLINE_DELIVERY_MODE,
+          sessions: [
+            { location: "-", day: "Pazartesi", time: "10:30/11:29", room: "-" },
+            { location: "-", day: "-", time: "-/-", room: "-" },
+          ],
+        }),
+      ],
+      term,
+      { now }
+    );
+    expect(result.eventCount).toBe(1);
+    expect(result.skippedSessions).toBe(1);
+    expect(getEvent(result.content)).toContain("LOCATION:Online");
+  });
+});
@@ -0,0 +1,237 @@
+// iCalendar (RFC 5545) export of the weekly timetable: one weekly recurring
+// event per session of the selected sections, from the first to the last day
+// of classes of the term. Holidays of the term are left out with EXDATE.
+
+import { TermInfo } from "@/lib/catalog-terms";
+import {
+  Lesson,
+  LessonSession,
+  ONLINE_DELIVERY_MODE,
+  WEEK_DAYS,
+  formatClockTime,
+  getSessionDay,
+  parseSessionTime,
+} from "@/lib/lessons";
+
+export interface TimetableExportOptions {
+  // Course names by code, added to the event titles
+  courseNames?: Record<string, string>;
+  // Timestamp of the export, defaults to now
+  now?: Date;
+}
+
+export interface TimetableExport {
+  content: string;
+  eventCount: number;
+  // Sessions without a day or time ("-/-") that could not be exported
+  skippedSessions: number;
+}
+
+// All sessions take place in Istanbul, which has been UTC+3 all year since 2016
+const TIME_ZONE = "Europe/Istanbul";
+const UTC_OFFSET_MINUTES = 180;
+
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIME_ZONE}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:+0300",
+  "TZOFFSETTO:+0300",
+  "TZNAME:+03",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// Rooms and locations the catalog leaves empty
+const EMPTY_VALUES = ["", "-", "--"];
+
+// Helper function to escape commas, semicolons, backslashes and newlines
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds a content line into lines of at most 75 octets, as the format
+ * requires. Multi-byte characters (ç, ş, ...) are never split.
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+// "2025-09-22" as a UTC date, so day arithmetic ignores the local time zone
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// Local date-time in the form 20250922T083000
+function formatLocalDateTime(date: Date, minutes: number): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}T${formatClockTime(minutes).replace(":", "")}00`;
+}
+
+// UTC date-time in the form 20250922T053000Z
+function formatUtcDateTime(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+    date.getUTCSeconds()
+  )}Z`;
+}
+
+// First date on or after the term start that falls on the given week day
+function getFirstOccurrence(startDate: string, day: string): Date {
+  const start = parseDate(startDate);
+  // WEEK_DAYS starts on Monday, getUTCDay() on Sunday
+  const startDay = (start.getUTCDay() + 6) % 7;
+  const offset = (WEEK_DAYS.indexOf(day) - startDay + 7) % 7;
+  return new Date(start.getTime() + offset * DAY_MS);
+}
+
+function getSessionLocation(lesson: Lesson, session: LessonSession): string {
+  const parts = [session.location, session.room].filter(
+    (part) => !EMPTY_VALUES.includes(part.trim())
+  );
+  if (parts.length > 0) return parts.join(" ");
+  return lesson.delivery_mode === ONLINE_DELIVERY_MODE ? "Online" : "";
+}
+
+function buildSessionEvent(
+  lesson: Lesson,
+  session: LessonSession,
+  index: number,
+  term: TermInfo,
+  options: TimetableExportOptions,
+  stamp: string
+): string[] | null {
+  const day = getSessionDay(session);
+  const range = parseSessionTime(session.time);
+  if (!day || !range) return null;
+
+  const firstDate = getFirstOccurrence(term.startDate, day);
+  if (firstDate > parseDate(term.endDate)) return null;
+
+  // Last day of classes at 23:59:59 local time, converted to UTC
+  const until = new Date(
+    parseDate(term.endDate).getTime() +
+      (24 * 60 - UTC_OFFSET_MINUTES) * 60 * 1000 -
+      1000
+  );
+
+  // Occurrences that fall on a holiday
+  const exceptions = (term.holidays || [])
+    .map(parseDate)
+    .filter(
+      (holiday) =>
+        holiday >= firstDate &&
+        holiday <= parseDate(term.endDate) &&
+        (holiday.getTime() - firstDate.getTime()) % WEEK_MS === 0
+    )
+    .sort((a, b) => a.getTime() - b.getTime())
+    .map((holiday) => formatLocalDateTime(holiday, range.start));
+
+  const courseName = options.courseNames?.[lesson.course_code];
+  const instructor = EMPTY_VALUES.includes(lesson.instructor.trim())
+    ? "TBA"
+    : lesson.instructor;
+  const description = [
+    `CRN: ${lesson.lesson_id}`,
+    `Instructor: ${instructor}`,
+    `Delivery mode: ${lesson.delivery_mode}`,
+  ].join("\n");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${lesson.lesson_id}-${index}-${term.startDate}@foritu`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${TIME_ZONE}:${formatLocalDateTime(firstDate, range.start)}`,
+    `DTEND;TZID=${TIME_ZONE}:${formatLocalDateTime(firstDate, range.end)}`,
+    `RRULE:FREQ=WEEKLY;UNTIL=${formatUtcDateTime(until)}`,
+    ...(exceptions.length > 0
+      ? [`EXDATE;TZID=${TIME_ZONE}:${exceptions.join(",")}`]
+      : []),
+    `SUMMARY:${escapeText(
+      courseName ? `${lesson.course_code} - ${courseName}` : lesson.course_code
+    )}`,
+    `DESCRIPTION:${escapeText(description)}`,
+  ];
+  const location = getSessionLocation(lesson, session);
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Builds an .ics calendar with a weekly event for every scheduled session of
+ * the given sections, bounded by the term's first and last day of classes.
+ */
+export function buildTimetableIcs(
+  lessons: Lesson[],
+  term: TermInfo,
+  options: TimetableExportOptions = {}
+): TimetableExport {
+  const stamp = formatUtcDateTime(options.now || new Date());
+  const events: string[][] = [];
+  let skippedSessions = 0;
+
+  lessons.forEach((lesson) => {
+    lesson.sessions.forEach((session, index) => {
+      const event = buildSessionEvent(
+        lesson,
+        session,
+        index,
+        term,
+        options,
+        stamp
+      );
+      if (event) events.push(event);
+      else skippedSessions++;
+    });
+  });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Foritu//Timetable//TR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`Foritu ${term.semester}`)}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    ...VTIMEZONE,
+    ...events.flat(),
+    "END:VCALENDAR",
+  ];
+
+  return {
+    content: lines.map(foldLine).join("\r\n") + "\r\n",
+    eventCount: events.length,
+    skippedSessions,
+  };
+}
@@ -0,0 +1,160 @@
+// Parser for the pipe-separated lesson export (lessons.psv) that lessons.json
+// was originally converted from.
+
+import { Lesson, LessonSession, LessonsFile } from "@/lib/lessons";
+import { CatalogValidationError } from "@/lib/catalog-schema";
+import { canonicalizeCourseCode } from "@/lib/course-codes";
+
+type LessonColumn =
+  | "lesson_id"
+  | "course_code"
+  | "delivery_mode"
+  | "instructor"
+  | "location"
+  | "day"
+  | "time"
+  | "room"
+  | "capacity"
+  | "enrolled"
+  | "allowed_programs";
+
+// Header names accepted for each column (English, Turkish and JSON names)
+const COLUMN_ALIASES: Record<LessonColumn, string[]> = {
+  lesson_id: ["crn", "lesson_id"],
+  course_code: ["course code", "ders kodu", "course_code"],
+  delivery_mode: ["teaching method", "öğretim yöntemi", "delivery_mode"],
+  instructor: ["instructor", "öğretim üyesi", "eğitmen"],
+  location: ["building", "bina", "location"],
+  day: ["day", "gün"],
+  time: ["time", "saat"],
+  room: ["room", "derslik"],
+  capacity: ["capacity", "kontenjan"],
+  enrolled: ["enrolled", "yazılan"],
+  allowed_programs: [
+    "major restriction",
+    "bölüm sınırlaması",
+    "allowed_programs",
+  ],
+};
+
+const REQUIRED_COLUMNS: LessonColumn[] = ["lesson_id", "course_code"];
+
+const splitValues = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+/**
+ * Normalizes a session time to "HH:MM/HH:MM", accepting "0830/1029" and
+ * "8:30/10:29". Sessions without a time become "-/-".
+ */
+export function normalizeSessionTime(time: string): string {
+  const match = time
+    .trim()
+    .match(/^(\d{1,2}):?(\d{2})\s*\/\s*(\d{1,2}):?(\d{2})$/);
+  if (!match) return "-/-";
+  const [, startHour, startMinute, endHour, endMinute] = match;
+  return `${startHour.padStart(2, "0")}:${startMinute}/${endHour.padStart(
+    2,
+    "0"
+  )}:${endMinute}`;
+}
+
+function findColumns(header: string[], source: string) {
+  // Plain toLowerCase so "Instructor" does not become "ınstructor"
+  const normalizedHeader = header.map((name) => name.trim().toLowerCase());
+  const columns = {} as Record<LessonColumn, number>;
+
+  (Object.keys(COLUMN_ALIASES) as LessonColumn[]).forEach((column) => {
+    columns[column] = normalizedHeader.findIndex((name) =>
+      COLUMN_ALIASES[column].includes(name)
+    );
+  });
+
+  const missing = REQUIRED_COLUMNS.filter((column) => columns[column] === -1);
+  if (missing.length > 0) {
+    throw new CatalogValidationError(
+      source,
+      missing.map((column) => `missing column "${column}"`)
+    );
+  }
+  return columns;
+}
+
+/**
+ * Builds one session per entry of the multi-valued building, day, time and
+ * room columns, e.g. "Pazartesi Çarşamba" with "0830/1029 1330/1529".
+ */
+function parseSessions(
+  locations: string[],
+  days: string[],
+  times: string[],
+  rooms: string[]
+): LessonSession[] {
+  const count = Math.max(days.length, times.length, 1);
+  const sessions: LessonSession[] = [];
+  for (let i = 0; i < count; i++) {
+    sessions.push({
+      // A single building or room applies to every session
+      location: locations[i] || locations[0] || "-",
+      day: days[i] || "-",
+      time: normalizeSessionTime(times[i] || ""),
+      room: rooms[i] || rooms[0] || "--",
+    });
+  }
+  return sessions;
+}
+
+export function parseLessonsPsv(content: string, source: string): LessonsFile {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) {
+    throw new CatalogValidationError(source, ["file is empty"]);
+  }
+
+  const columns = findColumns(lines[0].split("|"), source);
+  const issues: string[] = [];
+
+  const cell = (cells: string[], column: LessonColumn) =>
+    columns[column] === -1 ? "" : (cells[columns[column]] || "").trim();
+
+  const lessons: Lesson[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const cells = line.split("|");
+    const lessonId = cell(cells, "lesson_id");
+    const courseCode = cell(cells, "course_code");
+    if (!lessonId || !courseCode) {
+      // Line numbers are 1-based and include the header
+      issues.push(`line ${index + 2}: missing CRN or course code`);
+      return;
+    }
+
+    lessons.push({
+      lesson_id: lessonId,
+      course_code: canonicalizeCourseCode(courseCode),
+      delivery_mode: cell(cells, "delivery_mode"),
+      instructor: cell(cells, "instructor") || "-",
+      sessions: parseSessions(
+        splitValues(cell(cells, "location")),
+        splitValues(cell(cells, "day")),
+        splitValues(cell(cells, "time")),
+        splitValues(cell(cells, "room"))
+      ),
+      capacity: cell(cells, "capacity") || "0",
+      enrolled: cell(cells, "enrolled") || "0",
+      allowed_programs: splitValues(cell(cells, "allowed_programs")),
+    });
+  });
+
+  if (issues.length > 0) throw new CatalogValidationError(source, issues);
+
+  return {
+    metadata: {
+      source_file: source,
+      total_lessons: lessons.length,
+      conversion_notes:
+        "Location, days, times, and room fields parsed into sessions array",
+    },
+    lessons,
+  };
+}
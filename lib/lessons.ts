@@ -0,0 +1,194 @@
+// Types, time and availability helpers for the course sections in
+// lessons.json.
+
+export interface LessonSession {
+  location: string;
+  day: string;
+  time: string;
+  room: string;
+}
+
+export interface Lesson {
+  lesson_id: string;
+  course_code: string;
+  delivery_mode: string;
+  instructor: string;
+  capacity: string;
+  enrolled: string;
+  sessions: LessonSession[];
+  allowed_programs?: string[];
+}
+
+export interface LessonsFile {
+  metadata?: Record<string, unknown>;
+  lessons: Lesson[];
+}
+
+export interface TimeRange {
+  // Minutes since midnight
+  start: number;
+  end: number;
+}
+
+export const ONLINE_DELIVERY_MODE = "Sanal (Çevrimiçi/Online)";
+export const PHYSICAL_DELIVERY_MODE = "Fiziksel (Yüz yüze)";
+
+// Map Turkish day names to English
+export const DAY_NAME_MAP: Record<string, string> = {
+  Pazartesi: "Monday",
+  Salı: "Tuesday",
+  Çarşamba: "Wednesday",
+  Perşembe: "Thursday",
+  Cuma: "Friday",
+  Cumartesi: "Saturday",
+  Pazar: "Sunday",
+};
+
+export const WEEK_DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+/**
+ * Parses "HH:MM" into minutes since midnight.
+ */
+export function parseClockTime(time: string): number | null {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+}
+
+export function formatClockTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, "0")}:${mins
+    .toString()
+    .padStart(2, "0")}`;
+}
+
+/**
+ * Parses a session time such as "08:30/10:29". Returns null for sessions
+ * without a time ("-/-").
+ */
+export function parseSessionTime(time: string): TimeRange | null {
+  const parts = time.split("/");
+  if (parts.length !== 2) return null;
+
+  const start = parseClockTime(parts[0]);
+  const end = parseClockTime(parts[1]);
+  if (start === null || end === null) return null;
+
+  return { start, end };
+}
+
+export function getSessionDay(session: LessonSession): string | null {
+  return DAY_NAME_MAP[session.day] || null;
+}
+
+// Whether the session has a day and time and can be placed on a calendar
+export function isScheduledSession(session: LessonSession): boolean {
+  return (
+    getSessionDay(session) !== null && parseSessionTime(session.time) !== null
+  );
+}
+
+export function isOnlineLesson(lesson: Lesson): boolean {
+  return lesson.delivery_mode === ONLINE_DELIVERY_MODE;
+}
+
+export function timeRangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+export function sessionsOverlap(a: LessonSession, b: LessonSession): boolean {
+  if (a.day !== b.day) return false;
+
+  const rangeA = parseSessionTime(a.time);
+  const rangeB = parseSessionTime(b.time);
+  if (!rangeA || !rangeB) return false;
+
+  return timeRangesOverlap(rangeA, rangeB);
+}
+
+/**
+ * Whether any session of one lesson overlaps a session of the other.
+ */
+export function lessonsConflict(a: Lesson, b: Lesson): boolean {
+  return a.sessions.some((sessionA) =>
+    b.sessions.some((sessionB) => sessionsOverlap(sessionA, sessionB))
+  );
+}
+
+export type SectionRestriction = "program" | "full";
+
+// Program codes in lessons.json end with the degree level, e.g. "BLGE_LS"
+const UNDERGRADUATE_PROGRAM_SUFFIX = "_LS";
+
+/**
+ * Whether students of the program can register for the section. Sections
+ * without a program list, or an unknown program, are treated as open.
+ */
+export function isProgramAllowed(
+  lesson: Lesson,
+  programCode: string | null | undefined
+): boolean {
+  if (!programCode || !lesson.allowed_programs?.length) return true;
+  return lesson.allowed_programs.includes(programCode);
+}
+
+export function getAvailableSeats(lesson: Lesson): number | null {
+  const capacity = parseInt(lesson.capacity);
+  const enrolled = parseInt(lesson.enrolled);
+  if (isNaN(capacity) || isNaN(enrolled)) return null;
+  return Math.max(capacity - enrolled, 0);
+}
+
+export function isLessonFull(lesson: Lesson): boolean {
+  return getAvailableSeats(lesson) === 0;
+}
+
+export function getSectionRestrictions(
+  lesson: Lesson,
+  programCode: string | null | undefined
+): SectionRestriction[] {
+  const restrictions: SectionRestriction[] = [];
+  if (!isProgramAllowed(lesson, programCode)) restrictions.push("program");
+  if (isLessonFull(lesson)) restrictions.push("full");
+  return restrictions;
+}
+
+export function isSectionAvailable(
+  lesson: Lesson,
+  programCode: string | null | undefined
+): boolean {
+  return getSectionRestrictions(lesson, programCode).length === 0;
+}
+
+/**
+ * Guesses the program code of a plan from its course codes: the most common
+ * subject prefix, with an "E" for English programs (e.g. "BLGE_LS").
+ */
+export function inferProgramCode(courseCodes: string[]): string | null {
+  const prefixCounts = new Map<string, number>();
+  courseCodes.forEach((code) => {
+    const prefix = code.trim().split(/\s+/)[0];
+    if (prefix) prefixCounts.set(prefix, (prefixCounts.get(prefix) || 0) + 1);
+  });
+  if (prefixCounts.size === 0) return null;
+
+  const [prefix] = [...prefixCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+  const programCourses = courseCodes.filter((code) =>
+    code.trim().startsWith(`${prefix} `)
+  );
+  const englishCourses = programCourses.filter((code) =>
+    /\d+E$/.test(code.trim())
+  );
+  const isEnglish = englishCourses.length * 2 > programCourses.length;
+
+  return `${prefix}${isEnglish ? "E" : ""}${UNDERGRADUATE_PROGRAM_SUFFIX}`;
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createLogger, hashUserId, redact } from "@/lib/logger";
+
+const transcript = [
+  {
+    semester: "2023-2024 Güz Dönemi",
+    code: "MAT 103",
+    name: "Mathematics I",
+    credits: "4",
+    grade: "CC",
+  },
+];
+
+beforeEach(() => {
+  vi.stubEnv("LOG_LEVEL", "debug");
+  vi.stubEnv("LOG_FORMAT", "json");
+  vi.stubEnv("LOG_REDACT", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+// The JSON lines written by the logger
+const captureLines = () => {
+  const print = vi.spyOn(console, "log").mockImplementation(() => {});
+  return () =>
+    print.mock.calls.map(([line]) => JSON.parse(line as string) as object);
+};
+
+describe("redact", () => {
+  it("masks the names and grades of transcript courses", () => {
+    expect(redact({ courses: transcript })).toEqual({
+      courses: [
+        {
+          semester: "2023-2024 Güz Dönemi",
+          code: "MAT 103",
+          name: "[redacted]",
+          credits: "4",
+          grade: "[redacted]",
+        },
+      ],
+    });
+  });
+
+  it("masks personal data and credentials in any letter case", () => {
+    expect(
+      redact({
+        studentName: "Ayşe Yılmaz",
+        Email: "ayse@itu.edu.tr",
+        debug: { lines: ["MAT 103 CC"] },
+        token: "eyJhbGciOi",
+        headers: { Authorization: "Bearer eyJhbGciOi", cookie: "__session=1" },
+        accessToken: "at",
+        password: "hunter2",
+      })
+    ).toEqual({
+      studentName: "[redacted]",
+      Email: "[redacted]",
+      debug: "[redacted]",
+      token: "[redacted]",
+      headers: { Authorization: "[redacted]", cookie: "[redacted]" },
+      accessToken: "[redacted]",
+      password: "[redacted]",
+    });
+  });
+
+  it("replaces user ids by a stable hash", () => {
+    const { userId, adminId } = redact({
+      userId: "user_1",
+      adminId: "user_2",
+    }) as Record<string, string>;
+    expect(userId).toBe(hashUserId("user_1"));
+    expect(userId).toMatch(/^user:[0-9a-f]{12}$/);
+    expect(adminId).not.toBe(userId);
+  });
+
+  it("logs only the length of payloads", () => {
+    expect(
+      redact({ pdf_base64: "JVBERi0x", text: "x".repeat(300), code: "ok" })
+    ).toEqual({
+      pdf_base64: "[base64, 8 chars]",
+      text: "[300 chars]",
+      code: "ok",
+    });
+  });
+
+  it("masks the cause of an error", () => {
+    const error = new Error("Store failed", {
+      cause: { userId: "user_1", grade: "AA" },
+    });
+    expect(redact({ error })).toMatchObject({
+      error: {
+        message: "Store failed",
+        cause: { userId: hashUserId("user_1"), grade: "[redacted]" },
+      },
+    });
+  });
+});
+
+describe("createLogger", () => {
+  it("writes redacted fields", () => {
+    const lines = captureLines();
+    createLogger("actions").info("Stored transcript", {
+      userId: "user_1",
+      courses: transcript,
+      token: "eyJhbGciOi",
+    });
+
+    const [line] = lines();
+    expect(line).toMatchObject({
+      level: "info",
+      scope: "actions",
+      message: "Stored transcript",
+      userId: hashUserId("user_1"),
+      token: "[redacted]",
+      courses: [{ code: "MAT 103", name: "[redacted]", grade: "[redacted]" }],
+    });
+    expect(JSON.stringify(line)).not.toContain("user_1");
+    expect(JSON.stringify(line)).not.toContain("Mathematics");
+  });
+
+  it("writes the data as is when redaction is turned off", () => {
+    vi.stubEnv("LOG_REDACT", "false");
+    const lines = captureLines();
+    createLogger("actions").debug("Parsed", { courses: transcript });
+    expect(lines()[0]).toMatchObject({ courses: transcript });
+  });
+
+  it("always redacts in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("LOG_REDACT", "false");
+    const lines = captureLines();
+    createLogger("actions").info("Parsed", { courses: transcript });
+    expect(lines()[0]).toMatchObject({
+      courses: [{ name: "[redacted]", grade: "[redacted]" }],
+    });
+  });
+
+  it("leaves out lines below the log level", () => {
+    vi.stubEnv("LOG_LEVEL", "warn");
+    const lines = captureLines();
+    createLogger("actions").info("Parsed");
+    expect(lines()).toEqual([]);
+  });
+});
@@ -0,0 +1,231 @@
+// Server-side logging with levels, a correlation id per request and redaction
+// of personal data. LOG_LEVEL sets the lowest level written (default "info"
+// in production, "debug" otherwise). Production writes one JSON object per
+// line; elsewhere lines are formatted for reading (LOG_FORMAT=json|pretty).
+//
+// Grades, names, email addresses, credentials, parser debug output and base64
+// payloads are masked and user ids are replaced by a short hash, so a user can
+// still be followed across lines. Outside production LOG_REDACT=false turns
+// this off, e.g. LOG_LEVEL=debug LOG_REDACT=false to trace parse -> store ->
+// update with the actual data.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomUUID } from "node:crypto";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+interface RequestContext {
+  requestId: string;
+  action: string;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Fields whose value is replaced entirely (compared in lower case)
+const REDACTED_FIELDS = new Set([
+  "name",
+  "firstname",
+  "lastname",
+  "fullname",
+  "studentname",
+  "email",
+  "emailaddress",
+  "grade",
+  "debug",
+  // Credentials, e.g. from request headers or the Clerk session
+  "token",
+  "accesstoken",
+  "refreshtoken",
+  "sessiontoken",
+  "authorization",
+  "cookie",
+  "password",
+  "secret",
+]);
+
+const BASE64_FIELDS = new Set(["pdf_base64", "base64", "base64data"]);
+
+const USER_ID_FIELDS = new Set(["userid", "adminid"]);
+
+// Any longer string is assumed to be a payload and only its length is logged
+const MAX_STRING_LENGTH = 256;
+
+const MAX_DEPTH = 6;
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const isProduction = () => process.env.NODE_ENV === "production";
+
+function getMinLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.trim().toLowerCase();
+  if (level && level in LOG_LEVELS) return level as LogLevel;
+  return isProduction() ? "info" : "debug";
+}
+
+const isRedactionEnabled = () =>
+  isProduction() || process.env.LOG_REDACT !== "false";
+
+const useJsonFormat = () =>
+  process.env.LOG_FORMAT ? process.env.LOG_FORMAT === "json" : isProduction();
+
+/**
+ * Starts the log context of a server action or API route and returns its
+ * request id. Calls made later in the same request, including nested actions,
+ * keep the id of the first call so their lines can be correlated.
+ */
+export function startRequest(action: string): string {
+  const current = requestContext.getStore();
+  if (current) return current.requestId;
+
+  const context = { requestId: randomUUID(), action };
+  requestContext.enterWith(context);
+  return context.requestId;
+}
+
+/**
+ * Returns a short, stable stand-in for a user id.
+ */
+export function hashUserId(userId: string): string {
+  return `user:${createHash("sha256")
+    .update(userId)
+    .digest("hex")
+    .slice(0, 12)}`;
+}
+
+// Helper function to mask the personal data in a value logged under `key`
+function redactValue(key: string, value: unknown, depth: number): unknown {
+  const field = key.toLowerCase();
+  if (value === undefined || value === null) return value;
+
+  if (BASE64_FIELDS.has(field) && typeof value === "string") {
+    return `[base64, ${value.length} chars]`;
+  }
+  if (REDACTED_FIELDS.has(field)) return "[redacted]";
+  if (USER_ID_FIELDS.has(field) && typeof value === "string") {
+    return hashUserId(value);
+  }
+  if (typeof value === "string" && value.length > MAX_STRING_LENGTH) {
+    return `[${value.length} chars]`;
+  }
+  return redact(value, depth + 1);
+}
+
+/**
+ * Returns a copy of a value with the personal data masked, field by field.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) return serializeError(value, depth);
+  if (typeof value !== "object" || value === null) return value;
+  if (depth >= MAX_DEPTH) return "[nested too deep]";
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue("", item, depth));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      redactValue(key, item, depth),
+    ])
+  );
+}
+
+// Helper function to turn an error into fields; the stack is left out in
+// production
+function serializeError(error: Error, depth: number): LogFields {
+  const fields: LogFields = { name: error.name, message: error.message };
+  const code = (error as { code?: unknown }).code;
+  if (code !== undefined) fields.code = code;
+  if (!isProduction() && error.stack) fields.stack = error.stack;
+  if (error.cause !== undefined) {
+    fields.cause = isRedactionEnabled()
+      ? redact(error.cause, depth + 1)
+      : error.cause;
+  }
+  return fields;
+}
+
+// Helper function to replace errors in unredacted fields with their fields,
+// since JSON.stringify writes an Error as {}
+function serializeErrors(fields: LogFields): LogFields {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [
+      key,
+      value instanceof Error ? serializeError(value, 0) : value,
+    ])
+  );
+}
+
+function write(
+  scope: string,
+  level: LogLevel,
+  message: string,
+  fields?: LogFields
+) {
+  if (LOG_LEVELS[level] < LOG_LEVELS[getMinLevel()]) return;
+
+  const context = requestContext.getStore();
+  const data = fields
+    ? isRedactionEnabled()
+      ? (redact(fields) as LogFields)
+      : serializeErrors(fields)
+    : {};
+  const print =
+    level === "error"
+      ? console.error
+      : level === "warn"
+      ? console.warn
+      : console.log;
+
+  if (useJsonFormat()) {
+    print(
+      JSON.stringify({
+        ...data,
+        time: new Date().toISOString(),
+        level,
+        scope,
+        requestId: context?.requestId,
+        action: context?.action,
+        message,
+      })
+    );
+    return;
+  }
+
+  const prefix = context
+    ? `[${context.requestId.slice(0, 8)} ${context.action}]`
+    : "";
+  const line = `${level.toUpperCase()} ${scope}${
+    prefix && ` ${prefix}`
+  }: ${message}`;
+  if (Object.keys(data).length > 0) {
+    print(line, data);
+  } else {
+    print(line);
+  }
+}
+
+/**
+ * Creates a logger whose lines are tagged with `scope`, e.g. "actions".
+ */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, fields) => write(scope, "debug", message, fields),
+    info: (message, fields) => write(scope, "info", message, fields),
+    warn: (message, fields) => write(scope, "warn", message, fields),
+    error: (message, fields) => write(scope, "error", message, fields),
+  };
+}
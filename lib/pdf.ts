@@ -0,0 +1,222 @@
+// Minimal PDF writer for server-side exports: A4 pages with text in the
+// built-in Helvetica fonts, lines and filled rectangles. No fonts are
+// embedded; Turkish letters outside WinAnsi (ğ, ş, ı, İ, ...) are mapped to
+// Helvetica glyphs through a custom encoding.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type PdfFont = "regular" | "bold";
+
+// Gray level or RGB components, 0 to 1
+export type PdfColor = number | [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+}
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: "F1",
+  bold: "F2",
+};
+
+// Codes 128-133 are re-mapped to the Turkish letters WinAnsi lacks
+const EXTRA_GLYPHS: [string, string][] = [
+  ["Ğ", "Gbreve"],
+  ["ğ", "gbreve"],
+  ["Ş", "Scedilla"],
+  ["ş", "scedilla"],
+  ["İ", "Idotaccent"],
+  ["ı", "dotlessi"],
+];
+const EXTRA_CODES = new Map(
+  EXTRA_GLYPHS.map(([char], index) => [char, 128 + index])
+);
+
+// Approximate Helvetica advance widths (per 1000 units) used for truncation
+const AVERAGE_CHAR_WIDTH: Record<PdfFont, number> = {
+  regular: 530,
+  bold: 580,
+};
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? value.toString() : value.toFixed(2);
+
+function formatColor(color: PdfColor, stroke: boolean): string {
+  if (typeof color === "number") {
+    return `${formatNumber(color)} ${stroke ? "G" : "g"}`;
+  }
+  return `${color.map(formatNumber).join(" ")} ${stroke ? "RG" : "rg"}`;
+}
+
+// Printable ASCII and Latin-1 characters keep their code, others become "?"
+const toWinAnsi = (code: number) =>
+  (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? code : 63;
+
+/**
+ * Encodes text for a PDF string literal: WinAnsi bytes with the Turkish
+ * letters re-mapped, other characters replaced by "?".
+ */
+function encodeText(text: string): string {
+  let encoded = "";
+  for (const char of text.normalize("NFC")) {
+    const code = EXTRA_CODES.get(char) ?? toWinAnsi(char.charCodeAt(0));
+    if (char === "(" || char === ")" || char === "\\") encoded += `\\${char}`;
+    else if (code > 126) encoded += `\\${code.toString(8).padStart(3, "0")}`;
+    else encoded += String.fromCharCode(code);
+  }
+  return encoded;
+}
+
+/**
+ * Estimated width of a text in points, good enough to fit table cells.
+ */
+export function measureText(
+  text: string,
+  size: number,
+  font: PdfFont = "regular"
+): number {
+  return (text.length * AVERAGE_CHAR_WIDTH[font] * size) / 1000;
+}
+
+/**
+ * Shortens a text with "..." so it fits the given width.
+ */
+export function fitText(
+  text: string,
+  width: number,
+  size: number,
+  font: PdfFont = "regular"
+): string {
+  if (measureText(text, size, font) <= width) return text;
+  const maxChars = Math.floor(
+    (width * 1000) / (AVERAGE_CHAR_WIDTH[font] * size)
+  );
+  return `${text.slice(0, Math.max(maxChars - 3, 0)).trimEnd()}...`;
+}
+
+/**
+ * A PDF being drawn page by page. Coordinates are in points from the top-left
+ * corner of the page, like the screen.
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+  private pageIndex = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.pageIndex = this.pages.length - 1;
+  }
+
+  // Continues drawing on an earlier page, e.g. to add page numbers
+  goToPage(index: number): void {
+    this.pageIndex = Math.min(Math.max(index, 0), this.pages.length - 1);
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pageIndex];
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+    const { size = 10, font = "regular", color = 0 } = options;
+    this.current.push(
+      `BT /${FONT_NAMES[font]} ${formatNumber(size)} Tf ${formatColor(
+        color,
+        false
+      )} ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y)} Td (${encodeText(
+        text
+      )}) Tj ET`
+    );
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: PdfColor = 0.8,
+    width = 0.5
+  ) {
+    this.current.push(
+      `${formatColor(color, true)} ${formatNumber(width)} w ${formatNumber(
+        x1
+      )} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(
+        PAGE_HEIGHT - y2
+      )} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor) {
+    this.current.push(
+      `${formatColor(fill, false)} ${formatNumber(x)} ${formatNumber(
+        PAGE_HEIGHT - y - height
+      )} ${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  /**
+   * Serializes the document. Every character of the returned string is a
+   * single byte, so it can be sent with Buffer.from(pdf, "latin1").
+   */
+  toString(): string {
+    const objects: string[] = [];
+    const addObject = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = addObject("");
+    const pagesId = addObject("");
+    const encoding = `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [128 ${EXTRA_GLYPHS.map(
+      ([, glyph]) => `/${glyph}`
+    ).join(" ")}] >>`;
+    const regularId = addObject(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding ${encoding} >>`
+    );
+    const boldId = addObject(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding ${encoding} >>`
+    );
+
+    const pageIds = this.pages.map((operations) => {
+      const stream = operations.join("\n");
+      const contentId = addObject(
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+      );
+      return addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds
+      .map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pageIds.length} >>`;
+
+    let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach((offset) => {
+      output += `${offset.toString().padStart(10, "0")} 00000 n \n`;
+    });
+    output += `trailer\n<< /Size ${
+      objects.length + 1
+    } /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return output;
+  }
+}
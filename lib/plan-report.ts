@@ -0,0 +1,352 @@
+// Printable report of a student's plan for advisors: GPA summary, every
+// semester with its courses and grades, the remaining graduation
+// requirements and the weekly timetable, laid out on A4 pages.
+
+import {
+  formatClassStanding,
+  getClassStanding,
+  getTranscriptUpToSemester,
+} from "@/lib/academic";
+import { GraduationAudit } from "@/lib/audit";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import { CreditAttempt, calculateGpaResult } from "@/lib/grade-policy";
+import { Lesson, formatClockTime } from "@/lib/lessons";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  PdfDocument,
+  PdfFont,
+  fitText,
+  measureText,
+} from "@/lib/pdf";
+import {
+  ACADEMIC_STATUS_LABELS,
+  calculateStandingTimeline,
+} from "@/lib/standing";
+import { buildTimetable } from "@/lib/timetable";
+
+export type ReportAttempt = CreditAttempt & { name: string };
+
+export interface PlanReportData {
+  transcript: ReportAttempt[];
+  equivalences: CourseEquivalenceGroups;
+  // Semester the summary is calculated up to, defaults to the whole transcript
+  referenceSemester?: string | null;
+  audit?: GraduationAudit | null;
+  // Sections of the timetable and the term they belong to
+  timetable?: { semester: string; lessons: Lesson[] } | null;
+  studentName?: string | null;
+  generatedAt?: Date;
+}
+
+interface ReportColumn {
+  title: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 14;
+const FONT_SIZE = 9;
+
+const HEADER_FILL: [number, number, number] = [0.9, 0.94, 1];
+const MUTED_COLOR = 0.4;
+
+const PLACEHOLDER_CODE = "PLACEHOLDER";
+
+// Helper function to format a GPA that may not exist yet
+const formatGpa = (gpa: number | null) => (gpa === null ? "-" : gpa.toFixed(2));
+
+// Helper function to round credits to one decimal place
+const formatCredits = (credits: number) =>
+  (Math.round(credits * 10) / 10).toString();
+
+// Lays out blocks of content top to bottom, starting a new page when the
+// next block does not fit
+class ReportLayout {
+  doc = new PdfDocument();
+  y = MARGIN;
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(40);
+    this.y += 14;
+    this.doc.text(MARGIN, this.y, text, { size: 13, font: "bold" });
+    this.y += 6;
+    this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, 0.6, 1);
+    this.y += 12;
+  }
+
+  paragraph(text: string, color: number = MUTED_COLOR) {
+    this.ensureSpace(ROW_HEIGHT);
+    this.doc.text(MARGIN, this.y, fitText(text, CONTENT_WIDTH, FONT_SIZE), {
+      size: FONT_SIZE,
+      color,
+    });
+    this.y += ROW_HEIGHT;
+  }
+
+  private row(
+    columns: ReportColumn[],
+    cells: string[],
+    font: PdfFont,
+    fill?: [number, number, number] | number
+  ) {
+    if (fill !== undefined) {
+      this.doc.rect(MARGIN, this.y - 10, CONTENT_WIDTH, ROW_HEIGHT, fill);
+    }
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      const text = fitText(
+        cells[index] || "",
+        column.width - 6,
+        FONT_SIZE,
+        font
+      );
+      const textX =
+        column.align === "right"
+          ? x + column.width - 4 - measureText(text, FONT_SIZE, font)
+          : x + 3;
+      this.doc.text(textX, this.y, text, { size: FONT_SIZE, font });
+      x += column.width;
+    });
+    this.y += ROW_HEIGHT;
+  }
+
+  /**
+   * Draws a table, repeating the header row on every page it continues on.
+   * Columns without titles have no header row.
+   */
+  table(columns: ReportColumn[], rows: string[][], title?: string) {
+    const hasHeader = columns.some((column) => column.title);
+    const drawHeader = () => {
+      if (title) {
+        this.doc.text(MARGIN, this.y, title, { size: 10, font: "bold" });
+        this.y += ROW_HEIGHT;
+      }
+      if (!hasHeader) return;
+      this.row(
+        columns,
+        columns.map((column) => column.title),
+        "bold",
+        HEADER_FILL
+      );
+    };
+
+    // Keep the title, header and first rows together
+    this.ensureSpace(ROW_HEIGHT * (Math.min(rows.length, 3) + 2));
+    drawHeader();
+    rows.forEach((cells, index) => {
+      if (this.y + ROW_HEIGHT > PAGE_HEIGHT - MARGIN) {
+        this.doc.addPage();
+        this.y = MARGIN;
+        drawHeader();
+      }
+      this.row(columns, cells, "regular", index % 2 === 1 ? 0.97 : undefined);
+    });
+    this.y += 8;
+  }
+}
+
+function drawSummary(layout: ReportLayout, data: PlanReportData) {
+  const transcript = data.referenceSemester
+    ? getTranscriptUpToSemester(data.transcript, data.referenceSemester)
+    : data.transcript;
+  const { gpa, earnedCredits } = calculateGpaResult(transcript, {
+    equivalences: data.equivalences,
+    selectedSemester: data.referenceSemester,
+  });
+
+  const rows = [
+    ["Cumulative GPA", gpa.toFixed(2)],
+    ["Earned credits", formatCredits(earnedCredits)],
+    ["Class standing", formatClassStanding(getClassStanding(earnedCredits))],
+  ];
+  if (data.audit) {
+    rows.push(
+      ["Plan credits completed", formatCredits(data.audit.completedCredits)],
+      ["Plan credits remaining", formatCredits(data.audit.remainingCredits)]
+    );
+  }
+
+  layout.heading(
+    data.referenceSemester
+      ? `Summary (as of ${data.referenceSemester})`
+      : "Summary"
+  );
+  layout.table(
+    [
+      { title: "", width: 200 },
+      { title: "", width: 120 },
+    ],
+    rows
+  );
+}
+
+function drawSemesters(layout: ReportLayout, data: PlanReportData) {
+  const timeline = calculateStandingTimeline(
+    data.transcript,
+    data.equivalences
+  );
+  layout.heading("Semesters");
+
+  const columns: ReportColumn[] = [
+    { title: "Code", width: 75 },
+    { title: "Course", width: CONTENT_WIDTH - 185 },
+    { title: "Credits", width: 55, align: "right" },
+    { title: "Grade", width: 55 },
+  ];
+
+  timeline.forEach((standing) => {
+    const courses = data.transcript.filter(
+      (attempt) =>
+        attempt.semester === standing.semester &&
+        attempt.code !== PLACEHOLDER_CODE
+    );
+    if (courses.length === 0) return;
+
+    const title = `${standing.semester}${
+      standing.isPlanned ? " (planned)" : ""
+    }  -  Term GPA ${formatGpa(standing.termGpa)}, cumulative ${formatGpa(
+      standing.cumulativeGpa
+    )}, ${formatCredits(standing.creditsEarned)}/${formatCredits(
+      standing.creditsAttempted
+    )} credits, ${ACADEMIC_STATUS_LABELS[standing.status]}`;
+
+    layout.table(
+      columns,
+      courses.map((course) => [
+        course.code,
+        course.name,
+        course.credits,
+        course.grade === "--" ? "In progress" : course.grade,
+      ]),
+      title
+    );
+  });
+}
+
+function drawRemainingRequirements(
+  layout: ReportLayout,
+  audit: GraduationAudit
+) {
+  const remaining = audit.requirements.filter(
+    (requirement) => requirement.status !== "completed"
+  );
+  layout.heading("Remaining requirements");
+  if (remaining.length === 0) {
+    layout.paragraph("All requirements of the plan are completed.");
+    return;
+  }
+
+  layout.table(
+    [
+      { title: "Requirement", width: CONTENT_WIDTH - 245 },
+      { title: "Category", width: 110 },
+      { title: "Plan semester", width: 70 },
+      { title: "Status", width: 65 },
+    ],
+    remaining.map((requirement) => [
+      requirement.matchedCode
+        ? `${requirement.label} (${requirement.matchedCode})`
+        : requirement.label,
+      requirement.category,
+      String(requirement.semesterIndex + 1),
+      requirement.status === "in-progress" ? "In progress" : "Missing",
+    ])
+  );
+}
+
+function drawTimetable(
+  layout: ReportLayout,
+  timetable: { semester: string; lessons: Lesson[] }
+) {
+  layout.heading(`Weekly timetable - ${timetable.semester}`);
+  if (timetable.lessons.length === 0) {
+    layout.paragraph("No lessons are selected for this term.");
+    return;
+  }
+
+  const { blocks, unscheduled } = buildTimetable(timetable.lessons);
+  const location = (parts: string[]) =>
+    parts.filter((part) => part && part !== "-" && part !== "--").join(" ") ||
+    "Online";
+
+  // Blocks come ordered by day and start time
+  const rows = blocks.map((block) => [
+    block.day,
+    `${formatClockTime(block.start)}-${formatClockTime(block.end)}`,
+    block.lesson.course_code,
+    block.lesson.lesson_id,
+    location([block.session.location, block.session.room]),
+    block.lesson.instructor,
+  ]);
+  unscheduled.forEach(({ lesson, sessions }) => {
+    rows.push([
+      "Unscheduled",
+      "-",
+      lesson.course_code,
+      lesson.lesson_id,
+      sessions[0]
+        ? location([sessions[0].location, sessions[0].room])
+        : "Online",
+      lesson.instructor,
+    ]);
+  });
+
+  layout.table(
+    [
+      { title: "Day", width: 70 },
+      { title: "Time", width: 70 },
+      { title: "Course", width: 70 },
+      { title: "CRN", width: 50 },
+      { title: "Location", width: 90 },
+      { title: "Instructor", width: CONTENT_WIDTH - 350 },
+    ],
+    rows
+  );
+}
+
+/**
+ * Renders the plan report and returns the PDF as a byte string.
+ */
+export function renderPlanReport(data: PlanReportData): string {
+  const layout = new ReportLayout();
+  const generatedAt = data.generatedAt || new Date();
+
+  layout.doc.text(MARGIN, layout.y + 10, "Foritu Academic Plan", {
+    size: 18,
+    font: "bold",
+  });
+  layout.y += 28;
+  layout.paragraph(
+    [data.studentName, `Generated on ${generatedAt.toISOString().slice(0, 10)}`]
+      .filter(Boolean)
+      .join("  |  ")
+  );
+
+  drawSummary(layout, data);
+  drawSemesters(layout, data);
+  if (data.audit) drawRemainingRequirements(layout, data.audit);
+  if (data.timetable) drawTimetable(layout, data.timetable);
+
+  // Page numbers
+  const { doc } = layout;
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.goToPage(page);
+    doc.text(
+      PAGE_WIDTH - MARGIN - 60,
+      PAGE_HEIGHT - MARGIN / 2,
+      `Page ${page + 1} of ${doc.pageCount}`,
+      { size: 8, color: MUTED_COLOR }
+    );
+  }
+  return doc.toString();
+}
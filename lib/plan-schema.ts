@@ -0,0 +1,288 @@
+// Curriculum plan catalogue (data/plans.json): faculties -> programs -> entry
+// periods -> semesters, where every semester is a list of required courses
+// and elective slots. Plans are validated when loaded so a malformed plan is
+// rejected with the path of every problem. Known legacy shapes are repaired
+// first (see repairPlanSemesters), also for plans stored by users.
+
+import { CatalogValidationError } from "@/lib/catalog-schema";
+import { parseCourseCode } from "@/lib/course-codes";
+
+export interface PlanCourseItem {
+  type: "course";
+  code: string;
+}
+
+export interface PlanElectiveItem {
+  type: "elective";
+  name: string;
+  category: string;
+  options: string[];
+}
+
+export type PlanItem = PlanCourseItem | PlanElectiveItem;
+
+export interface PlanPeriod {
+  // Entry period the plan applies to, e.g. "2021-2022 Güz ve sonrası"
+  name: string;
+  semesters: PlanItem[][];
+}
+
+export interface PlanProgram {
+  name: string;
+  code?: string; // Program code used by allowed_programs in lessons.json
+  periods: PlanPeriod[];
+}
+
+export interface PlanFaculty {
+  name: string;
+  programs: PlanProgram[];
+}
+
+export interface PlansCatalogue {
+  faculties: PlanFaculty[];
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isNonEmptyString = (value: unknown): value is string =>
+  isString(value) && value.trim() !== "";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Older plans were saved with lists as objects keyed by index
+const isIndexedObject = (value: unknown): value is Record<string, unknown> =>
+  isObject(value) &&
+  Object.keys(value).length > 0 &&
+  Object.keys(value).every((key) => /^\d+$/.test(key));
+
+function repairList(value: unknown, at: string, repairs: string[]): unknown {
+  if (!isIndexedObject(value)) return value;
+  repairs.push(`${at}: converted an object keyed by index to an array`);
+  return Object.keys(value)
+    .sort((a, b) => Number(a) - Number(b))
+    .map((key) => value[key]);
+}
+
+function repairPlanItem(item: unknown, at: string, repairs: string[]) {
+  if (!isObject(item)) return item;
+  let repaired = item;
+
+  // Electives once kept their name, category and options under `data`
+  if (isObject(item.data)) {
+    const { data, ...rest } = item;
+    repaired = { ...rest, ...data };
+    repairs.push(`${at}.data: moved the nested elective fields to the item`);
+  }
+  if (repaired.type === undefined) {
+    const type = Array.isArray(repaired.options) ? "elective" : "course";
+    repaired = { ...repaired, type };
+    repairs.push(`${at}.type: missing, set to "${type}"`);
+  }
+  return repaired;
+}
+
+/**
+ * Repairs the legacy shapes of a plan's semesters: semesters or their items
+ * stored as objects keyed by index, semesters stored as { courses: [] },
+ * electives with their fields nested under `data` and items without a type.
+ * Adds a note per repair to `repairs`; anything else is left for validation.
+ */
+export function repairPlanSemesters(
+  semesters: unknown,
+  at: string,
+  repairs: string[]
+): unknown {
+  const list = repairList(semesters, at, repairs);
+  if (!Array.isArray(list)) return list;
+
+  return list.map((semester: unknown, semesterIndex) => {
+    const semesterAt = `${at}[${semesterIndex}]`;
+    let items = semester;
+    if (isObject(semester) && Array.isArray(semester.courses)) {
+      items = semester.courses;
+      repairs.push(`${semesterAt}: used the courses of a semester object`);
+    } else {
+      items = repairList(semester, semesterAt, repairs);
+    }
+    return Array.isArray(items)
+      ? items.map((item: unknown, itemIndex) =>
+          repairPlanItem(item, `${semesterAt}[${itemIndex}]`, repairs)
+        )
+      : items;
+  });
+}
+
+// Helper function to report names that appear more than once in a list
+function checkUniqueNames(items: unknown[], at: string, issues: string[]) {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    const name = isObject(item) ? item.name : undefined;
+    if (!isString(name)) return;
+    if (seen.has(name)) {
+      issues.push(`${at}[${index}].name: duplicate "${name}"`);
+    }
+    seen.add(name);
+  });
+}
+
+function validatePlanItem(item: unknown, at: string, issues: string[]) {
+  if (!isObject(item)) {
+    issues.push(`${at}: expected a course or elective object`);
+    return;
+  }
+
+  if (item.type === "course") {
+    if (!isNonEmptyString(item.code)) {
+      issues.push(`${at}.code: expected a non-empty string`);
+    } else if (!parseCourseCode(item.code)) {
+      issues.push(`${at}.code: "${item.code}" is not a course code`);
+    }
+    return;
+  }
+
+  if (item.type === "elective") {
+    if (!isNonEmptyString(item.name)) {
+      issues.push(`${at}.name: expected a non-empty string`);
+    }
+    if (!isNonEmptyString(item.category)) {
+      issues.push(`${at}.category: expected a non-empty string`);
+    }
+    if (!Array.isArray(item.options) || item.options.length === 0) {
+      issues.push(`${at}.options: expected a non-empty array of course codes`);
+      return;
+    }
+    item.options.forEach((option: unknown, optionIndex) => {
+      if (!isString(option) || !parseCourseCode(option)) {
+        issues.push(
+          `${at}.options[${optionIndex}]: ${JSON.stringify(
+            option
+          )} is not a course code`
+        );
+      }
+    });
+    return;
+  }
+
+  issues.push(`${at}.type: expected "course" or "elective"`);
+}
+
+function validatePeriod(
+  period: unknown,
+  at: string,
+  issues: string[],
+  repairs: string[]
+) {
+  if (!isObject(period)) {
+    issues.push(`${at}: expected an object`);
+    return;
+  }
+  if (!isNonEmptyString(period.name)) {
+    issues.push(`${at}.name: expected a non-empty string`);
+  }
+  period.semesters = repairPlanSemesters(
+    period.semesters,
+    `${at}.semesters`,
+    repairs
+  );
+  if (!Array.isArray(period.semesters) || period.semesters.length === 0) {
+    issues.push(`${at}.semesters: expected a non-empty array of semesters`);
+    return;
+  }
+  period.semesters.forEach((semester: unknown, semesterIndex) => {
+    const semesterAt = `${at}.semesters[${semesterIndex}]`;
+    if (!Array.isArray(semester)) {
+      issues.push(`${semesterAt}: expected an array of courses and electives`);
+      return;
+    }
+    semester.forEach((item, itemIndex) =>
+      validatePlanItem(item, `${semesterAt}[${itemIndex}]`, issues)
+    );
+  });
+}
+
+function validateProgram(
+  program: unknown,
+  at: string,
+  issues: string[],
+  repairs: string[]
+) {
+  if (!isObject(program)) {
+    issues.push(`${at}: expected an object`);
+    return;
+  }
+  if (!isNonEmptyString(program.name)) {
+    issues.push(`${at}.name: expected a non-empty string`);
+  }
+  if (program.code !== undefined && !isNonEmptyString(program.code)) {
+    issues.push(`${at}.code: expected a non-empty string`);
+  }
+  if (!Array.isArray(program.periods) || program.periods.length === 0) {
+    issues.push(`${at}.periods: expected a non-empty array`);
+    return;
+  }
+  checkUniqueNames(program.periods, `${at}.periods`, issues);
+  program.periods.forEach((period: unknown, index) =>
+    validatePeriod(period, `${at}.periods[${index}]`, issues, repairs)
+  );
+}
+
+/**
+ * Validates a plans catalogue, repairing legacy plan shapes (listed in
+ * `repairs`), and returns it typed, or throws a CatalogValidationError listing
+ * every problem found.
+ */
+export function validatePlansCatalogue(
+  data: unknown,
+  source: string,
+  repairs: string[] = []
+): PlansCatalogue {
+  if (!isObject(data) || !Array.isArray(data.faculties)) {
+    throw new CatalogValidationError(source, ["expected { faculties: [] }"]);
+  }
+
+  const issues: string[] = [];
+  checkUniqueNames(data.faculties, "faculties", issues);
+  data.faculties.forEach((faculty: unknown, facultyIndex) => {
+    const at = `faculties[${facultyIndex}]`;
+    if (!isObject(faculty)) {
+      issues.push(`${at}: expected an object`);
+      return;
+    }
+    if (!isNonEmptyString(faculty.name)) {
+      issues.push(`${at}.name: expected a non-empty string`);
+    }
+    if (!Array.isArray(faculty.programs)) {
+      issues.push(`${at}.programs: expected an array`);
+      return;
+    }
+    checkUniqueNames(faculty.programs, `${at}.programs`, issues);
+    faculty.programs.forEach((program: unknown, programIndex) =>
+      validateProgram(
+        program,
+        `${at}.programs[${programIndex}]`,
+        issues,
+        repairs
+      )
+    );
+  });
+
+  if (issues.length > 0) throw new CatalogValidationError(source, issues);
+  return data as unknown as PlansCatalogue;
+}
+
+/**
+ * Finds the plan of an entry period by faculty, program and period name.
+ */
+export function findPlanPeriod(
+  catalogue: PlansCatalogue,
+  facultyName: string,
+  programName: string,
+  periodName: string
+): { program: PlanProgram; period: PlanPeriod } | null {
+  const program = catalogue.faculties
+    .find((faculty) => faculty.name === facultyName)
+    ?.programs.find((p) => p.name === programName);
+  const period = program?.periods.find((p) => p.name === periodName);
+  return program && period ? { program, period } : null;
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  CatalogCourse,
+  PrerequisiteOptions,
+  describePrerequisiteResult,
+  evaluatePrerequisites,
+} from "@/lib/prerequisites";
+
+const courses: CatalogCourse[] = [
+  {
+    code: "BLG 102E",
+    name: "Introduction to Scientific and Engineering Computing",
+    prerequisites: [{ group: 1, courses: [{ code: "BLG101E", min: "DD" }] }],
+  },
+  {
+    code: "BLG 223E",
+    name: "Data Structures",
+    prerequisites: [
+      {
+        group: 1,
+        courses: [
+          { code: "BLG102E", min: "CC" },
+          { code: "BLG252E", min: "DD" },
+        ],
+      },
+    ],
+  },
+];
+
+const options: PrerequisiteOptions = {
+  courses,
+  equivalences: [["BLG 101E", "BBF 101E"]],
+};
+
+const attempt = (semester: string, code: string, grade: string) => ({
+  semester,
+  code,
+  grade,
+});
+
+describe("evaluatePrerequisites", () => {
+  it("matches a prerequisite written without a space", () => {
+    const evaluation = evaluatePrerequisites(
+      [attempt("2023-2024 Güz Dönemi", "BLG 101E", "BB")],
+      "BLG 102E",
+      null,
+      options
+    );
+    expect(evaluation.satisfied).toBe(true);
+    expect(evaluation.groups[0].satisfiedBy).toMatchObject({
+      status: "satisfied",
+      matchedCode: "BLG 101E",
+      matchType: "normalized",
+      comparedGrade: "BB",
+    });
+  });
+
+  it("matches an equivalent course", () => {
+    const evaluation = evaluatePrerequisites(
+      [attempt("2023-2024 Güz Dönemi", "BBF 101E", "CC")],
+      "BLG 102E",
+      null,
+      options
+    );
+    const result = evaluation.groups[0].courses[0];
+    expect(result.matchType).toBe("mapping");
+    expect(result.satisfied).toBe(true);
+    expect(describePrerequisiteResult(result)).toBe(
+      "CC meets minimum DD via equivalent BBF 101E"
+    );
+  });
+
+  it("uses the latest attempt", () => {
+    const evaluation = evaluatePrerequisites(
+      [
+        attempt("2023-2024 Güz Dönemi", "BLG 101E", "CC"),
+        attempt("2023-2024 Bahar Dönemi", "BLG 101E", "FF"),
+      ],
+      "BLG 102E",
+      null,
+      options
+    );
+    expect(evaluation.satisfied).toBe(false);
+    expect(evaluation.groups[0].courses[0].status).toBe("failed");
+  });
+
+  it("reports a passing grade below the minimum", () => {
+    const evaluation = evaluatePrerequisites(
+      [attempt("2024-2025 Güz Dönemi", "BLG 102E", "DD")],
+      "BLG 223E",
+      null,
+      options
+    );
+    expect(evaluation.groups[0].courses[0].status).toBe("below-minimum");
+    expect(evaluation.groups[0].courses[1].status).toBe("not-taken");
+    expect(evaluation.satisfied).toBe(false);
+  });
+
+  it("satisfies a group through any of its courses", () => {
+    const evaluation = evaluatePrerequisites(
+      [attempt("2024-2025 Güz Dönemi", "BLG 252E", "DD")],
+      "BLG 223E",
+      null,
+      options
+    );
+    expect(evaluation.satisfied).toBe(true);
+    expect(evaluation.groups[0].satisfiedBy?.code).toBe("BLG252E");
+  });
+
+  it("assumes a course planned in an earlier semester was passed", () => {
+    const transcript = [attempt("2025-2026 Güz Planı", "BLG 101E", "--")];
+    const inProgress = evaluatePrerequisites(
+      transcript,
+      "BLG 102E",
+      "2025-2026 Güz Planı",
+      options
+    );
+    expect(inProgress.groups[0].courses[0].status).toBe("in-progress");
+
+    const later = evaluatePrerequisites(
+      transcript,
+      "BLG 102E",
+      "2025-2026 Bahar Planı",
+      options
+    );
+    expect(later.satisfied).toBe(true);
+    expect(later.groups[0].courses[0]).toMatchObject({
+      status: "assumed",
+      comparedGrade: "CC",
+    });
+  });
+
+  it("ignores attempts after the reference semester", () => {
+    const evaluation = evaluatePrerequisites(
+      [attempt("2025-2026 Güz Dönemi", "BLG 101E", "AA")],
+      "BLG 102E",
+      "2024-2025 Bahar Dönemi",
+      options
+    );
+    expect(evaluation.groups[0].courses[0].status).toBe("not-taken");
+  });
+
+  it("uses a grade picked for a planned attempt", () => {
+    const evaluation = evaluatePrerequisites(
+      [attempt("2025-2026 Güz Planı", "BLG 102E", "--")],
+      "BLG 223E",
+      "2025-2026 Güz Planı",
+      {
+        ...options,
+        gradeOverrides: { "BLG 102E-2025-2026 Güz Planı": "BB" },
+      }
+    );
+    expect(evaluation.groups[0].courses[0]).toMatchObject({
+      status: "satisfied",
+      comparedGrade: "BB",
+    });
+  });
+
+  it("is satisfied for a course without prerequisites", () => {
+    expect(evaluatePrerequisites([], "MAT 103", null, options)).toEqual({
+      courseCode: "MAT 103",
+      referenceSemester: null,
+      satisfied: true,
+      groups: [],
+    });
+  });
+});
@@ -0,0 +1,320 @@
+// Prerequisite evaluation with a structured explanation for every group,
+// shared by the course popup, the semester grid and the prerequisites API.
+
+import {
+  AttemptLike,
+  PLANNED_GRADE,
+  compareSemesters,
+  getComparableGrade,
+  getLatestAttempt,
+  isFailingGrade,
+  isPlannedGrade,
+  meetsMinimumGrade,
+} from "@/lib/academic";
+import { findCatalogCourse } from "@/lib/catalog-index";
+import {
+  CourseEquivalenceGroups,
+  getEquivalentCodes,
+  isSameCourseCode,
+} from "@/lib/course-codes";
+
+export interface PrerequisiteCourse {
+  code: string;
+  min: string;
+}
+
+export interface PrerequisiteGroup {
+  group: number;
+  courses: PrerequisiteCourse[];
+}
+
+export interface CatalogCourse {
+  code: string;
+  name: string;
+  credits?: string;
+  prerequisites?: PrerequisiteGroup[];
+  special_conditions?: string[];
+}
+
+// How a prerequisite was matched against the transcript
+export type PrerequisiteMatchType = "exact" | "normalized" | "mapping";
+
+export type PrerequisiteCourseStatus =
+  | "satisfied" // Passed with at least the minimum grade
+  | "assumed" // Planned in an earlier semester, assumed passed
+  | "below-minimum" // Passed, but with a grade lower than the minimum
+  | "failed" // Failed the latest attempt
+  | "in-progress" // Being taken in the reference semester
+  | "not-taken";
+
+export interface PrerequisiteCourseResult {
+  code: string;
+  min: string;
+  status: PrerequisiteCourseStatus;
+  satisfied: boolean;
+  // Transcript course that was used for this prerequisite
+  matchedCode: string | null;
+  matchType: PrerequisiteMatchType | null;
+  // Semester and grade of the latest matching attempt
+  semester: string | null;
+  grade: string | null;
+  // Grade compared against the minimum ("CC" for assumed passes)
+  comparedGrade: string | null;
+}
+
+export interface PrerequisiteGroupResult {
+  group: number;
+  satisfied: boolean;
+  // First course that satisfied the group
+  satisfiedBy: PrerequisiteCourseResult | null;
+  courses: PrerequisiteCourseResult[];
+}
+
+export interface PrerequisiteEvaluation {
+  courseCode: string;
+  referenceSemester: string | null;
+  satisfied: boolean;
+  groups: PrerequisiteGroupResult[];
+}
+
+export interface PrerequisiteOptions {
+  courses: CatalogCourse[];
+  equivalences: CourseEquivalenceGroups;
+  // Grades picked in the editor for planned attempts, keyed by `${code}-${semester}`
+  gradeOverrides?: Record<string, string>;
+}
+
+/**
+ * Returns the prerequisite groups of a course from the catalog.
+ */
+export function getCoursePrerequisites(
+  courses: CatalogCourse[],
+  courseCode: string
+): PrerequisiteGroup[] {
+  const course = findCatalogCourse(courses, courseCode);
+  return course?.prerequisites || [];
+}
+
+/**
+ * Finds the transcript attempts that can stand in for a prerequisite course:
+ * an exact match, the same canonical course code ("BLG221" and "BLG 221"), or
+ * a course in the same equivalence class. Equivalent courses that are
+ * themselves listed as prerequisites are skipped so they are evaluated on
+ * their own.
+ */
+export function findPrerequisiteAttempts<T extends AttemptLike>(
+  transcript: T[],
+  prereqCode: string,
+  equivalences: CourseEquivalenceGroups,
+  excludedCodes: string[] = []
+): {
+  attempts: T[];
+  matchedCode: string;
+  matchType: PrerequisiteMatchType;
+} | null {
+  const exactAttempts = transcript.filter((t) => t.code === prereqCode);
+  if (exactAttempts.length > 0) {
+    return {
+      attempts: exactAttempts,
+      matchedCode: prereqCode,
+      matchType: "exact",
+    };
+  }
+
+  const normalizedMatch = transcript.find((t) =>
+    isSameCourseCode(t.code, prereqCode)
+  );
+  if (normalizedMatch) {
+    return {
+      attempts: transcript.filter((t) => t.code === normalizedMatch.code),
+      matchedCode: normalizedMatch.code,
+      matchType: "normalized",
+    };
+  }
+
+  const alternatives = getEquivalentCodes(equivalences, prereqCode);
+  for (const alternativeCode of alternatives) {
+    if (excludedCodes.some((code) => isSameCourseCode(code, alternativeCode))) {
+      continue;
+    }
+
+    const mappedAttempts = transcript.filter((t) =>
+      isSameCourseCode(t.code, alternativeCode)
+    );
+    if (mappedAttempts.length > 0) {
+      return {
+        attempts: mappedAttempts,
+        matchedCode: mappedAttempts[0].code,
+        matchType: "mapping",
+      };
+    }
+  }
+
+  return null;
+}
+
+function evaluatePrerequisiteCourse(
+  transcript: AttemptLike[],
+  prereq: PrerequisiteCourse,
+  referenceSemester: string | null,
+  options: PrerequisiteOptions,
+  excludedCodes: string[]
+): PrerequisiteCourseResult {
+  const match = findPrerequisiteAttempts(
+    transcript,
+    prereq.code,
+    options.equivalences,
+    excludedCodes
+  );
+
+  if (!match) {
+    return {
+      code: prereq.code,
+      min: prereq.min,
+      status: "not-taken",
+      satisfied: false,
+      matchedCode: null,
+      matchType: null,
+      semester: null,
+      grade: null,
+      comparedGrade: null,
+    };
+  }
+
+  const latestAttempt = getLatestAttempt(match.attempts)!;
+  const result = {
+    code: prereq.code,
+    min: prereq.min,
+    matchedCode: match.matchedCode,
+    matchType: match.matchType,
+    semester: latestAttempt.semester,
+    grade: latestAttempt.grade,
+  };
+
+  // A grade picked in the editor takes precedence for planned attempts
+  const override =
+    options.gradeOverrides?.[`${latestAttempt.code}-${latestAttempt.semester}`];
+  const useOverride =
+    isPlannedGrade(latestAttempt.grade) &&
+    !!override &&
+    override !== PLANNED_GRADE;
+  const comparedGrade = useOverride
+    ? override
+    : getComparableGrade(latestAttempt, referenceSemester);
+
+  if (comparedGrade === null) {
+    return {
+      ...result,
+      status: "in-progress",
+      satisfied: false,
+      comparedGrade: null,
+    };
+  }
+
+  const satisfied = meetsMinimumGrade(comparedGrade, prereq.min);
+  let status: PrerequisiteCourseStatus;
+  if (satisfied) {
+    status =
+      latestAttempt.grade === PLANNED_GRADE && !useOverride
+        ? "assumed"
+        : "satisfied";
+  } else {
+    status = isFailingGrade(comparedGrade) ? "failed" : "below-minimum";
+  }
+
+  return { ...result, status, satisfied, comparedGrade };
+}
+
+/**
+ * Evaluates prerequisite groups against the transcript as seen from the
+ * reference semester. Each group is satisfied when any of its courses is.
+ */
+export function evaluatePrerequisiteGroups(
+  transcript: AttemptLike[],
+  groups: PrerequisiteGroup[],
+  referenceSemester: string | null | undefined,
+  options: PrerequisiteOptions
+): PrerequisiteGroupResult[] {
+  const reference = referenceSemester || null;
+
+  // Attempts from later semesters cannot satisfy a prerequisite
+  const visibleTranscript = reference
+    ? transcript.filter((t) => compareSemesters(t.semester, reference) <= 0)
+    : transcript;
+
+  const allPrerequisiteCodes = groups.flatMap((group) =>
+    group.courses.map((course) => course.code)
+  );
+
+  return groups.map((group) => {
+    const courses = group.courses.map((prereq) =>
+      evaluatePrerequisiteCourse(
+        visibleTranscript,
+        prereq,
+        reference,
+        options,
+        allPrerequisiteCodes
+      )
+    );
+    const satisfiedBy = courses.find((course) => course.satisfied) || null;
+
+    return {
+      group: group.group,
+      satisfied: satisfiedBy !== null,
+      satisfiedBy,
+      courses,
+    };
+  });
+}
+
+/**
+ * Evaluates the prerequisites of a course from the catalog.
+ */
+export function evaluatePrerequisites(
+  transcript: AttemptLike[],
+  courseCode: string,
+  referenceSemester: string | null | undefined,
+  options: PrerequisiteOptions
+): PrerequisiteEvaluation {
+  const groups = evaluatePrerequisiteGroups(
+    transcript,
+    getCoursePrerequisites(options.courses, courseCode),
+    referenceSemester,
+    options
+  );
+
+  return {
+    courseCode,
+    referenceSemester: referenceSemester || null,
+    satisfied: groups.every((group) => group.satisfied),
+    groups,
+  };
+}
+
+/**
+ * Returns a one-line explanation of a prerequisite result,
+ * e.g. "BLG 102E via BBF 101E: BB meets CC".
+ */
+export function describePrerequisiteResult(
+  result: PrerequisiteCourseResult
+): string {
+  if (result.status === "not-taken") {
+    return `Not taken (minimum ${result.min})`;
+  }
+
+  const via =
+    result.matchType === "mapping"
+      ? ` via equivalent ${result.matchedCode}`
+      : "";
+
+  switch (result.status) {
+    case "in-progress":
+      return `In progress in ${result.semester}${via}`;
+    case "assumed":
+      return `Planned in ${result.semester}${via}, assumed ${result.comparedGrade} (minimum ${result.min})`;
+    case "satisfied":
+      return `${result.comparedGrade} meets minimum ${result.min}${via}`;
+    default:
+      return `${result.comparedGrade} is below minimum ${result.min}${via}`;
+  }
+}
@@ -0,0 +1,45 @@
+// Student profile fields stored in the Clerk user's unsafeMetadata.
+
+import { GpaScenario } from "@/lib/gpa";
+
+export interface StudentProfile {
+  // Program code as used by allowed_programs in lessons.json, e.g. "BLGE_LS"
+  programCode?: string;
+  // Named what-if grade scenarios from the GPA simulator
+  gpaScenarios?: GpaScenario[];
+}
+
+const isGpaScenario = (value: unknown): value is GpaScenario => {
+  const scenario = value as GpaScenario;
+  return (
+    typeof scenario?.id === "string" &&
+    typeof scenario.name === "string" &&
+    typeof scenario.grades === "object" &&
+    scenario.grades !== null &&
+    Array.isArray(scenario.retakes)
+  );
+};
+
+export function getStudentProfile(
+  metadata: Record<string, unknown> | null | undefined
+): StudentProfile {
+  const programCode = metadata?.programCode;
+  const gpaScenarios = metadata?.gpaScenarios;
+  return {
+    programCode: typeof programCode === "string" ? programCode : undefined,
+    gpaScenarios: Array.isArray(gpaScenarios)
+      ? gpaScenarios.filter(isGpaScenario)
+      : undefined,
+  };
+}
+
+/**
+ * Returns the metadata with the profile fields merged in, keeping any other
+ * fields already stored on the user.
+ */
+export function mergeStudentProfile(
+  metadata: Record<string, unknown> | null | undefined,
+  profile: StudentProfile
+): Record<string, unknown> {
+  return { ...(metadata || {}), ...profile };
+}
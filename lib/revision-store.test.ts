@@ -0,0 +1,133 @@
+import { mkdtemp, readFile, readdir, rm, writeFile } from "fs/promises";
+import { randomBytes } from "crypto";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  MAX_REVISIONS_PER_KIND,
+  RevisionStoreError,
+  addRevision,
+  getLatestRevision,
+  getRevision,
+  isRevisionStoreConfigured,
+  listRevisions,
+} from "@/lib/revision-store";
+
+const transcript = [
+  {
+    semester: "2023-2024 Güz Dönemi",
+    code: "MAT 103",
+    name: "Mathematics I",
+    credits: "4",
+    grade: "CC",
+  },
+];
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "revisions-"));
+  process.env.REVISIONS_DIR = directory;
+  process.env.REVISIONS_KEY = randomBytes(32).toString("base64");
+});
+
+afterEach(async () => {
+  delete process.env.REVISIONS_DIR;
+  delete process.env.REVISIONS_KEY;
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("revision store", () => {
+  it("is unavailable without a directory and key", async () => {
+    delete process.env.REVISIONS_KEY;
+    expect(isRevisionStoreConfigured()).toBe(false);
+    await expect(listRevisions("user_1")).rejects.toThrow(
+      new RevisionStoreError("Revision history is not configured")
+    );
+  });
+
+  it("rejects a key of the wrong length", async () => {
+    process.env.REVISIONS_KEY = randomBytes(16).toString("base64");
+    await expect(listRevisions("user_1")).rejects.toThrow(RevisionStoreError);
+  });
+
+  it("stores revisions encrypted and reads them back", async () => {
+    const created = await addRevision("user_1", {
+      kind: "transcript",
+      action: "store",
+      summary: "1 course",
+      data: transcript,
+    });
+
+    const [file] = await readdir(directory);
+    const content = await readFile(path.join(directory, file), "utf8");
+    expect(content).not.toContain("Mathematics I");
+
+    expect(await getRevision("user_1", created.id)).toEqual(created);
+    expect(await getLatestRevision("user_1", "plan")).toBeNull();
+    expect(await listRevisions("user_1")).toEqual([
+      {
+        id: created.id,
+        kind: "transcript",
+        action: "store",
+        createdAt: created.createdAt,
+        summary: "1 course",
+      },
+    ]);
+  });
+
+  it("fails to read revisions with another key", async () => {
+    await addRevision("user_1", {
+      kind: "plan",
+      action: "store",
+      summary: "",
+      data: [],
+    });
+    process.env.REVISIONS_KEY = randomBytes(32).toString("base64");
+    await expect(listRevisions("user_1")).rejects.toThrow(RevisionStoreError);
+  });
+
+  it("reads files written before encryption", async () => {
+    const revision = {
+      id: "legacy",
+      kind: "plan",
+      action: "store",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      summary: "",
+      data: [],
+    };
+    await writeFile(
+      path.join(directory, "user_1.json"),
+      JSON.stringify({ revisions: [revision] })
+    );
+    expect(await getRevision("user_1", "legacy")).toEqual(revision);
+  });
+
+  it("keeps the newest revisions of a kind", async () => {
+    for (let i = 0; i <= MAX_REVISIONS_PER_KIND; i++) {
+      await addRevision("user_1", {
+        kind: "plan",
+        action: "store",
+        summary: `Version ${i}`,
+        data: [],
+      });
+    }
+    const revisions = await listRevisions("user_1", "plan");
+    expect(revisions).toHaveLength(MAX_REVISIONS_PER_KIND);
+    expect(revisions[0].summary).toBe(`Version ${MAX_REVISIONS_PER_KIND}`);
+  });
+
+  it("reports a failed write", async () => {
+    // A file where the directory should be
+    await rm(directory, { recursive: true });
+    await writeFile(directory, "");
+    await expect(
+      addRevision("user_1", {
+        kind: "plan",
+        action: "store",
+        summary: "",
+        data: [],
+      })
+    ).rejects.toThrow();
+  });
+});
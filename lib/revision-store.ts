@@ -0,0 +1,223 @@
+// Server-side store for transcript and plan revisions. The backend only
+// keeps the latest version, so revisions are kept here, one file per user
+// under REVISIONS_DIR. Revisions hold grades and names, so the directory has
+// to be on persistent storage and every file is encrypted with AES-256-GCM
+// using REVISIONS_KEY (32 bytes, base64). Without both settings revision
+// history is unavailable and every call throws a RevisionStoreError.
+
+import { mkdir, open, readFile, rename } from "fs/promises";
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  randomUUID,
+} from "crypto";
+import path from "path";
+import { Revision, RevisionInfo, RevisionKind } from "@/lib/revisions";
+
+// Oldest revisions of a kind are dropped beyond this many
+export const MAX_REVISIONS_PER_KIND = 50;
+
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+export class RevisionStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevisionStoreError";
+  }
+}
+
+interface RevisionStoreConfig {
+  directory: string;
+  key: Buffer;
+}
+
+// Encrypted contents of a user's revision file
+interface EncryptedRevisionFile {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface RevisionFile {
+  revisions: Revision[];
+}
+
+// Writes per user are queued so concurrent saves do not lose revisions
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export function isRevisionStoreConfigured(): boolean {
+  return !!process.env.REVISIONS_DIR?.trim() && !!process.env.REVISIONS_KEY;
+}
+
+function getStoreConfig(): RevisionStoreConfig {
+  const directory = process.env.REVISIONS_DIR?.trim();
+  const encodedKey = process.env.REVISIONS_KEY;
+  if (!directory || !encodedKey) {
+    throw new RevisionStoreError("Revision history is not configured");
+  }
+  const key = Buffer.from(encodedKey, "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new RevisionStoreError(
+      `REVISIONS_KEY must be ${KEY_LENGTH} bytes encoded as base64`
+    );
+  }
+  return { directory, key };
+}
+
+function getRevisionFile(directory: string, userId: string): string {
+  return path.join(directory, `${userId.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
+
+function encrypt(key: Buffer, file: RevisionFile): EncryptedRevisionFile {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(file), "utf8"),
+    cipher.final(),
+  ]);
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function decrypt(key: Buffer, file: EncryptedRevisionFile): RevisionFile {
+  try {
+    const decipher = createDecipheriv(
+      CIPHER,
+      key,
+      Buffer.from(file.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    const content = Buffer.concat([
+      decipher.update(Buffer.from(file.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+    return JSON.parse(content) as RevisionFile;
+  } catch {
+    throw new RevisionStoreError(
+      "Revision file could not be decrypted with REVISIONS_KEY"
+    );
+  }
+}
+
+async function readRevisions(userId: string): Promise<Revision[]> {
+  const { directory, key } = getStoreConfig();
+  let content: string;
+  try {
+    content = await readFile(getRevisionFile(directory, userId), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+    throw error;
+  }
+  const file = JSON.parse(content) as EncryptedRevisionFile | RevisionFile;
+  // Files written before encryption are read as they are and encrypted on
+  // the next write
+  if ("revisions" in file) return file.revisions || [];
+  return decrypt(key, file).revisions || [];
+}
+
+async function writeRevisions(userId: string, revisions: Revision[]) {
+  const { directory, key } = getStoreConfig();
+  const filePath = getRevisionFile(directory, userId);
+  await mkdir(directory, { recursive: true });
+  // Write to a temporary file first so a crash never leaves a partial file,
+  // and flush it to disk before it replaces the old one
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const handle = await open(tempPath, "w", 0o600);
+  try {
+    await handle.writeFile(JSON.stringify(encrypt(key, { revisions })));
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await rename(tempPath, filePath);
+}
+
+// Helper function to strip the data for listings
+const toInfo = ({ id, kind, action, createdAt, summary }: Revision) =>
+  ({ id, kind, action, createdAt, summary } as RevisionInfo);
+
+/**
+ * Lists a user's revisions, newest first.
+ */
+export async function listRevisions(
+  userId: string,
+  kind?: RevisionKind
+): Promise<RevisionInfo[]> {
+  const revisions = await readRevisions(userId);
+  return revisions
+    .filter((revision) => !kind || revision.kind === kind)
+    .reverse()
+    .map(toInfo);
+}
+
+export async function getRevision(
+  userId: string,
+  id: string
+): Promise<Revision | null> {
+  const revisions = await readRevisions(userId);
+  return revisions.find((revision) => revision.id === id) || null;
+}
+
+/**
+ * Returns the newest revision of a kind, or null if there is none.
+ */
+export async function getLatestRevision<K extends RevisionKind>(
+  userId: string,
+  kind: K
+): Promise<Extract<Revision, { kind: K }> | null> {
+  const revisions = await readRevisions(userId);
+  for (let i = revisions.length - 1; i >= 0; i--) {
+    if (revisions[i].kind === kind) {
+      return revisions[i] as Extract<Revision, { kind: K }>;
+    }
+  }
+  return null;
+}
+
+/**
+ * Records a new revision and returns it.
+ */
+export function addRevision(
+  userId: string,
+  revision: Omit<Revision, "id" | "createdAt">
+): Promise<Revision> {
+  const previous = writeQueues.get(userId) || Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const created = {
+        ...revision,
+        id: randomUUID(),
+        createdAt: new Date().toISOString(),
+      } as Revision;
+      const revisions = [...(await readRevisions(userId)), created];
+
+      // Keep the newest revisions of the same kind
+      const sameKind = revisions.filter((item) => item.kind === created.kind);
+      const dropped = new Set(
+        sameKind
+          .slice(0, Math.max(sameKind.length - MAX_REVISIONS_PER_KIND, 0))
+          .map((item) => item.id)
+      );
+      await writeRevisions(
+        userId,
+        revisions.filter((item) => !dropped.has(item.id))
+      );
+      return created;
+    });
+
+  writeQueues.set(userId, next);
+  // Drop the queue entry once it is the last write
+  next
+    .finally(() => {
+      if (writeQueues.get(userId) === next) writeQueues.delete(userId);
+    })
+    .catch(() => undefined);
+  return next;
+}
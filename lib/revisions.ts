@@ -0,0 +1,116 @@
+// Revisions of a user's stored transcript and plan, shared by the server
+// store in lib/revision-store.ts and the history panel. Every save records a
+// snapshot of the data; resets record the data as it was before the delete,
+// so a mistaken reset can be restored.
+
+import { PlanCourse, TranscriptCourse } from "@/lib/actions";
+import { diffTranscripts } from "@/lib/transcript-merge";
+
+export type RevisionKind = "transcript" | "plan";
+
+export type RevisionAction = "store" | "update" | "delete" | "restore";
+
+export interface RevisionInfo {
+  id: string;
+  kind: RevisionKind;
+  action: RevisionAction;
+  // ISO timestamp
+  createdAt: string;
+  summary: string;
+}
+
+// The data a revision keeps
+export type RevisionData =
+  | { kind: "transcript"; data: TranscriptCourse[] }
+  | { kind: "plan"; data: PlanCourse[][] };
+
+export type Revision = RevisionInfo & RevisionData;
+
+export const REVISION_ACTION_LABELS: Record<RevisionAction, string> = {
+  store: "Saved",
+  update: "Saved",
+  delete: "Reset",
+  restore: "Restored",
+};
+
+// Helper function to pluralize a count, e.g. "1 course", "3 courses"
+const formatCount = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const countPlanCourses = (plan: PlanCourse[][]) =>
+  plan.reduce((total, semester) => total + semester.length, 0);
+
+/**
+ * Describes a transcript save compared with the previous revision, e.g.
+ * "2 courses added, 1 grade changed".
+ */
+export function summarizeTranscriptChange(
+  previous: TranscriptCourse[] | null,
+  next: TranscriptCourse[]
+): string {
+  if (!previous) return formatCount(next.length, "course");
+
+  const { changes } = diffTranscripts(previous, next);
+  const added = changes.filter((change) => change.kind === "added").length;
+  const removed = changes.filter((change) => change.kind === "removed").length;
+  const grades = changes.filter(
+    (change) => change.kind === "changed" && change.fields.includes("grade")
+  ).length;
+  const other = changes.filter(
+    (change) => change.kind === "changed" && !change.fields.includes("grade")
+  ).length;
+
+  const parts = [
+    added > 0 && `${formatCount(added, "course")} added`,
+    removed > 0 && `${formatCount(removed, "course")} removed`,
+    grades > 0 && `${formatCount(grades, "grade")} changed`,
+    other > 0 && `${formatCount(other, "course")} edited`,
+  ].filter(Boolean);
+  // Lesson selections are not compared by the diff
+  return parts.length > 0 ? parts.join(", ") : "No course changes";
+}
+
+export function summarizePlan(plan: PlanCourse[][]): string {
+  return `${formatCount(plan.length, "semester")}, ${formatCount(
+    countPlanCourses(plan),
+    "item"
+  )}`;
+}
+
+export function summarizeDelete(revision: RevisionData): string {
+  return revision.kind === "transcript"
+    ? `Transcript reset (${formatCount(revision.data.length, "course")})`
+    : `Plan reset (${summarizePlan(revision.data)})`;
+}
+
+// Helper function to name a plan item for comparison and display
+const getPlanItemName = (item: PlanCourse) =>
+  item.type === "elective"
+    ? item.name || item.category || "Elective"
+    : item.code;
+
+export interface PlanSemesterDiff {
+  semesterIndex: number;
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Compares two plans semester by semester.
+ */
+export function diffPlans(
+  previous: PlanCourse[][],
+  next: PlanCourse[][]
+): PlanSemesterDiff[] {
+  const diffs: PlanSemesterDiff[] = [];
+  for (let i = 0; i < Math.max(previous.length, next.length); i++) {
+    const before = (previous[i] || []).map(getPlanItemName);
+    const after = (next[i] || []).map(getPlanItemName);
+    const added = after.filter((name) => !before.includes(name));
+    const removed = before.filter((name) => !after.includes(name));
+    if (added.length > 0 || removed.length > 0) {
+      diffs.push({ semesterIndex: i, added, removed });
+    }
+  }
+  return diffs;
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SCHEDULE_PREFERENCES,
+  generateSchedules,
+  getSchedulePenalty,
+  getScheduleStats,
+} from "@/lib/scheduler";
+import {
+  Lesson,
+  ONLINE_DELIVERY_MODE,
+  PHYSICAL_DELIVERY_MODE,
+} from "@/lib/lessons";
+
+const lesson = (
+  lessonId: string,
+  courseCode: string,
+  sessions: [day: string, time: string, location?: string][],
+  deliveryMode = PHYSICAL_DELIVERY_MODE
+): Lesson => ({
+  lesson_id: lessonId,
+  course_code: courseCode,
+  delivery_mode: deliveryMode,
+  instructor: "",
+  capacity: "50",
+  enrolled: "10",
+  sessions: sessions.map(([day, time, location = "EEB"]) => ({
+    day,
+    time,
+    location,
+    room: "",
+  })),
+});
+
+const lessons = [
+  lesson("1", "MAT 103", [["Pazartesi", "08:30/10:29"]]),
+  lesson("2", "MAT 103", [["Salı", "13:30/15:29"]]),
+  lesson("3", "FIZ 101", [["Pazartesi", "09:30/11:29"]]),
+  lesson("4", "FIZ 101", [["Cuma", "13:30/15:29"]]),
+];
+
+const lessonIds = (lessonsOfOption: Lesson[]) =>
+  lessonsOfOption.map((item) => item.lesson_id);
+
+describe("generateSchedules", () => {
+  it("leaves out combinations with overlapping sessions", () => {
+    const result = generateSchedules(
+      ["MAT 103", "FIZ 101"],
+      lessons,
+      DEFAULT_SCHEDULE_PREFERENCES
+    );
+    expect(result.totalCombinations).toBe(3);
+    expect(
+      result.options.map((option) => lessonIds(option.lessons))
+    ).not.toContainEqual(["1", "3"]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("reports lessons in the requested course order", () => {
+    const result = generateSchedules(
+      ["FIZ 101", "MAT 103"],
+      lessons,
+      DEFAULT_SCHEDULE_PREFERENCES
+    );
+    result.options.forEach((option) => {
+      expect(option.lessons.map((item) => item.course_code)).toEqual([
+        "FIZ 101",
+        "MAT 103",
+      ]);
+    });
+  });
+
+  it("ranks by the enabled preferences", () => {
+    const result = generateSchedules(["MAT 103", "FIZ 101"], lessons, {
+      ...DEFAULT_SCHEDULE_PREFERENCES,
+      avoidEarlyClasses: true,
+      freeFriday: true,
+    });
+    expect(lessonIds(result.options[0].lessons)).toEqual(["2", "3"]);
+    expect(result.options[0].penalty).toBe(0);
+  });
+
+  it("lists courses without sections", () => {
+    const result = generateSchedules(
+      ["MAT 103", "BLG 999E"],
+      lessons,
+      DEFAULT_SCHEDULE_PREFERENCES
+    );
+    expect(result.coursesWithoutSections).toEqual(["BLG 999E"]);
+    expect(result.options).toHaveLength(2);
+  });
+
+  it("matches course codes written without a space", () => {
+    const result = generateSchedules(
+      ["MAT103"],
+      lessons,
+      DEFAULT_SCHEDULE_PREFERENCES
+    );
+    expect(result.coursesWithoutSections).toEqual([]);
+    expect(result.totalCombinations).toBe(2);
+  });
+
+  it("stops after the combination limit", () => {
+    const result = generateSchedules(
+      ["MAT 103", "FIZ 101"],
+      lessons,
+      DEFAULT_SCHEDULE_PREFERENCES,
+      { maxCombinations: 1 }
+    );
+    expect(result.truncated).toBe(true);
+    expect(result.totalCombinations).toBe(1);
+  });
+});
+
+describe("getScheduleStats", () => {
+  it("counts early and Friday classes, location changes and days", () => {
+    const stats = getScheduleStats(
+      [
+        lesson("1", "MAT 103", [["Pazartesi", "08:30/10:29", "EEB"]]),
+        lesson("2", "FIZ 101", [
+          ["Pazartesi", "10:30/12:29", "FEB"],
+          ["Cuma", "13:30/15:29", "FEB"],
+        ]),
+      ],
+      "any"
+    );
+    expect(stats).toEqual({
+      earlyClasses: 1,
+      fridayClasses: 1,
+      locationChanges: 1,
+      deliveryMismatches: 0,
+      daysOnCampus: 2,
+    });
+  });
+
+  it("counts sections that do not match the delivery preference", () => {
+    const online = lesson(
+      "1",
+      "MAT 103",
+      [["Salı", "13:30/15:29", "-"]],
+      ONLINE_DELIVERY_MODE
+    );
+    expect(getScheduleStats([online], "physical").deliveryMismatches).toBe(1);
+    expect(getScheduleStats([online], "online").deliveryMismatches).toBe(0);
+  });
+});
+
+describe("getSchedulePenalty", () => {
+  it("only weighs the enabled preferences", () => {
+    const stats = {
+      earlyClasses: 1,
+      fridayClasses: 1,
+      locationChanges: 1,
+      deliveryMismatches: 1,
+      daysOnCampus: 2,
+    };
+    expect(
+      getSchedulePenalty(stats, {
+        avoidEarlyClasses: false,
+        freeFriday: false,
+        minimizeLocationChanges: false,
+        deliveryMode: "any",
+      })
+    ).toBe(4);
+    expect(
+      getSchedulePenalty(stats, {
+        avoidEarlyClasses: true,
+        freeFriday: true,
+        minimizeLocationChanges: true,
+        deliveryMode: "any",
+      })
+    ).toBe(3 + 5 + 2 + 4);
+  });
+});
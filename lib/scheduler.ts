@@ -0,0 +1,248 @@
+// Generates conflict-free timetables from the sections in lessons.json and
+// ranks them by the student's preferences.
+
+import {
+  Lesson,
+  LessonSession,
+  getSessionDay,
+  isOnlineLesson,
+  lessonsConflict,
+  parseSessionTime,
+} from "@/lib/lessons";
+import { findLessonsForCourse } from "@/lib/catalog-index";
+
+export type DeliveryPreference = "any" | "online" | "physical";
+
+export interface SchedulePreferences {
+  avoidEarlyClasses: boolean;
+  freeFriday: boolean;
+  minimizeLocationChanges: boolean;
+  deliveryMode: DeliveryPreference;
+}
+
+export const DEFAULT_SCHEDULE_PREFERENCES: SchedulePreferences = {
+  avoidEarlyClasses: false,
+  freeFriday: false,
+  minimizeLocationChanges: true,
+  deliveryMode: "any",
+};
+
+// Classes starting at or before this time (08:30) count as early
+const EARLY_CLASS_START = 8 * 60 + 30;
+
+// Penalty weights used when a preference is enabled
+const PENALTY_WEIGHTS = {
+  earlyClass: 3,
+  fridayClass: 5,
+  locationChange: 2,
+  deliveryMismatch: 4,
+};
+
+export interface ScheduleStats {
+  earlyClasses: number;
+  fridayClasses: number;
+  locationChanges: number;
+  deliveryMismatches: number;
+  daysOnCampus: number;
+}
+
+export interface ScheduleOption {
+  // One section per course, in the order of the requested courses
+  lessons: Lesson[];
+  stats: ScheduleStats;
+  // Lower is better
+  penalty: number;
+}
+
+export interface ScheduleResult {
+  options: ScheduleOption[];
+  // Number of conflict-free combinations that were found
+  totalCombinations: number;
+  // True when enumeration stopped at maxCombinations
+  truncated: boolean;
+  // Requested courses that have no sections
+  coursesWithoutSections: string[];
+}
+
+export interface ScheduleOptions {
+  maxResults?: number;
+  maxCombinations?: number;
+}
+
+interface TimedSession {
+  day: string;
+  start: number;
+  location: string;
+}
+
+function getTimedSessions(lessons: Lesson[]): TimedSession[] {
+  const sessions: TimedSession[] = [];
+  lessons.forEach((lesson) => {
+    lesson.sessions.forEach((session: LessonSession) => {
+      const day = getSessionDay(session);
+      const range = parseSessionTime(session.time);
+      if (day && range) {
+        sessions.push({ day, start: range.start, location: session.location });
+      }
+    });
+  });
+  return sessions;
+}
+
+/**
+ * Counts how often the student has to change buildings between consecutive
+ * sessions on the same day. Online sessions without a location are ignored.
+ */
+function countLocationChanges(sessions: TimedSession[]): number {
+  const byDay = new Map<string, TimedSession[]>();
+  sessions
+    .filter((session) => session.location && session.location !== "-")
+    .forEach((session) => {
+      if (!byDay.has(session.day)) byDay.set(session.day, []);
+      byDay.get(session.day)!.push(session);
+    });
+
+  let changes = 0;
+  byDay.forEach((daySessions) => {
+    daySessions.sort((a, b) => a.start - b.start);
+    for (let i = 1; i < daySessions.length; i++) {
+      if (daySessions[i].location !== daySessions[i - 1].location) changes++;
+    }
+  });
+  return changes;
+}
+
+export function getScheduleStats(
+  lessons: Lesson[],
+  deliveryMode: DeliveryPreference
+): ScheduleStats {
+  const sessions = getTimedSessions(lessons);
+
+  return {
+    earlyClasses: sessions.filter((s) => s.start <= EARLY_CLASS_START).length,
+    fridayClasses: sessions.filter((s) => s.day === "Friday").length,
+    locationChanges: countLocationChanges(sessions),
+    deliveryMismatches:
+      deliveryMode === "any"
+        ? 0
+        : lessons.filter(
+            (lesson) => isOnlineLesson(lesson) !== (deliveryMode === "online")
+          ).length,
+    daysOnCampus: new Set(sessions.map((s) => s.day)).size,
+  };
+}
+
+export function getSchedulePenalty(
+  stats: ScheduleStats,
+  preferences: SchedulePreferences
+): number {
+  let penalty = 0;
+  if (preferences.avoidEarlyClasses) {
+    penalty += stats.earlyClasses * PENALTY_WEIGHTS.earlyClass;
+  }
+  if (preferences.freeFriday) {
+    penalty += stats.fridayClasses * PENALTY_WEIGHTS.fridayClass;
+  }
+  if (preferences.minimizeLocationChanges) {
+    penalty += stats.locationChanges * PENALTY_WEIGHTS.locationChange;
+  }
+  penalty += stats.deliveryMismatches * PENALTY_WEIGHTS.deliveryMismatch;
+  return penalty;
+}
+
+/**
+ * Enumerates every conflict-free combination of one section per course and
+ * returns the best ones for the given preferences.
+ */
+export function generateSchedules(
+  courseCodes: string[],
+  lessons: Lesson[],
+  preferences: SchedulePreferences,
+  { maxResults = 20, maxCombinations = 20000 }: ScheduleOptions = {}
+): ScheduleResult {
+  const coursesWithoutSections: string[] = [];
+  const sectionsByCourse: { courseCode: string; sections: Lesson[] }[] = [];
+
+  [...new Set(courseCodes)].forEach((courseCode) => {
+    const sections = findLessonsForCourse(lessons, courseCode);
+    if (sections.length === 0) {
+      coursesWithoutSections.push(courseCode);
+    } else {
+      sectionsByCourse.push({ courseCode, sections });
+    }
+  });
+
+  // Courses with fewer sections first so conflicts prune the search early
+  const searchOrder = [...sectionsByCourse].sort(
+    (a, b) => a.sections.length - b.sections.length
+  );
+
+  const options: ScheduleOption[] = [];
+  let totalCombinations = 0;
+  let truncated = false;
+  const chosen = new Map<string, Lesson>();
+
+  const search = (index: number) => {
+    if (truncated) return;
+
+    if (index === searchOrder.length) {
+      totalCombinations++;
+      if (totalCombinations > maxCombinations) {
+        truncated = true;
+        totalCombinations = maxCombinations;
+        return;
+      }
+
+      // Report lessons in the order the courses were requested
+      const scheduleLessons = sectionsByCourse.map(
+        ({ courseCode }) => chosen.get(courseCode)!
+      );
+      const stats = getScheduleStats(scheduleLessons, preferences.deliveryMode);
+      options.push({
+        lessons: scheduleLessons,
+        stats,
+        penalty: getSchedulePenalty(stats, preferences),
+      });
+
+      // Keep memory bounded while enumerating
+      if (options.length > maxResults * 4) {
+        options.sort(compareScheduleOptions);
+        options.length = maxResults;
+      }
+      return;
+    }
+
+    const { courseCode, sections } = searchOrder[index];
+    for (const section of sections) {
+      const hasConflict = [...chosen.values()].some((lesson) =>
+        lessonsConflict(lesson, section)
+      );
+      if (hasConflict) continue;
+
+      chosen.set(courseCode, section);
+      search(index + 1);
+      chosen.delete(courseCode);
+    }
+  };
+
+  if (searchOrder.length > 0) {
+    search(0);
+  }
+
+  options.sort(compareScheduleOptions);
+
+  return {
+    options: options.slice(0, maxResults),
+    totalCombinations,
+    truncated,
+    coursesWithoutSections,
+  };
+}
+
+function compareScheduleOptions(a: ScheduleOption, b: ScheduleOption): number {
+  return (
+    a.penalty - b.penalty ||
+    a.stats.daysOnCampus - b.stats.daysOnCampus ||
+    a.stats.locationChanges - b.stats.locationChanges
+  );
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  SemesterStanding,
+  calculateStandingTimeline,
+  findProbationRisk,
+} from "@/lib/standing";
+import { attempt } from "@/lib/test-fixtures";
+
+const FALL = "2023-2024 Güz Dönemi";
+const SPRING = "2023-2024 Bahar Dönemi";
+const PLANNED = "2024-2025 Güz Planı";
+
+// Status of a single graded semester
+const getStatus = (grades: [grade: string, credits: string][]) =>
+  calculateStandingTimeline(
+    grades.map(([grade, credits], index) =>
+      attempt(FALL, `MAT ${101 + index}`, grade, credits)
+    )
+  )[0].status;
+
+describe("calculateStandingTimeline", () => {
+  it("puts terms on the honour lists from a term GPA of 3.0 and 3.5", () => {
+    expect(getStatus([["BA", "3"]])).toBe("high-honour");
+    expect(getStatus([["BB", "3"]])).toBe("honour");
+    expect(getStatus([["CB", "3"]])).toBe("good");
+  });
+
+  it("leaves terms with a failed course off the honour lists", () => {
+    expect(
+      getStatus([
+        ["AA", "4"],
+        ["AA", "4"],
+        ["AA", "4"],
+        ["FF", "2"],
+      ])
+    ).toBe("good");
+  });
+
+  it("puts students on probation below a cumulative GPA of 2.0", () => {
+    expect(getStatus([["CC", "3"]])).toBe("good");
+    expect(
+      getStatus([
+        ["DC", "3"],
+        ["CC", "3"],
+      ])
+    ).toBe("probation");
+  });
+
+  it("uses the cumulative GPA for probation and the term GPA for honours", () => {
+    const timeline = calculateStandingTimeline([
+      attempt(FALL, "MAT 103", "FF", "4"),
+      attempt(FALL, "FIZ 101", "DD"),
+      attempt(SPRING, "MAT 104", "AA"),
+    ]);
+    expect(timeline.map((standing) => standing.status)).toEqual([
+      "probation",
+      "probation",
+    ]);
+    expect(timeline[1].termGpa).toBe(4);
+    expect(timeline[1].cumulativeGpa).toBe(1.5);
+  });
+
+  it("sums credits and class standing per semester", () => {
+    const timeline = calculateStandingTimeline([
+      attempt(FALL, "MAT 103", "CC", "4"),
+      attempt(FALL, "FIZ 101", "FF"),
+      attempt(SPRING, "MAT 104", "BB", "30"),
+    ]);
+    expect(timeline[0]).toMatchObject({
+      creditsAttempted: 7,
+      creditsEarned: 4,
+      cumulativeCreditsEarned: 4,
+      classStanding: 1,
+    });
+    expect(timeline[1]).toMatchObject({
+      cumulativeCreditsEarned: 34,
+      classStanding: 2,
+    });
+  });
+
+  it("marks semesters without grades as pending", () => {
+    const timeline = calculateStandingTimeline([
+      attempt(FALL, "MAT 103", "BB"),
+      attempt(PLANNED, "MAT 104", "--"),
+    ]);
+    expect(timeline[1]).toMatchObject({
+      isPlanned: true,
+      termGpa: null,
+      status: "pending",
+    });
+  });
+});
+
+describe("findProbationRisk", () => {
+  it("finds the planned semester that would start a probation", () => {
+    const timeline = calculateStandingTimeline([
+      attempt(FALL, "MAT 103", "CC"),
+      attempt(PLANNED, "MAT 104", "FF*"),
+    ]);
+    expect(findProbationRisk(timeline)?.semester).toBe(PLANNED);
+  });
+
+  it("skips pending semesters and a probation that already started", () => {
+    const standing = (status: SemesterStanding["status"], isPlanned = false) =>
+      ({ status, isPlanned } as SemesterStanding);
+    expect(
+      findProbationRisk([standing("probation"), standing("probation", true)])
+    ).toBeNull();
+    expect(
+      findProbationRisk([
+        standing("good"),
+        standing("pending", true),
+        standing("probation", true),
+      ])?.isPlanned
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+// Academic standing per semester: term and cumulative GPA, credits attempted
+// and earned, and the honour / probation status of every semester in the
+// transcript, including planned ones.
+
+import {
+  HIGH_HONOUR_GPA,
+  HONOUR_GPA,
+  PROBATION_GPA,
+  getClassStanding,
+  getComparableGrade,
+  getTranscriptSemesters,
+  isFailingGrade,
+  isPassingGrade,
+  isPlannedSemester,
+} from "@/lib/academic";
+import { CourseEquivalenceGroups } from "@/lib/course-codes";
+import {
+  CreditAttempt,
+  calculateEarnedCredits,
+  calculatePolicyGpa,
+} from "@/lib/grade-policy";
+
+// "pending": the semester has no graded courses yet
+export type AcademicStatus =
+  | "high-honour"
+  | "honour"
+  | "good"
+  | "probation"
+  | "pending";
+
+export const ACADEMIC_STATUS_LABELS: Record<AcademicStatus, string> = {
+  "high-honour": "High honour",
+  honour: "Honour",
+  good: "Good standing",
+  probation: "Probation",
+  pending: "No grades yet",
+};
+
+export interface SemesterStanding {
+  semester: string;
+  isPlanned: boolean;
+  // null when no course of the semester has a GPA grade yet
+  termGpa: number | null;
+  cumulativeGpa: number | null;
+  creditsAttempted: number;
+  creditsEarned: number;
+  cumulativeCreditsEarned: number;
+  classStanding: number;
+  status: AcademicStatus;
+}
+
+// Empty semesters added from the semester panel hold a single placeholder row
+const PLACEHOLDER_CODE = "PLACEHOLDER";
+
+const sumCredits = (attempts: CreditAttempt[]) =>
+  attempts.reduce(
+    (sum, attempt) => sum + parseFloat(attempt.credits || "0"),
+    0
+  );
+
+// Helper function to decide the status of a semester. Probation depends on
+// the cumulative GPA; the honour lists need a term without failed courses.
+function getAcademicStatus(
+  termGpa: number | null,
+  cumulativeGpa: number | null,
+  hasFailedCourse: boolean
+): AcademicStatus {
+  if (termGpa === null && cumulativeGpa === null) return "pending";
+  if (cumulativeGpa !== null && cumulativeGpa < PROBATION_GPA) {
+    return "probation";
+  }
+  if (termGpa === null) return "pending";
+  if (!hasFailedCourse && termGpa >= HIGH_HONOUR_GPA) return "high-honour";
+  if (!hasFailedCourse && termGpa >= HONOUR_GPA) return "honour";
+  return "good";
+}
+
+/**
+ * Returns the standing at the end of every semester in chronological order.
+ * Planned semesters use the grades picked for their courses ("BB*"); courses
+ * without a grade do not count.
+ */
+export function calculateStandingTimeline<T extends CreditAttempt>(
+  transcript: T[],
+  equivalences: CourseEquivalenceGroups = []
+): SemesterStanding[] {
+  const attempts = transcript.filter(
+    (attempt) => attempt.code !== PLACEHOLDER_CODE
+  );
+  const semesters = getTranscriptSemesters(transcript);
+
+  return semesters.map((semester, index) => {
+    const upToSemester = new Set(semesters.slice(0, index + 1));
+    const termAttempts = attempts.filter((a) => a.semester === semester);
+    const cumulativeAttempts = attempts.filter((a) =>
+      upToSemester.has(a.semester)
+    );
+
+    const term = calculatePolicyGpa(termAttempts);
+    const cumulative = calculatePolicyGpa(cumulativeAttempts, {
+      equivalences,
+    });
+    const termGpa = term.gpaCredits > 0 ? term.gpa : null;
+    const cumulativeGpa = cumulative.gpaCredits > 0 ? cumulative.gpa : null;
+
+    const termGrades = termAttempts.map((attempt) =>
+      getComparableGrade(attempt, semester)
+    );
+    const creditsEarned = sumCredits(
+      termAttempts.filter((_, i) => {
+        const grade = termGrades[i];
+        return grade !== null && isPassingGrade(grade);
+      })
+    );
+    const cumulativeCreditsEarned = calculateEarnedCredits(cumulativeAttempts, {
+      equivalences,
+      selectedSemester: semester,
+    });
+
+    return {
+      semester,
+      isPlanned: isPlannedSemester(semester),
+      termGpa,
+      cumulativeGpa,
+      creditsAttempted: sumCredits(termAttempts),
+      creditsEarned,
+      cumulativeCreditsEarned,
+      classStanding: getClassStanding(cumulativeCreditsEarned),
+      status: getAcademicStatus(
+        termGpa,
+        cumulativeGpa,
+        termGrades.some((grade) => grade !== null && isFailingGrade(grade))
+      ),
+    };
+  });
+}
+
+/**
+ * Returns the first planned semester that would put the student on
+ * probation when the semester before it did not, or null.
+ */
+export function findProbationRisk(
+  timeline: SemesterStanding[]
+): SemesterStanding | null {
+  let previous: SemesterStanding | null = null;
+  for (const standing of timeline) {
+    if (standing.status === "pending") continue;
+    if (
+      standing.isPlanned &&
+      standing.status === "probation" &&
+      previous?.status !== "probation"
+    ) {
+      return standing;
+    }
+    previous = standing;
+  }
+  return null;
+}
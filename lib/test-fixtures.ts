@@ -0,0 +1,16 @@
+// Fixtures shared by the unit tests (lib/*.test.ts)
+
+import { AttemptLike } from "@/lib/academic";
+
+export type TestAttempt = AttemptLike & { credits: string };
+
+/**
+ * A transcript row. The grade defaults to "--" (not graded yet) and the
+ * credits to 3.
+ */
+export const attempt = (
+  semester: string,
+  code: string,
+  grade = "--",
+  credits = "3"
+): TestAttempt => ({ semester, code, grade, credits });
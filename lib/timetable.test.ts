@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { Lesson, PHYSICAL_DELIVERY_MODE } from "@/lib/lessons";
+import { buildTimetable } from "@/lib/timetable";
+
+const lesson = (
+  id: string,
+  sessions: [day: string, time: string][]
+): Lesson => ({
+  lesson_id: id,
+  course_code: `BLG ${id}`,
+  delivery_mode: PHYSICAL_DELIVERY_MODE,
+  instructor: "",
+  capacity: "",
+  enrolled: "",
+  sessions: sessions.map(([day, time]) => ({
+    location: "EEB",
+    day,
+    time,
+    room: "",
+  })),
+});
+
+// Column layout of the blocks by lesson id
+const layout = (lessons: Lesson[]) =>
+  Object.fromEntries(
+    buildTimetable(lessons).blocks.map((block) => [
+      block.lesson.lesson_id,
+      [block.column, block.columns],
+    ])
+  );
+
+describe("buildTimetable", () => {
+  it("puts overlapping sessions side by side", () => {
+    expect(
+      layout([
+        lesson("101", [["Pazartesi", "08:30/11:29"]]),
+        lesson("102", [["Pazartesi", "10:30/12:29"]]),
+      ])
+    ).toEqual({ "101": [0, 2], "102": [1, 2] });
+  });
+
+  it("keeps adjacent sessions in one column", () => {
+    expect(
+      layout([
+        lesson("101", [["Pazartesi", "08:30/10:29"]]),
+        lesson("102", [["Pazartesi", "10:30/12:29"]]),
+        lesson("103", [["Pazartesi", "12:29/13:29"]]),
+      ])
+    ).toEqual({ "101": [0, 1], "102": [0, 1], "103": [0, 1] });
+  });
+
+  it("shares the columns of a chain of overlaps and reuses a free column", () => {
+    expect(
+      layout([
+        lesson("101", [["Salı", "08:30/10:29"]]),
+        lesson("102", [["Salı", "09:30/11:29"]]),
+        lesson("103", [["Salı", "10:30/12:29"]]),
+      ])
+    ).toEqual({ "101": [0, 2], "102": [1, 2], "103": [0, 2] });
+  });
+
+  it("lays out each day on its own", () => {
+    expect(
+      layout([
+        lesson("101", [["Pazartesi", "08:30/11:29"]]),
+        lesson("102", [["Salı", "08:30/11:29"]]),
+      ])
+    ).toEqual({ "101": [0, 1], "102": [0, 1] });
+  });
+
+  it("covers evening sessions and shows weekend days only when used", () => {
+    const timetable = buildTimetable([
+      lesson("101", [["Cumartesi", "17:30/20:29"]]),
+    ]);
+    expect(timetable.days).toEqual([
+      "Monday",
+      "Tuesday",
+      "Wednesday",
+      "Thursday",
+      "Friday",
+      "Saturday",
+    ]);
+    expect(timetable.start).toBe(8 * 60 + 30);
+    expect(timetable.end).toBe(20 * 60 + 30);
+  });
+
+  it("collects sessions without a day or time", () => {
+    const timetable = buildTimetable([
+      lesson("101", [
+        ["Pazartesi", "08:30/11:29"],
+        ["-", "-/-"],
+      ]),
+      lesson("102", []),
+    ]);
+    expect(timetable.blocks).toHaveLength(1);
+    expect(
+      timetable.unscheduled.map(({ lesson, sessions }) => [
+        lesson.lesson_id,
+        sessions.length,
+      ])
+    ).toEqual([
+      ["101", 1],
+      ["102", 0],
+    ]);
+  });
+});
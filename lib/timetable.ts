@@ -0,0 +1,142 @@
+// Weekly timetable layout for the lesson calendar: places every scheduled
+// session on its day, puts overlapping sessions side by side, and collects
+// sessions without a fixed day or time separately.
+
+import {
+  Lesson,
+  LessonSession,
+  WEEK_DAYS,
+  getSessionDay,
+  parseSessionTime,
+} from "@/lib/lessons";
+
+export interface TimetableBlock {
+  lesson: Lesson;
+  session: LessonSession;
+  day: string;
+  // Minutes since midnight
+  start: number;
+  end: number;
+  // Position among overlapping sessions: column `column` of `columns`
+  column: number;
+  columns: number;
+}
+
+// A section with sessions that have no fixed day or time (online or "-")
+export interface UnscheduledSection {
+  lesson: Lesson;
+  sessions: LessonSession[];
+}
+
+export interface Timetable {
+  days: string[];
+  // Visible time range in minutes since midnight, on the slot grid
+  start: number;
+  end: number;
+  blocks: TimetableBlock[];
+  unscheduled: UnscheduledSection[];
+}
+
+// Grid resolution of the calendar in minutes
+export const TIMETABLE_SLOT_MINUTES = 30;
+
+// Shown when there are no sessions, and always included in the range
+const DEFAULT_START = 8 * 60 + 30;
+const DEFAULT_END = 17 * 60 + 30;
+
+// Weekend days are only shown when a session falls on them
+const WORK_DAYS = WEEK_DAYS.slice(0, 5);
+
+const floorToSlot = (minutes: number) =>
+  Math.floor(minutes / TIMETABLE_SLOT_MINUTES) * TIMETABLE_SLOT_MINUTES;
+
+const ceilToSlot = (minutes: number) =>
+  Math.ceil(minutes / TIMETABLE_SLOT_MINUTES) * TIMETABLE_SLOT_MINUTES;
+
+/**
+ * Assigns columns to the sessions of one day. Sessions that overlap, directly
+ * or through a chain of overlaps, form a cluster sharing the same number of
+ * columns; each session takes the first column that is free at its start.
+ */
+function layoutDay(blocks: TimetableBlock[]): TimetableBlock[] {
+  const sorted = [...blocks].sort((a, b) => a.start - b.start || b.end - a.end);
+  const laidOut: TimetableBlock[] = [];
+
+  let cluster: TimetableBlock[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    cluster.forEach((block) =>
+      laidOut.push({ ...block, columns: columnEnds.length })
+    );
+    cluster = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach((block) => {
+    if (block.start >= clusterEnd) closeCluster();
+    let column = columnEnds.findIndex((end) => end <= block.start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(block.end);
+    } else {
+      columnEnds[column] = block.end;
+    }
+    cluster.push({ ...block, column });
+    clusterEnd = Math.max(clusterEnd, block.end);
+  });
+  closeCluster();
+
+  return laidOut;
+}
+
+/**
+ * Builds the calendar layout of the given sections. The visible range covers
+ * every session (evening classes included), and Saturday or Sunday appear
+ * only when a session falls on them.
+ */
+export function buildTimetable(lessons: Lesson[]): Timetable {
+  const blocksByDay = new Map<string, TimetableBlock[]>();
+  const unscheduled: UnscheduledSection[] = [];
+
+  lessons.forEach((lesson) => {
+    const unscheduledSessions: LessonSession[] = [];
+    lesson.sessions.forEach((session) => {
+      const day = getSessionDay(session);
+      const range = parseSessionTime(session.time);
+      if (!day || !range || range.end <= range.start) {
+        unscheduledSessions.push(session);
+        return;
+      }
+      if (!blocksByDay.has(day)) blocksByDay.set(day, []);
+      blocksByDay.get(day)!.push({
+        lesson,
+        session,
+        day,
+        start: range.start,
+        end: range.end,
+        column: 0,
+        columns: 1,
+      });
+    });
+    if (unscheduledSessions.length > 0 || lesson.sessions.length === 0) {
+      unscheduled.push({ lesson, sessions: unscheduledSessions });
+    }
+  });
+
+  const days = WEEK_DAYS.filter(
+    (day) => WORK_DAYS.includes(day) || blocksByDay.has(day)
+  );
+  const blocks = days.flatMap((day) => layoutDay(blocksByDay.get(day) || []));
+
+  return {
+    days,
+    start: floorToSlot(
+      Math.min(DEFAULT_START, ...blocks.map((block) => block.start))
+    ),
+    end: ceilToSlot(Math.max(DEFAULT_END, ...blocks.map((block) => block.end))),
+    blocks,
+    unscheduled,
+  };
+}
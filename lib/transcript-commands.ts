@@ -0,0 +1,143 @@
+// Undoable transcript edits. Rows are found by semester and course code
+// rather than by position, so a command can still be reverted after other
+// edits have changed the transcript.
+
+import { AttemptLike } from "@/lib/academic";
+import { EditCommand, createCommandId } from "@/lib/edit-history";
+
+const matchesAttempt =
+  (semester: string, code: string) => (attempt: AttemptLike) =>
+    attempt.semester === semester && attempt.code === code;
+
+/**
+ * Adds a row after the last row of its semester.
+ */
+export function createAddAttemptCommand<T extends AttemptLike>(
+  label: string,
+  attempt: T
+): EditCommand<T[]> {
+  const matches = matchesAttempt(attempt.semester, attempt.code);
+  return {
+    id: createCommandId(),
+    label,
+    apply: (transcript) => {
+      const position =
+        transcript.map((row) => row.semester).lastIndexOf(attempt.semester) +
+          1 || transcript.length;
+      return [
+        ...transcript.slice(0, position),
+        attempt,
+        ...transcript.slice(position),
+      ];
+    },
+    revert: (transcript) => {
+      const index = transcript.map(matches).lastIndexOf(true);
+      return index === -1
+        ? transcript
+        : [...transcript.slice(0, index), ...transcript.slice(index + 1)];
+    },
+  };
+}
+
+/**
+ * Removes the rows matching `predicate`. Reverting puts them back where they
+ * were when the command was last applied.
+ */
+export function createRemoveAttemptsCommand<T extends AttemptLike>(
+  label: string,
+  predicate: (attempt: T) => boolean
+): EditCommand<T[]> {
+  let removed: { attempt: T; index: number }[] = [];
+  return {
+    id: createCommandId(),
+    label,
+    apply: (transcript) => {
+      removed = transcript
+        .map((attempt, index) => ({ attempt, index }))
+        .filter(({ attempt }) => predicate(attempt));
+      return transcript.filter((attempt) => !predicate(attempt));
+    },
+    revert: (transcript) => {
+      const restored = [...transcript];
+      removed.forEach(({ attempt, index }) => {
+        restored.splice(Math.min(index, restored.length), 0, attempt);
+      });
+      return restored;
+    },
+  };
+}
+
+/**
+ * Removes one course attempt of a semester.
+ */
+export function createDeleteAttemptCommand<T extends AttemptLike>(
+  label: string,
+  semester: string,
+  code: string
+): EditCommand<T[]> {
+  return createRemoveAttemptsCommand<T>(label, matchesAttempt(semester, code));
+}
+
+/**
+ * Removes one row, found by identity rather than by semester and code, so
+ * other rows of the same course in that semester (duplicates) are kept.
+ */
+export function createRemoveRowCommand<T extends AttemptLike>(
+  label: string,
+  row: T
+): EditCommand<T[]> {
+  return createRemoveAttemptsCommand<T>(label, (attempt) => attempt === row);
+}
+
+/**
+ * Changes fields of a course attempt. Reverting restores the values the
+ * fields had before the command was last applied.
+ */
+export function createUpdateAttemptCommand<T extends AttemptLike>(
+  label: string,
+  semester: string,
+  code: string,
+  changes: Partial<T>
+): EditCommand<T[]> {
+  const matches = matchesAttempt(semester, code);
+  let previous: Partial<T> = {};
+  const update = (values: Partial<T>) => (transcript: T[]) =>
+    transcript.map((attempt) =>
+      matches(attempt) ? { ...attempt, ...values } : attempt
+    );
+  return {
+    id: createCommandId(),
+    label,
+    apply: (transcript) => {
+      const current = transcript.find(matches);
+      previous = Object.fromEntries(
+        Object.keys(changes).map((field) => [
+          field,
+          current?.[field as keyof T],
+        ])
+      ) as Partial<T>;
+      return update(changes)(transcript);
+    },
+    revert: (transcript) => update(previous)(transcript),
+  };
+}
+
+/**
+ * Changes fields of one row, found by identity like createRemoveRowCommand.
+ * Reverting puts the original row back.
+ */
+export function createUpdateRowCommand<T extends AttemptLike>(
+  label: string,
+  row: T,
+  changes: Partial<T>
+): EditCommand<T[]> {
+  const updated: T = { ...row, ...changes };
+  return {
+    id: createCommandId(),
+    label,
+    apply: (transcript) =>
+      transcript.map((attempt) => (attempt === row ? updated : attempt)),
+    revert: (transcript) =>
+      transcript.map((attempt) => (attempt === updated ? row : attempt)),
+  };
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectColumnMapping,
+  getImportFormat,
+  importParsedCourses,
+  importPortalText,
+  importTableRows,
+  importTranscriptJson,
+  normalizeSemesterName,
+  parseCsv,
+  validateImportedCourse,
+} from "@/lib/transcript-import";
+
+describe("normalizeSemesterName", () => {
+  it("names semesters the way transcripts do", () => {
+    expect(normalizeSemesterName("2023-2024 Fall")).toBe(
+      "2023-2024 Güz Dönemi"
+    );
+    expect(normalizeSemesterName("2023/2024 bahar")).toBe(
+      "2023-2024 Bahar Dönemi"
+    );
+    expect(normalizeSemesterName("2025-2026 Yaz Planı")).toBe(
+      "2025-2026 Yaz Planı"
+    );
+  });
+
+  it("rejects text that is not a semester", () => {
+    expect(normalizeSemesterName("2023-2025 Güz")).toBeNull();
+    expect(normalizeSemesterName("Fall")).toBeNull();
+  });
+});
+
+describe("getImportFormat", () => {
+  it("detects the format from the extension", () => {
+    expect(getImportFormat("transcript.PDF")).toBe("pdf");
+    expect(getImportFormat("grades.tsv")).toBe("csv");
+    expect(getImportFormat("grades.xlsx")).toBe("xlsx");
+    expect(getImportFormat("grades.xls")).toBeNull();
+  });
+});
+
+describe("validateImportedCourse", () => {
+  it("returns the course in canonical form", () => {
+    expect(
+      validateImportedCourse({
+        semester: "2023-2024 Güz",
+        code: "blg101e",
+        credits: "3,5",
+        grade: "bb",
+      })
+    ).toEqual({
+      course: {
+        semester: "2023-2024 Güz Dönemi",
+        code: "BLG 101E",
+        name: "BLG 101E",
+        credits: "3.5",
+        grade: "BB",
+      },
+      errors: [],
+    });
+  });
+
+  it("treats an empty grade as a course in progress", () => {
+    const { course } = validateImportedCourse({
+      semester: "2025-2026 Güz Planı",
+      code: "MAT 103",
+      grade: "",
+    });
+    expect(course?.grade).toBe("--");
+  });
+
+  it("reports every problem of a row", () => {
+    expect(
+      validateImportedCourse({
+        semester: "Fall",
+        code: "MAT",
+        credits: "three",
+        grade: "XX",
+      })
+    ).toEqual({
+      course: null,
+      errors: [
+        '"Fall" is not a semester such as "2023-2024 Güz"',
+        '"MAT" is not a course code',
+        'credits "three" is not a number',
+        '"XX" is not a letter grade',
+      ],
+    });
+  });
+});
+
+describe("parseCsv", () => {
+  it("detects the delimiter and reads quoted cells", () => {
+    expect(
+      parseCsv('\uFEFFCode;Name;Grade\r\nBLG 101E;"Intro; ""IS""";AA\n\n')
+    ).toEqual([
+      ["Code", "Name", "Grade"],
+      ["BLG 101E", 'Intro; "IS"', "AA"],
+    ]);
+  });
+});
+
+describe("importTableRows", () => {
+  it("repeats the semester of the row above and reports bad rows", () => {
+    const rows = [
+      ["Dönem", "Ders Kodu", "Kredi", "Not"],
+      ["2023-2024 Güz", "MAT 103", "4", "CC"],
+      ["", "BLG 101E", "3", "AA"],
+      ["", "FIZ", "3", "BB"],
+    ];
+    const result = importTableRows(rows, detectColumnMapping(rows[0]));
+    expect(result.courses.map((c) => [c.semester, c.code])).toEqual([
+      ["2023-2024 Güz Dönemi", "MAT 103"],
+      ["2023-2024 Güz Dönemi", "BLG 101E"],
+    ]);
+    expect(result.issues).toEqual([
+      { row: 4, message: '"FIZ" is not a course code' },
+    ]);
+  });
+
+  it("asks for the required columns that are not mapped", () => {
+    const result = importTableRows(
+      [["Code", "Grade"]],
+      detectColumnMapping(["Code", "Grade"])
+    );
+    expect(result.issues).toEqual([
+      { row: 0, message: "map a column to semester" },
+    ]);
+  });
+});
+
+describe("importPortalText", () => {
+  it("reads course lines under semester headings", () => {
+    const result = importPortalText(
+      [
+        "2023-2024 Güz Dönemi",
+        "MAT103 Mathematics I 4 6 CC",
+        "BLG 101E Introduction to Information Systems 3 5 AA",
+        "Dönem Ortalaması 2.86",
+      ].join("\n")
+    );
+    expect(result.issues).toEqual([]);
+    expect(result.courses).toEqual([
+      {
+        semester: "2023-2024 Güz Dönemi",
+        code: "MAT 103",
+        name: "Mathematics I",
+        credits: "4",
+        grade: "CC",
+      },
+      {
+        semester: "2023-2024 Güz Dönemi",
+        code: "BLG 101E",
+        name: "Introduction to Information Systems",
+        credits: "3",
+        grade: "AA",
+      },
+    ]);
+  });
+
+  it("reports course lines before a semester heading", () => {
+    expect(importPortalText("MAT 103 Mathematics I 4 CC").issues).toEqual([
+      { row: 1, message: "course line before any semester heading" },
+    ]);
+  });
+});
+
+describe("importTranscriptJson", () => {
+  it("keeps placeholders and lesson selections of planned courses", () => {
+    const result = importTranscriptJson(
+      JSON.stringify({
+        courses: [
+          {
+            semester: "2025-2026 Bahar Planı",
+            code: "PLACEHOLDER",
+            name: "",
+            credits: "0",
+            grade: "--",
+          },
+          {
+            semester: "2025-2026 Güz Planı",
+            code: "BLG 223E",
+            name: "Data Structures",
+            credits: 4,
+            grade: "--",
+            selectedLessons: [{ lessonId: "10001" }],
+          },
+        ],
+      })
+    );
+    expect(result.issues).toEqual([]);
+    expect(result.courses[0].code).toBe("PLACEHOLDER");
+    expect(result.courses[1]).toMatchObject({
+      credits: "4",
+      selectedLessons: [{ lessonId: "10001" }],
+    });
+  });
+
+  it("reports invalid JSON and unexpected shapes", () => {
+    expect(importTranscriptJson("{").issues[0].message).toMatch(
+      /^invalid JSON/
+    );
+    expect(importTranscriptJson('{"items": []}').issues).toEqual([
+      { row: 0, message: "expected an array of courses or { courses: [] }" },
+    ]);
+    expect(importTranscriptJson("[1]").issues).toEqual([
+      { row: 1, message: "expected an object" },
+    ]);
+  });
+});
+
+describe("importParsedCourses", () => {
+  it("validates courses returned by the PDF parser", () => {
+    const result = importParsedCourses([
+      {
+        semester: "2023-2024 Güz Dönemi",
+        code: "MAT103",
+        name: "Mathematics I",
+        credits: "4",
+        grade: "CC",
+      },
+      {
+        semester: "2023-2024 Güz Dönemi",
+        code: "MAT 104",
+        name: "Mathematics II",
+        credits: "4",
+        grade: "??",
+      },
+    ]);
+    expect(result.courses.map((c) => c.code)).toEqual(["MAT 103"]);
+    expect(result.issues).toEqual([
+      { row: 2, message: '"??" is not a letter grade' },
+    ]);
+  });
+});
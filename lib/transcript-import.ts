@@ -0,0 +1,429 @@
+// Transcript importers for formats other than the university PDF: CSV/TSV
+// and spreadsheet rows with a column mapping, text copied from the student
+// portal, and the app's own JSON export. Every importer returns the valid
+// courses together with per-row issues, so nothing is stored before the
+// student has reviewed them.
+
+import { SelectedLesson, TranscriptCourse } from "@/lib/actions";
+import {
+  FAILING_GRADES,
+  GRADE_SCALE,
+  PLANNED_GRADE,
+  parseSemester,
+  stripPlannedMarker,
+} from "@/lib/academic";
+import { parseCourseCode } from "@/lib/course-codes";
+
+export type TranscriptColumn =
+  | "semester"
+  | "code"
+  | "name"
+  | "credits"
+  | "grade";
+
+export const TRANSCRIPT_COLUMNS: TranscriptColumn[] = [
+  "semester",
+  "code",
+  "name",
+  "credits",
+  "grade",
+];
+
+// Index of the source column for each transcript field, -1 when unmapped
+export type ColumnMapping = Record<TranscriptColumn, number>;
+
+export interface ImportIssue {
+  // 1-based row or line number in the source, 0 for the whole file
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  courses: TranscriptCourse[];
+  issues: ImportIssue[];
+}
+
+export type ImportFormat = "pdf" | "csv" | "xlsx" | "text" | "json";
+
+// Header names accepted for each column (English, Turkish and JSON names)
+const COLUMN_ALIASES: Record<TranscriptColumn, string[]> = {
+  semester: ["semester", "term", "dönem", "yarıyıl", "yariyil"],
+  code: ["code", "course code", "ders kodu", "kod"],
+  name: ["name", "course name", "course", "ders adı", "ders adi", "ders"],
+  credits: ["credits", "credit", "kredi", "cr"],
+  grade: ["grade", "letter grade", "not", "harf notu"],
+};
+
+const REQUIRED_COLUMNS: TranscriptColumn[] = ["semester", "code", "grade"];
+
+const PLACEHOLDER_CODE = "PLACEHOLDER";
+
+const TERM_NAMES: Record<string, string> = {
+  güz: "Güz",
+  guz: "Güz",
+  fall: "Güz",
+  autumn: "Güz",
+  bahar: "Bahar",
+  spring: "Bahar",
+  yaz: "Yaz",
+  summer: "Yaz",
+};
+
+const SEMESTER_PATTERN =
+  /(\d{4})\s*[-/]\s*(\d{4})\s+(güz|guz|fall|autumn|bahar|spring|yaz|summer)/i;
+
+// Grades a transcript row may have: the grade scale, failing grades, "--"
+// for courses in progress and "BB*" for grades picked for planned courses
+const KNOWN_GRADES = new Set([...GRADE_SCALE, ...FAILING_GRADES]);
+
+const CREDITS_PATTERN = /^\d+(?:[.,]\d+)?$/;
+
+/**
+ * Detects the format from the file name, or null if it is not supported.
+ */
+export function getImportFormat(fileName: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop() || "";
+  if (extension === "pdf") return "pdf";
+  if (extension === "csv" || extension === "tsv") return "csv";
+  if (extension === "xlsx") return "xlsx";
+  if (extension === "txt") return "text";
+  if (extension === "json") return "json";
+  return null;
+}
+
+/**
+ * Normalizes a semester name to the transcript form, e.g. "2023-2024 Fall"
+ * -> "2023-2024 Güz Dönemi". Plans ("... Güz Planı") keep their suffix.
+ * Returns null if the text does not name a semester.
+ */
+export function normalizeSemesterName(value: string): string | null {
+  const match = value.trim().match(SEMESTER_PATTERN);
+  if (!match) return null;
+  const [, startYear, endYear, term] = match;
+  if (parseInt(endYear) !== parseInt(startYear) + 1) return null;
+  const suffix = /plan/i.test(value) ? "Planı" : "Dönemi";
+  return `${startYear}-${endYear} ${
+    TERM_NAMES[term.toLocaleLowerCase("tr")]
+  } ${suffix}`;
+}
+
+function normalizeGrade(value: string): string {
+  const grade = value.trim().toUpperCase();
+  return grade === "" || grade === "-" ? PLANNED_GRADE : grade;
+}
+
+/**
+ * Validates one imported row and returns the course in canonical form, or
+ * the problems found.
+ */
+export function validateImportedCourse(fields: {
+  semester: string;
+  code: string;
+  name?: string;
+  credits?: string;
+  grade: string;
+}): { course: TranscriptCourse | null; errors: string[] } {
+  const errors: string[] = [];
+
+  const semester = normalizeSemesterName(fields.semester);
+  if (!semester) {
+    errors.push(
+      `"${fields.semester}" is not a semester such as "2023-2024 Güz"`
+    );
+  }
+
+  const code = parseCourseCode(fields.code);
+  if (!code) errors.push(`"${fields.code}" is not a course code`);
+
+  const creditsText = (fields.credits || "").trim().replace(",", ".");
+  if (creditsText !== "" && !CREDITS_PATTERN.test(creditsText)) {
+    errors.push(`credits "${fields.credits}" is not a number`);
+  }
+
+  const grade = normalizeGrade(fields.grade);
+  if (grade !== PLANNED_GRADE && !KNOWN_GRADES.has(stripPlannedMarker(grade))) {
+    errors.push(`"${fields.grade}" is not a letter grade`);
+  }
+
+  if (errors.length > 0 || !semester || !code) return { course: null, errors };
+  return {
+    course: {
+      semester,
+      code: code.canonical,
+      name: (fields.name || "").trim() || code.canonical,
+      credits: creditsText === "" ? "0" : String(parseFloat(creditsText)),
+      grade,
+    },
+    errors,
+  };
+}
+
+// Helper function to collect a validated row into the result
+function addRow(
+  result: ImportResult,
+  row: number,
+  fields: Parameters<typeof validateImportedCourse>[0]
+) {
+  const { course, errors } = validateImportedCourse(fields);
+  if (course) result.courses.push(course);
+  errors.forEach((message) => result.issues.push({ row, message }));
+}
+
+/**
+ * Splits CSV or TSV content into rows. The delimiter (comma, semicolon or
+ * tab) is taken from the first line; quoted cells may contain delimiters,
+ * doubled quotes and line breaks.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, "");
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = ["\t", ";", ","].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value !== ""));
+}
+
+/**
+ * Guesses the column mapping from a header row. Columns that are not found
+ * are -1.
+ */
+export function detectColumnMapping(header: string[]): ColumnMapping {
+  const normalizedHeader = header.map((name) => name.trim().toLowerCase());
+  const mapping = {} as ColumnMapping;
+  TRANSCRIPT_COLUMNS.forEach((column) => {
+    mapping[column] = normalizedHeader.findIndex((name) =>
+      COLUMN_ALIASES[column].includes(name)
+    );
+  });
+  return mapping;
+}
+
+export function getMissingColumns(mapping: ColumnMapping): TranscriptColumn[] {
+  return REQUIRED_COLUMNS.filter((column) => mapping[column] === -1);
+}
+
+/**
+ * Imports table rows (CSV or spreadsheet) with the given column mapping. The
+ * first row is the header. A semester cell may be left empty to repeat the
+ * semester of the row above, as exports grouped by semester often do.
+ */
+export function importTableRows(
+  rows: string[][],
+  mapping: ColumnMapping
+): ImportResult {
+  const result: ImportResult = { courses: [], issues: [] };
+  const missing = getMissingColumns(mapping);
+  if (missing.length > 0) {
+    result.issues.push({
+      row: 0,
+      message: `map a column to ${missing.join(", ")}`,
+    });
+    return result;
+  }
+
+  const cell = (cells: string[], column: TranscriptColumn) =>
+    mapping[column] === -1 ? "" : (cells[mapping[column]] || "").trim();
+
+  let semester = "";
+  rows.slice(1).forEach((cells, index) => {
+    semester = cell(cells, "semester") || semester;
+    addRow(result, index + 2, {
+      semester,
+      code: cell(cells, "code"),
+      name: cell(cells, "name"),
+      credits: cell(cells, "credits"),
+      grade: cell(cells, "grade"),
+    });
+  });
+  return result;
+}
+
+/**
+ * Imports text copied from the student portal's transcript page: semester
+ * headings ("2023-2024 Güz Dönemi") followed by course lines of code, name,
+ * credits (optionally followed by ECTS) and grade. Other lines are ignored.
+ */
+export function importPortalText(text: string): ImportResult {
+  const result: ImportResult = { courses: [], issues: [] };
+  let semester: string | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === "") return;
+
+    const tokens = line.split(/\s+/);
+    // Codes are written "BLG 101E" or "BLG101E"
+    const codeTokens = parseCourseCode(tokens[0])
+      ? 1
+      : tokens.length > 1 && parseCourseCode(`${tokens[0]} ${tokens[1]}`)
+      ? 2
+      : 0;
+
+    if (codeTokens === 0) {
+      semester = normalizeSemesterName(line) || semester;
+      return;
+    }
+
+    const rest = tokens.slice(codeTokens);
+    const grade = rest.length > 1 ? rest.pop()! : "";
+    // Trailing numbers are credits and ECTS; the first one is the credits
+    let numbers = 0;
+    while (
+      numbers < rest.length &&
+      CREDITS_PATTERN.test(rest[rest.length - 1 - numbers])
+    ) {
+      numbers++;
+    }
+    const credits = numbers > 0 ? rest[rest.length - numbers] : "";
+    const name = rest.slice(0, rest.length - numbers).join(" ");
+
+    if (!semester) {
+      result.issues.push({
+        row: index + 1,
+        message: "course line before any semester heading",
+      });
+      return;
+    }
+    addRow(result, index + 1, {
+      semester,
+      code: tokens.slice(0, codeTokens).join(" "),
+      name,
+      credits,
+      grade,
+    });
+  });
+
+  if (result.courses.length === 0 && result.issues.length === 0) {
+    result.issues.push({ row: 0, message: "no course lines were found" });
+  }
+  return result;
+}
+
+/**
+ * Imports the app's JSON export: an array of transcript courses, or an
+ * object with a `courses` array as returned by the backend.
+ */
+export function importTranscriptJson(content: string): ImportResult {
+  const result: ImportResult = { courses: [], issues: [] };
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    result.issues.push({
+      row: 0,
+      message: `invalid JSON: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    });
+    return result;
+  }
+
+  const courses = Array.isArray(data)
+    ? data
+    : typeof data === "object" &&
+      data !== null &&
+      Array.isArray((data as { courses?: unknown }).courses)
+    ? (data as { courses: unknown[] }).courses
+    : null;
+  if (!courses) {
+    result.issues.push({
+      row: 0,
+      message: "expected an array of courses or { courses: [] }",
+    });
+    return result;
+  }
+
+  courses.forEach((item, index) => {
+    if (typeof item !== "object" || item === null) {
+      result.issues.push({ row: index + 1, message: "expected an object" });
+      return;
+    }
+    const course = item as Record<string, unknown>;
+    const text = (value: unknown) =>
+      typeof value === "string" || typeof value === "number"
+        ? String(value)
+        : "";
+    // Placeholder rows of empty planned semesters are kept as they are
+    if (
+      course.code === PLACEHOLDER_CODE &&
+      parseSemester(text(course.semester)).isPlanned
+    ) {
+      result.courses.push(course as unknown as TranscriptCourse);
+      return;
+    }
+
+    const count = result.courses.length;
+    addRow(result, index + 1, {
+      semester: text(course.semester),
+      code: text(course.code),
+      name: text(course.name),
+      credits: text(course.credits),
+      grade: text(course.grade),
+    });
+    // Lesson selections of planned courses survive a round trip
+    if (result.courses.length > count) {
+      const imported = result.courses[count];
+      if (
+        Array.isArray(course.selectedLessons) &&
+        course.selectedLessons.every(
+          (lesson) =>
+            typeof lesson === "object" &&
+            lesson !== null &&
+            typeof lesson.lessonId === "string"
+        )
+      ) {
+        imported.selectedLessons = course.selectedLessons as SelectedLesson[];
+      }
+      if (typeof course.lesson_id === "string") {
+        imported.lesson_id = course.lesson_id;
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Validates courses returned by the PDF parser, so they are reviewed like
+ * the other formats.
+ */
+export function importParsedCourses(courses: TranscriptCourse[]): ImportResult {
+  const result: ImportResult = { courses: [], issues: [] };
+  courses.forEach((course, index) => addRow(result, index + 1, course));
+  return result;
+}
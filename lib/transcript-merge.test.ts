@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { SelectedLesson, TranscriptCourse } from "@/lib/actions";
+import { PHYSICAL_DELIVERY_MODE } from "@/lib/lessons";
+import {
+  createTranscriptMergeCommand,
+  diffTranscripts,
+} from "@/lib/transcript-merge";
+
+const course = (
+  semester: string,
+  code: string,
+  grade: string,
+  credits = "3",
+  name = code
+): TranscriptCourse => ({ semester, code, name, credits, grade });
+
+const lesson: SelectedLesson = {
+  courseCode: "BLG 223E",
+  lessonId: "10001",
+  session: { location: "EEB", day: "Pazartesi", time: "08:30/11:29", room: "" },
+  instructor: "",
+  deliveryMode: PHYSICAL_DELIVERY_MODE,
+};
+
+const FALL = "2023-2024 Güz Dönemi";
+const SPRING = "2023-2024 Bahar Dönemi";
+const PLANNED = "2024-2025 Güz Planı";
+
+describe("diffTranscripts", () => {
+  it("matches rows by semester and normalized course code", () => {
+    const diff = diffTranscripts(
+      [course(FALL, "MAT 103", "CC", "4", "Mathematics I")],
+      [course("2023-2024 Güz", "MAT103", "CC", "4.0", "Mathematics I")]
+    );
+    expect(diff.changes).toEqual([]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  it("lists added, changed and removed rows", () => {
+    const diff = diffTranscripts(
+      [
+        course(FALL, "MAT 103", "CC", "4"),
+        course(FALL, "BLG 101E", "BB"),
+        course(FALL, "FIZ 101", "DD"),
+      ],
+      [
+        course(FALL, "MAT 103", "BB", "4"),
+        course(FALL, "BLG 101E", "BB"),
+        course(SPRING, "MAT 104", "AA", "4"),
+      ]
+    );
+    expect(
+      diff.changes.map(({ kind, code, fields, isNewSemester }) => ({
+        kind,
+        code,
+        fields,
+        isNewSemester,
+      }))
+    ).toEqual([
+      {
+        kind: "changed",
+        code: "MAT 103",
+        fields: ["grade"],
+        isNewSemester: false,
+      },
+      { kind: "added", code: "MAT 104", fields: [], isNewSemester: true },
+      { kind: "removed", code: "FIZ 101", fields: [], isNewSemester: false },
+    ]);
+    expect(diff.changes.every((change) => change.defaultAccepted)).toBe(true);
+  });
+
+  it("keeps planned rows and placeholders", () => {
+    const diff = diffTranscripts(
+      [
+        course(FALL, "MAT 103", "CC", "4"),
+        course(PLANNED, "BLG 223E", "--", "4"),
+        course("2024-2025 Bahar Planı", "PLACEHOLDER", "--", "0"),
+      ],
+      [course(FALL, "MAT 103", "CC", "4")]
+    );
+    expect(diff.changes).toEqual([]);
+    expect(diff.preservedPlannedCount).toBe(1);
+  });
+
+  it("does not remove rows of semesters the import leaves out by default", () => {
+    const diff = diffTranscripts(
+      [course(FALL, "MAT 103", "CC", "4"), course(SPRING, "MAT 104", "BB")],
+      [course(SPRING, "MAT 104", "BB")]
+    );
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0]).toMatchObject({
+      kind: "removed",
+      code: "MAT 103",
+      defaultAccepted: false,
+    });
+  });
+});
+
+describe("createTranscriptMergeCommand", () => {
+  const stored: TranscriptCourse[] = [
+    course(FALL, "MAT 103", "CC", "4"),
+    course(FALL, "FIZ 101", "DD"),
+    {
+      ...course(PLANNED, "BLG 223E", "--", "4"),
+      selectedLessons: [lesson],
+    },
+  ];
+  const imported = [
+    course(FALL, "MAT 103", "BB", "4"),
+    course(FALL, "KIM 101", "AA"),
+  ];
+
+  it("applies only the accepted changes", () => {
+    const diff = diffTranscripts(stored, imported);
+    const accepted = new Set(
+      diff.changes
+        .filter((change) => change.kind !== "removed")
+        .map((change) => change.id)
+    );
+    const merged = createTranscriptMergeCommand(diff, accepted).apply(stored);
+    expect(merged.map((row) => [row.code, row.grade])).toEqual([
+      ["MAT 103", "BB"],
+      ["FIZ 101", "DD"],
+      ["KIM 101", "AA"],
+      ["BLG 223E", "--"],
+    ]);
+    expect(merged[3].selectedLessons).toEqual([lesson]);
+  });
+
+  it("can be undone as one edit", () => {
+    const diff = diffTranscripts(stored, imported);
+    const command = createTranscriptMergeCommand(
+      diff,
+      new Set(diff.changes.map((change) => change.id))
+    );
+    const merged = command.apply(stored);
+    expect(merged.map((row) => row.code)).toEqual([
+      "MAT 103",
+      "KIM 101",
+      "BLG 223E",
+    ]);
+    expect(command.revert(merged)).toEqual(stored);
+  });
+});
+
+describe("duplicate stored rows", () => {
+  // The old upload flow appended transcripts, storing every row twice
+  const stored = [
+    course(FALL, "BLG 101E", "BB"),
+    course(FALL, "BLG 101E", "BB"),
+    course(FALL, "MAT 103", "CC", "4"),
+  ];
+
+  it("removes only the row that was not matched", () => {
+    const diff = diffTranscripts(stored, [
+      course(FALL, "BLG 101E", "BA"),
+      course(FALL, "MAT 103", "CC", "4"),
+    ]);
+    expect(diff.changes.map((change) => change.kind)).toEqual([
+      "changed",
+      "removed",
+    ]);
+
+    const command = createTranscriptMergeCommand(
+      diff,
+      new Set(
+        diff.changes
+          .filter((change) => change.defaultAccepted)
+          .map((change) => change.id)
+      )
+    );
+    const merged = command.apply(stored);
+    expect(merged.map((row) => [row.code, row.grade])).toEqual([
+      ["BLG 101E", "BA"],
+      ["MAT 103", "CC"],
+    ]);
+    expect(command.revert(merged)).toEqual(stored);
+  });
+
+  it("updates only the matched row when the removal is rejected", () => {
+    const diff = diffTranscripts(stored, [course(FALL, "BLG 101E", "BA")]);
+    const changed = diff.changes.filter((change) => change.kind === "changed");
+    const merged = createTranscriptMergeCommand(
+      diff,
+      new Set(changed.map((change) => change.id))
+    ).apply(stored);
+    expect(merged.map((row) => [row.code, row.grade])).toEqual([
+      ["BLG 101E", "BA"],
+      ["BLG 101E", "BB"],
+      ["MAT 103", "CC"],
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+// Diff between the stored transcript and a newly imported one, so a student
+// re-uploading an updated transcript can review new semesters, changed grades
+// and removed rows instead of getting duplicates. Rows of planned semesters
+// are never removed, and changed rows keep their lesson selections.
+
+import { TranscriptCourse } from "@/lib/actions";
+import { isPlannedSemester, parseSemester } from "@/lib/academic";
+import { canonicalizeCourseCode } from "@/lib/course-codes";
+import { EditCommand, createBatchCommand } from "@/lib/edit-history";
+import {
+  createAddAttemptCommand,
+  createRemoveRowCommand,
+  createUpdateRowCommand,
+} from "@/lib/transcript-commands";
+
+export type TranscriptChangeKind = "added" | "changed" | "removed";
+
+export type TranscriptField = "name" | "credits" | "grade";
+
+export interface TranscriptChange {
+  id: string;
+  kind: TranscriptChangeKind;
+  semester: string;
+  code: string;
+  name: string;
+  // Stored row, for changed and removed rows
+  before: TranscriptCourse | null;
+  // Imported row, for added and changed rows
+  after: TranscriptCourse | null;
+  // Fields that differ, for changed rows
+  fields: TranscriptField[];
+  // Added rows of a semester the stored transcript does not have yet
+  isNewSemester: boolean;
+  // Whether the change is accepted unless the student rejects it
+  defaultAccepted: boolean;
+}
+
+export interface TranscriptDiff {
+  changes: TranscriptChange[];
+  // Imported rows identical to the stored ones
+  unchangedCount: number;
+  // Stored rows of planned semesters, kept as they are
+  preservedPlannedCount: number;
+}
+
+const TRANSCRIPT_FIELDS: TranscriptField[] = ["name", "credits", "grade"];
+
+const PLACEHOLDER_CODE = "PLACEHOLDER";
+
+// "2024-2025 Güz Dönemi" and "2024-2025 Güz" are the same semester; planned
+// semesters are kept apart from the completed term they plan
+function getSemesterKey(semester: string): string {
+  const { startYear, term, isPlanned } = parseSemester(semester);
+  if (!term) return semester;
+  return `${startYear} ${term}${isPlanned ? " plan" : ""}`;
+}
+
+const getAttemptKey = (attempt: TranscriptCourse) =>
+  `${getSemesterKey(attempt.semester)}|${canonicalizeCourseCode(attempt.code)}`;
+
+const normalizeField = (attempt: TranscriptCourse, field: TranscriptField) =>
+  field === "credits"
+    ? String(parseFloat(attempt.credits) || 0)
+    : attempt[field].trim();
+
+/**
+ * Compares an imported transcript with the stored one. Rows are matched by
+ * semester and course code.
+ */
+export function diffTranscripts(
+  stored: TranscriptCourse[],
+  imported: TranscriptCourse[]
+): TranscriptDiff {
+  const changes: TranscriptChange[] = [];
+  let unchangedCount = 0;
+
+  // Stored rows by key; a key may repeat if a course was entered twice
+  const storedByKey = new Map<string, number[]>();
+  stored.forEach((attempt, index) => {
+    if (attempt.code === PLACEHOLDER_CODE) return;
+    const key = getAttemptKey(attempt);
+    storedByKey.set(key, [...(storedByKey.get(key) || []), index]);
+  });
+  const storedSemesters = new Set(
+    stored.map((attempt) => getSemesterKey(attempt.semester))
+  );
+  const importedSemesters = new Set(
+    imported.map((attempt) => getSemesterKey(attempt.semester))
+  );
+  const matched = new Set<number>();
+
+  imported.forEach((attempt) => {
+    if (attempt.code === PLACEHOLDER_CODE) return;
+    const key = getAttemptKey(attempt);
+    const storedIndex = (storedByKey.get(key) || []).find(
+      (index) => !matched.has(index)
+    );
+
+    if (storedIndex === undefined) {
+      changes.push({
+        id: `added:${key}:${changes.length}`,
+        kind: "added",
+        semester: attempt.semester,
+        code: attempt.code,
+        name: attempt.name,
+        before: null,
+        after: attempt,
+        fields: [],
+        isNewSemester: !storedSemesters.has(getSemesterKey(attempt.semester)),
+        defaultAccepted: true,
+      });
+      return;
+    }
+
+    matched.add(storedIndex);
+    const before = stored[storedIndex];
+    const fields = TRANSCRIPT_FIELDS.filter(
+      (field) =>
+        normalizeField(before, field) !== normalizeField(attempt, field)
+    );
+    if (fields.length === 0) {
+      unchangedCount++;
+      return;
+    }
+    changes.push({
+      id: `changed:${key}:${changes.length}`,
+      kind: "changed",
+      semester: before.semester,
+      code: before.code,
+      name: attempt.name || before.name,
+      before,
+      after: attempt,
+      fields,
+      isNewSemester: false,
+      defaultAccepted: true,
+    });
+  });
+
+  let preservedPlannedCount = 0;
+  stored.forEach((attempt, index) => {
+    if (matched.has(index) || attempt.code === PLACEHOLDER_CODE) return;
+    if (isPlannedSemester(attempt.semester)) {
+      preservedPlannedCount++;
+      return;
+    }
+    changes.push({
+      id: `removed:${getAttemptKey(attempt)}:${changes.length}`,
+      kind: "removed",
+      semester: attempt.semester,
+      code: attempt.code,
+      name: attempt.name,
+      before: attempt,
+      after: null,
+      fields: [],
+      isNewSemester: false,
+      // Removing rows of a semester the import does not cover is rarely
+      // intended, e.g. when only one semester was pasted
+      defaultAccepted: importedSemesters.has(getSemesterKey(attempt.semester)),
+    });
+  });
+
+  return { changes, unchangedCount, preservedPlannedCount };
+}
+
+/**
+ * Creates the undoable edit that applies the accepted changes to the stored
+ * transcript the diff was made from. Changed and removed rows are found by
+ * identity, so a course entered twice in a semester only loses the row that
+ * was not matched. Changed rows keep their other properties (lesson
+ * selections), and added rows are placed after the last row of their semester.
+ */
+export function createTranscriptMergeCommand(
+  diff: TranscriptDiff,
+  acceptedIds: Set<string>
+): EditCommand<TranscriptCourse[]> {
+  const accepted = diff.changes.filter((change) => acceptedIds.has(change.id));
+
+  const commands = accepted.map((change) => {
+    const label = `${change.code} (${change.semester})`;
+    if (change.kind === "added" && change.after) {
+      return createAddAttemptCommand<TranscriptCourse>(
+        `Imported ${label}`,
+        change.after
+      );
+    }
+    if (change.kind === "changed" && change.before && change.after) {
+      return createUpdateRowCommand<TranscriptCourse>(
+        `Updated ${label}`,
+        change.before,
+        {
+          name: change.after.name || change.before.name,
+          credits: change.after.credits,
+          grade: change.after.grade,
+        }
+      );
+    }
+    return createRemoveRowCommand<TranscriptCourse>(
+      `Removed ${label}`,
+      change.before!
+    );
+  });
+
+  return createBatchCommand(
+    `Imported transcript (${accepted.length} changes)`,
+    commands
+  );
+}
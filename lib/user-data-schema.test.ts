@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  hasDroppedRecords,
+  validateStoredPlan,
+  validateStoredTranscript,
+} from "@/lib/user-data-schema";
+
+const SEMESTER = "2023-2024 Güz Dönemi";
+
+describe("validateStoredTranscript", () => {
+  it("converts numbers and reports the repairs", () => {
+    const { courses, report } = validateStoredTranscript([
+      { semester: SEMESTER, code: "MAT 103", name: "Math", credits: 4 },
+    ]);
+    expect(courses).toEqual([
+      {
+        semester: SEMESTER,
+        code: "MAT 103",
+        name: "Math",
+        credits: "4",
+        grade: "",
+      },
+    ]);
+    expect(report.repaired).toEqual([
+      "courses[0] (MAT 103).credits: converted 4 to a string",
+      'courses[0] (MAT 103).grade: missing, set to ""',
+    ]);
+    expect(hasDroppedRecords(report)).toBe(false);
+  });
+
+  it("moves a legacy lesson to lesson_id", () => {
+    const { courses, report } = validateStoredTranscript([
+      {
+        semester: SEMESTER,
+        code: "MAT 103",
+        name: "Math",
+        credits: "4",
+        grade: "CC",
+        selectedLessons: [{ courseCode: "MAT 103", lessonId: "30012" }],
+      },
+    ]);
+    expect(courses[0].lesson_id).toBe("30012");
+    expect(courses[0]).not.toHaveProperty("selectedLessons");
+    expect(report.repaired).toEqual([
+      "courses[0] (MAT 103).selectedLessons: moved lesson 30012 to lesson_id",
+    ]);
+  });
+
+  it("reports selectedLessons removed next to a lesson_id", () => {
+    const { courses, report } = validateStoredTranscript([
+      {
+        semester: SEMESTER,
+        code: "MAT 103",
+        name: "Math",
+        credits: "4",
+        grade: "CC",
+        lesson_id: "30011",
+        selectedLessons: [{ courseCode: "MAT 103", lessonId: "30012" }],
+        note: "kept by an old client",
+      },
+    ]);
+    expect(courses[0].lesson_id).toBe("30011");
+    expect(report.repaired).toEqual([
+      "courses[0] (MAT 103).note: unknown field, removed",
+      "courses[0] (MAT 103).selectedLessons: removed, lesson_id is kept instead",
+    ]);
+  });
+
+  it("leaves out courses that cannot be repaired", () => {
+    const { courses, report } = validateStoredTranscript([
+      { semester: SEMESTER, code: "", name: "Math", credits: "4", grade: "" },
+      "MAT 104",
+    ]);
+    expect(courses).toEqual([]);
+    expect(report.dropped).toEqual([
+      "courses[0].code: expected a non-empty string",
+      "courses[1]: expected a course object",
+    ]);
+    expect(hasDroppedRecords(report)).toBe(true);
+  });
+});
+
+describe("validateStoredPlan", () => {
+  it("keeps the name and category of courses", () => {
+    const { plan, report } = validateStoredPlan([
+      [
+        {
+          type: "course",
+          code: "MAT 103",
+          name: "Math",
+          category: "",
+          options: [],
+        },
+        {
+          type: "elective",
+          code: "",
+          name: "Free Elective",
+          category: "Free",
+          options: ["BLG 101E", 7],
+        },
+      ],
+    ]);
+    expect(plan).toEqual([
+      [
+        { type: "course", code: "MAT 103", name: "Math" },
+        {
+          type: "elective",
+          code: "",
+          name: "Free Elective",
+          category: "Free",
+          options: ["BLG 101E"],
+        },
+      ],
+    ]);
+    expect(report.repaired).toEqual([
+      "plan[0][1].options: removed entries that are not codes",
+    ]);
+  });
+
+  it("reports fields of a course that are removed", () => {
+    const { plan, report } = validateStoredPlan([
+      [{ type: "course", code: "MAT 103", name: 5, credits: "4" }],
+    ]);
+    expect(plan).toEqual([[{ type: "course", code: "MAT 103" }]]);
+    expect(report.repaired).toEqual([
+      "plan[0][0].credits: unknown field, removed",
+      "plan[0][0].name: not a string, removed",
+    ]);
+  });
+
+  it("keeps the semester of an item that is dropped", () => {
+    const { plan, report } = validateStoredPlan(
+      JSON.stringify([[{ type: "lab", code: "FIZ 101L" }], "MAT 104"])
+    );
+    expect(plan).toEqual([[], []]);
+    expect(report.repaired).toEqual([
+      "plan: parsed a plan stored as a JSON string",
+    ]);
+    expect(report.dropped).toEqual([
+      'plan[0][0].type: expected "course" or "elective"',
+      "plan[1]: expected an array of courses and electives",
+    ]);
+  });
+});
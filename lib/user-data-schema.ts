@@ -0,0 +1,298 @@
+// Validation of the transcript and plan stored by the backend. The generated
+// client only casts API responses, so both are checked here before they reach
+// the views: known legacy shapes are repaired, and records that still do not
+// fit are left out and listed in the report instead of crashing a component.
+
+import { PlanCourse, TranscriptCourse } from "@/lib/actions";
+import { repairPlanSemesters } from "@/lib/plan-schema";
+
+export interface DataReport {
+  // Legacy shapes that were converted, e.g. "courses[3].credits: converted 3 to a string"
+  repaired: string[];
+  // Records that could not be repaired and were left out
+  dropped: string[];
+}
+
+export interface ValidatedTranscript {
+  courses: TranscriptCourse[];
+  report: DataReport;
+}
+
+export interface ValidatedPlan {
+  plan: PlanCourse[][];
+  report: DataReport;
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isNonEmptyString = (value: unknown): value is string =>
+  isString(value) && value.trim() !== "";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const createReport = (): DataReport => ({ repaired: [], dropped: [] });
+
+const TRANSCRIPT_COURSE_FIELDS = [
+  "semester",
+  "code",
+  "name",
+  "credits",
+  "grade",
+  "lesson_id",
+  "selectedLessons",
+];
+
+const PLAN_ITEM_FIELDS = ["type", "code", "name", "category", "options"];
+
+// Helper function to report fields that are not part of the schema, as they
+// are left out of the validated record
+function reportUnknownFields(
+  record: Record<string, unknown>,
+  fields: string[],
+  at: string,
+  report: DataReport
+) {
+  Object.keys(record)
+    .filter((field) => !fields.includes(field))
+    .forEach((field) =>
+      report.repaired.push(`${at}.${field}: unknown field, removed`)
+    );
+}
+
+// Helper function to read an optional text field, reporting a value that is
+// not a string as removed
+function readOptionalText(
+  record: Record<string, unknown>,
+  field: string,
+  at: string,
+  report: DataReport
+): string | undefined {
+  const value = record[field];
+  if (isString(value)) return value;
+  if (value !== undefined && value !== null) {
+    report.repaired.push(`${at}.${field}: not a string, removed`);
+  }
+  return undefined;
+}
+
+export const hasDroppedRecords = (report: DataReport | undefined) =>
+  !!report && report.dropped.length > 0;
+
+// Helper function to read a text field, converting numbers (older transcripts
+// stored credits as numbers) and treating a missing value as empty
+function readText(
+  record: Record<string, unknown>,
+  field: string,
+  at: string,
+  report: DataReport
+): string | null {
+  const value = record[field];
+  if (isString(value)) return value;
+  if (typeof value === "number") {
+    report.repaired.push(`${at}.${field}: converted ${value} to a string`);
+    return String(value);
+  }
+  if (value === undefined || value === null) {
+    report.repaired.push(`${at}.${field}: missing, set to ""`);
+    return "";
+  }
+  return null;
+}
+
+// Helper function to get the lesson of a course from the older
+// selectedLessons list, preferring the entry for the course itself
+function getLegacyLessonId(
+  course: Record<string, unknown>
+): string | undefined {
+  if (!Array.isArray(course.selectedLessons)) return undefined;
+  const lessons = course.selectedLessons.filter(
+    (lesson: unknown): lesson is Record<string, unknown> =>
+      isObject(lesson) && isNonEmptyString(lesson.lessonId)
+  );
+  const lesson =
+    lessons.find((item) => item.courseCode === course.code) || lessons[0];
+  return lesson ? (lesson.lessonId as string) : undefined;
+}
+
+function validateTranscriptCourse(
+  course: unknown,
+  at: string,
+  report: DataReport
+): TranscriptCourse | null {
+  if (!isObject(course)) {
+    report.dropped.push(`${at}: expected a course object`);
+    return null;
+  }
+  if (!isNonEmptyString(course.code)) {
+    report.dropped.push(`${at}.code: expected a non-empty string`);
+    return null;
+  }
+  const label = `${at} (${course.code})`;
+  if (!isNonEmptyString(course.semester)) {
+    report.dropped.push(`${label}.semester: expected a non-empty string`);
+    return null;
+  }
+
+  const name = readText(course, "name", label, report);
+  const credits = readText(course, "credits", label, report);
+  const grade = readText(course, "grade", label, report);
+  if (name === null || credits === null || grade === null) {
+    report.dropped.push(
+      `${label}: name, credits and grade must be strings or numbers`
+    );
+    return null;
+  }
+
+  const validated: TranscriptCourse = {
+    semester: course.semester,
+    code: course.code,
+    name,
+    credits,
+    grade,
+  };
+  reportUnknownFields(course, TRANSCRIPT_COURSE_FIELDS, label, report);
+
+  // Sections are kept as lesson_id; older transcripts used selectedLessons,
+  // which is always removed
+  let lessonId = course.lesson_id;
+  let movedLegacyLesson = false;
+  if (typeof lessonId === "number") {
+    lessonId = String(lessonId);
+    report.repaired.push(`${label}.lesson_id: converted to a string`);
+  }
+  if (!isNonEmptyString(lessonId)) {
+    if (lessonId !== undefined && lessonId !== null && lessonId !== "") {
+      report.repaired.push(`${label}.lesson_id: not a lesson id, removed`);
+    }
+    lessonId = getLegacyLessonId(course);
+    if (lessonId) {
+      movedLegacyLesson = true;
+      report.repaired.push(
+        `${label}.selectedLessons: moved lesson ${lessonId} to lesson_id`
+      );
+    }
+  }
+  if (isNonEmptyString(lessonId)) {
+    validated.lesson_id = lessonId;
+  }
+  if (course.selectedLessons !== undefined && !movedLegacyLesson) {
+    report.repaired.push(
+      getLegacyLessonId(course)
+        ? `${label}.selectedLessons: removed, lesson_id is kept instead`
+        : `${label}.selectedLessons: no lesson id, removed`
+    );
+  }
+
+  return validated;
+}
+
+/**
+ * Validates the courses of a stored transcript. Repairs legacy shapes and
+ * leaves out courses that cannot be repaired, listing both in the report.
+ */
+export function validateStoredTranscript(data: unknown): ValidatedTranscript {
+  const report = createReport();
+  if (!Array.isArray(data)) {
+    report.dropped.push("courses: expected an array of courses");
+    return { courses: [], report };
+  }
+
+  const courses = data
+    .map((course, index) =>
+      validateTranscriptCourse(course, `courses[${index}]`, report)
+    )
+    .filter((course): course is TranscriptCourse => course !== null);
+  return { courses, report };
+}
+
+function validatePlanCourse(
+  item: unknown,
+  at: string,
+  report: DataReport
+): PlanCourse | null {
+  if (!isObject(item)) {
+    report.dropped.push(`${at}: expected a course or elective object`);
+    return null;
+  }
+
+  if (item.type === "course") {
+    if (!isNonEmptyString(item.code)) {
+      report.dropped.push(`${at}.code: expected a non-empty string`);
+      return null;
+    }
+    reportUnknownFields(item, PLAN_ITEM_FIELDS, at, report);
+    // The API stores every item with options; only electives use them
+    if (Array.isArray(item.options) && item.options.length > 0) {
+      report.repaired.push(`${at}.options: a course has no options, removed`);
+    }
+    const course: PlanCourse = { type: "course", code: item.code };
+    const name = readOptionalText(item, "name", at, report);
+    const category = readOptionalText(item, "category", at, report);
+    if (name) course.name = name;
+    if (category) course.category = category;
+    return course;
+  }
+
+  if (item.type === "elective") {
+    if (!Array.isArray(item.options)) {
+      report.dropped.push(`${at}.options: expected an array of course codes`);
+      return null;
+    }
+    reportUnknownFields(item, PLAN_ITEM_FIELDS, at, report);
+    const options = item.options.filter(isNonEmptyString);
+    if (options.length !== item.options.length) {
+      report.repaired.push(`${at}.options: removed entries that are not codes`);
+    }
+    return {
+      type: "elective",
+      code: isString(item.code) ? item.code : "",
+      name: isString(item.name) ? item.name : "",
+      category: isString(item.category) ? item.category : "",
+      options,
+    };
+  }
+
+  report.dropped.push(`${at}.type: expected "course" or "elective"`);
+  return null;
+}
+
+/**
+ * Validates a stored plan. Repairs legacy shapes (see repairPlanSemesters,
+ * and plans stored as a JSON string) and leaves out semesters and items that
+ * cannot be repaired; a dropped semester stays as an empty one so the
+ * semester numbers do not shift.
+ */
+export function validateStoredPlan(data: unknown): ValidatedPlan {
+  const report = createReport();
+  let value = data;
+  if (isString(value)) {
+    try {
+      value = JSON.parse(value);
+      report.repaired.push("plan: parsed a plan stored as a JSON string");
+    } catch {
+      report.dropped.push("plan: not valid JSON");
+      return { plan: [], report };
+    }
+  }
+
+  const semesters = repairPlanSemesters(value, "plan", report.repaired);
+  if (!Array.isArray(semesters)) {
+    report.dropped.push("plan: expected an array of semesters");
+    return { plan: [], report };
+  }
+
+  const plan = semesters.map((semester: unknown, semesterIndex) => {
+    const at = `plan[${semesterIndex}]`;
+    if (!Array.isArray(semester)) {
+      report.dropped.push(`${at}: expected an array of courses and electives`);
+      return [];
+    }
+    return semester
+      .map((item, itemIndex) =>
+        validatePlanCourse(item, `${at}[${itemIndex}]`, report)
+      )
+      .filter((item): item is PlanCourse => item !== null);
+  });
+  return { plan, report };
+}
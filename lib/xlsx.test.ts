@@ -0,0 +1,89 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { SpreadsheetError, readXlsxRows } from "@/lib/xlsx";
+
+// Builds a zip archive with deflated entries
+function createZip(files: Record<string, string | Buffer>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBuffer = Buffer.from(name, "utf8");
+    const compressed = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    localParts.push(local, nameBuffer, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + compressed.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const SHEET = `<worksheet><sheetData>
+<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Grade</t></is></c></row>
+<row r="2"></row>
+<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3"><v>3</v></c><c r="C3" t="inlineStr"><is><t>AA</t></is></c></row>
+</sheetData></worksheet>`;
+
+const SHARED_STRINGS = `<sst><si><t>Code</t></si><si><t>BLG &amp; 101E</t></si></sst>`;
+
+describe("readXlsxRows", () => {
+  it("reads shared, inline and number cells of the first worksheet", () => {
+    const workbook = createZip({
+      "xl/sharedStrings.xml": SHARED_STRINGS,
+      "xl/worksheets/sheet2.xml": "<worksheet></worksheet>",
+      "xl/worksheets/sheet1.xml": SHEET,
+    });
+    expect(readXlsxRows(workbook)).toEqual([
+      ["Code", "", "Grade"],
+      ["BLG & 101E", "3", "AA"],
+    ]);
+  });
+
+  it("rejects a file that is not a workbook", () => {
+    expect(() => readXlsxRows(Buffer.from("not a zip file at all"))).toThrow(
+      new SpreadsheetError("File is not an .xlsx workbook")
+    );
+  });
+
+  it("rejects a truncated archive", () => {
+    const workbook = createZip({ "xl/worksheets/sheet1.xml": SHEET });
+    expect(() => readXlsxRows(workbook.subarray(40))).toThrow(SpreadsheetError);
+  });
+
+  it("rejects an archive with too many parts", () => {
+    const files = Object.fromEntries(
+      Array.from({ length: 101 }, (_, i) => [`part${i}.xml`, ""])
+    );
+    expect(() => readXlsxRows(createZip(files))).toThrow(
+      "Workbook has too many parts"
+    );
+  });
+
+  it("stops inflating an entry past the size limit", () => {
+    const workbook = createZip({
+      "xl/worksheets/sheet1.xml": Buffer.alloc(21 * 1024 * 1024),
+    });
+    expect(() => readXlsxRows(workbook)).toThrow("Workbook is too large");
+  });
+});
@@ -0,0 +1,199 @@
+// Minimal reader for the first worksheet of an .xlsx file (a zip of XML
+// parts). Only cell values are read; formatting, formulas and other sheets
+// are ignored. Server-only, as it uses zlib to inflate the zip entries.
+
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// Limits for untrusted uploads. A transcript workbook has a handful of small
+// parts, so anything past these is not a transcript (or is a zip bomb).
+const MAX_ENTRIES = 100;
+const MAX_UNCOMPRESSED_SIZE = 20 * 1024 * 1024;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+// Inflates one entry, allowing at most `limit` bytes of output
+function inflateEntry(compressed: Buffer, limit: number): Buffer {
+  try {
+    return inflateRawSync(compressed, { maxOutputLength: Math.max(limit, 1) });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new SpreadsheetError("Workbook is too large");
+    }
+    throw new SpreadsheetError("Workbook archive is corrupted");
+  }
+}
+
+// Reads every entry of a zip archive into memory, keyed by path
+function readZipEntries(data: Buffer): Map<string, Buffer> {
+  try {
+    return readZipDirectory(data);
+  } catch (error) {
+    if (error instanceof SpreadsheetError) throw error;
+    // Offsets pointing outside the file
+    throw new SpreadsheetError("Workbook archive is corrupted");
+  }
+}
+
+function readZipDirectory(data: Buffer): Map<string, Buffer> {
+  let end = -1;
+  // The end record is at least 22 bytes and may be followed by a comment
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new SpreadsheetError("File is not an .xlsx workbook");
+
+  const entryCount = data.readUInt16LE(end + 10);
+  if (entryCount > MAX_ENTRIES) {
+    throw new SpreadsheetError("Workbook has too many parts");
+  }
+  let offset = data.readUInt32LE(end + 16);
+  const entries = new Map<string, Buffer>();
+  let totalSize = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new SpreadsheetError("Workbook archive is corrupted");
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString("utf8");
+
+    if (data.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new SpreadsheetError("Workbook archive is corrupted");
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      data.readUInt16LE(localOffset + 26) +
+      data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+
+    let entry: Buffer | null = null;
+    if (method === STORED) entry = compressed;
+    else if (method === DEFLATED) {
+      entry = inflateEntry(compressed, MAX_UNCOMPRESSED_SIZE - totalSize);
+    }
+    if (entry) {
+      totalSize += entry.length;
+      if (totalSize > MAX_UNCOMPRESSED_SIZE) {
+        throw new SpreadsheetError("Workbook is too large");
+      }
+      entries.set(name, entry);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+const decodeXml = (text: string) =>
+  text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code =
+        name[1].toLowerCase() === "x"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+
+// Text of all <t> runs inside an element, e.g. a shared or inline string
+const readText = (xml: string) =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+    .map((match) => decodeXml(match[1]))
+    .join("");
+
+function readSharedStrings(xml: string | undefined): string[] {
+  if (!xml) return [];
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) =>
+    readText(match[1])
+  );
+}
+
+// "C12" -> 2
+function getColumnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] || "A";
+  return (
+    [...letters].reduce(
+      (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+      0
+    ) - 1
+  );
+}
+
+/**
+ * Returns the rows of the first worksheet as strings. Empty cells are "" and
+ * empty rows are skipped.
+ */
+export function readXlsxRows(data: Buffer): string[][] {
+  const entries = readZipEntries(data);
+  const sheetName =
+    [...entries.keys()]
+      .filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+      .sort((a, b) => parseInt(a.slice(19)) - parseInt(b.slice(19)))[0] || null;
+  if (!sheetName) throw new SpreadsheetError("Workbook has no worksheets");
+
+  const sharedStrings = readSharedStrings(
+    entries.get("xl/sharedStrings.xml")?.toString("utf8")
+  );
+  const sheet = entries.get(sheetName)!.toString("utf8");
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || "";
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const rawValue = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && rawValue !== undefined) {
+        value = sharedStrings[parseInt(rawValue)] ?? "";
+      } else if (type === "inlineStr") {
+        value = readText(content);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      const index = reference ? getColumnIndex(reference) : row.length;
+      while (row.length < index) row.push("");
+      row[index] = value.trim();
+    }
+    if (row.some((value) => value !== "")) rows.push(row);
+  }
+  return rows;
+}
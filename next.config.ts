@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  devIndicators: false
+  devIndicators: false,
+  // Catalog data and plans are read from disk by the API routes
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./data/catalog/**/*", "./data/plans.json"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,119 @@
+// Converts a flat curriculum plan (an array of semesters, like the old
+// public/plan.json) into an entry of the plans catalogue in data/plans.json.
+// The loader validates the result when the app reads it.
+//
+// Usage:
+//   node scripts/convert-plan.mjs <plan.json> --faculty <name> --program <name>
+//     --period <name> [--code <program code>] [--out data/plans.json]
+//
+// An existing period with the same faculty, program and period name is
+// replaced, so the script can be rerun after editing the source plan.
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+// Copy of the canonical pattern in lib/course-codes.ts, since this script runs
+// with plain node and cannot import TypeScript. Keep it and formatCode in sync
+// with that file.
+const COURSE_CODE_PATTERN = /^([A-ZÇĞİÖŞÜ]{2,4})\s*(\d{3,4})([A-Z]*)$/;
+
+function parseArgs(argv) {
+  const args = { out: "data/plans.json" };
+  const positional = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  args.input = positional[0];
+  return args;
+}
+
+// "BLG101E" -> "BLG 101E"; codes that do not parse are kept for the loader
+// to report
+function formatCode(code) {
+  const trimmed = String(code || "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toUpperCase();
+  const match = trimmed.match(COURSE_CODE_PATTERN);
+  return match ? `${match[1]} ${match[2]}${match[3]}` : trimmed;
+}
+
+// Accepts the shapes older plan files used: elective fields nested under
+// `data`, and semesters stored as { courses: [] } or as a single item
+function convertItem(item) {
+  if (item.type === "elective") {
+    const data = item.data || item;
+    return {
+      type: "elective",
+      name: data.name || "",
+      category: data.category || "",
+      options: (data.options || []).map(formatCode),
+    };
+  }
+  return { type: "course", code: formatCode(item.code) };
+}
+
+function convertSemester(semester) {
+  if (Array.isArray(semester)) return semester.map(convertItem);
+  if (semester && Array.isArray(semester.courses)) {
+    return semester.courses.map(convertItem);
+  }
+  if (semester && semester.type) return [convertItem(semester)];
+  throw new Error(`Cannot convert semester: ${JSON.stringify(semester)}`);
+}
+
+function upsert(list, name, create) {
+  let entry = list.find((item) => item.name === name);
+  if (!entry) {
+    entry = create();
+    list.push(entry);
+  }
+  return entry;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.input || !args.faculty || !args.program || !args.period) {
+    console.error(
+      "Usage: node scripts/convert-plan.mjs <plan.json> --faculty <name> --program <name> --period <name> [--code <program code>] [--out data/plans.json]"
+    );
+    process.exit(1);
+  }
+
+  const plan = JSON.parse(readFileSync(args.input, "utf8"));
+  if (!Array.isArray(plan)) {
+    console.error(`${args.input}: expected an array of semesters`);
+    process.exit(1);
+  }
+
+  const catalogue = existsSync(args.out)
+    ? JSON.parse(readFileSync(args.out, "utf8"))
+    : { faculties: [] };
+
+  const faculty = upsert(catalogue.faculties, args.faculty, () => ({
+    name: args.faculty,
+    programs: [],
+  }));
+  const program = upsert(faculty.programs, args.program, () => ({
+    name: args.program,
+    code: args.code,
+    periods: [],
+  }));
+  if (args.code) program.code = args.code;
+
+  const semesters = plan.map(convertSemester);
+  program.periods = program.periods.filter(
+    (period) => period.name !== args.period
+  );
+  program.periods.push({ name: args.period, semesters });
+
+  writeFileSync(args.out, JSON.stringify(catalogue, null, 2) + "\n");
+  console.log(
+    `Wrote ${args.faculty} / ${args.program} / ${args.period} (${semesters.length} semesters) to ${args.out}`
+  );
+}
+
+main();